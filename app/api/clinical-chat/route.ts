@@ -3,19 +3,36 @@
  *
  * This endpoint uses the LangGraph multi-agent orchestration system:
  * 1. Interview & Reasoning Agent (with sub-agents) - DURING chat
- * 2. Documentation Agent (SOAP generation) - AFTER interview ends at 95% confidence
+ * 2. Documentation Agent (SOAP generation) - AFTER interview ends
  * 3. Safety Agent (triage labeling) - AFTER SOAP generation
  *
- * SOAP/Safety agents only trigger when interview is complete (95% confidence)
+ * SOAP/Safety agents only trigger when the interview is complete, as decided
+ * by the deployment's completion policy (confidence, narrowed differential,
+ * turn limit or session time limit - see lib/agents/completion-policy.ts)
+ *
+ * Interview state (conversation, diagnosis state, retrieved sources, turn)
+ * lives on the ClinicalSession row - see lib/agents/interview-session.ts
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
   orchestrateClinicalInterview,
   completeInterviewAndGenerateReport,
+  loadInterviewSession,
+  saveInterviewTurn,
+  findResumableSession,
+  cancelStaleSessions,
+  cancelActiveSessions,
+  interviewElapsedSeconds,
+  symptomLabels,
+} from '@/lib/agents';
+import type {
+  PatientInfo,
+  InterviewSessionState,
+  InterviewStreamEvent,
 } from '@/lib/agents';
-import type { ChatMessage, DiagnosisState, PatientInfo } from '@/lib/agents';
 import { applyGuardrails, validateUserInput } from '@/lib/agents/guardrails';
+import { requireRole } from '@/lib/auth-guard';
 import prisma from '@/lib/prisma';
 
 // Helper to get patient info from database
@@ -66,32 +83,118 @@ Patient Profile:
   }
 }
 
-// POST - Process clinical interview message
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const {
-      message,
-      sessionId,
-      userId,
-      conversationHistory = [],
-      diagnosisState,
-      conversationTurn = 0,
-      generateReport = false, // NEW: Flag to trigger SOAP/Safety agents after interview ends
-    } = body;
+// Client view of a stored session, used to rehydrate the interview page
+function toResumePayload(session: InterviewSessionState) {
+  const diagnosisState = session.diagnosisState;
+  return {
+    id: session.sessionId,
+    status: session.status,
+    conversationTurn: session.conversationTurn,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    hasReport: session.hasReport,
+    messages: session.conversationHistory.map(m => ({
+      role: m.role,
+      content: m.content,
+      urdu: m.metadata?.urdu,
+      severity: m.metadata?.severity,
+      confidenceLevel: m.metadata?.confidence,
+      timestamp: m.timestamp,
+    })),
+    diagnosis: {
+      confidenceScore: diagnosisState?.confidenceScore || 0,
+      identifiedSymptoms: symptomLabels(
+        diagnosisState?.identifiedSymptoms || []
+      ),
+      diseaseCount: diagnosisState?.potentialDiseases.length || 0,
+      potentialDiseases:
+        diagnosisState?.potentialDiseases.slice(0, 5).map(d => ({
+          name: d.name,
+          probability: d.probability,
+        })) || [],
+    },
+  };
+}
 
-    if (!message || !userId) {
-      return NextResponse.json(
-        { error: 'Message and userId are required' },
-        { status: 400 }
-      );
-    }
+// Generate (or return) the report for a session from its stored state
+async function handleReportRequest(session: InterviewSessionState) {
+  const existing = await prisma.sOAPReport.findUnique({
+    where: { sessionId: session.sessionId },
+    select: { id: true, department: true },
+  });
 
-    // ========== LLM GUARDRAILS: Validate user input ==========
-    const inputValidation = validateUserInput(message);
-    if (!inputValidation.isAllowed) {
-      console.log('🛡️ GUARDRAIL: Blocked harmful input');
-      return NextResponse.json({
+  if (existing) {
+    return NextResponse.json({
+      success: true,
+      orchestration: {
+        reportGenerated: true,
+        reportId: existing.id,
+        department: existing.department || undefined,
+      },
+    });
+  }
+
+  // Patients end an interview early or get the report of a completed one;
+  // cancelled (or timed out) interviews get none
+  if (session.status !== 'in_progress' && session.status !== 'completed') {
+    return NextResponse.json(
+      { error: `Session is ${session.status}`, status: session.status },
+      { status: 409 }
+    );
+  }
+
+  if (session.conversationTurn === 0 || !session.diagnosisState) {
+    return NextResponse.json(
+      { error: 'Nothing to report yet - the interview has no answers' },
+      { status: 409 }
+    );
+  }
+
+  const { patientInfo, medicalHistory } = await getPatientInfo(
+    session.patientId
+  );
+
+  const reportResult = await completeInterviewAndGenerateReport({
+    sessionId: session.sessionId,
+    patientId: session.patientId,
+    conversationHistory: session.conversationHistory,
+    diagnosisState: session.diagnosisState,
+    patientInfo,
+    medicalHistory,
+    ragSources: session.ragSources,
+  });
+
+  return NextResponse.json({
+    success: true,
+    orchestration: {
+      reportGenerated: !!reportResult.soapReport,
+      reportId: reportResult.reportId || undefined,
+      department: reportResult.department || undefined,
+      triageLabel: reportResult.triageLabel,
+    },
+  });
+}
+
+type InterviewTurnOutcome =
+  | { ok: true; payload: Record<string, unknown> }
+  | { ok: false; status: number; error: string };
+
+// Run one interview turn on the stored session state and persist it
+// (shared by the JSON and the event-stream variants of POST)
+async function processInterviewTurn(
+  session: InterviewSessionState,
+  message: string,
+  onEvent?: (event: InterviewStreamEvent) => void
+): Promise<InterviewTurnOutcome> {
+  const { sessionId, patientId: userId } = session;
+
+  // ========== LLM GUARDRAILS: Validate user input ==========
+  const inputValidation = validateUserInput(message);
+  if (!inputValidation.isAllowed) {
+    console.log('🛡️ GUARDRAIL: Blocked harmful input');
+    return {
+      ok: true,
+      payload: {
         success: true,
         response: {
           content:
@@ -106,196 +209,163 @@ export async function POST(request: NextRequest) {
           potentialDiseases: [],
           guardrailTriggered: true,
         },
-        nextState: {
-          conversationHistory,
-          diagnosisState,
-          conversationTurn,
+        session: {
+          id: session.sessionId,
+          status: session.status,
+          conversationTurn: session.conversationTurn,
         },
-      });
-    }
-
-    console.log('\n' + '🏥'.repeat(30));
-    console.log('📨 MULTI-AGENT CLINICAL CHAT');
-    console.log('   User:', userId);
-    console.log('   Session:', sessionId);
-    console.log(
-      '   Message:',
-      message.slice(0, 100) + (message.length > 100 ? '...' : '')
-    );
-    console.log('   Turn:', conversationTurn);
-    console.log('   Generate Report:', generateReport);
-    console.log('🏥'.repeat(30) + '\n');
-
-    // Convert conversation history to ChatMessage format
-    const chatHistory: ChatMessage[] = conversationHistory.map((m: any) => ({
-      role: m.role,
-      content: m.content,
-      timestamp: m.timestamp || new Date().toISOString(),
-    }));
-
-    // Parse diagnosis state if provided as JSON string
-    let parsedDiagnosisState: DiagnosisState | undefined;
-    if (diagnosisState) {
-      parsedDiagnosisState =
-        typeof diagnosisState === 'string'
-          ? JSON.parse(diagnosisState)
-          : diagnosisState;
-    }
+      },
+    };
+  }
 
-    // Run the interview agent orchestration
-    const result = await orchestrateClinicalInterview({
+  console.log('\n' + '🏥'.repeat(30));
+  console.log('📨 MULTI-AGENT CLINICAL CHAT');
+  console.log('   User:', userId);
+  console.log('   Session:', sessionId);
+  console.log(
+    '   Message:',
+    message.slice(0, 100) + (message.length > 100 ? '...' : '')
+  );
+  console.log('   Turn:', session.conversationTurn);
+  console.log('🏥'.repeat(30) + '\n');
+
+  // Run the interview agent orchestration on the stored state
+  const result = await orchestrateClinicalInterview(
+    {
       patientId: userId,
-      sessionId: sessionId || 'temp-session',
+      sessionId,
       userMessage: message,
-      conversationHistory: chatHistory,
-      diagnosisState: parsedDiagnosisState,
-      conversationTurn,
-    });
-
-    // ========== LLM GUARDRAILS: Validate AI response ==========
-    const guardrailResult = applyGuardrails(
-      message,
-      result.response,
-      result.confidenceLevel,
-      result.identifiedSymptoms,
-      result.severity
-    );
+      conversationHistory: session.conversationHistory,
+      diagnosisState: session.diagnosisState,
+      conversationTurn: session.conversationTurn,
+      elapsedSeconds: interviewElapsedSeconds(session),
+      ragSources: session.ragSources,
+    },
+    onEvent
+  );
+
+  // ========== LLM GUARDRAILS: Validate AI response ==========
+  const guardrailResult = applyGuardrails(
+    message,
+    result.response,
+    result.confidenceLevel,
+    result.identifiedSymptoms,
+    result.severity
+  );
+
+  // Use processed response and confidence
+  const finalResponse = guardrailResult.processedResponse;
+  const finalConfidence = guardrailResult.processedConfidence;
+
+  if (guardrailResult.wasModified) {
+    console.log('🛡️ GUARDRAIL: Response modified for safety');
+    console.log('   Violations:', guardrailResult.violations.join(', '));
+  }
 
-    // Use processed response and confidence
-    const finalResponse = guardrailResult.processedResponse;
-    const finalConfidence = guardrailResult.processedConfidence;
+  console.log('\n' + '═'.repeat(60));
+  console.log('✅ INTERVIEW AGENT RESULT:');
+  console.log('   Response:', finalResponse.slice(0, 100) + '...');
+  console.log('   Severity:', result.severity);
+  console.log('   Confidence:', finalConfidence + '%');
+  console.log(
+    '   Diseases:',
+    result.potentialDiseases
+      .slice(0, 3)
+      .map(d => d.name)
+      .join(', ')
+  );
+  console.log('   Complete:', result.isComplete);
+  console.log('   Emergency Escalation:', guardrailResult.emergencyEscalation);
+  console.log('═'.repeat(60) + '\n');
+
+  // Persist the turn - rejected if another request saved this turn first
+  const saved = await saveInterviewTurn(sessionId, session.conversationTurn, {
+    conversationHistory: result.conversationHistory,
+    diagnosisState: result.diagnosisState,
+    ragSources: result.ragSources,
+    confidenceScore: finalConfidence,
+    redFlags: result.emergencyCheck?.flags || [],
+    isComplete: result.isComplete,
+    durationSeconds: interviewElapsedSeconds(session),
+  });
+
+  if (!saved) {
+    return {
+      ok: false,
+      status: 409,
+      error:
+        'This session was updated by another request. Reload the session and try again.',
+    };
+  }
+  const conversationTurn = session.conversationTurn + 1;
 
-    if (guardrailResult.wasModified) {
-      console.log('🛡️ GUARDRAIL: Response modified for safety');
-      console.log('   Violations:', guardrailResult.violations.join(', '));
-    }
+  // ========== SOAP/SAFETY AGENTS: Auto-trigger when interview completes ==========
+  let reportGenerated = false;
+  let reportId = '';
+  let department = '';
+  let triageLabel = '';
 
+  if (result.isComplete) {
     console.log('\n' + '═'.repeat(60));
-    console.log('✅ INTERVIEW AGENT RESULT:');
-    console.log('   Response:', finalResponse.slice(0, 100) + '...');
-    console.log('   Severity:', result.severity);
-    console.log('   Confidence:', finalConfidence + '%');
-    console.log(
-      '   Diseases:',
-      result.potentialDiseases
-        .slice(0, 3)
-        .map(d => d.name)
-        .join(', ')
-    );
-    console.log('   Complete:', result.isComplete);
-    console.log(
-      '   Emergency Escalation:',
-      guardrailResult.emergencyEscalation
-    );
+    console.log('📄 TRIGGERING POST-INTERVIEW AGENTS');
+    console.log('   - Documentation Agent (SOAP Generation)');
+    console.log('   - Safety Agent (Emergency Triage)');
+    console.log('   - Department Selection');
     console.log('═'.repeat(60) + '\n');
 
-    // Update session in database if session exists
-    if (sessionId) {
-      try {
-        await prisma.clinicalSession.update({
-          where: { id: sessionId },
-          data: {
-            conversationLog: JSON.parse(
-              JSON.stringify(result.conversationHistory)
-            ),
-            identifiedSymptoms: result.identifiedSymptoms,
-            confidenceScore: finalConfidence / 100,
-            differentialDiagnosis: result.potentialDiseases.map(d => d.name),
-            redFlagsDetected: result.emergencyCheck?.flags || [],
-            status: result.isComplete ? 'completed' : 'in_progress',
-            updatedAt: new Date(),
-          },
-        });
-      } catch (dbError) {
-        console.error('Session update error:', dbError);
-      }
-    }
-
-    // ========== SOAP/SAFETY AGENTS: Auto-trigger when interview completes ==========
-    let reportGenerated = false;
-    let reportId = '';
-    let department = '';
-    let triageLabel = '';
-
-    if (sessionId && result.isComplete) {
-      console.log('\n' + '═'.repeat(60));
-      console.log('📄 TRIGGERING POST-INTERVIEW AGENTS');
-      console.log('   - Documentation Agent (SOAP Generation)');
-      console.log('   - Safety Agent (Emergency Triage)');
-      console.log('   - Department Selection');
-      console.log('═'.repeat(60) + '\n');
+    const { patientInfo, medicalHistory } = await getPatientInfo(userId);
 
-      const { patientInfo, medicalHistory } = await getPatientInfo(userId);
-
-      const reportResult = await completeInterviewAndGenerateReport({
-        sessionId,
-        patientId: userId,
-        conversationHistory: result.conversationHistory,
-        diagnosisState: result.diagnosisState,
-        patientInfo,
-        medicalHistory,
-        ragSources: [],
-      });
+    const reportResult = await completeInterviewAndGenerateReport({
+      sessionId,
+      patientId: userId,
+      conversationHistory: result.conversationHistory,
+      diagnosisState: result.diagnosisState,
+      patientInfo,
+      medicalHistory,
+      ragSources: result.ragSources,
+    });
 
-      if (reportResult.soapReport) {
-        reportGenerated = true;
-        reportId = reportResult.reportId;
-        department = reportResult.department;
-        triageLabel = reportResult.triageLabel;
-        console.log('✅ SOAP Report generated:', reportId);
-        console.log('   Department:', department);
-        console.log('   Triage:', triageLabel);
-      }
+    if (reportResult.soapReport) {
+      reportGenerated = true;
+      reportId = reportResult.reportId;
+      department = reportResult.department;
+      triageLabel = reportResult.triageLabel;
+      console.log('✅ SOAP Report generated:', reportId);
+      console.log('   Department:', department);
+      console.log('   Triage:', triageLabel);
     }
+  }
 
-    // Build thinking steps for UI (only interview agents during chat)
-    const thinkingSteps = [
-      {
-        title: 'Translation Agent',
-        content: `Translating patient message to English for medical processing.`,
-      },
+  // Thinking steps for UI - what each interview agent actually did
+  const thinkingSteps = [...result.thinkingSteps];
+
+  // Add post-interview agent steps if report was generated
+  if (reportGenerated) {
+    thinkingSteps.push(
       {
-        title: 'RAG Retrieval Agent',
-        content: `Searching medical knowledge base (Pinecone) for relevant information.`,
+        title: 'Documentation Agent',
+        content: `SOAP report generated successfully. Report ID: ${reportId}`,
       },
       {
-        title: 'Disease Identification Agent',
-        content: `Identified ${result.potentialDiseases.length} potential conditions. Top candidates: ${result.potentialDiseases
-          .slice(0, 3)
-          .map(d => `${d.name} (${d.probability}%)`)
-          .join(', ')}`,
+        title: 'Safety Agent',
+        content: `Emergency triage completed. Label: ${triageLabel}`,
       },
       {
-        title: 'Reasoning Agent',
-        content: `Confidence level: ${finalConfidence}%. ${result.isComplete ? 'Diagnosis ready - click to generate report.' : 'Gathering more information to narrow diagnosis.'}`,
-      },
-    ];
-
-    // Add post-interview agent steps if report was generated
-    if (reportGenerated) {
-      thinkingSteps.push(
-        {
-          title: 'Documentation Agent',
-          content: `SOAP report generated successfully. Report ID: ${reportId}`,
-        },
-        {
-          title: 'Safety Agent',
-          content: `Emergency triage completed. Label: ${triageLabel}`,
-        },
-        {
-          title: 'Department Selection',
-          content: `Patient assigned to: ${department}`,
-        }
-      );
-    }
+        title: 'Department Selection',
+        content: `Patient assigned to: ${department}`,
+      }
+    );
+  }
 
-    // Generate thank you message if interview is complete
-    const completionMessage = result.isComplete
-      ? "\n\n🎉 Thank you for completing the clinical interview session! Your responses have been recorded. Click 'Generate Report' to create your medical assessment report."
-      : '';
+  // Generate thank you message if interview is complete
+  const completionMessage = result.isComplete
+    ? "\n\n🎉 Thank you for completing the clinical interview session! Your responses have been recorded. Click 'Generate Report' to create your medical assessment report."
+    : '';
 
-    // Build response
-    return NextResponse.json({
+  // Build response
+  return {
+    ok: true,
+    payload: {
       success: true,
       response: {
         content: finalResponse + completionMessage,
@@ -321,20 +391,150 @@ export async function POST(request: NextRequest) {
       // Agent orchestration metadata
       orchestration: {
         agentActions: result.agentActions,
-        conversationTurn: result.conversationHistory.length / 2,
+        conversationTurn,
         isInterviewComplete: result.isComplete,
         reportGenerated,
         reportId: reportId || undefined,
         department: department || undefined,
         triageLabel: triageLabel || undefined,
       },
-      // State for next turn
-      nextState: {
-        conversationHistory: result.conversationHistory,
-        diagnosisState: result.diagnosisState,
-        conversationTurn: result.conversationHistory.length / 2,
+      // Persisted session state after this turn
+      session: {
+        id: sessionId,
+        status: result.isComplete ? 'completed' : 'in_progress',
+        conversationTurn,
       },
-    });
+    },
+  };
+}
+
+// Stream one interview turn as Server-Sent Events: agent progress and reply
+// tokens while the graph runs, then 'done' with the regular POST payload
+function streamInterviewTurn(
+  session: InterviewSessionState,
+  message: string
+): Response {
+  const encoder = new TextEncoder();
+  // The turn runs to completion and is saved even when the client has gone:
+  // events after a disconnect are dropped
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+        } catch {
+          closed = true;
+        }
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a disconnect
+        }
+      };
+
+      try {
+        const outcome = await processInterviewTurn(session, message, event =>
+          send(event.type, event)
+        );
+        if (outcome.ok) {
+          send('done', outcome.payload);
+        } else {
+          send('error', { error: outcome.error, status: outcome.status });
+        }
+      } catch (error) {
+        console.error('❌ CLINICAL CHAT STREAM ERROR:', error);
+        send('error', {
+          error: 'Failed to process message',
+          details: String(error),
+          status: 500,
+        });
+      } finally {
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+// POST - Process clinical interview message
+// Interview state is loaded from the ClinicalSession row - the client only
+// sends the session id and the new message
+export async function POST(request: NextRequest) {
+  try {
+    const guard = await requireRole('patient');
+    if (!guard.ok) return guard.response;
+
+    const body = await request.json();
+    const {
+      message,
+      sessionId,
+      generateReport = false, // Flag to trigger SOAP/Safety agents (e.g. patient ends early)
+    } = body;
+
+    if (!sessionId || (!message && !generateReport)) {
+      return NextResponse.json(
+        { error: 'sessionId and message are required' },
+        { status: 400 }
+      );
+    }
+
+    // Idle sessions expire before they can take another turn
+    await cancelStaleSessions(guard.userId);
+
+    const session = await loadInterviewSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // Sessions can only be continued by the patient who owns them
+    if (session.patientId !== guard.userId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    // ========== REPORT REQUEST: Use stored state, no new interview turn ==========
+    if (generateReport) {
+      return await handleReportRequest(session);
+    }
+
+    if (session.status !== 'in_progress') {
+      return NextResponse.json(
+        { error: `Session is ${session.status}`, status: session.status },
+        { status: 409 }
+      );
+    }
+
+    // Clients that accept an event stream get live agent progress
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamInterviewTurn(session, message);
+    }
+
+    const outcome = await processInterviewTurn(session, message);
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+    return NextResponse.json(outcome.payload);
   } catch (error) {
     console.error('❌ CLINICAL CHAT ERROR:', error);
     return NextResponse.json(
@@ -344,21 +544,67 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// GET - Resume an interrupted interview
+// ?sessionId=<id> rehydrates that session; without it, returns the patient's
+// most recent resumable session (or null)
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireRole('patient');
+    if (!guard.ok) return guard.response;
+
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+    if (!sessionId) {
+      const resumable = await findResumableSession(guard.userId);
+      return NextResponse.json({
+        success: true,
+        session: resumable ? toResumePayload(resumable) : null,
+      });
+    }
+
+    await cancelStaleSessions(guard.userId);
+
+    const session = await loadInterviewSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (session.patientId !== guard.userId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      session: toResumePayload(session),
+      resumable: session.status === 'in_progress',
+    });
+  } catch (error) {
+    console.error('❌ Resume session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    );
+  }
+}
+
 // PUT - Create new clinical session
 export async function PUT(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { userId, chiefComplaint } = body;
+    const guard = await requireRole('patient');
+    if (!guard.ok) return guard.response;
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' },
-        { status: 400 }
-      );
-    }
+    const userId = guard.userId;
+    const body = await request.json().catch(() => ({}));
+    const { chiefComplaint } = body;
 
     console.log('\n📝 Creating new clinical session for user:', userId);
 
+    // Starting over abandons any interview the patient chose not to resume
+    const cancelled = await cancelActiveSessions(userId);
+    if (cancelled > 0) {
+      console.log(`   🗑️ Cancelled ${cancelled} unfinished session(s)`);
+    }
+
     const session = await prisma.clinicalSession.create({
       data: {
         patientId: userId,
@@ -4,39 +4,27 @@
  * This endpoint uses the Feedback Agent for doctor reviews:
  * - GET: Fetch pending reports for doctor review
  * - POST: Process doctor approval/rejection with feedback
+ *
+ * Approving with a prescription runs the formulary check first: while a
+ * warning has no acknowledge/override decision the POST answers 409.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
-import { headers } from 'next/headers';
+import { requireRole } from '@/lib/auth-guard';
 import { orchestrateDoctorReview, getDoctorPendingReports } from '@/lib/agents';
 import type { DoctorAction } from '@/lib/agents';
+import { reviewPrescriptionText } from '@/lib/agents/prescription-safety';
+import { PrescriptionWarningDecisionsSchema } from '@/lib/agents/types';
+import type { ReviewedPrescriptionWarning } from '@/lib/agents/types';
 import prisma from '@/lib/prisma';
 
 // GET - Fetch pending reports for doctor review
 export async function GET(request: NextRequest) {
     try {
-        const session = await auth.api.getSession({
-            headers: await headers(),
-        });
+        const guard = await requireRole('doctor', 'Only doctors can access reports');
+        if (!guard.ok) return guard.response;
 
-        if (!session?.user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
-        // Verify user is a doctor - simplified check
-        const user = await prisma.user.findUnique({
-            where: { id: session.user.id },
-        });
-
-        if (user?.role !== 'doctor') {
-            return NextResponse.json(
-                { error: 'Only doctors can access reports' },
-                { status: 403 }
-            );
-        }
-
-        const doctorId = session.user.id;
+        const doctorId = guard.userId;
 
         console.log('\n📋 Fetching pending reports for doctor:', doctorId);
 
@@ -96,25 +84,8 @@ export async function GET(request: NextRequest) {
 // POST - Process doctor review (approve/reject/regenerate)
 export async function POST(request: NextRequest) {
     try {
-        const session = await auth.api.getSession({
-            headers: await headers(),
-        });
-
-        if (!session?.user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
-        // Verify user is a doctor - simplified check
-        const user = await prisma.user.findUnique({
-            where: { id: session.user.id },
-        });
-
-        if (user?.role !== 'doctor') {
-            return NextResponse.json(
-                { error: 'Only doctors can review reports' },
-                { status: 403 }
-            );
-        }
+        const guard = await requireRole('doctor', 'Only doctors can review reports');
+        if (!guard.ok) return guard.response;
 
         const body = await request.json();
         const { reportId, action, feedback, prescription, notes } = body;
@@ -139,17 +110,50 @@ export async function POST(request: NextRequest) {
         console.log('📝 DOCTOR REVIEW - FEEDBACK AGENT');
         console.log('   Report:', reportId);
         console.log('   Action:', action);
-        console.log('   Doctor:', session.user.id);
+        console.log('   Doctor:', guard.userId);
         if (feedback) console.log('   Feedback:', feedback.slice(0, 100) + '...');
         console.log('👨‍⚕️'.repeat(20) + '\n');
 
+        // Check the prescription before approving with it
+        let prescriptionWarnings: ReviewedPrescriptionWarning[] = [];
+        if (action === 'approve' && prescription) {
+            const parsedDecisions = PrescriptionWarningDecisionsSchema.safeParse(body.decisions);
+            if (!parsedDecisions.success) {
+                return NextResponse.json(
+                    { error: 'Invalid warning decisions', details: parsedDecisions.error.issues },
+                    { status: 400 }
+                );
+            }
+            const check = await reviewPrescriptionText({
+                reportId,
+                text: prescription,
+                decisions: parsedDecisions.data,
+                doctorId: guard.userId,
+            });
+            if (!check) {
+                return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+            }
+            if (check.pending.length > 0) {
+                return NextResponse.json(
+                    {
+                        error: 'Acknowledge or override each safety warning to prescribe',
+                        warnings: check.warnings,
+                        pending: check.pending.map(w => w.id),
+                    },
+                    { status: 409 }
+                );
+            }
+            prescriptionWarnings = check.reviewed;
+        }
+
         // Run the feedback agent orchestration
         const result = await orchestrateDoctorReview({
             reportId,
-            doctorId: session.user.id,
+            doctorId: guard.userId,
             action: action as DoctorAction,
             feedback: feedback || undefined,
             prescription: prescription || undefined,
+            prescriptionWarnings,
             doctorNotes: notes || undefined,
         });
 
@@ -162,6 +166,14 @@ export async function POST(request: NextRequest) {
         }
         console.log('═'.repeat(60) + '\n');
 
+        // A failed regeneration leaves the report (content and status) as it was
+        if (result.regenerationError) {
+            return NextResponse.json(
+                { error: result.regenerationError },
+                { status: 502 }
+            );
+        }
+
         return NextResponse.json({
             success: result.updatedInDb,
             message: result.finalStatus,
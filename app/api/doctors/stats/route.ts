@@ -5,33 +5,15 @@
  */
 
 import { NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
-import { headers } from 'next/headers';
+import { requireRole } from '@/lib/auth-guard';
 import prisma from '@/lib/prisma';
 
 export async function GET() {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Verify user is a doctor - simplified check
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-    });
-
-    if (user?.role !== 'doctor') {
-      return NextResponse.json(
-        { error: 'Only doctors can access this' },
-        { status: 403 }
-      );
-    }
+    const guard = await requireRole('doctor', 'Only doctors can access this');
+    if (!guard.ok) return guard.response;
 
-    const doctorId = session.user.id;
+    const doctorId = guard.userId;
 
     console.log('\n📊 [Doctor Stats] Fetching dashboard data...');
     console.log('   Doctor ID:', doctorId);
@@ -0,0 +1,81 @@
+/**
+ * FHIR Bulk Export API
+ *
+ * GET - Resources of all encounters in a date range as NDJSON
+ *       ?since=ISO&until=ISO[&_type=Patient,Condition,...]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth-guard';
+import { exportEncountersNdjson } from '@/lib/fhir';
+
+// Keeps a single export bounded
+const MAX_RANGE_DAYS = 366;
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET - NDJSON export, one resource per line
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireRole(
+      'doctor',
+      'Only doctors can export encounters'
+    );
+    if (!guard.ok) return guard.response;
+
+    const { searchParams } = new URL(request.url);
+    const since = parseDate(searchParams.get('since'));
+    const until = searchParams.has('until')
+      ? parseDate(searchParams.get('until'))
+      : new Date();
+
+    if (!since || !until) {
+      return NextResponse.json(
+        { error: 'since (and optional until) must be ISO dates' },
+        { status: 400 }
+      );
+    }
+    if (since >= until) {
+      return NextResponse.json(
+        { error: 'since must be before until' },
+        { status: 400 }
+      );
+    }
+    if (until.getTime() - since.getTime() > MAX_RANGE_DAYS * 86_400_000) {
+      return NextResponse.json(
+        { error: `Date range must not exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const types = searchParams
+      .get('_type')
+      ?.split(',')
+      .map(t => t.trim())
+      .filter(Boolean);
+
+    const result = await exportEncountersNdjson({
+      since,
+      until,
+      types: types?.length ? types : undefined,
+    });
+
+    return new NextResponse(result.ndjson, {
+      headers: {
+        'Content-Type': 'application/fhir+ndjson',
+        'X-Export-Encounters': String(result.encounters),
+        'X-Export-Invalid': result.invalid.join(','),
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting FHIR NDJSON:', error);
+    return NextResponse.json(
+      { error: 'Failed to export encounters' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Cache Metrics API
+ *
+ * Hit/miss counts of the embedding and translation caches (lib/cache) since
+ * the server started
+ */
+
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth-guard';
+import { getCacheMetrics } from '@/lib/cache';
+
+export async function GET() {
+  const guard = await requireRole('doctor', 'Only doctors can access this');
+  if (!guard.ok) return guard.response;
+
+  return NextResponse.json({
+    ...getCacheMetrics(),
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -8,15 +8,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { headers } from 'next/headers';
 import prisma from '@/lib/prisma';
-import { ChatGroq } from '@langchain/groq';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-
-const groqLLM = new ChatGroq({
-  apiKey: process.env.GROQ_API_KEY,
-  model: 'llama-3.3-70b-versatile',
-  temperature: 0.3,
-});
+import { getChatModel } from '@/lib/agents/llm-providers';
 
 // POST - Ask questions about the report
 export async function POST(
@@ -143,15 +137,24 @@ If information is not available in the report, say so clearly.
 Do NOT make up medical information not present in the report.
 
 REPORT DATA:
-${reportContext}
+{report}
 
-${chatHistoryText ? `PREVIOUS CONVERSATION:\n${chatHistoryText}` : ''}`,
+{history}`,
       ],
       ['human', '{question}'],
     ]);
 
-    const chain = prompt.pipe(groqLLM).pipe(new StringOutputParser());
-    const response = await chain.invoke({ question });
+    const chain = prompt
+      .pipe(getChatModel('reason'))
+      .pipe(new StringOutputParser());
+    // Report and chat text are variables, so braces in them stay text
+    const response = await chain.invoke({
+      question,
+      report: reportContext,
+      history: chatHistoryText
+        ? `PREVIOUS CONVERSATION:\n${chatHistoryText}`
+        : '',
+    });
 
     return NextResponse.json({
       success: true,
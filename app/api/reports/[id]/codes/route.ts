@@ -0,0 +1,89 @@
+/**
+ * Report Diagnosis Codes API
+ *
+ * PUT - Confirm or override the ICD-10 code of one diagnosis (doctor only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth-guard';
+import prisma from '@/lib/prisma';
+import { findICD10Code } from '@/lib/constants/icd10';
+import { codingData, reviewDiagnosisCode } from '@/lib/agents/icd-coding';
+import type { DiagnosisCode } from '@/lib/agents/types';
+
+// A WHO ICD-10 code: letter, two digits, optional subdivision
+const ICD10_FORMAT = /^[A-Z]\d{2}(\.\d{1,2})?$/;
+
+// PUT - { diagnosis, code, title? } (title needed for codes outside the table)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const guard = await requireRole(
+      'doctor',
+      'Only doctors can review diagnosis codes'
+    );
+    if (!guard.ok) return guard.response;
+
+    const { id } = await params;
+    const { diagnosis, code, title } = await request.json();
+
+    if (typeof diagnosis !== 'string' || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'diagnosis and code are required' },
+        { status: 400 }
+      );
+    }
+
+    const normalized = code.trim().toUpperCase();
+    const entry =
+      findICD10Code(normalized) ??
+      (ICD10_FORMAT.test(normalized) &&
+      typeof title === 'string' &&
+      title.trim()
+        ? { code: normalized, title: title.trim(), terms: [] }
+        : null);
+    if (!entry) {
+      return NextResponse.json(
+        {
+          error:
+            'Unknown ICD-10 code - give a valid code and its title to use a code outside the table',
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await prisma.sOAPReport.findUnique({
+      where: { id },
+      select: { diagnosisCodes: true },
+    });
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const codes = reviewDiagnosisCode(
+      (report.diagnosisCodes || []) as unknown as DiagnosisCode[],
+      { diagnosis, code: entry, doctorId: guard.userId }
+    );
+    if (!codes) {
+      return NextResponse.json(
+        { error: 'Diagnosis not found in the report' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.sOAPReport.update({
+      where: { id },
+      data: codingData(codes),
+    });
+
+    return NextResponse.json({ success: true, diagnosisCodes: codes });
+  } catch (error) {
+    console.error('Error updating diagnosis code:', error);
+    return NextResponse.json(
+      { error: 'Failed to update diagnosis code' },
+      { status: 500 }
+    );
+  }
+}
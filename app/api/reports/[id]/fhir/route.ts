@@ -0,0 +1,66 @@
+/**
+ * FHIR Encounter Export API
+ *
+ * GET - The report's encounter as a FHIR R4 document Bundle
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth-guard';
+import prisma from '@/lib/prisma';
+import { exportEncounter, toOperationOutcome } from '@/lib/fhir';
+
+const FHIR_JSON = 'application/fhir+json';
+
+// GET - Patients can export their own reports, doctors any report
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const guard = await requireRole(['patient', 'doctor']);
+    if (!guard.ok) return guard.response;
+
+    const { id } = await params;
+
+    const report = await prisma.sOAPReport.findUnique({
+      where: { id },
+      select: { patientId: true },
+    });
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    if (guard.role === 'patient' && report.patientId !== guard.userId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const exported = await exportEncounter(id);
+    if (!exported) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    // Never hand out a bundle that breaks the profile
+    if (exported.issues.length > 0) {
+      console.error(
+        `FHIR bundle for report ${id} failed validation:`,
+        exported.issues
+      );
+      return NextResponse.json(toOperationOutcome(exported.issues), {
+        status: 500,
+        headers: { 'Content-Type': FHIR_JSON },
+      });
+    }
+
+    return NextResponse.json(exported.bundle, {
+      headers: {
+        'Content-Type': FHIR_JSON,
+        'Content-Disposition': `attachment; filename="encounter-${id}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting FHIR bundle:', error);
+    return NextResponse.json(
+      { error: 'Failed to export report' },
+      { status: 500 }
+    );
+  }
+}
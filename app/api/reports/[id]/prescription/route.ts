@@ -3,13 +3,40 @@
  *
  * GET - Download prescription PDF (for patients)
  * POST - Generate and save prescription PDF (for doctors)
+ *
+ * Prescriptions (structured items, or free text line by line against the
+ * formulary) are checked against the patient's allergies, current
+ * medications, age and gender first. While a warning has no
+ * acknowledge/override decision the POST answers 409 with the warnings and
+ * saves nothing; the decisions are stored on the report for audit.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { auth } from '@/lib/auth';
 import { headers } from 'next/headers';
+import { requireRole } from '@/lib/auth-guard';
 import prisma from '@/lib/prisma';
 import { generatePrescriptionPDF, pdfToBase64 } from '@/lib/pdf-generator';
+import { loadUrduFont } from '@/lib/pdf-fonts';
+import { ensurePatientSummary } from '@/lib/agents/patient-summary';
+import {
+  prescriptionText,
+  reportPrescriptionItems,
+  savePrescriptionItems,
+} from '@/lib/agents/prescriptions';
+import {
+  asWarningsJson,
+  checkPrescriptionSafety,
+  checkPrescriptionTextSafety,
+  reviewPrescriptionWarnings,
+} from '@/lib/agents/prescription-safety';
+import {
+  PrescriptionItemSchema,
+  PrescriptionWarningDecisionsSchema,
+} from '@/lib/agents/types';
+
+const PrescriptionItemsSchema = z.array(PrescriptionItemSchema).min(1);
 
 // GET - Download prescription PDF (for patients)
 export async function GET(
@@ -89,12 +116,15 @@ export async function GET(
       (assessment?.primaryDiagnosis as string) || 'Clinical evaluation';
 
     // Generate PDF with doctor details
+    const items = await reportPrescriptionItems(report.id);
     const pdfBytes = generatePrescriptionPDF({
       patientName: patient?.name || 'Patient',
       patientAge: patient?.medicalHistory?.age || undefined,
       patientGender: patient?.medicalHistory?.gender || undefined,
       diagnosis,
       prescription: report.prescription,
+      items,
+      urduFont: items.length > 0 ? await loadUrduFont() : undefined,
       doctorName: doctorInfo?.name || 'Doctor',
       doctorSpecialization:
         doctorInfo?.doctorProfile?.specialization || undefined,
@@ -135,13 +165,11 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const guard = await requireRole(
+      'doctor',
+      'Only doctors can generate prescriptions'
+    );
+    if (!guard.ok) return guard.response;
 
     const { id } = await params;
     const body = await request.json();
@@ -151,19 +179,44 @@ export async function POST(
       returnBase64 = false,
     } = body;
 
-    // Verify user is a doctor
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      include: { doctorProfile: true },
-    });
+    // Structured items from the prescription editor replace the free text
+    const parsedItems =
+      body.items !== undefined
+        ? PrescriptionItemsSchema.safeParse(body.items)
+        : null;
+    if (parsedItems && !parsedItems.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid prescription items',
+          details: parsedItems.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+    const items = parsedItems?.data || [];
 
-    if (user?.role !== 'doctor') {
+    const parsedDecisions = PrescriptionWarningDecisionsSchema.safeParse(
+      body.decisions
+    );
+    if (!parsedDecisions.success) {
       return NextResponse.json(
-        { error: 'Only doctors can generate prescriptions' },
-        { status: 403 }
+        {
+          error: 'Invalid warning decisions',
+          details: parsedDecisions.error.issues,
+        },
+        { status: 400 }
       );
     }
 
+    // Doctor details for the prescription header
+    const user = await prisma.user.findUnique({
+      where: { id: guard.userId },
+      include: { doctorProfile: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
     // Fetch the report with patient info
     const report = await prisma.sOAPReport.findUnique({
       where: { id },
@@ -175,6 +228,8 @@ export async function POST(
               select: {
                 age: true,
                 gender: true,
+                allergies: true,
+                currentMedications: true,
               },
             },
           },
@@ -186,6 +241,34 @@ export async function POST(
       return NextResponse.json({ error: 'Report not found' }, { status: 404 });
     }
 
+    // Safety checks: every warning needs the doctor's decision before saving
+    const history = report.patient?.medicalHistory;
+    const profile = {
+      age: history?.age ?? null,
+      gender: history?.gender ?? null,
+      allergies: history?.allergies || [],
+      currentMedications: history?.currentMedications || [],
+    };
+    const warnings =
+      items.length > 0
+        ? checkPrescriptionSafety(items, profile)
+        : checkPrescriptionTextSafety(prescription || '', profile);
+    const { reviewed, pending } = reviewPrescriptionWarnings(
+      warnings,
+      parsedDecisions.data,
+      user.id
+    );
+    if (pending.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Acknowledge or override each safety warning to prescribe',
+          warnings,
+          pending: pending.map(w => w.id),
+        },
+        { status: 409 }
+      );
+    }
+
     // Get primary diagnosis from assessment
     const assessment = report.assessment as Record<string, unknown>;
     const diagnosis =
@@ -197,7 +280,11 @@ export async function POST(
       patientAge: report.patient?.medicalHistory?.age || undefined,
       patientGender: report.patient?.medicalHistory?.gender || undefined,
       diagnosis,
-      prescription: prescription || 'No prescription provided',
+      prescription:
+        (items.length > 0 ? prescriptionText(items) : prescription) ||
+        'No prescription provided',
+      items,
+      urduFont: items.length > 0 ? await loadUrduFont() : undefined,
       doctorName: user.name || 'Doctor',
       doctorSpecialization: user.doctorProfile?.specialization || undefined,
       doctorLicense: user.doctorProfile?.licenseNumber || undefined,
@@ -212,23 +299,34 @@ export async function POST(
       }),
     });
 
-    // Update report with prescription
-    await prisma.sOAPReport.update({
-      where: { id },
-      data: {
-        prescription,
-        assignedDoctorId: user.id,
-        reviewStatus: 'approved',
-        reviewedAt: new Date(),
-        updatedAt: new Date(),
-      },
-    });
+    // Save the prescription and approve the report together
+    const approval = {
+      prescriptionWarnings: asWarningsJson(reviewed),
+      assignedDoctorId: user.id,
+      reviewStatus: 'approved',
+      reviewedAt: new Date(),
+      updatedAt: new Date(),
+    };
+    if (items.length > 0) {
+      await savePrescriptionItems(id, items, approval);
+    } else {
+      await prisma.sOAPReport.update({
+        where: { id },
+        data: {
+          ...approval,
+          prescription,
+          prescriptionItems: { deleteMany: {} },
+        },
+      });
+    }
+    await ensurePatientSummary(id);
 
     if (returnBase64) {
       const base64 = pdfToBase64(pdfBytes);
       return NextResponse.json({
         success: true,
         pdfBase64: base64,
+        warnings: reviewed,
         filename: `Prescription_${report.id.slice(0, 8)}_${new Date().toISOString().split('T')[0]}.pdf`,
       });
     }
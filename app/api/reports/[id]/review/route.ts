@@ -3,13 +3,19 @@
  *
  * POST - Submit doctor review with feedback
  * PUT - Update report based on doctor feedback (regeneration)
+ *
+ * Approving with a free-text prescription runs the formulary check first:
+ * while a warning has no acknowledge/override decision the POST answers 409
+ * with the warnings and saves nothing.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
-import { headers } from 'next/headers';
+import { requireRole } from '@/lib/auth-guard';
 import prisma from '@/lib/prisma';
 import { processDoctorReview } from '@/lib/agents/feedback-agent';
+import { reviewPrescriptionText } from '@/lib/agents/prescription-safety';
+import { PrescriptionWarningDecisionsSchema } from '@/lib/agents/types';
+import type { ReviewedPrescriptionWarning } from '@/lib/agents/types';
 
 // POST - Submit doctor review
 export async function POST(
@@ -17,13 +23,11 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const guard = await requireRole(
+      'doctor',
+      'Only doctors can review reports'
+    );
+    if (!guard.ok) return guard.response;
 
     const { id } = await params;
     const body = await request.json();
@@ -36,28 +40,56 @@ export async function POST(
       doctorNotes,
     } = body;
 
-    // Verify user is a doctor
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      include: { doctorProfile: true },
-    });
-
-    if (user?.role !== 'doctor') {
-      return NextResponse.json(
-        { error: 'Only doctors can review reports' },
-        { status: 403 }
+    // Check the prescription before approving with it
+    let prescriptionWarnings: ReviewedPrescriptionWarning[] = [];
+    if (action === 'approve' && prescription) {
+      const parsedDecisions = PrescriptionWarningDecisionsSchema.safeParse(
+        body.decisions
       );
+      if (!parsedDecisions.success) {
+        return NextResponse.json(
+          {
+            error: 'Invalid warning decisions',
+            details: parsedDecisions.error.issues,
+          },
+          { status: 400 }
+        );
+      }
+      const check = await reviewPrescriptionText({
+        reportId: id,
+        text: prescription,
+        decisions: parsedDecisions.data,
+        doctorId: guard.userId,
+      });
+      if (!check) {
+        return NextResponse.json(
+          { error: 'Report not found' },
+          { status: 404 }
+        );
+      }
+      if (check.pending.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Acknowledge or override each safety warning to prescribe',
+            warnings: check.warnings,
+            pending: check.pending.map(w => w.id),
+          },
+          { status: 409 }
+        );
+      }
+      prescriptionWarnings = check.reviewed;
     }
 
     // Process the review through the feedback agent
     const result = await processDoctorReview({
       reportId: id,
-      doctorId: session.user.id,
+      doctorId: guard.userId,
       action,
       feedback,
       starRating,
       rejectionReason,
       prescription,
+      prescriptionWarnings,
       doctorNotes,
     });
 
@@ -71,6 +103,14 @@ export async function POST(
       });
     }
 
+    // A failed regeneration leaves the report (content and status) as it was
+    if (result.regenerationError) {
+      return NextResponse.json(
+        { error: result.regenerationError },
+        { status: 502 }
+      );
+    }
+
     return NextResponse.json({
       success: true,
       result: {
@@ -95,40 +135,33 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const guard = await requireRole(
+      'doctor',
+      'Only doctors can regenerate reports'
+    );
+    if (!guard.ok) return guard.response;
 
     const { id } = await params;
     const body = await request.json();
     const { feedback, starRating } = body;
 
-    // Verify user is a doctor
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-    });
-
-    if (user?.role !== 'doctor') {
-      return NextResponse.json(
-        { error: 'Only doctors can regenerate reports' },
-        { status: 403 }
-      );
-    }
-
     // Process regeneration through feedback agent with request_changes action
     const result = await processDoctorReview({
       reportId: id,
-      doctorId: session.user.id,
+      doctorId: guard.userId,
       action: 'request_changes',
       feedback,
       starRating: starRating || 2, // Low rating triggers regeneration
       rejectionReason: feedback,
     });
 
+    if (result.regenerationError) {
+      return NextResponse.json(
+        { error: result.regenerationError },
+        { status: 502 }
+      );
+    }
+
     // Fetch updated report
     const updatedReport = await prisma.sOAPReport.findUnique({
       where: { id },
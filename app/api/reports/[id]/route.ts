@@ -7,9 +7,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { requireRole } from '@/lib/auth-guard';
 import { headers } from 'next/headers';
 import prisma from '@/lib/prisma';
 import { generateSOAPReportPDF, pdfToBase64 } from '@/lib/pdf-generator';
+import { reportPrescriptionItems } from '@/lib/agents/prescriptions';
+import type { DiagnosisCode } from '@/lib/agents/types';
 
 // GET - Fetch report data with patient info
 export async function GET(
@@ -112,12 +115,16 @@ export async function GET(
       objective: report.objective,
       assessment: report.assessment,
       plan: report.plan,
+      generation: report.generation,
+      diagnosisCodes: report.diagnosisCodes || [],
       department: report.department,
       priority: report.priority,
       reviewStatus: report.reviewStatus,
       assignedDoctorId: report.assignedDoctorId,
       doctorNotes: report.doctorNotes,
       prescription: report.prescription,
+      prescriptionItems: await reportPrescriptionItems(report.id),
+      prescriptionWarnings: report.prescriptionWarnings || [],
       createdAt: report.createdAt.toISOString(),
       updatedAt: report.updatedAt.toISOString(),
       reviewedAt: report.reviewedAt?.toISOString() || null,
@@ -280,6 +287,8 @@ export async function POST(
               .familyHistory as Record<string, boolean>,
           }
         : undefined,
+      diagnosisCodes: (report.diagnosisCodes ||
+        []) as unknown as DiagnosisCode[],
       sessionDate:
         report.session?.createdAt.toLocaleDateString() ||
         new Date().toLocaleDateString(),
@@ -318,37 +327,22 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const guard = await requireRole(
+      'doctor',
+      'Only doctors can perform this action'
+    );
+    if (!guard.ok) return guard.response;
 
     const { id } = await params;
     const body = await request.json();
     const { action } = body;
 
-    // Verify user is a doctor
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      include: { doctorProfile: true },
-    });
-
-    if (user?.role !== 'doctor') {
-      return NextResponse.json(
-        { error: 'Only doctors can perform this action' },
-        { status: 403 }
-      );
-    }
-
     if (action === 'claim') {
       // Claim the report for review
       const updated = await prisma.sOAPReport.update({
         where: { id },
         data: {
-          assignedDoctorId: session.user.id,
+          assignedDoctorId: guard.userId,
           reviewStatus: 'in_review',
           updatedAt: new Date(),
         },
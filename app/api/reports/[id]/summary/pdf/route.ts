@@ -0,0 +1,75 @@
+/**
+ * Patient Summary PDF API
+ *
+ * GET - Download the patient summary as a PDF
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth-guard';
+import { findPatientSummary } from '@/lib/agents/patient-summary';
+import { generatePatientSummaryPDF } from '@/lib/pdf-generator';
+import { loadUrduFont } from '@/lib/pdf-fonts';
+
+// GET - Same access as the summary: patients once approved, doctors always
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const guard = await requireRole(['patient', 'doctor']);
+    if (!guard.ok) return guard.response;
+
+    const { id } = await params;
+
+    const record = await findPatientSummary(id);
+    if (!record) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    if (guard.role === 'patient') {
+      if (record.patientId !== guard.userId) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+      if (!record.released) {
+        return NextResponse.json(
+          { error: 'Summary is available once a doctor approves the report' },
+          { status: 404 }
+        );
+      }
+    }
+    if (!record.summary) {
+      return NextResponse.json(
+        { error: 'No summary available for this report' },
+        { status: 404 }
+      );
+    }
+
+    const pdfBytes = generatePatientSummaryPDF({
+      patientName: record.patientName,
+      doctorName: record.doctorName || undefined,
+      chiefComplaint: record.chiefComplaint,
+      summary: record.summary,
+      urduFont: await loadUrduFont(),
+      date: new Date(record.reviewedAt || record.createdAt).toLocaleDateString(
+        'en-PK',
+        {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+        }
+      ),
+    });
+
+    return new NextResponse(Buffer.from(pdfBytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="Summary_${record.reportId.slice(0, 8)}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating summary PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate summary PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Patient Summary API
+ *
+ * GET - The plain-language Urdu / Roman Urdu summary of a report
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth-guard';
+import { findPatientSummary } from '@/lib/agents/patient-summary';
+
+// GET - Patients see their own summary once the report is approved, doctors
+// can preview any report's summary
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const guard = await requireRole(['patient', 'doctor']);
+    if (!guard.ok) return guard.response;
+
+    const { id } = await params;
+
+    const record = await findPatientSummary(id);
+    if (!record) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    if (guard.role === 'patient') {
+      if (record.patientId !== guard.userId) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+      if (!record.released) {
+        return NextResponse.json(
+          { error: 'Summary is available once a doctor approves the report' },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json({
+      reportId: record.reportId,
+      chiefComplaint: record.chiefComplaint,
+      doctorName: record.doctorName,
+      reviewStatus: record.reviewStatus,
+      reviewedAt: record.reviewedAt,
+      createdAt: record.createdAt,
+      released: record.released,
+      summary: record.summary,
+    });
+  } catch (error) {
+    console.error('Error fetching patient summary:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch summary' },
+      { status: 500 }
+    );
+  }
+}
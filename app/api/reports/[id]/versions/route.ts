@@ -0,0 +1,136 @@
+/**
+ * Report Versions API
+ *
+ * GET - Content history of a report (original, regenerations, edits, restores)
+ * POST - Restore an earlier version, or save a doctor's edit as a new version
+ *
+ * Concurrent changes to the same report are retried; when they keep
+ * colliding the POST answers 409 and the report is left unchanged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireRole } from '@/lib/auth-guard';
+import prisma from '@/lib/prisma';
+import {
+  editReport,
+  listReportVersions,
+  restoreReportVersion,
+} from '@/lib/agents/report-versions';
+import { ReportEditSchema } from '@/lib/agents/types';
+
+const RestoreSchema = z.object({ version: z.number().int().positive() });
+const VERSION_CONFLICT =
+  'The report was changed at the same time - reload it and try again';
+
+// GET - List versions, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const guard = await requireRole(
+      'doctor',
+      'Only doctors can view report history'
+    );
+    if (!guard.ok) return guard.response;
+
+    const { id } = await params;
+    const versions = await listReportVersions(id);
+
+    return NextResponse.json({ success: true, versions });
+  } catch (error) {
+    console.error('Error fetching report versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch report versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - { action: 'restore', version } | { action: 'edit', sections }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const guard = await requireRole(
+      'doctor',
+      'Only doctors can change report content'
+    );
+    if (!guard.ok) return guard.response;
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action } = body;
+
+    const report = await prisma.sOAPReport.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    if (action === 'restore') {
+      const restore = RestoreSchema.safeParse(body);
+      if (!restore.success) {
+        return NextResponse.json(
+          { error: 'Invalid version', details: restore.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const target = await prisma.sOAPReportVersion.findUnique({
+        where: {
+          reportId_version: { reportId: id, version: restore.data.version },
+        },
+        select: { id: true },
+      });
+      if (!target) {
+        return NextResponse.json(
+          { error: 'Version not found' },
+          { status: 404 }
+        );
+      }
+
+      const version = await restoreReportVersion({
+        reportId: id,
+        version: restore.data.version,
+        doctorId: guard.userId,
+      });
+      if (version === null) {
+        return NextResponse.json({ error: VERSION_CONFLICT }, { status: 409 });
+      }
+      return NextResponse.json({ success: true, version });
+    }
+
+    if (action === 'edit') {
+      const edit = ReportEditSchema.safeParse(body.sections);
+      if (!edit.success) {
+        return NextResponse.json(
+          { error: 'Invalid report sections', details: edit.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const version = await editReport({
+        reportId: id,
+        edit: edit.data,
+        doctorId: guard.userId,
+      });
+      if (version === null) {
+        return NextResponse.json({ error: VERSION_CONFLICT }, { status: 409 });
+      }
+      return NextResponse.json({ success: true, version });
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+  } catch (error) {
+    console.error('Error updating report version:', error);
+    return NextResponse.json(
+      { error: 'Failed to update report' },
+      { status: 500 }
+    );
+  }
+}
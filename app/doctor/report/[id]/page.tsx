@@ -24,11 +24,37 @@ import {
   Building,
   Share2,
   X,
+  TrendingUp,
+  TrendingDown,
+  BookOpen,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ReportVersionHistory } from '@/components/ui/ReportVersionHistory';
+import { DiagnosisCodes } from '@/components/ui/DiagnosisCodes';
+import { PatientSummaryView } from '@/components/ui/PatientSummaryView';
+import {
+  PrescriptionEditor,
+  isPrescriptionItemComplete,
+} from '@/components/ui/PrescriptionEditor';
+import {
+  PrescriptionWarnings,
+  isWarningDecided,
+} from '@/components/ui/PrescriptionWarnings';
+import type {
+  DiagnosisCode,
+  PrescriptionItem,
+  PrescriptionWarning,
+  PrescriptionWarningDecision,
+  ReviewedPrescriptionWarning,
+} from '@/lib/agents/types';
 import Image from 'next/image';
 import Link from 'next/link';
 
+interface Citation {
+  statement: string;
+  sources: string[]; // reference keys ("S1")
+}
+
 interface ReportData {
   id: string;
   sessionId: string;
@@ -49,6 +75,25 @@ interface ReportData {
     symptoms: string[];
     patientHistory: string;
     patientNarrative: string;
+    symptomCharacterization?: Array<{
+      symptom: string;
+      onset?: string;
+      provocation?: string;
+      quality?: string;
+      region?: string;
+      radiation?: string;
+      severity?: number;
+      timing?: string;
+      unknown: string[];
+    }>;
+    pastEpisodes?: Array<{
+      sessionId: string;
+      reportId: string;
+      date: string;
+      chiefComplaint: string;
+      diagnosis: string;
+      reviewStatus: string;
+    }>;
   };
   objective: {
     reportedSymptoms: string[];
@@ -62,6 +107,27 @@ interface ReportData {
     confidence: number;
     aiAnalysis: string;
     redFlags: string[];
+    differentialEvidence?: Array<{
+      condition: string;
+      prior: number;
+      probability: number;
+      contributions: Array<{
+        symptom: string;
+        finding: 'present' | 'absent';
+        likelihoodRatio: number;
+        change: number;
+        turn: number;
+      }>;
+    }>;
+    references?: Array<{
+      key: string;
+      id: string;
+      source: string;
+      title: string;
+      snippet: string;
+      turn: number;
+    }>;
+    citations?: Citation[];
   };
   plan: {
     recommendations: string[];
@@ -69,7 +135,16 @@ interface ReportData {
     specialistReferral?: string;
     followUpNeeded: boolean;
     urgency: string;
+    citations?: Citation[];
   };
+  generation: {
+    source: 'llm' | 'repaired' | 'fallback';
+    attempts: number;
+    errors: string[];
+  } | null;
+  diagnosisCodes: DiagnosisCode[];
+  prescriptionItems: PrescriptionItem[];
+  prescriptionWarnings: ReviewedPrescriptionWarning[];
   department: string;
   priority: string;
   reviewStatus: string;
@@ -77,11 +152,47 @@ interface ReportData {
   sessionDate: string;
 }
 
+// OPQRST attributes in the order doctors read them
+const OPQRST_FIELDS = [
+  { key: 'onset', label: 'Onset' },
+  { key: 'provocation', label: 'Provocation' },
+  { key: 'quality', label: 'Quality' },
+  { key: 'region', label: 'Region' },
+  { key: 'radiation', label: 'Radiation' },
+  { key: 'severity', label: 'Severity' },
+  { key: 'timing', label: 'Timing' },
+] as const;
+
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
 }
 
+// Reference keys cited for one assessment/plan statement
+function citedKeys(
+  statement: string | undefined,
+  citations: Citation[] = []
+): string[] {
+  return citations.find(c => c.statement === statement)?.sources || [];
+}
+
+function CitationLinks({ keys }: { keys: string[] }) {
+  if (keys.length === 0) return null;
+  return (
+    <sup className="ml-1 whitespace-nowrap">
+      {keys.map(key => (
+        <a
+          key={key}
+          href={`#ref-${key}`}
+          className="text-xs font-medium text-blue-600 hover:underline"
+        >
+          [{key}]
+        </a>
+      ))}
+    </sup>
+  );
+}
+
 export default function DoctorReportPage({
   params,
 }: {
@@ -95,7 +206,15 @@ export default function DoctorReportPage({
   const [showPrescription, setShowPrescription] = useState(false);
   const [decision, setDecision] = useState<'accept' | 'reject' | null>(null);
   const [notes, setNotes] = useState('');
-  const [prescription, setPrescription] = useState('');
+  const [prescriptionItems, setPrescriptionItems] = useState<
+    PrescriptionItem[]
+  >([]);
+  const [safetyWarnings, setSafetyWarnings] = useState<PrescriptionWarning[]>(
+    []
+  );
+  const [warningDecisions, setWarningDecisions] = useState<
+    PrescriptionWarningDecision[]
+  >([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [rating, setRating] = useState<number>(0);
   const [hoveredRating, setHoveredRating] = useState<number>(0);
@@ -132,6 +251,18 @@ export default function DoctorReportPage({
         if (res.ok) {
           const data = await res.json();
           setReport(data.report);
+          setPrescriptionItems(data.report.prescriptionItems || []);
+          // Decisions recorded with the saved prescription
+          const reviewed: ReviewedPrescriptionWarning[] =
+            data.report.prescriptionWarnings || [];
+          setSafetyWarnings(reviewed);
+          setWarningDecisions(
+            reviewed.map(w => ({
+              warningId: w.id,
+              decision: w.decision,
+              reason: w.reason,
+            }))
+          );
         }
       } catch (error) {
         console.error('Failed to fetch report:', error);
@@ -185,6 +316,9 @@ export default function DoctorReportPage({
         }
         // Refresh the page data
         window.location.reload();
+      } else {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || 'Failed to regenerate the report');
       }
     } catch (error) {
       console.error('Failed to regenerate:', error);
@@ -261,20 +395,43 @@ export default function DoctorReportPage({
 
   const handleSubmitReview = async () => {
     if (!decision || !rating) return;
+    if (
+      decision === 'accept' &&
+      !prescriptionItems.every(isPrescriptionItemComplete)
+    ) {
+      alert('Please set the dose, route and frequency of every medicine');
+      return;
+    }
+    if (
+      decision === 'accept' &&
+      !safetyWarnings.every(w => isWarningDecided(w, warningDecisions))
+    ) {
+      alert('Please acknowledge or override every safety warning');
+      return;
+    }
 
     setIsSubmitting(true);
     try {
       // If prescription is provided and approved, generate prescription PDF
-      if (decision === 'accept' && prescription.trim()) {
-        await fetch(`/api/reports/${id}/prescription`, {
+      if (decision === 'accept' && prescriptionItems.length > 0) {
+        const prescriptionRes = await fetch(`/api/reports/${id}/prescription`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            prescription,
+            items: prescriptionItems,
+            decisions: warningDecisions,
             includeDoctorDetails,
             returnBase64: true,
           }),
         });
+
+        // Safety warnings need a decision before the prescription is saved
+        if (prescriptionRes.status === 409) {
+          const payload = await prescriptionRes.json();
+          setSafetyWarnings(payload.warnings || []);
+          setShowPrescription(true);
+          return;
+        }
       }
 
       // Submit the review
@@ -286,13 +443,15 @@ export default function DoctorReportPage({
           feedback: notes,
           starRating: rating,
           rejectionReason: decision === 'reject' ? notes : undefined,
-          prescription: decision === 'accept' ? prescription : undefined,
           doctorNotes: notes,
         }),
       });
 
       if (res.ok) {
         router.push('/doctor/dashboard');
+      } else {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || 'Failed to submit the review');
       }
     } catch (error) {
       console.error('Failed to submit review:', error);
@@ -451,6 +610,24 @@ export default function DoctorReportPage({
               </div>
             </motion.div>
 
+            {/* AI generation fallback warning */}
+            {report.generation?.source === 'fallback' && (
+              <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-medium text-amber-800">
+                    Fallback report - not AI-generated content
+                  </p>
+                  <p className="text-sm text-amber-700">
+                    The AI output failed validation after{' '}
+                    {report.generation.attempts} attempts, so this report was
+                    assembled from raw interview data. Review the interview
+                    directly before relying on it.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Subjective */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -500,6 +677,83 @@ export default function DoctorReportPage({
                     </div>
                   </div>
                 )}
+                {(report.subjective?.symptomCharacterization?.length ?? 0) >
+                  0 && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-500 mb-2">
+                      Symptom Details (OPQRST)
+                    </p>
+                    <div className="space-y-3">
+                      {report.subjective.symptomCharacterization!.map(
+                        record => (
+                          <div
+                            key={record.symptom}
+                            className="p-3 bg-gray-50 rounded-xl border border-gray-100"
+                          >
+                            <p className="font-medium text-gray-800 mb-2">
+                              {record.symptom}
+                            </p>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                              {OPQRST_FIELDS.filter(
+                                field =>
+                                  record[field.key] !== undefined ||
+                                  record.unknown.includes(field.key)
+                              ).map(field => (
+                                <div key={field.key}>
+                                  <p className="text-xs text-gray-500">
+                                    {field.label}
+                                  </p>
+                                  {record[field.key] !== undefined ? (
+                                    <p className="text-gray-800">
+                                      {field.key === 'severity'
+                                        ? `${record.severity}/10`
+                                        : record[field.key]}
+                                    </p>
+                                  ) : (
+                                    <p className="text-gray-400 italic">
+                                      Unknown
+                                    </p>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  </div>
+                )}
+                {(report.subjective?.pastEpisodes?.length ?? 0) > 0 && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-500 mb-2">
+                      Relevant Past Episodes
+                    </p>
+                    <ul className="space-y-2">
+                      {report.subjective.pastEpisodes!.map(episode => (
+                        <li
+                          key={episode.sessionId}
+                          className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-xl border border-gray-100 text-sm"
+                        >
+                          <span className="text-gray-800">
+                            <span className="text-gray-500">
+                              {episode.date}
+                            </span>{' '}
+                            {episode.chiefComplaint} -{' '}
+                            {episode.reviewStatus === 'approved'
+                              ? `approved as ${episode.diagnosis}`
+                              : `assessed as ${episode.diagnosis} (not yet reviewed)`}
+                          </span>
+                          <Link
+                            href={`/doctor/report/${episode.reportId}`}
+                            className="text-xs font-medium text-blue-600 hover:underline flex-shrink-0"
+                          >
+                            View report
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {report.medicalHistory && (
                   <div className="grid grid-cols-2 gap-4 pt-2 border-t border-gray-100">
                     {report.medicalHistory.chronicConditions &&
@@ -615,6 +869,12 @@ export default function DoctorReportPage({
                   </p>
                   <p className="text-xl font-semibold text-gray-800">
                     {report.assessment?.primaryDiagnosis || 'Under evaluation'}
+                    <CitationLinks
+                      keys={citedKeys(
+                        report.assessment?.primaryDiagnosis,
+                        report.assessment?.citations
+                      )}
+                    />
                   </p>
                 </div>
                 {report.assessment?.differentialDiagnosis &&
@@ -631,12 +891,81 @@ export default function DoctorReportPage({
                               className="px-3 py-1 bg-gray-100 rounded-lg text-gray-700 text-sm"
                             >
                               {dx}
+                              <CitationLinks
+                                keys={citedKeys(
+                                  dx,
+                                  report.assessment.citations
+                                )}
+                              />
                             </span>
                           )
                         )}
                       </div>
                     </div>
                   )}
+                <DiagnosisCodes
+                  reportId={id}
+                  codes={report.diagnosisCodes || []}
+                  onChange={diagnosisCodes =>
+                    setReport({ ...report, diagnosisCodes })
+                  }
+                />
+                {report.assessment?.differentialEvidence &&
+                  report.assessment.differentialEvidence.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium text-gray-500 mb-2">
+                        Why These Conditions
+                      </p>
+                      <div className="space-y-3">
+                        {report.assessment.differentialEvidence.map(dx => (
+                          <div
+                            key={dx.condition}
+                            className="bg-gray-50 rounded-xl p-3"
+                          >
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="font-medium text-gray-800 text-sm">
+                                {dx.condition}
+                              </span>
+                              <span className="text-xs text-gray-500">
+                                {`${dx.prior}% prior → ${Math.round(dx.probability)}%`}
+                              </span>
+                            </div>
+                            {dx.contributions.length > 0 ? (
+                              <div className="flex flex-wrap gap-2">
+                                {dx.contributions.slice(0, 6).map(c => (
+                                  <span
+                                    key={c.symptom}
+                                    title={`Likelihood ratio ${c.likelihoodRatio} (turn ${c.turn})`}
+                                    className={`flex items-center gap-1 px-2 py-0.5 rounded-lg text-xs border ${
+                                      c.change >= 0
+                                        ? 'bg-green-50 text-green-700 border-green-200'
+                                        : 'bg-red-50 text-red-700 border-red-200'
+                                    }`}
+                                  >
+                                    {c.change >= 0 ? (
+                                      <TrendingUp className="w-3 h-3" />
+                                    ) : (
+                                      <TrendingDown className="w-3 h-3" />
+                                    )}
+                                    {c.symptom}{' '}
+                                    {c.finding === 'absent'
+                                      ? '(denied)'
+                                      : '(reported)'}{' '}
+                                    {c.change >= 0 ? '+' : ''}
+                                    {c.change}
+                                  </span>
+                                ))}
+                              </div>
+                            ) : (
+                              <p className="text-xs text-gray-500">
+                                No knowledge-base findings - prior only
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 {report.assessment?.aiAnalysis && (
                   <div>
                     <p className="text-sm font-medium text-gray-500 mb-1">
@@ -644,6 +973,12 @@ export default function DoctorReportPage({
                     </p>
                     <p className="text-gray-700 text-sm">
                       {report.assessment.aiAnalysis}
+                      <CitationLinks
+                        keys={citedKeys(
+                          report.assessment.aiAnalysis,
+                          report.assessment.citations
+                        )}
+                      />
                     </p>
                   </div>
                 )}
@@ -696,7 +1031,12 @@ export default function DoctorReportPage({
                           <span className="w-6 h-6 bg-purple-200 text-purple-700 rounded-full flex items-center justify-center text-sm font-medium flex-shrink-0">
                             {i + 1}
                           </span>
-                          <span className="text-gray-800">{item}</span>
+                          <span className="text-gray-800">
+                            {item}
+                            <CitationLinks
+                              keys={citedKeys(item, report.plan.citations)}
+                            />
+                          </span>
                         </li>
                       ))}
                     </ul>
@@ -714,6 +1054,9 @@ export default function DoctorReportPage({
                             className="px-3 py-1 bg-blue-50 text-blue-700 rounded-lg text-sm"
                           >
                             {test}
+                            <CitationLinks
+                              keys={citedKeys(test, report.plan.citations)}
+                            />
                           </span>
                         ))}
                       </div>
@@ -724,11 +1067,90 @@ export default function DoctorReportPage({
                     <Building className="w-5 h-5 text-indigo-600" />
                     <span className="text-indigo-700">
                       Specialist Referral: {report.plan.specialistReferral}
+                      <CitationLinks
+                        keys={citedKeys(
+                          report.plan.specialistReferral,
+                          report.plan.citations
+                        )}
+                      />
                     </span>
                   </div>
                 )}
               </div>
             </motion.div>
+
+            {/* References - knowledge-base sources behind cited statements */}
+            {(report.assessment?.references?.length ?? 0) > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.5 }}
+                className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100"
+              >
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="w-10 h-10 bg-blue-100 rounded-xl flex items-center justify-center">
+                    <BookOpen className="w-5 h-5 text-blue-600" />
+                  </div>
+                  <h3 className="text-lg font-bold text-gray-800">
+                    References
+                  </h3>
+                </div>
+                <ol className="space-y-3">
+                  {report.assessment.references!.map(ref => {
+                    const supports = [
+                      ...(report.assessment.citations || []),
+                      ...(report.plan?.citations || []),
+                    ].filter(c => c.sources.includes(ref.key));
+                    return (
+                      <li
+                        key={ref.key}
+                        id={`ref-${ref.key}`}
+                        className="p-3 bg-gray-50 rounded-xl border border-gray-100 scroll-mt-24"
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="font-medium text-gray-800 text-sm">
+                            [{ref.key}] {ref.title}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {ref.source}
+                          </span>
+                        </div>
+                        {ref.snippet && (
+                          <p className="text-sm text-gray-600 italic">
+                            “{ref.snippet}”
+                          </p>
+                        )}
+                        {supports.length > 0 ? (
+                          <div className="mt-2">
+                            <p className="text-xs text-gray-500 mb-1">
+                              Supports
+                            </p>
+                            <ul className="list-disc list-inside text-xs text-gray-700 space-y-0.5">
+                              {supports.map((c, i) => (
+                                <li key={i}>{c.statement}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : (
+                          <p className="mt-2 text-xs text-gray-400">
+                            Retrieved during the interview, not cited
+                          </p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              </motion.div>
+            )}
+
+            {/* Patient Summary - what the patient sees once approved */}
+            <PatientSummaryView reportId={id} preview />
+
+            {/* Version History - earlier contents, diffs and restore */}
+            <ReportVersionHistory
+              reportId={id}
+              onRestored={() => window.location.reload()}
+            />
           </div>
 
           {/* Action Panel */}
@@ -886,12 +1308,25 @@ export default function DoctorReportPage({
                     exit={{ height: 0, opacity: 0 }}
                     className="mb-6 overflow-hidden"
                   >
-                    <textarea
-                      value={prescription}
-                      onChange={e => setPrescription(e.target.value)}
-                      placeholder="Enter prescription details...&#10;e.g., Panadol 500mg - 1 tablet 3 times daily after meals for 5 days"
-                      className="w-full h-32 p-3 border border-gray-200 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-primary/30 mb-3"
-                    />
+                    <div className="mb-3">
+                      <PrescriptionEditor
+                        items={prescriptionItems}
+                        onChange={items => {
+                          setPrescriptionItems(items);
+                          // Checked again on the next submit
+                          setSafetyWarnings([]);
+                        }}
+                      />
+                    </div>
+                    {safetyWarnings.length > 0 && (
+                      <div className="mb-3">
+                        <PrescriptionWarnings
+                          warnings={safetyWarnings}
+                          decisions={warningDecisions}
+                          onChange={setWarningDecisions}
+                        />
+                      </div>
+                    )}
                     <label className="flex items-center gap-3 p-3 bg-blue-50 rounded-xl cursor-pointer">
                       <input
                         type="checkbox"
@@ -464,7 +464,11 @@ export default function PatientDashboard() {
                               : 'opacity-80'
                           }`}
                           onClick={() => {
-                            if (isReviewed) {
+                            if (isReviewed && session.reportId) {
+                              router.push(
+                                `/patient/report/${session.reportId}`
+                              );
+                            } else if (isReviewed) {
                               setActiveTab('prescriptions');
                             }
                           }}
@@ -728,6 +732,18 @@ export default function PatientDashboard() {
                                       <Download className="w-4 h-4 mr-1" />
                                       Download PDF
                                     </Button>
+                                    <Link
+                                      href={`/patient/report/${prescription.reportId}`}
+                                    >
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="rounded-lg"
+                                      >
+                                        <FileText className="w-4 h-4 mr-1" />
+                                        Your Summary
+                                      </Button>
+                                    </Link>
                                   </div>
                                 </div>
                               </motion.div>
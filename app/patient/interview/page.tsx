@@ -26,19 +26,13 @@ import { ReportCompleteDialog } from '@/components/ui/ReportCompleteDialog';
 import {
   ThinkingActivity,
   TypingText,
-  generateThinkingSteps,
+  applyInterviewEvent,
+  type ThinkingStep,
 } from '@/components/ui/ThinkingActivity';
+import { StreamingThinking } from '@/components/ui/StreamingThinking';
+import type { InterviewStreamEvent } from '@/lib/agents/types';
 import { VoiceOrb } from '@/components/ui/VoiceOrbNew';
 
-interface ThinkingStep {
-  id: string;
-  agent: string;
-  action: string;
-  status: 'pending' | 'running' | 'completed';
-  details?: string;
-  icon: 'database' | 'brain' | 'search' | 'file' | 'shield' | 'sparkles';
-}
-
 interface Message {
   id: string;
   role: 'assistant' | 'user';
@@ -78,6 +72,76 @@ interface DiagnosisProgress {
   symptomsIdentified: number;
 }
 
+// Stored session as returned by GET /api/clinical-chat
+interface ResumableSession {
+  id: string;
+  status: string;
+  conversationTurn: number;
+  createdAt: string;
+  updatedAt: string;
+  messages: Array<{
+    role: 'assistant' | 'user';
+    content: string;
+    urdu?: string;
+    severity?: Message['severity'];
+    confidenceLevel?: number;
+    timestamp: string;
+  }>;
+  diagnosis: {
+    confidenceScore: number;
+    identifiedSymptoms: string[];
+    diseaseCount: number;
+    potentialDiseases: Array<{ name: string; probability: number }>;
+  };
+}
+
+// Minimal Server-Sent Events reader for fetch responses
+// (EventSource cannot POST a message body)
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+) {
+  const reader = response
+    .body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
+function createWelcomeMessage(): Message {
+  return {
+    id: '1',
+    role: 'assistant',
+    content:
+      "Hello! I'm your AI health assistant. I'll ask you some questions to understand your symptoms better. What brings you here today?",
+    urdu: 'السلام علیکم! میں آپ کا اے آئی ہیلتھ اسسٹنٹ ہوں۔ میں آپ کی علامات کو بہتر سمجھنے کے لیے کچھ سوالات پوچھوں گا۔ آج آپ یہاں کیوں آئے ہیں؟',
+    timestamp: new Date(),
+    severity: 'normal',
+    confidenceLevel: 0,
+    diseaseCount: 50,
+    isTyping: false,
+  };
+}
+
 function InterviewPageContent() {
   const [user, setUser] = useState<{
     id: string;
@@ -93,11 +157,8 @@ function InterviewPageContent() {
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
   const [sessionInfo, setSessionInfo] = useState<SessionInfo | null>(null);
   const [showReportDialog, setShowReportDialog] = useState(false);
-  const [patientInfo, setPatientInfo] = useState<{
-    age?: number;
-    gender?: string;
-    chronicConditions?: string[];
-  } | null>(null);
+  const [resumeCandidate, setResumeCandidate] =
+    useState<ResumableSession | null>(null);
 
   // Voice mode states
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -117,10 +178,6 @@ function InterviewPageContent() {
     }
   );
 
-  // Store actual diagnosis state from API for subsequent calls
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const [diagnosisState, setDiagnosisState] = useState<any>(null);
-
   // Thinking state for current processing
   const [currentThinkingSteps, setCurrentThinkingSteps] = useState<
     ThinkingStep[]
@@ -128,6 +185,8 @@ function InterviewPageContent() {
   const [thinkingStartTime, setThinkingStartTime] = useState<number>(
     Date.now()
   );
+  // Reply text streamed by the reasoning agent before the turn completes
+  const [streamingReply, setStreamingReply] = useState('');
 
   // Show side panel on larger screens
   const [showActivityPanel, setShowActivityPanel] = useState(false);
@@ -144,6 +203,110 @@ function InterviewPageContent() {
   // TTS request in flight ref to prevent duplicates
   const ttsInFlightRef = useRef<boolean>(false);
 
+  // Start a fresh interview (cancels any unfinished one server-side)
+  const startNewSession = async () => {
+    setResumeCandidate(null);
+
+    // Create new clinical session (medical history is loaded server-side)
+    try {
+      const sessionRes = await fetch('/api/clinical-chat', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const sessionData = await sessionRes.json();
+      if (sessionData.sessionId) {
+        setSessionInfo({
+          id: sessionData.sessionId,
+          confidenceLevel: 0,
+          severity: 'normal',
+          identifiedSymptoms: [],
+          isConfident: false,
+          diseaseCount: 50,
+          conversationTurn: 0,
+        });
+      }
+    } catch (e) {
+      console.error('Failed to create session:', e);
+    }
+
+    // Initialize with welcome message
+    const welcomeMessage = createWelcomeMessage();
+    setMessages([welcomeMessage]);
+
+    // Auto-speak welcome in voice mode
+    if (mode === 'voice') {
+      setTimeout(
+        () => speakText(welcomeMessage.urdu || welcomeMessage.content),
+        500
+      );
+    }
+  };
+
+  // Continue an interrupted interview from its stored conversation
+  const resumeSession = async (sessionId: string) => {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/clinical-chat?sessionId=${encodeURIComponent(sessionId)}`
+      );
+      const data = await res.json();
+      const session: ResumableSession | undefined = data.session;
+
+      if (!res.ok || !session || !data.resumable) {
+        // Expired or finished in the meantime - fall back to a new interview
+        await startNewSession();
+        return;
+      }
+
+      const restored: Message[] = session.messages.map((m, index) => ({
+        id: `restored-${index}`,
+        role: m.role,
+        content: m.content,
+        urdu: m.urdu,
+        timestamp: new Date(m.timestamp),
+        severity: m.severity,
+        confidenceLevel: m.confidenceLevel,
+        isTyping: false,
+      }));
+      setMessages([createWelcomeMessage(), ...restored]);
+
+      const { diagnosis } = session;
+      const lastAssistant = [...restored]
+        .reverse()
+        .find(m => m.role === 'assistant');
+
+      setSessionInfo({
+        id: session.id,
+        confidenceLevel: diagnosis.confidenceScore,
+        severity: lastAssistant?.severity || 'normal',
+        identifiedSymptoms: diagnosis.identifiedSymptoms,
+        isConfident: diagnosis.confidenceScore >= 95,
+        diseaseCount: diagnosis.diseaseCount,
+        conversationTurn: session.conversationTurn,
+      });
+      setDiagnosisProgress(prev => ({
+        ...prev,
+        currentDiseases: diagnosis.diseaseCount || prev.currentDiseases,
+        confidence: diagnosis.confidenceScore,
+        topConditions: diagnosis.potentialDiseases.map(d => d.name),
+        symptomsIdentified: diagnosis.identifiedSymptoms.length,
+      }));
+      setResumeCandidate(null);
+    } catch (e) {
+      console.error('Failed to resume session:', e);
+      await startNewSession();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartNew = async () => {
+    setLoading(true);
+    await startNewSession();
+    setLoading(false);
+  };
+
   // Initialize session
   useEffect(() => {
     const initializeSession = async () => {
@@ -159,70 +322,20 @@ function InterviewPageContent() {
         email: data.user.email,
       });
 
-      // Fetch patient medical history
-      try {
-        const historyRes = await fetch('/api/medical-history');
-        if (historyRes.ok) {
-          const historyData = await historyRes.json();
-          if (historyData.medicalHistory) {
-            setPatientInfo({
-              age: historyData.medicalHistory.age,
-              gender: historyData.medicalHistory.gender,
-              chronicConditions:
-                historyData.medicalHistory.chronicConditions || [],
-            });
-          }
-        }
-      } catch (e) {
-        console.error('Failed to fetch medical history:', e);
-      }
-
-      // Create new clinical session
+      // Offer to continue an interrupted interview before starting a new one
       try {
-        const sessionRes = await fetch('/api/clinical-chat', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ userId: data.user.id }),
-        });
-        const sessionData = await sessionRes.json();
-        if (sessionData.sessionId) {
-          setSessionInfo({
-            id: sessionData.sessionId,
-            confidenceLevel: 0,
-            severity: 'normal',
-            identifiedSymptoms: [],
-            isConfident: false,
-            diseaseCount: 50,
-            conversationTurn: 0,
-          });
+        const resumeRes = await fetch('/api/clinical-chat');
+        const resumeData = await resumeRes.json();
+        if (resumeRes.ok && resumeData.session) {
+          setResumeCandidate(resumeData.session);
+          setLoading(false);
+          return;
         }
       } catch (e) {
-        console.error('Failed to create session:', e);
-      }
-
-      // Initialize with welcome message
-      const welcomeMessage: Message = {
-        id: '1',
-        role: 'assistant',
-        content:
-          "Hello! I'm your AI health assistant. I'll ask you some questions to understand your symptoms better. What brings you here today?",
-        urdu: 'السلام علیکم! میں آپ کا اے آئی ہیلتھ اسسٹنٹ ہوں۔ میں آپ کی علامات کو بہتر سمجھنے کے لیے کچھ سوالات پوچھوں گا۔ آج آپ یہاں کیوں آئے ہیں؟',
-        timestamp: new Date(),
-        severity: 'normal',
-        confidenceLevel: 0,
-        diseaseCount: 50,
-        isTyping: false,
-      };
-      setMessages([welcomeMessage]);
-
-      // Auto-speak welcome in voice mode
-      if (mode === 'voice') {
-        setTimeout(
-          () => speakText(welcomeMessage.urdu || welcomeMessage.content),
-          500
-        );
+        console.error('Failed to check for an unfinished session:', e);
       }
 
+      await startNewSession();
       setLoading(false);
     };
     initializeSession();
@@ -363,40 +476,60 @@ function InterviewPageContent() {
     setIsLoading(true);
     setThinkingStartTime(Date.now());
 
-    // Generate thinking steps for animation
-    const thinkingSteps = generateThinkingSteps(
-      sessionInfo?.confidenceLevel || 0,
-      diagnosisProgress.currentDiseases
-    );
-    setCurrentThinkingSteps(thinkingSteps);
+    setCurrentThinkingSteps([]);
+    setStreamingReply('');
 
     try {
-      const conversationHistory = messages.map(m => ({
-        role: m.role,
-        content: m.content,
-      }));
-
+      // Conversation and diagnosis state are kept server-side on the session
       const response = await fetch('/api/clinical-chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
         body: JSON.stringify({
           message: messageToSend,
           sessionId: sessionInfo?.id,
-          userId: user.id,
-          conversationHistory,
-          patientInfo,
-          // Pass stored diagnosis state if available (from previous API response)
-          diagnosisState: diagnosisState || undefined,
-          conversationTurn: sessionInfo?.conversationTurn || 0,
         }),
       });
 
-      const data = await response.json();
+      // Live agent progress arrives as events; errors before the turn
+      // starts (auth, missing or finished session) are plain JSON
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let data: any;
+      let status = response.status;
+      let thinkingSteps: ThinkingStep[] = [];
+      let replyStreamed = false;
+
+      if (response.headers.get('content-type')?.includes('text/event-stream')) {
+        await readEventStream(response, (event, payload) => {
+          if (event === 'done') {
+            data = payload;
+          } else if (event === 'error') {
+            data = payload;
+            status = (payload as { status?: number }).status || 500;
+          } else if (event === 'token') {
+            replyStreamed = true;
+            const { delta } = payload as { delta: string };
+            setStreamingReply(prev => prev + delta);
+          } else if (event === 'token_reset') {
+            setStreamingReply('');
+          } else {
+            thinkingSteps = applyInterviewEvent(
+              thinkingSteps,
+              payload as InterviewStreamEvent
+            );
+            setCurrentThinkingSteps(thinkingSteps);
+          }
+        });
+      } else {
+        data = await response.json();
+      }
       const thinkingDuration = Math.round(
         (Date.now() - thinkingStartTime) / 1000
       );
 
-      if (data.success && data.response) {
+      if (data?.success && data.response) {
         // Calculate new disease count (narrowing down)
         const newConfidence = data.response.confidenceLevel || 0;
         const newDiseaseCount = Math.max(
@@ -406,11 +539,6 @@ function InterviewPageContent() {
           )
         );
 
-        // Store the diagnosis state from API for next request
-        if (data.nextState?.diagnosisState) {
-          setDiagnosisState(data.nextState.diagnosisState);
-        }
-
         // Update diagnosis progress
         setDiagnosisProgress(prev => ({
           ...prev,
@@ -433,12 +561,9 @@ function InterviewPageContent() {
           severity: data.response.severity,
           confidenceLevel: newConfidence,
           diseaseCount: newDiseaseCount,
-          thinkingSteps: thinkingSteps.map(s => ({
-            ...s,
-            status: 'completed' as const,
-          })),
+          thinkingSteps,
           thinkingDuration,
-          isTyping: true, // Enable typing animation
+          isTyping: !replyStreamed, // Typing animation unless already streamed
         };
 
         setMessages(prev => [...prev, aiMessage]);
@@ -454,7 +579,9 @@ function InterviewPageContent() {
                   data.response.identifiedSymptoms || prev.identifiedSymptoms,
                 isConfident: data.response.isConfident,
                 diseaseCount: newDiseaseCount,
-                conversationTurn: (prev.conversationTurn || 0) + 1,
+                conversationTurn:
+                  data.session?.conversationTurn ??
+                  (prev.conversationTurn || 0) + 1,
               }
             : null
         );
@@ -494,6 +621,18 @@ function InterviewPageContent() {
             setShowReportDialog(true);
           }, 4000);
         }
+      } else if (status === 409) {
+        // Session changed elsewhere (another tab) or is no longer active
+        const conflictMessage: Message = {
+          id: (Date.now() + 1).toString(),
+          role: 'assistant',
+          content:
+            'This session was updated elsewhere or has ended. Please reload the page to continue.',
+          urdu: 'یہ سیشن کہیں اور اپڈیٹ ہو گیا ہے یا ختم ہو چکا ہے۔ جاری رکھنے کے لیے براہ کرم صفحہ دوبارہ لوڈ کریں۔',
+          timestamp: new Date(),
+          isTyping: true,
+        };
+        setMessages(prev => [...prev, conflictMessage]);
       } else {
         // Error message
         const errorMessage: Message = {
@@ -521,6 +660,7 @@ function InterviewPageContent() {
     } finally {
       setIsLoading(false);
       setCurrentThinkingSteps([]);
+      setStreamingReply('');
     }
   };
 
@@ -538,15 +678,7 @@ function InterviewPageContent() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          message: 'Generate final report',
           sessionId: sessionInfo?.id,
-          userId: user?.id,
-          conversationHistory: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
-          diagnosisState: diagnosisState,
-          conversationTurn: sessionInfo?.conversationTurn || 0,
           generateReport: true, // This triggers SOAP + Safety agents
         }),
       });
@@ -630,6 +762,83 @@ function InterviewPageContent() {
     );
   }
 
+  // Unfinished interview found - let the patient choose
+  if (resumeCandidate) {
+    const lastActivity = new Date(resumeCandidate.updatedAt);
+    const symptoms = resumeCandidate.diagnosis.identifiedSymptoms;
+
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-[#f2f1f3]">
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          className="bg-white rounded-2xl p-6 max-w-md w-full border border-slate-200 shadow-xl"
+        >
+          <div className="text-center mb-6">
+            <div className="w-14 h-14 bg-primary/10 rounded-xl flex items-center justify-center mx-auto mb-4">
+              <MessageSquare className="w-7 h-7 text-primary" />
+            </div>
+            <h2 className="text-xl font-bold text-slate-800 mb-1">
+              Continue where you left off?
+            </h2>
+            <p className="font-urdu text-primary">
+              کیا آپ اپنا پچھلا سیشن جاری رکھنا چاہتے ہیں؟
+            </p>
+          </div>
+
+          {/* Summary */}
+          <div className="bg-slate-50 rounded-xl p-4 mb-4 space-y-2 text-sm border border-slate-100">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Last activity</span>
+              <span className="text-slate-700">
+                {lastActivity.toLocaleString()}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Questions answered</span>
+              <span className="text-slate-700">
+                {resumeCandidate.conversationTurn}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Confidence</span>
+              <span
+                className={getConfidenceColor(
+                  resumeCandidate.diagnosis.confidenceScore
+                )}
+              >
+                {Math.round(resumeCandidate.diagnosis.confidenceScore)}%
+              </span>
+            </div>
+            {symptoms.length > 0 && (
+              <div className="pt-2 border-t border-slate-100">
+                <span className="text-slate-400">Symptoms</span>
+                <p className="text-slate-700 mt-1">{symptoms.join(', ')}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              onClick={handleStartNew}
+              variant="outline"
+              className="flex-1 border-slate-200 text-slate-600 hover:bg-slate-50"
+            >
+              Start new
+            </Button>
+            <Button
+              onClick={() => resumeSession(resumeCandidate.id)}
+              className="flex-1 bg-primary hover:bg-primary/90 text-white"
+            >
+              <Clock className="w-4 h-4 mr-2" />
+              Continue
+            </Button>
+          </div>
+        </motion.div>
+      </div>
+    );
+  }
+
   // Voice Mode UI
   if (mode === 'voice') {
     return (
@@ -1112,6 +1321,10 @@ function InterviewPageContent() {
                 </div>
               </motion.div>
             )}
+            <StreamingThinking
+              isVisible={isLoading && !!streamingReply}
+              text={streamingReply}
+            />
 
             <div ref={messagesEndRef} />
           </div>
@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState, use } from 'react';
+import { authClient } from '@/lib/auth-client';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PatientSummaryView } from '@/components/ui/PatientSummaryView';
+import Link from 'next/link';
+
+export default function PatientReportPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+
+  useEffect(() => {
+    const getSession = async () => {
+      const { data } = await authClient.getSession();
+      if (!data?.user) {
+        router.push('/login');
+        return;
+      }
+      setLoading(false);
+    };
+    getSession();
+  }, [router]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-linear-to-br from-slate-50 to-blue-50">
+        <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-white to-blue-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-40">
+        <div className="max-w-4xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/patient/dashboard">
+              <Button variant="ghost" size="sm" className="rounded-xl">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-800">Your Report</h1>
+              <p className="text-sm text-gray-500 font-urdu">آپ کی رپورٹ</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-8">
+        <PatientSummaryView reportId={id} />
+      </main>
+    </div>
+  );
+}
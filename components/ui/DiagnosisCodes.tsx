@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Pencil, Loader2, Search } from 'lucide-react';
+import { searchICD10Codes } from '@/lib/constants/icd10';
+import type { DiagnosisCode } from '@/lib/agents/types';
+
+interface DiagnosisCodesProps {
+  reportId: string;
+  codes: DiagnosisCode[];
+  onChange: (codes: DiagnosisCode[]) => void;
+}
+
+const STATUS_STYLES: Record<
+  DiagnosisCode['status'],
+  { label: string; className: string }
+> = {
+  suggested: { label: 'Suggested', className: 'bg-amber-50 text-amber-700' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-50 text-green-700' },
+  overridden: { label: 'Set by doctor', className: 'bg-blue-50 text-blue-700' },
+  uncoded: { label: 'Not coded', className: 'bg-gray-100 text-gray-600' },
+};
+
+export function DiagnosisCodes({
+  reportId,
+  codes,
+  onChange,
+}: DiagnosisCodesProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [saving, setSaving] = useState<string | null>(null);
+
+  if (codes.length === 0) return null;
+
+  const saveCode = async (diagnosis: string, code: string) => {
+    setSaving(diagnosis);
+    try {
+      const res = await fetch(`/api/reports/${reportId}/codes`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ diagnosis, code }),
+      });
+      if (res.ok) {
+        const data = await res.json();
+        onChange(data.diagnosisCodes);
+        setEditing(null);
+        setQuery('');
+      } else {
+        alert('Failed to update diagnosis code');
+      }
+    } catch (error) {
+      console.error('Failed to update diagnosis code:', error);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const results = searchICD10Codes(query, 6);
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-500 mb-2">ICD-10 Codes</p>
+      <ul className="space-y-2">
+        {codes.map(c => {
+          const status = STATUS_STYLES[c.status];
+          const confidence = c.candidates.find(
+            candidate => candidate.code === c.code
+          )?.confidence;
+
+          return (
+            <li
+              key={c.diagnosis}
+              className="p-3 bg-gray-50 rounded-xl border border-gray-100"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-800">
+                    <span className="font-medium">{c.diagnosis}</span>
+                    <span className="ml-2 text-xs text-gray-400">
+                      {c.role === 'primary' ? 'Primary' : 'Differential'}
+                    </span>
+                  </p>
+                  {c.code ? (
+                    <p className="text-sm text-gray-600 mt-1">
+                      <span className="font-mono font-semibold text-gray-800">
+                        {c.code}
+                      </span>{' '}
+                      {c.title}
+                      {c.status === 'suggested' && confidence !== undefined && (
+                        <span className="ml-1 text-xs text-gray-400">
+                          ({Math.round(confidence * 100)}% match)
+                        </span>
+                      )}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-400 mt-1">
+                      No confident match in the code table
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span
+                    className={`px-2 py-0.5 rounded-lg text-xs ${status.className}`}
+                  >
+                    {status.label}
+                  </span>
+                  {c.status === 'suggested' && c.code && (
+                    <button
+                      onClick={() => saveCode(c.diagnosis, c.code!)}
+                      disabled={saving === c.diagnosis}
+                      title="Confirm code"
+                      className="p-1.5 rounded-lg text-green-700 hover:bg-green-50 disabled:opacity-50"
+                    >
+                      {saving === c.diagnosis ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Check className="w-4 h-4" />
+                      )}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setEditing(editing === c.diagnosis ? null : c.diagnosis);
+                      setQuery('');
+                    }}
+                    title="Change code"
+                    className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {/* Candidates and table search for an override */}
+              {editing === c.diagnosis && (
+                <div className="mt-3 space-y-2">
+                  {c.candidates.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {c.candidates.map(candidate => (
+                        <button
+                          key={candidate.code}
+                          onClick={() => saveCode(c.diagnosis, candidate.code)}
+                          disabled={saving === c.diagnosis}
+                          className="px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs text-gray-700 hover:border-blue-300 disabled:opacity-50"
+                        >
+                          <span className="font-mono font-semibold">
+                            {candidate.code}
+                          </span>{' '}
+                          {candidate.title} ·{' '}
+                          {Math.round(candidate.confidence * 100)}%
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="relative">
+                    <Search className="w-4 h-4 text-gray-400 absolute left-2 top-2" />
+                    <input
+                      value={query}
+                      onChange={e => setQuery(e.target.value)}
+                      placeholder="Search ICD-10 code or condition"
+                      className="w-full pl-8 pr-3 py-1.5 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    />
+                  </div>
+                  {results.length > 0 && (
+                    <ul className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+                      {results.map(entry => (
+                        <li key={entry.code}>
+                          <button
+                            onClick={() => saveCode(c.diagnosis, entry.code)}
+                            disabled={saving === c.diagnosis}
+                            className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-blue-50 disabled:opacity-50"
+                          >
+                            <span className="font-mono font-semibold">
+                              {entry.code}
+                            </span>{' '}
+                            {entry.title}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
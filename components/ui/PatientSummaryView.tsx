@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  AlertTriangle,
+  ArrowRight,
+  Download,
+  Loader2,
+  MessageCircle,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { PatientSummary, PatientSummaryText } from '@/lib/agents/types';
+
+interface SummaryResponse {
+  reportId: string;
+  released: boolean;
+  summary: PatientSummary | null;
+}
+
+interface PatientSummaryViewProps {
+  reportId: string;
+  // Doctors preview the summary before it is released to the patient
+  preview?: boolean;
+}
+
+type Language = 'urdu' | 'roman';
+
+const HEADINGS: Record<
+  Language,
+  { discussed: string; watchFor: string; nextSteps: string }
+> = {
+  urdu: {
+    discussed: 'کیا بات ہوئی',
+    watchFor: 'ان علامات پر فوراً ڈاکٹر سے رابطہ کریں',
+    nextSteps: 'آگے کیا کرنا ہے',
+  },
+  roman: {
+    discussed: 'Kya baat hui',
+    watchFor: 'In alamaat par foran doctor se rabta karein',
+    nextSteps: 'Agay kya karna hai',
+  },
+};
+
+export function PatientSummaryView({
+  reportId,
+  preview = false,
+}: PatientSummaryViewProps) {
+  const [data, setData] = useState<SummaryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [language, setLanguage] = useState<Language>('urdu');
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      try {
+        const res = await fetch(`/api/reports/${reportId}/summary`);
+        const payload = await res.json();
+        if (res.ok) {
+          setData(payload);
+        } else {
+          setError(payload.error || 'Summary not available');
+        }
+      } catch (err) {
+        console.error('Failed to fetch patient summary:', err);
+        setError('Summary not available');
+      }
+    };
+    fetchSummary();
+  }, [reportId]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const res = await fetch(`/api/reports/${reportId}/summary/pdf`);
+      if (res.ok) {
+        const blob = await res.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `Summary_${reportId.slice(0, 8)}.pdf`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        alert('Failed to download summary');
+      }
+    } catch (err) {
+      console.error('Download error:', err);
+      alert('Failed to download summary');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  // The doctor preview stays out of the way until there is something to show
+  if (preview && !data?.summary) return null;
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-2xl p-6 shadow-md text-center text-gray-500">
+        <p>{error}</p>
+      </div>
+    );
+  }
+  if (!data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+  if (!data.summary) {
+    return (
+      <div className="bg-white rounded-2xl p-6 shadow-md text-center text-gray-500">
+        <p>Your summary is being prepared. Please check back shortly.</p>
+      </div>
+    );
+  }
+
+  const rtl = language === 'urdu';
+  const text: PatientSummaryText = data.summary[language];
+  const headings = HEADINGS[language];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100"
+    >
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">
+            {preview ? 'Patient Summary' : 'Your Visit Summary'}
+          </h3>
+          {preview && (
+            <p className="text-xs text-gray-500">
+              {data.released
+                ? 'Visible to the patient'
+                : 'Shown to the patient once the report is approved'}
+            </p>
+          )}
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          {(['urdu', 'roman'] as Language[]).map(l => (
+            <button
+              key={l}
+              onClick={() => setLanguage(l)}
+              className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                language === l
+                  ? 'bg-white shadow-sm text-gray-800'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {l === 'urdu' ? <span className="font-urdu">اردو</span> : 'Roman'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        dir={rtl ? 'rtl' : 'ltr'}
+        className={`space-y-5 ${rtl ? 'font-urdu leading-loose' : ''}`}
+      >
+        <section>
+          <h4 className="flex items-center gap-2 font-semibold text-primary mb-2">
+            <MessageCircle className="w-4 h-4" />
+            {headings.discussed}
+          </h4>
+          <p className="text-gray-700">{text.discussed}</p>
+        </section>
+
+        <section className="bg-red-50 rounded-xl p-4">
+          <h4 className="flex items-center gap-2 font-semibold text-red-700 mb-2">
+            <AlertTriangle className="w-4 h-4" />
+            {headings.watchFor}
+          </h4>
+          <ul className="list-disc list-inside space-y-1 text-gray-700">
+            {text.watchFor.map((item, i) => (
+              <li key={i}>{item}</li>
+            ))}
+          </ul>
+        </section>
+
+        <section>
+          <h4 className="flex items-center gap-2 font-semibold text-secondary mb-2">
+            <ArrowRight className={`w-4 h-4 ${rtl ? 'rotate-180' : ''}`} />
+            {headings.nextSteps}
+          </h4>
+          <ul className="list-disc list-inside space-y-1 text-gray-700">
+            {text.nextSteps.map((item, i) => (
+              <li key={i}>{item}</li>
+            ))}
+          </ul>
+        </section>
+      </div>
+
+      <div className="flex justify-end pt-4 mt-4 border-t border-gray-100">
+        <Button
+          variant="outline"
+          size="sm"
+          className="rounded-lg"
+          onClick={handleDownload}
+          disabled={isDownloading}
+        >
+          {isDownloading ? (
+            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-1" />
+          )}
+          Download PDF
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Search, Trash2 } from 'lucide-react';
+import {
+  DEFAULT_DOSE,
+  DOSE_FREQUENCIES,
+  INSTRUCTION_PRESETS,
+  findFormularyDrug,
+  searchFormulary,
+  type DosageForm,
+  type FormularyMatch,
+} from '@/lib/constants/formulary';
+import type { PrescriptionItem } from '@/lib/agents/types';
+
+interface PrescriptionEditorProps {
+  items: PrescriptionItem[];
+  onChange: (items: PrescriptionItem[]) => void;
+}
+
+const FORMS: DosageForm[] = [
+  'tablet',
+  'capsule',
+  'syrup',
+  'suspension',
+  'drops',
+  'sachet',
+  'inhaler',
+  'cream',
+  'injection',
+];
+const ROUTES = ['oral', 'inhalation', 'topical', 'injection'];
+const DURATIONS = [
+  '3 days',
+  '5 days',
+  '7 days',
+  '10 days',
+  '14 days',
+  '1 month',
+];
+
+// Dose, route and frequency must be set before the prescription is saved
+export function isPrescriptionItemComplete(item: PrescriptionItem): boolean {
+  return Boolean(
+    item.drug.trim() &&
+    item.form.trim() &&
+    item.dose.trim() &&
+    item.route.trim() &&
+    item.frequency.trim()
+  );
+}
+
+function itemFromMatch({ drug, name }: FormularyMatch): PrescriptionItem {
+  const { form, strengths } = drug.forms[0];
+  return {
+    formularyId: drug.id,
+    drug: name,
+    genericName: drug.generic,
+    strength: strengths[0],
+    form,
+    dose: DEFAULT_DOSE[form],
+    route: drug.route,
+    frequency: '',
+    duration: '',
+    instructions: '',
+    instructionsUrdu: '',
+  };
+}
+
+function customItem(name: string): PrescriptionItem {
+  return {
+    formularyId: null,
+    drug: name,
+    genericName: null,
+    strength: '',
+    form: 'tablet',
+    dose: DEFAULT_DOSE.tablet,
+    route: 'oral',
+    frequency: '',
+    duration: '',
+    instructions: '',
+    instructionsUrdu: '',
+  };
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 border border-gray-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary/30';
+
+export function PrescriptionEditor({
+  items,
+  onChange,
+}: PrescriptionEditorProps) {
+  const [query, setQuery] = useState('');
+
+  const results = searchFormulary(query, 6);
+
+  const addItem = (item: PrescriptionItem) => {
+    onChange([...items, item]);
+    setQuery('');
+  };
+
+  const updateItem = (index: number, changes: Partial<PrescriptionItem>) => {
+    onChange(
+      items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => {
+        const formulary = item.formularyId
+          ? findFormularyDrug(item.formularyId)
+          : undefined;
+        const strengths =
+          formulary?.forms.find(f => f.form === item.form)?.strengths || [];
+
+        return (
+          <div
+            key={index}
+            className={`p-3 rounded-xl border ${
+              isPrescriptionItemComplete(item)
+                ? 'border-gray-100 bg-gray-50'
+                : 'border-amber-200 bg-amber-50'
+            }`}
+          >
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <div>
+                <p className="font-medium text-gray-800 text-sm">
+                  {index + 1}. {item.drug}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {item.genericName || 'Not in formulary'}
+                </p>
+              </div>
+              <button
+                onClick={() => removeItem(index)}
+                title="Remove"
+                className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={item.form}
+                onChange={e => {
+                  const form = e.target.value as DosageForm;
+                  updateItem(index, {
+                    form,
+                    dose: DEFAULT_DOSE[form],
+                    strength:
+                      formulary?.forms.find(f => f.form === form)
+                        ?.strengths[0] || item.strength,
+                  });
+                }}
+                className={inputClass}
+              >
+                {(formulary ? formulary.forms.map(f => f.form) : FORMS).map(
+                  form => (
+                    <option key={form} value={form}>
+                      {form}
+                    </option>
+                  )
+                )}
+              </select>
+              <input
+                value={item.strength}
+                onChange={e => updateItem(index, { strength: e.target.value })}
+                list={`strengths-${index}`}
+                placeholder="Strength"
+                className={inputClass}
+              />
+              <datalist id={`strengths-${index}`}>
+                {strengths.map(strength => (
+                  <option key={strength} value={strength} />
+                ))}
+              </datalist>
+              <input
+                value={item.dose}
+                onChange={e => updateItem(index, { dose: e.target.value })}
+                placeholder="Dose"
+                className={inputClass}
+              />
+              <select
+                value={item.route}
+                onChange={e => updateItem(index, { route: e.target.value })}
+                className={inputClass}
+              >
+                {ROUTES.map(route => (
+                  <option key={route} value={route}>
+                    {route}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={item.frequency}
+                onChange={e => updateItem(index, { frequency: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Frequency</option>
+                {DOSE_FREQUENCIES.map(f => (
+                  <option key={f.en} value={f.en}>
+                    {f.en}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={item.duration}
+                onChange={e => updateItem(index, { duration: e.target.value })}
+                list="prescription-durations"
+                placeholder="Duration"
+                className={inputClass}
+              />
+              <input
+                value={item.instructions}
+                onChange={e =>
+                  updateItem(index, { instructions: e.target.value })
+                }
+                placeholder="Instructions (English)"
+                className={`${inputClass} col-span-2`}
+              />
+              <input
+                value={item.instructionsUrdu}
+                onChange={e =>
+                  updateItem(index, { instructionsUrdu: e.target.value })
+                }
+                dir="rtl"
+                placeholder="ہدایات (اردو)"
+                className={`${inputClass} col-span-2 font-urdu`}
+              />
+            </div>
+
+            {/* Common instructions fill both languages */}
+            <div className="flex flex-wrap gap-1 mt-2">
+              {INSTRUCTION_PRESETS.map(preset => (
+                <button
+                  key={preset.en}
+                  onClick={() =>
+                    updateItem(index, {
+                      instructions: preset.en,
+                      instructionsUrdu: preset.ur,
+                    })
+                  }
+                  className="px-2 py-0.5 bg-white border border-gray-200 rounded-lg text-xs text-gray-600 hover:border-primary/40"
+                >
+                  {preset.en}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <datalist id="prescription-durations">
+        {DURATIONS.map(duration => (
+          <option key={duration} value={duration} />
+        ))}
+      </datalist>
+
+      {/* Formulary search */}
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-2.5" />
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Add medicine - brand or generic name (e.g. Panadol)"
+          className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+        />
+        {query.trim() && (
+          <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-xl shadow-lg divide-y divide-gray-100 overflow-hidden">
+            {results.map(match => (
+              <li key={`${match.drug.id}-${match.name}`}>
+                <button
+                  onClick={() => addItem(itemFromMatch(match))}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+                >
+                  <span className="font-medium text-gray-800">
+                    {match.name}
+                  </span>
+                  {match.name !== match.drug.generic && (
+                    <span className="text-gray-500">
+                      {' '}
+                      ({match.drug.generic})
+                    </span>
+                  )}
+                  <span className="block text-xs text-gray-400">
+                    {match.drug.forms
+                      .map(f => `${f.form} ${f.strengths.join(' / ')}`)
+                      .join(' · ')}
+                  </span>
+                </button>
+              </li>
+            ))}
+            <li>
+              <button
+                onClick={() => addItem(customItem(query.trim()))}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-primary hover:bg-blue-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add &quot;{query.trim()}&quot; (not in formulary)
+              </button>
+            </li>
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
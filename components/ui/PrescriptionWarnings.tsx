@@ -0,0 +1,145 @@
+'use client';
+
+import { AlertOctagon, AlertTriangle, Check, ShieldOff } from 'lucide-react';
+import type {
+  PrescriptionWarning,
+  PrescriptionWarningDecision,
+  PrescriptionWarningDecisionKind,
+} from '@/lib/agents/types';
+
+interface PrescriptionWarningsProps {
+  warnings: PrescriptionWarning[];
+  decisions: PrescriptionWarningDecision[];
+  onChange: (decisions: PrescriptionWarningDecision[]) => void;
+}
+
+const KIND_LABELS: Record<PrescriptionWarning['kind'], string> = {
+  allergy: 'Allergy',
+  interaction: 'Interaction',
+  duplicate: 'Duplicate therapy',
+  age: 'Age',
+  pregnancy: 'Pregnancy',
+  unchecked: 'Not checked',
+};
+
+// An override needs a reason before the prescription can be saved
+export function isWarningDecided(
+  warning: PrescriptionWarning,
+  decisions: PrescriptionWarningDecision[]
+): boolean {
+  const decision = decisions.find(d => d.warningId === warning.id);
+  return (
+    !!decision &&
+    (decision.decision === 'acknowledged' || !!decision.reason.trim())
+  );
+}
+
+export function PrescriptionWarnings({
+  warnings,
+  decisions,
+  onChange,
+}: PrescriptionWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  const setDecision = (
+    warningId: string,
+    changes: Partial<PrescriptionWarningDecision>
+  ) => {
+    const current = decisions.find(d => d.warningId === warningId) || {
+      warningId,
+      decision: 'acknowledged' as PrescriptionWarningDecisionKind,
+      reason: '',
+    };
+    onChange([
+      ...decisions.filter(d => d.warningId !== warningId),
+      { ...current, ...changes },
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-700">
+        Safety checks - acknowledge or override each warning
+      </p>
+      {warnings.map(warning => {
+        const decision = decisions.find(d => d.warningId === warning.id);
+        const major = warning.severity === 'major';
+        const Icon = major ? AlertOctagon : AlertTriangle;
+
+        return (
+          <div
+            key={warning.id}
+            className={`p-3 rounded-xl border ${
+              major
+                ? 'border-red-200 bg-red-50'
+                : 'border-amber-200 bg-amber-50'
+            }`}
+          >
+            <div className="flex items-start gap-2">
+              <Icon
+                className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+                  major ? 'text-red-600' : 'text-amber-600'
+                }`}
+              />
+              <div className="flex-1 text-sm">
+                <p className="font-medium text-gray-800">
+                  {KIND_LABELS[warning.kind]}: {warning.drugs.join(' + ')}
+                  {warning.conflictsWith && (
+                    <span className="font-normal text-gray-500">
+                      {' '}
+                      ({warning.conflictsWith})
+                    </span>
+                  )}
+                </p>
+                <p className="text-gray-600">{warning.message}</p>
+              </div>
+            </div>
+
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() =>
+                  setDecision(warning.id, { decision: 'acknowledged' })
+                }
+                className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs border ${
+                  decision?.decision === 'acknowledged'
+                    ? 'bg-white border-gray-400 text-gray-800'
+                    : 'border-gray-200 text-gray-500 hover:bg-white'
+                }`}
+              >
+                <Check className="w-3 h-3" />
+                Acknowledge
+              </button>
+              <button
+                onClick={() =>
+                  setDecision(warning.id, { decision: 'overridden' })
+                }
+                className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs border ${
+                  decision?.decision === 'overridden'
+                    ? 'bg-white border-gray-400 text-gray-800'
+                    : 'border-gray-200 text-gray-500 hover:bg-white'
+                }`}
+              >
+                <ShieldOff className="w-3 h-3" />
+                Override
+              </button>
+            </div>
+            {decision && (
+              <input
+                value={decision.reason}
+                onChange={e =>
+                  setDecision(warning.id, { reason: e.target.value })
+                }
+                placeholder={
+                  decision.decision === 'overridden'
+                    ? 'Reason for overriding (required)'
+                    : 'Note (optional)'
+                }
+                className="w-full mt-2 px-2 py-1.5 border border-gray-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary/30"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import {
+  diffReportSections,
+  fieldLabel,
+  type SOAPSections,
+} from '@/lib/agents/report-diff';
+
+interface ReportVersion {
+  id: string;
+  version: number;
+  kind: 'original' | 'regenerated' | 'doctor_edit' | 'restored';
+  author: { id: string; name: string | null } | null;
+  feedback: string | null;
+  aiVersion: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+  sections: SOAPSections;
+}
+
+interface ReportVersionHistoryProps {
+  reportId: string;
+  onRestored: () => void;
+}
+
+const KIND_LABELS: Record<ReportVersion['kind'], string> = {
+  original: 'Original AI report',
+  regenerated: 'Regenerated',
+  doctor_edit: 'Doctor edit',
+  restored: 'Restored',
+};
+
+const SECTION_LABELS: Record<string, string> = {
+  subjective: 'Subjective',
+  objective: 'Objective',
+  assessment: 'Assessment',
+  plan: 'Plan',
+};
+
+export function ReportVersionHistory({
+  reportId,
+  onRestored,
+}: ReportVersionHistoryProps) {
+  const [versions, setVersions] = useState<ReportVersion[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        const res = await fetch(`/api/reports/${reportId}/versions`);
+        if (res.ok) {
+          const data = await res.json();
+          setVersions(data.versions);
+          if (data.versions.length > 0) {
+            setSelected(data.versions[data.versions.length - 1].version);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to fetch report versions:', error);
+      }
+    };
+    fetchVersions();
+  }, [reportId]);
+
+  // Nothing to compare until the content has changed once
+  if (versions.length < 2) return null;
+
+  const index = versions.findIndex(v => v.version === selected);
+  const current = versions[index];
+  const previous = index > 0 ? versions[index - 1] : null;
+  const latest = versions[versions.length - 1];
+  const changes =
+    current && previous
+      ? diffReportSections(previous.sections, current.sections)
+      : [];
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? It becomes a new version.`)) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      const res = await fetch(`/api/reports/${reportId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'restore', version }),
+      });
+      if (res.ok) {
+        onRestored();
+      } else {
+        alert('Failed to restore version');
+      }
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.6 }}
+      className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100"
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-gray-100 rounded-xl flex items-center justify-center">
+          <History className="w-5 h-5 text-gray-600" />
+        </div>
+        <h3 className="text-lg font-bold text-gray-800">Version History</h3>
+      </div>
+
+      {/* Versions, newest first */}
+      <ul className="space-y-2 mb-4">
+        {[...versions].reverse().map(v => (
+          <li key={v.id}>
+            <button
+              onClick={() => setSelected(v.version)}
+              className={`w-full text-left p-3 rounded-xl border transition-all ${
+                v.version === selected
+                  ? 'border-blue-400 bg-blue-50'
+                  : 'border-gray-100 bg-gray-50 hover:border-blue-200'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-800 text-sm">
+                  v{v.version} · {KIND_LABELS[v.kind]}
+                  {v.restoredFrom && ` (from v${v.restoredFrom})`}
+                  {v.version === latest.version && (
+                    <span className="ml-2 text-xs text-green-600">current</span>
+                  )}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {new Date(v.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {v.author?.name ? `By Dr. ${v.author.name}` : 'AI generated'}
+                {v.aiVersion && ` · ${v.aiVersion}`}
+              </p>
+              {v.feedback && (
+                <p className="text-xs text-gray-600 italic mt-1">
+                  “{v.feedback}”
+                </p>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {/* Changes of the selected version against the one before it */}
+      {current && previous && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-500">
+            Changes from v{previous.version} to v{current.version}
+          </p>
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-400">No content changes</p>
+          ) : (
+            changes.map(diff => (
+              <div
+                key={diff.section}
+                className="p-3 bg-gray-50 rounded-xl border border-gray-100"
+              >
+                <p className="font-medium text-gray-800 text-sm mb-2">
+                  {SECTION_LABELS[diff.section]}
+                </p>
+                <ul className="space-y-2 text-sm">
+                  {diff.changes.map(change => (
+                    <li key={change.field}>
+                      <span className="text-gray-500">
+                        {fieldLabel(change.field)}
+                      </span>
+                      {change.type === 'text' ? (
+                        <div className="mt-1 space-y-1">
+                          {change.before && (
+                            <p className="text-red-700 bg-red-50 rounded px-2 py-1 line-through">
+                              {change.before}
+                            </p>
+                          )}
+                          {change.after && (
+                            <p className="text-green-700 bg-green-50 rounded px-2 py-1">
+                              {change.after}
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <ul className="mt-1 space-y-1">
+                          {change.removed.map((item, i) => (
+                            <li
+                              key={`-${i}`}
+                              className="text-red-700 bg-red-50 rounded px-2 py-1"
+                            >
+                              − {item}
+                            </li>
+                          ))}
+                          {change.added.map((item, i) => (
+                            <li
+                              key={`+${i}`}
+                              className="text-green-700 bg-green-50 rounded px-2 py-1"
+                            >
+                              + {item}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {current && current.version !== latest.version && (
+        <button
+          onClick={() => handleRestore(current.version)}
+          disabled={isRestoring}
+          className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 border border-blue-300 text-blue-700 rounded-xl font-medium hover:bg-blue-50 transition-colors disabled:opacity-50"
+        >
+          {isRestoring ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <RotateCcw className="w-4 h-4" />
+          )}
+          Restore version {current.version}
+        </button>
+      )}
+    </motion.div>
+  );
+}
@@ -12,14 +12,17 @@ import {
   FileText,
   Shield,
   Sparkles,
+  AlertCircle,
 } from 'lucide-react';
+import type { InterviewNode, InterviewStreamEvent } from '@/lib/agents/types';
 
-interface ThinkingStep {
+export interface ThinkingStep {
   id: string;
   agent: string;
   action: string;
-  status: 'pending' | 'running' | 'completed';
+  status: 'pending' | 'running' | 'completed' | 'error';
   details?: string;
+  durationMs?: number;
   icon: 'database' | 'brain' | 'search' | 'file' | 'shield' | 'sparkles';
 }
 
@@ -44,76 +47,26 @@ export function ThinkingActivity({
   steps,
   duration = 0,
 }: ThinkingActivityProps) {
-  const [isExpanded, setIsExpanded] = useState(false);
+  // Live progress starts expanded; finished turns stay collapsed
+  const [isExpanded, setIsExpanded] = useState(isThinking);
   const [elapsedTime, setElapsedTime] = useState(0);
-  const [displaySteps, setDisplaySteps] = useState<ThinkingStep[]>([]);
 
-  // Simulate step progression for live thinking
+  // Timer - counts from when thinking starts
   useEffect(() => {
-    if (isThinking && steps.length > 0) {
-      let currentIndex = 0;
-      const interval = setInterval(() => {
-        if (currentIndex < steps.length) {
-          setDisplaySteps(prev => {
-            const newSteps = [...prev];
-            if (currentIndex > 0 && newSteps[currentIndex - 1]) {
-              newSteps[currentIndex - 1] = {
-                ...newSteps[currentIndex - 1],
-                status: 'completed',
-              };
-            }
-            if (steps[currentIndex]) {
-              newSteps.push({ ...steps[currentIndex], status: 'running' });
-            }
-            return newSteps;
-          });
-          currentIndex++;
-        } else {
-          // Mark last step as completed
-          setDisplaySteps(prev => {
-            if (prev.length > 0) {
-              const newSteps = [...prev];
-              newSteps[newSteps.length - 1] = {
-                ...newSteps[newSteps.length - 1],
-                status: 'completed',
-              };
-              return newSteps;
-            }
-            return prev;
-          });
-          clearInterval(interval);
-        }
-      }, 800); // Show each step for 800ms
-
-      return () => clearInterval(interval);
-    } else if (!isThinking && steps.length > 0) {
-      // For completed messages, show all steps as completed
-      setDisplaySteps(steps.map(s => ({ ...s, status: 'completed' as const })));
-    }
-  }, [isThinking, steps]);
-
-  // Timer - reset elapsed time when thinking starts
-  useEffect(() => {
-    let timer: NodeJS.Timeout;
-    if (isThinking) {
-      // Reset elapsed time when starting to think
-      setElapsedTime(0);
-      timer = setInterval(() => {
-        setElapsedTime(prev => prev + 1);
-      }, 1000);
-    }
+    if (!isThinking) return;
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      setElapsedTime(Math.floor((Date.now() - startedAt) / 1000));
+    }, 1000);
     return () => clearInterval(timer);
   }, [isThinking]);
 
   // Don't render if no steps
-  if (steps.length === 0 && displaySteps.length === 0) return null;
+  if (steps.length === 0) return null;
 
-  const stepsToShow =
-    displaySteps.length > 0
-      ? displaySteps
-      : steps.map(s => ({ ...s, status: 'completed' as const }));
   // Ensure displayTime is a reasonable value (max 999 seconds display)
   const displayTime = isThinking ? elapsedTime : Math.min(duration || 0, 999);
+  const hasError = steps.some(s => s.status === 'error');
 
   return (
     <div className="mb-3">
@@ -123,6 +76,8 @@ export function ThinkingActivity({
       >
         {isThinking ? (
           <Loader2 className="w-4 h-4 animate-spin text-primary" />
+        ) : hasError ? (
+          <AlertCircle className="w-4 h-4 text-red-500" />
         ) : (
           <Check className="w-4 h-4 text-green-500" />
         )}
@@ -143,7 +98,7 @@ export function ThinkingActivity({
             className="overflow-hidden"
           >
             <div className="mt-3 pl-6 border-l-2 border-slate-300 space-y-3">
-              {stepsToShow.map((step, index) => {
+              {steps.map((step, index) => {
                 const Icon = iconMap[step.icon];
                 return (
                   <motion.div
@@ -159,13 +114,17 @@ export function ThinkingActivity({
                           ? 'bg-green-100'
                           : step.status === 'running'
                             ? 'bg-primary/20'
-                            : 'bg-slate-200'
+                            : step.status === 'error'
+                              ? 'bg-red-100'
+                              : 'bg-slate-200'
                       }`}
                     >
                       {step.status === 'running' ? (
                         <Loader2 className="w-3 h-3 animate-spin text-primary" />
                       ) : step.status === 'completed' ? (
                         <Check className="w-3 h-3 text-green-600" />
+                      ) : step.status === 'error' ? (
+                        <AlertCircle className="w-3 h-3 text-red-600" />
                       ) : (
                         <Icon className="w-3 h-3 text-slate-500" />
                       )}
@@ -177,16 +136,29 @@ export function ThinkingActivity({
                             ? 'text-primary'
                             : step.status === 'completed'
                               ? 'text-slate-700'
-                              : 'text-slate-500'
+                              : step.status === 'error'
+                                ? 'text-red-600'
+                                : 'text-slate-500'
                         }`}
                       >
                         {step.agent}
+                        {step.durationMs !== undefined && (
+                          <span className="ml-2 text-xs font-normal text-slate-400">
+                            {formatDuration(step.durationMs)}
+                          </span>
+                        )}
                       </p>
                       <p className="text-xs text-slate-500 mt-0.5">
                         {step.action}
                       </p>
-                      {step.details && step.status === 'completed' && (
-                        <p className="text-xs text-slate-400 mt-1 italic">
+                      {step.details && step.status !== 'running' && (
+                        <p
+                          className={`text-xs mt-1 italic ${
+                            step.status === 'error'
+                              ? 'text-red-500'
+                              : 'text-slate-400'
+                          }`}
+                        >
                           {step.details}
                         </p>
                       )}
@@ -244,149 +216,143 @@ export function TypingText({
   );
 }
 
-// Dynamic thinking message pools for varied reasoning display
-const TRANSLATION_ACTIONS = [
-  'Converting patient message to English for analysis',
-  'Understanding Urdu medical terminology',
-  'Processing multilingual symptoms description',
-  'Translating patient concerns accurately',
-  "Interpreting patient's health query",
-  'Parsing medical intent from message',
-];
-
-const RAG_ACTIONS = [
-  'Searching Pinecone medical knowledge base',
-  'Retrieving relevant clinical guidelines',
-  'Querying symptom-disease correlations',
-  'Fetching evidence-based medical literature',
-  'Scanning differential diagnosis resources',
-  'Cross-referencing medical databases',
-];
-
-const HISTORY_ACTIONS = [
-  'Fetching patient medical history from database',
-  'Loading chronic conditions and allergies',
-  'Reviewing previous medications',
-  'Analyzing patient health profile',
-  'Checking family medical history',
-  'Correlating existing conditions with symptoms',
-];
-
-const DISEASE_ACTIONS = [
-  'Analyzing potential conditions based on symptoms',
-  'Running differential diagnosis algorithm',
-  'Correlating symptoms with disease patterns',
-  'Applying clinical decision support logic',
-  'Evaluating symptom-disease probability matrix',
-  'Cross-matching with known condition profiles',
-];
-
-const REASONING_ACTIONS_LOW = [
-  'Generating clarifying question to narrow diagnosis',
-  'Preparing focused follow-up inquiry',
-  'Building targeted symptom exploration question',
-  'Crafting diagnostic differentiation question',
-  'Formulating clinical probing question',
-  'Designing symptom clarification prompt',
-];
-
-const REASONING_ACTIONS_HIGH = [
-  'Building response with high confidence assessment',
-  'Preparing preliminary diagnosis summary',
-  'Synthesizing clinical findings',
-  'Formulating evidence-based conclusion',
-  'Consolidating diagnostic assessment',
-  'Preparing clinical narrative summary',
-];
+const NODE_ICONS: Record<InterviewNode, ThinkingStep['icon']> = {
+  translate: 'sparkles',
+  rag_retrieval: 'search',
+  history_fetch: 'database',
+  disease_identification: 'brain',
+  knowledge_verification: 'shield',
+  reasoning: 'file',
+};
 
-const SAFETY_ACTIONS = [
-  'Checking for emergency red flags',
-  'Scanning for critical warning signs',
-  'Evaluating urgency level of symptoms',
-  'Assessing triage priority',
-  'Screening for immediate care needs',
-  'Validating patient safety parameters',
-];
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
 
-const DISEASE_DETAILS = [
-  'Narrowed down based on symptom correlation',
-  'Eliminated unlikely conditions from pattern',
-  'Prioritized by probability score',
-  'Filtered using clinical reasoning',
-  'Ranked by symptom match percentage',
-  'Refined through systematic elimination',
-];
+// e.g. 'query_pinecone' -> 'Query pinecone'
+function humanizeAction(action: string): string {
+  const text = action.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
 
-const SAFETY_DETAILS = [
-  'No emergency flags detected',
-  'Patient condition appears stable',
-  'Non-urgent symptoms identified',
-  'Standard triage level assigned',
-  'Routine care pathway confirmed',
-  'No immediate intervention required',
-];
+// Fields of the agentAction results reported by the interview nodes
+interface NodeResultFields {
+  original?: string;
+  translated?: string;
+  sourcesFound?: number;
+  diseasesFound?: number;
+  hasHistory?: boolean;
+  pastEpisodes?: string[];
+  currentDiseaseCount?: number;
+  eliminatedThisTurn?: number;
+  deniedSymptoms?: string[];
+  topDiseases?: Array<{ name: string; probability: number }>;
+  verified?: number;
+  dropped?: string[];
+  knowledgeBaseAnswered?: boolean;
+  confidence?: number;
+  questionsAsked?: number;
+  plannedQuestion?: { symptom: string; informationGain?: number };
+  isWrapUp?: boolean;
+}
 
-// Helper to get random item from array
-function getRandomItem<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+// One-line summary of what a graph node actually produced
+function describeNodeResult(
+  node: InterviewNode,
+  output: Record<string, unknown>
+): string {
+  const result = output as NodeResultFields;
+  switch (node) {
+    case 'translate':
+      return result.translated && result.translated !== result.original
+        ? `Translated: "${result.translated}"`
+        : 'Message already in English';
+    case 'rag_retrieval':
+      return `${result.sourcesFound ?? 0} sources, ${result.diseasesFound ?? 0} conditions from the knowledge base`;
+    case 'history_fetch': {
+      const history = result.hasHistory
+        ? 'Medical history loaded'
+        : 'No medical history on file';
+      return result.pastEpisodes?.length
+        ? `${history}; similar past episode: ${result.pastEpisodes[0]}`
+        : history;
+    }
+    case 'disease_identification': {
+      const top = (result.topDiseases || [])
+        .slice(0, 3)
+        .map(d => `${d.name} (${d.probability}%)`)
+        .join(', ');
+      const denied = result.deniedSymptoms?.length
+        ? `; denied: ${result.deniedSymptoms.join(', ')}`
+        : '';
+      return `${result.currentDiseaseCount ?? 0} candidate conditions, ${result.eliminatedThisTurn ?? 0} ruled out this turn${top ? ` - ${top}` : ''}${denied}`;
+    }
+    case 'knowledge_verification': {
+      if (!result.knowledgeBaseAnswered) {
+        return 'Knowledge base unavailable - candidates kept';
+      }
+      const dropped = result.dropped?.length
+        ? `; dropped without evidence: ${result.dropped.join(', ')}`
+        : '';
+      return `${result.verified ?? 0} leading conditions checked against the knowledge base${dropped}`;
+    }
+    case 'reasoning': {
+      const next = result.isWrapUp
+        ? '; time limit reached, wrapping up'
+        : result.plannedQuestion
+          ? `; asking about ${result.plannedQuestion.symptom.toLowerCase()}`
+          : '';
+      return `Confidence ${result.confidence ?? 0}% after ${result.questionsAsked ?? 0} questions${next}`;
+    }
+  }
 }
 
-// Generate dynamic thinking steps based on agent orchestration - VARIED EACH TIME
-export function generateThinkingSteps(
-  confidence: number,
-  diseaseCount: number
+/**
+ * Fold an interview stream event (POST /api/clinical-chat with
+ * Accept: text/event-stream) into the list of thinking steps
+ */
+export function applyInterviewEvent(
+  steps: ThinkingStep[],
+  event: InterviewStreamEvent
 ): ThinkingStep[] {
-  const isHighConfidence = confidence >= 70;
+  switch (event.type) {
+    case 'node_start':
+      return [
+        ...steps,
+        {
+          id: `${event.node}-${event.startedAt}`,
+          agent: event.agent,
+          action: 'In progress',
+          status: 'running',
+          icon: NODE_ICONS[event.node],
+        },
+      ];
+    case 'node_end':
+    case 'node_error': {
+      const index = steps.findLastIndex(
+        s => s.status === 'running' && s.agent === event.agent
+      );
+      if (index < 0) return steps;
 
-  return [
-    {
-      id: `step-1-${Date.now()}`,
-      agent: 'Translation Agent',
-      action: getRandomItem(TRANSLATION_ACTIONS),
-      status: 'pending',
-      icon: 'sparkles',
-    },
-    {
-      id: `step-2-${Date.now()}`,
-      agent: 'RAG Retrieval Agent',
-      action: getRandomItem(RAG_ACTIONS),
-      status: 'pending',
-      icon: 'search',
-      details: `Retrieved ${3 + Math.floor(Math.random() * 7)} relevant medical documents`,
-    },
-    {
-      id: `step-3-${Date.now()}`,
-      agent: 'History Collector Agent',
-      action: getRandomItem(HISTORY_ACTIONS),
-      status: 'pending',
-      icon: 'database',
-      details: 'Loaded chronic conditions, medications, allergies',
-    },
-    {
-      id: `step-4-${Date.now()}`,
-      agent: 'Disease Identification Agent',
-      action: `${getRandomItem(DISEASE_ACTIONS)} (${diseaseCount} conditions)`,
-      status: 'pending',
-      icon: 'brain',
-      details: getRandomItem(DISEASE_DETAILS),
-    },
-    {
-      id: `step-5-${Date.now()}`,
-      agent: 'Clinical Reasoning Agent',
-      action: isHighConfidence
-        ? getRandomItem(REASONING_ACTIONS_HIGH)
-        : getRandomItem(REASONING_ACTIONS_LOW),
-      status: 'pending',
-      icon: 'file',
-      details: `Current confidence: ${confidence}%`,
-    },
-    {
-      id: `step-6-${Date.now()}`,
-      agent: 'Safety Agent',
-      action: getRandomItem(SAFETY_ACTIONS),
-      status: 'pending',
-      icon: 'shield',
-      details: getRandomItem(SAFETY_DETAILS),
-    },
-  ];
+      const updated: ThinkingStep =
+        event.type === 'node_end'
+          ? {
+              ...steps[index],
+              action: humanizeAction(event.action),
+              status: 'completed',
+              details: describeNodeResult(event.node, event.result),
+              durationMs: event.durationMs,
+            }
+          : {
+              ...steps[index],
+              action: 'Failed',
+              status: 'error',
+              details: event.error,
+              durationMs: event.durationMs,
+            };
+      return steps.map((s, i) => (i === index ? updated : s));
+    }
+    default:
+      return steps;
+  }
 }
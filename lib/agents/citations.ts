@@ -0,0 +1,159 @@
+/**
+ * Citations
+ * Links SOAP assessment/plan statements to the knowledge-base chunks
+ * retrieved during the interview
+ *
+ * - mergeRAGSources: each turn's retrieved chunks are added to the session's
+ *   sources (deduplicated by chunk id, the MAX_SESSION_SOURCES most relevant
+ *   kept) and persisted with the session
+ * - toReferences: numbers the session sources S1, S2, ... for the SOAP
+ *   prompt and the report's references section
+ * - citeReport: keeps the citations the model attached that name a listed
+ *   reference, and cites references by topic for statements it left uncited
+ *   (so scripted and fallback reports are referenced too)
+ */
+
+import type {
+  RAGSource,
+  RetrievedSource,
+  SOAPReport,
+  SourceReference,
+  StatementCitation,
+} from './types';
+
+export const MAX_SESSION_SOURCES = 12;
+
+type CitedSections = Pick<SOAPReport, 'assessment' | 'plan'>;
+
+/**
+ * Add one turn's retrieved chunks to the session's sources
+ */
+export function mergeRAGSources(
+  existing: RAGSource[],
+  retrieved: RetrievedSource[],
+  turn: number
+): RAGSource[] {
+  const byId = new Map(existing.map(s => [s.id, s]));
+  for (const chunk of retrieved) {
+    const seen = byId.get(chunk.id);
+    byId.set(
+      chunk.id,
+      seen
+        ? { ...seen, relevance: Math.max(seen.relevance, chunk.relevance) }
+        : { ...chunk, turn }
+    );
+  }
+  return [...byId.values()]
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, MAX_SESSION_SOURCES);
+}
+
+/**
+ * Session sources as numbered report references
+ */
+export function toReferences(sources: RAGSource[]): SourceReference[] {
+  return sources.map((s, i) => ({ ...s, key: `S${i + 1}` }));
+}
+
+/**
+ * One prompt line per reference: [S1] Dengue (who-dengue): snippet
+ */
+export function formatReferences(references: SourceReference[]): string {
+  return references
+    .map(r => `[${r.key}] ${r.title} (${r.source}): ${r.snippet}`)
+    .join('\n');
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.;:,\s]+$/, '')
+    .trim();
+}
+
+// The model may quote a statement loosely ("Tension headache" for
+// "Tension Headache.") or cite a sentence of a longer statement
+function sameStatement(cited: string, statement: string): boolean {
+  const a = normalize(cited);
+  const b = normalize(statement);
+  return a.length > 2 && b.length > 2 && (a.includes(b) || b.includes(a));
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, 'i').test(text);
+}
+
+// Whether a statement is about a reference's topic ("Dengue" cites a
+// "Dengue Fever" chunk; "Rule out dengue fever" does too)
+function mentionsTopic(statement: string, title: string): boolean {
+  if (title.length < 3 || title.toLowerCase() === 'general') return false;
+  return (
+    containsPhrase(statement, title) ||
+    (statement.split(/\s+/).length <= 4 && containsPhrase(title, statement))
+  );
+}
+
+function linkStatements(
+  statements: Array<string | undefined>,
+  cited: StatementCitation[] | undefined,
+  references: SourceReference[]
+): StatementCitation[] {
+  const keys = new Set(references.map(r => r.key));
+
+  return statements.flatMap(statement => {
+    if (!statement?.trim()) return [];
+
+    const fromModel = (cited || [])
+      .filter(c => sameStatement(c.statement, statement))
+      .flatMap(c => c.sources)
+      .filter(key => keys.has(key));
+    const sources =
+      fromModel.length > 0
+        ? fromModel
+        : references
+            .filter(r => mentionsTopic(statement, r.title))
+            .map(r => r.key);
+
+    return sources.length > 0
+      ? [{ statement, sources: [...new Set(sources)] }]
+      : [];
+  });
+}
+
+/**
+ * Attach references and per-statement citations to a report's assessment
+ * and plan. Citations naming a key that is not a reference are dropped.
+ */
+export function citeReport<T extends CitedSections>(
+  report: T,
+  references: SourceReference[]
+): T {
+  const { assessment, plan } = report;
+
+  return {
+    ...report,
+    assessment: {
+      ...assessment,
+      references,
+      citations: linkStatements(
+        [
+          assessment.primaryDiagnosis,
+          ...assessment.differentialDiagnosis,
+          assessment.aiAnalysis,
+        ],
+        assessment.citations,
+        references
+      ),
+    },
+    plan: {
+      ...plan,
+      citations: linkStatements(
+        [...plan.recommendations, ...plan.testsNeeded, plan.specialistReferral],
+        plan.citations,
+        references
+      ),
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_COMPLETION_POLICY,
+  evaluateCompletion,
+} from './completion-policy';
+import {
+  applyFindings,
+  createDiseaseCandidate,
+  differentialConfidence,
+} from './disease-scoring';
+
+const DIFFERENTIAL = [
+  'Influenza',
+  'Common Cold',
+  'Bronchitis',
+  'Pneumonia',
+  'Sinusitis',
+];
+
+// One answer per turn from a patient with a textbook flu
+const FLU_ANSWERS: Array<[string, boolean]> = [
+  ['fever', true],
+  ['muscle_pain', true],
+  ['chills', true],
+  ['fatigue', true],
+  ['sneezing', false],
+  ['headache', true],
+  ['shortness_of_breath', false],
+  ['chest_pain', false],
+  ['sore_throat', false],
+  ['runny_nose', false],
+];
+
+describe('evaluateCompletion', () => {
+  test('finishes a clear case on confidence before the limits', () => {
+    const policy = DEFAULT_COMPLETION_POLICY;
+    const findings = { present: [] as string[], absent: [] as string[] };
+    let decision = null;
+    let turn = 0;
+
+    while (turn < policy.maxTurns) {
+      const [symptom, present] = FLU_ANSWERS[turn] ?? ['dizziness', false];
+      (present ? findings.present : findings.absent).push(symptom);
+      turn++;
+
+      const diseases = DIFFERENTIAL.map(name =>
+        applyFindings(createDiseaseCandidate(name, 15), findings, turn)
+      );
+      decision = evaluateCompletion(policy, {
+        turn,
+        confidence: differentialConfidence(diseases),
+        diseaseCount: diseases.length,
+        elapsedMinutes: turn * 0.5,
+      });
+      if (decision.isReady) break;
+    }
+
+    assert.equal(decision?.reason, 'confidence');
+    assert.equal(turn, policy.minTurns);
+    assert.equal(decision?.isWrapUp, false);
+  });
+
+  test('does not finish early before minTurns and minMinutes', () => {
+    const decision = evaluateCompletion(DEFAULT_COMPLETION_POLICY, {
+      turn: DEFAULT_COMPLETION_POLICY.minTurns - 1,
+      confidence: 95,
+      diseaseCount: 1,
+      elapsedMinutes: DEFAULT_COMPLETION_POLICY.minMinutes,
+    });
+    assert.equal(decision.isReady, false);
+  });
+
+  test('wraps up at the time cap without a confident differential', () => {
+    const decision = evaluateCompletion(DEFAULT_COMPLETION_POLICY, {
+      turn: 12,
+      confidence: 10,
+      diseaseCount: 5,
+      elapsedMinutes: DEFAULT_COMPLETION_POLICY.maxMinutes,
+    });
+    assert.equal(decision.reason, 'time_limit');
+    assert.equal(decision.isWrapUp, true);
+  });
+});
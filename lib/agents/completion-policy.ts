@@ -0,0 +1,135 @@
+/**
+ * Interview Completion Policy
+ * Decides when the clinical interview stops asking questions
+ *
+ * Early completion needs at least minTurns questions and minMinutes on the
+ * session clock, plus either a confident differential or one narrowed to a
+ * few conditions. Confidence is the leading condition's lead over the
+ * runner-up (differentialConfidence); even answers that clearly point at one
+ * condition rarely give a lead above 80, so the defaults sit well below that.
+ * The interview always ends at maxTurns or maxMinutes; when the time cap is
+ * hit without enough confidence the reasoning agent wraps up ("time's up,
+ * here's what we have") instead of presenting a diagnosis.
+ *
+ * Per deployment:
+ * - INTERVIEW_COMPLETION_POLICY  JSON overrides, e.g. {"maxMinutes": 15}
+ * - setCompletionPolicy()        programmatic overrides at startup
+ */
+
+import {
+  CompletionPolicySchema,
+  type CompletionPolicy,
+  type CompletionReason,
+} from './types';
+
+export const DEFAULT_COMPLETION_POLICY: CompletionPolicy = {
+  minTurns: 10,
+  maxTurns: 25,
+  confidenceThreshold: 60,
+  maxDiseasesForCompletion: 3,
+  minConfidenceWhenNarrowed: 45,
+  minMinutes: 3,
+  maxMinutes: 12,
+};
+
+export interface InterviewProgress {
+  turn: number;
+  confidence: number; // 0-100
+  diseaseCount: number;
+  elapsedMinutes: number;
+}
+
+export interface CompletionDecision {
+  isReady: boolean;
+  reason: CompletionReason | null;
+  isWrapUp: boolean; // time cap reached without a confident differential
+  checks: {
+    minimumTurns: boolean;
+    minimumTime: boolean;
+    highConfidence: boolean;
+    narrowed: boolean;
+    maxTurnsReached: boolean;
+    timeUp: boolean;
+  };
+}
+
+let activePolicy: CompletionPolicy | null = null;
+
+function validatePolicy(policy: CompletionPolicy): CompletionPolicy {
+  const parsed = CompletionPolicySchema.parse(policy);
+  if (parsed.minTurns > parsed.maxTurns) {
+    throw new Error('Completion policy: minTurns is greater than maxTurns');
+  }
+  if (parsed.minMinutes > parsed.maxMinutes) {
+    throw new Error('Completion policy: minMinutes is greater than maxMinutes');
+  }
+  return parsed;
+}
+
+function loadPolicyFromEnv(): CompletionPolicy {
+  const raw = process.env.INTERVIEW_COMPLETION_POLICY;
+  if (!raw) return DEFAULT_COMPLETION_POLICY;
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    throw new Error('INTERVIEW_COMPLETION_POLICY is not valid JSON');
+  }
+
+  return validatePolicy({
+    ...DEFAULT_COMPLETION_POLICY,
+    ...CompletionPolicySchema.partial().parse(overrides),
+  });
+}
+
+/**
+ * The completion policy for this deployment
+ */
+export function getCompletionPolicy(): CompletionPolicy {
+  if (!activePolicy) activePolicy = loadPolicyFromEnv();
+  return activePolicy;
+}
+
+/**
+ * Override parts of the completion policy (e.g. a shorter clinic deployment)
+ */
+export function setCompletionPolicy(
+  overrides: Partial<CompletionPolicy>
+): CompletionPolicy {
+  activePolicy = validatePolicy({ ...getCompletionPolicy(), ...overrides });
+  return activePolicy;
+}
+
+/**
+ * Whether the interview should conclude after this turn, and why
+ */
+export function evaluateCompletion(
+  policy: CompletionPolicy,
+  progress: InterviewProgress
+): CompletionDecision {
+  const checks = {
+    minimumTurns: progress.turn >= policy.minTurns,
+    minimumTime: progress.elapsedMinutes >= policy.minMinutes,
+    highConfidence: progress.confidence >= policy.confidenceThreshold,
+    narrowed:
+      progress.diseaseCount <= policy.maxDiseasesForCompletion &&
+      progress.confidence >= policy.minConfidenceWhenNarrowed,
+    maxTurnsReached: progress.turn >= policy.maxTurns,
+    timeUp: progress.elapsedMinutes >= policy.maxMinutes,
+  };
+
+  const mayFinishEarly = checks.minimumTurns && checks.minimumTime;
+  let reason: CompletionReason | null = null;
+  if (mayFinishEarly && checks.highConfidence) reason = 'confidence';
+  else if (mayFinishEarly && checks.narrowed) reason = 'narrowed';
+  else if (checks.timeUp) reason = 'time_limit';
+  else if (checks.maxTurnsReached) reason = 'max_turns';
+
+  return {
+    isReady: reason !== null,
+    reason,
+    isWrapUp: reason === 'time_limit' && !checks.highConfidence,
+    checks,
+  };
+}
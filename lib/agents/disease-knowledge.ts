@@ -0,0 +1,1159 @@
+/**
+ * Disease Knowledge Base
+ * Pre-test probabilities and symptom likelihoods for the conditions the
+ * interview agent tracks
+ *
+ * - prior: how likely the condition is (0-100) for a patient presenting to
+ *   the app before any finding is known
+ * - likelihoods: P(symptom | condition) keyed by symptom-lexicon ids
+ * - SYMPTOM_BASE_RATES: P(symptom | some other condition), the denominator of
+ *   every likelihood ratio
+ *
+ * Values are rounded clinical estimates for a primary-care population, not
+ * patient-specific predictions. Conditions missing here keep a fixed
+ * fallback prior, are not moved by findings and rank below the conditions
+ * listed here (see disease-scoring.ts).
+ */
+
+import type { SeverityLevel } from './types';
+
+export interface DiseaseProfile {
+  name: string;
+  aliases?: string[];
+  prior: number; // 0-100
+  severity: SeverityLevel;
+  likelihoods: Record<string, number>; // symptom id -> P(symptom | disease)
+}
+
+// P(symptom | not this disease) - how common the symptom is in general
+export const SYMPTOM_BASE_RATES: Record<string, number> = {
+  pain: 0.3,
+  fatigue: 0.3,
+  headache: 0.2,
+  fever: 0.2,
+  cough: 0.15,
+  abdominal_pain: 0.15,
+  nausea: 0.15,
+  muscle_pain: 0.15,
+  back_pain: 0.15,
+  anxiety: 0.15,
+  insomnia: 0.15,
+  joint_pain: 0.12,
+  sore_throat: 0.12,
+  runny_nose: 0.12,
+  dizziness: 0.12,
+  loss_of_appetite: 0.12,
+};
+
+export const DEFAULT_BASE_RATE = 0.08;
+
+export const DISEASE_PROFILES: DiseaseProfile[] = [
+  // Respiratory
+  {
+    name: 'Common Cold',
+    prior: 30,
+    severity: 'normal',
+    likelihoods: {
+      runny_nose: 0.85,
+      sneezing: 0.7,
+      sore_throat: 0.6,
+      cough: 0.6,
+      fatigue: 0.4,
+      headache: 0.3,
+      fever: 0.3,
+      muscle_pain: 0.2,
+    },
+  },
+  {
+    name: 'Upper Respiratory Infection',
+    aliases: ['URI', 'URTI'],
+    prior: 25,
+    severity: 'normal',
+    likelihoods: {
+      cough: 0.7,
+      runny_nose: 0.7,
+      sore_throat: 0.65,
+      fever: 0.4,
+      fatigue: 0.4,
+      headache: 0.35,
+      muscle_pain: 0.3,
+    },
+  },
+  {
+    name: 'Bronchitis',
+    prior: 12,
+    severity: 'moderate',
+    likelihoods: {
+      cough: 0.95,
+      fatigue: 0.5,
+      shortness_of_breath: 0.4,
+      wheezing: 0.35,
+      chest_pain: 0.3,
+      fever: 0.3,
+      sore_throat: 0.3,
+    },
+  },
+  {
+    name: 'Pneumonia',
+    prior: 8,
+    severity: 'high',
+    likelihoods: {
+      cough: 0.85,
+      fever: 0.8,
+      fatigue: 0.7,
+      shortness_of_breath: 0.65,
+      chills: 0.5,
+      chest_pain: 0.45,
+      loss_of_appetite: 0.4,
+      sweating: 0.3,
+    },
+  },
+  {
+    name: 'Asthma',
+    prior: 10,
+    severity: 'moderate',
+    likelihoods: {
+      shortness_of_breath: 0.85,
+      wheezing: 0.8,
+      cough: 0.7,
+      chest_pain: 0.4,
+    },
+  },
+  {
+    name: 'COPD',
+    prior: 5,
+    severity: 'moderate',
+    likelihoods: {
+      shortness_of_breath: 0.9,
+      cough: 0.85,
+      wheezing: 0.6,
+      fatigue: 0.5,
+    },
+  },
+  {
+    name: 'Allergic Rhinitis',
+    prior: 15,
+    severity: 'normal',
+    likelihoods: {
+      runny_nose: 0.9,
+      sneezing: 0.85,
+      itching: 0.5,
+      cough: 0.3,
+      headache: 0.2,
+    },
+  },
+  {
+    name: 'Sinusitis',
+    prior: 12,
+    severity: 'normal',
+    likelihoods: {
+      runny_nose: 0.75,
+      headache: 0.7,
+      cough: 0.4,
+      fatigue: 0.4,
+      fever: 0.3,
+      sore_throat: 0.3,
+      ear_pain: 0.2,
+    },
+  },
+  {
+    name: 'Tuberculosis',
+    aliases: ['TB'],
+    prior: 4,
+    severity: 'high',
+    likelihoods: {
+      cough: 0.9,
+      fever: 0.7,
+      weight_loss: 0.7,
+      fatigue: 0.7,
+      sweating: 0.6,
+      loss_of_appetite: 0.6,
+      chest_pain: 0.3,
+      bleeding: 0.2,
+    },
+  },
+  {
+    name: 'Lung Cancer',
+    prior: 1,
+    severity: 'high',
+    likelihoods: {
+      cough: 0.7,
+      weight_loss: 0.6,
+      fatigue: 0.6,
+      shortness_of_breath: 0.5,
+      chest_pain: 0.4,
+      bleeding: 0.3,
+    },
+  },
+  {
+    name: 'Pulmonary Embolism',
+    prior: 1,
+    severity: 'critical',
+    likelihoods: {
+      shortness_of_breath: 0.85,
+      chest_pain: 0.6,
+      palpitations: 0.4,
+      swelling: 0.3,
+      anxiety: 0.3,
+      cough: 0.2,
+      fainting: 0.15,
+    },
+  },
+
+  // Cardiovascular
+  {
+    name: 'Angina',
+    prior: 6,
+    severity: 'high',
+    likelihoods: {
+      chest_pain: 0.95,
+      shortness_of_breath: 0.5,
+      sweating: 0.3,
+      fatigue: 0.3,
+      nausea: 0.2,
+    },
+  },
+  {
+    name: 'Heart Attack',
+    aliases: ['Myocardial Infarction'],
+    prior: 2,
+    severity: 'critical',
+    likelihoods: {
+      chest_pain: 0.9,
+      sweating: 0.6,
+      shortness_of_breath: 0.6,
+      nausea: 0.4,
+      anxiety: 0.4,
+      dizziness: 0.3,
+      fatigue: 0.3,
+      vomiting: 0.2,
+    },
+  },
+  {
+    name: 'Arrhythmia',
+    prior: 5,
+    severity: 'moderate',
+    likelihoods: {
+      palpitations: 0.9,
+      dizziness: 0.5,
+      shortness_of_breath: 0.35,
+      fatigue: 0.35,
+      anxiety: 0.3,
+      chest_pain: 0.25,
+      fainting: 0.2,
+    },
+  },
+  {
+    name: 'Heart Failure',
+    prior: 3,
+    severity: 'high',
+    likelihoods: {
+      shortness_of_breath: 0.9,
+      fatigue: 0.8,
+      swelling: 0.7,
+      cough: 0.35,
+      palpitations: 0.3,
+    },
+  },
+  {
+    name: 'Hypertension',
+    prior: 20,
+    severity: 'moderate',
+    likelihoods: {
+      headache: 0.3,
+      dizziness: 0.2,
+      palpitations: 0.1,
+      blurred_vision: 0.1,
+    },
+  },
+  {
+    name: 'Pericarditis',
+    prior: 1,
+    severity: 'high',
+    likelihoods: {
+      chest_pain: 0.95,
+      fever: 0.4,
+      shortness_of_breath: 0.4,
+      palpitations: 0.2,
+    },
+  },
+  {
+    name: 'Coronary Artery Disease',
+    prior: 5,
+    severity: 'high',
+    likelihoods: {
+      chest_pain: 0.8,
+      shortness_of_breath: 0.5,
+      fatigue: 0.4,
+      sweating: 0.2,
+    },
+  },
+  {
+    name: 'Cardiomyopathy',
+    prior: 1,
+    severity: 'high',
+    likelihoods: {
+      shortness_of_breath: 0.8,
+      fatigue: 0.7,
+      swelling: 0.5,
+      palpitations: 0.4,
+      dizziness: 0.3,
+      fainting: 0.15,
+    },
+  },
+  {
+    name: 'Aortic Dissection',
+    prior: 0.3,
+    severity: 'critical',
+    likelihoods: {
+      chest_pain: 0.9,
+      back_pain: 0.6,
+      sweating: 0.3,
+      fainting: 0.2,
+    },
+  },
+  {
+    name: 'Myocarditis',
+    prior: 1,
+    severity: 'high',
+    likelihoods: {
+      chest_pain: 0.6,
+      fatigue: 0.6,
+      shortness_of_breath: 0.5,
+      palpitations: 0.5,
+      fever: 0.4,
+    },
+  },
+
+  // Gastrointestinal
+  {
+    name: 'Gastritis',
+    prior: 15,
+    severity: 'moderate',
+    likelihoods: {
+      abdominal_pain: 0.85,
+      nausea: 0.6,
+      heartburn: 0.5,
+      loss_of_appetite: 0.4,
+      vomiting: 0.3,
+    },
+  },
+  {
+    name: 'GERD',
+    aliases: ['Acid Reflux'],
+    prior: 18,
+    severity: 'normal',
+    likelihoods: {
+      heartburn: 0.9,
+      chest_pain: 0.35,
+      nausea: 0.3,
+      abdominal_pain: 0.3,
+      cough: 0.25,
+      sore_throat: 0.2,
+    },
+  },
+  {
+    name: 'Peptic Ulcer',
+    prior: 6,
+    severity: 'moderate',
+    likelihoods: {
+      abdominal_pain: 0.9,
+      heartburn: 0.5,
+      nausea: 0.45,
+      loss_of_appetite: 0.35,
+      vomiting: 0.25,
+      weight_loss: 0.15,
+      bleeding: 0.1,
+    },
+  },
+  {
+    name: 'IBS',
+    aliases: ['Irritable Bowel Syndrome'],
+    prior: 10,
+    severity: 'normal',
+    likelihoods: {
+      abdominal_pain: 0.9,
+      diarrhea: 0.55,
+      constipation: 0.5,
+      anxiety: 0.3,
+      fatigue: 0.3,
+    },
+  },
+  {
+    name: 'Gastroenteritis',
+    prior: 20,
+    severity: 'moderate',
+    likelihoods: {
+      diarrhea: 0.9,
+      nausea: 0.8,
+      vomiting: 0.7,
+      abdominal_pain: 0.7,
+      loss_of_appetite: 0.5,
+      fever: 0.4,
+      fatigue: 0.4,
+    },
+  },
+  {
+    name: 'Food Poisoning',
+    prior: 12,
+    severity: 'moderate',
+    likelihoods: {
+      nausea: 0.85,
+      vomiting: 0.8,
+      diarrhea: 0.8,
+      abdominal_pain: 0.7,
+      fever: 0.3,
+    },
+  },
+  {
+    name: 'Appendicitis',
+    prior: 2,
+    severity: 'critical',
+    likelihoods: {
+      abdominal_pain: 0.98,
+      loss_of_appetite: 0.7,
+      nausea: 0.6,
+      vomiting: 0.5,
+      fever: 0.5,
+    },
+  },
+  {
+    name: 'Gallstones',
+    prior: 4,
+    severity: 'moderate',
+    likelihoods: {
+      abdominal_pain: 0.85,
+      nausea: 0.55,
+      vomiting: 0.4,
+      heartburn: 0.3,
+      back_pain: 0.2,
+      fever: 0.15,
+    },
+  },
+  {
+    name: 'Pancreatitis',
+    prior: 1,
+    severity: 'high',
+    likelihoods: {
+      abdominal_pain: 0.95,
+      nausea: 0.8,
+      vomiting: 0.75,
+      back_pain: 0.5,
+      fever: 0.35,
+    },
+  },
+  {
+    name: "Crohn's Disease",
+    prior: 1,
+    severity: 'moderate',
+    likelihoods: {
+      abdominal_pain: 0.8,
+      diarrhea: 0.8,
+      fatigue: 0.6,
+      weight_loss: 0.55,
+      loss_of_appetite: 0.4,
+      fever: 0.3,
+      bleeding: 0.25,
+    },
+  },
+  {
+    name: 'Ulcerative Colitis',
+    prior: 1,
+    severity: 'moderate',
+    likelihoods: {
+      diarrhea: 0.9,
+      bleeding: 0.75,
+      abdominal_pain: 0.7,
+      fatigue: 0.5,
+      weight_loss: 0.35,
+    },
+  },
+  {
+    name: 'Liver Disease',
+    prior: 2,
+    severity: 'moderate',
+    likelihoods: {
+      fatigue: 0.6,
+      loss_of_appetite: 0.5,
+      abdominal_pain: 0.4,
+      nausea: 0.4,
+      swelling: 0.3,
+      weight_loss: 0.3,
+      itching: 0.25,
+    },
+  },
+
+  // Neurological
+  {
+    name: 'Tension Headache',
+    prior: 25,
+    severity: 'normal',
+    likelihoods: {
+      headache: 0.98,
+      muscle_pain: 0.3,
+      anxiety: 0.3,
+      fatigue: 0.3,
+      insomnia: 0.25,
+    },
+  },
+  {
+    name: 'Migraine',
+    prior: 15,
+    severity: 'moderate',
+    likelihoods: {
+      headache: 0.98,
+      nausea: 0.6,
+      vomiting: 0.3,
+      blurred_vision: 0.3,
+      dizziness: 0.3,
+      numbness: 0.1,
+    },
+  },
+  {
+    name: 'Cluster Headache',
+    prior: 1,
+    severity: 'moderate',
+    likelihoods: {
+      headache: 0.98,
+      runny_nose: 0.4,
+      blurred_vision: 0.1,
+    },
+  },
+  {
+    name: 'Vertigo',
+    prior: 8,
+    severity: 'moderate',
+    likelihoods: {
+      dizziness: 0.98,
+      nausea: 0.6,
+      vomiting: 0.35,
+      ear_pain: 0.15,
+    },
+  },
+  {
+    name: 'Meningitis',
+    prior: 0.5,
+    severity: 'critical',
+    likelihoods: {
+      headache: 0.9,
+      fever: 0.85,
+      vomiting: 0.5,
+      nausea: 0.5,
+      rash: 0.2,
+      blurred_vision: 0.2,
+    },
+  },
+  {
+    name: 'Brain Tumor',
+    prior: 0.3,
+    severity: 'high',
+    likelihoods: {
+      headache: 0.6,
+      vomiting: 0.3,
+      blurred_vision: 0.3,
+      dizziness: 0.3,
+      numbness: 0.2,
+    },
+  },
+  {
+    name: 'Stroke',
+    prior: 1,
+    severity: 'critical',
+    likelihoods: {
+      numbness: 0.75,
+      dizziness: 0.45,
+      blurred_vision: 0.4,
+      headache: 0.35,
+      fainting: 0.2,
+    },
+  },
+  {
+    name: 'TIA',
+    aliases: ['Transient Ischemic Attack'],
+    prior: 1,
+    severity: 'high',
+    likelihoods: {
+      numbness: 0.7,
+      dizziness: 0.4,
+      blurred_vision: 0.4,
+      tingling: 0.3,
+    },
+  },
+  {
+    name: 'Epilepsy',
+    prior: 1,
+    severity: 'high',
+    likelihoods: {
+      fainting: 0.7,
+      headache: 0.3,
+      numbness: 0.1,
+    },
+  },
+  {
+    name: 'Multiple Sclerosis',
+    prior: 0.3,
+    severity: 'moderate',
+    likelihoods: {
+      numbness: 0.7,
+      fatigue: 0.7,
+      tingling: 0.6,
+      blurred_vision: 0.5,
+      dizziness: 0.35,
+    },
+  },
+  {
+    name: "Parkinson's Disease",
+    prior: 0.3,
+    severity: 'moderate',
+    likelihoods: {
+      fatigue: 0.4,
+      constipation: 0.3,
+      low_mood: 0.3,
+      insomnia: 0.3,
+    },
+  },
+
+  // Musculoskeletal
+  {
+    name: 'Muscle Strain',
+    prior: 20,
+    severity: 'normal',
+    likelihoods: {
+      muscle_pain: 0.8,
+      back_pain: 0.5,
+      swelling: 0.2,
+    },
+  },
+  {
+    name: 'Osteoarthritis',
+    prior: 15,
+    severity: 'normal',
+    likelihoods: {
+      joint_pain: 0.95,
+      swelling: 0.35,
+    },
+  },
+  {
+    name: 'Rheumatoid Arthritis',
+    prior: 3,
+    severity: 'moderate',
+    likelihoods: {
+      joint_pain: 0.95,
+      swelling: 0.7,
+      fatigue: 0.6,
+      fever: 0.15,
+    },
+  },
+  {
+    name: 'Gout',
+    prior: 3,
+    severity: 'moderate',
+    likelihoods: {
+      joint_pain: 0.98,
+      swelling: 0.85,
+    },
+  },
+  {
+    name: 'Fibromyalgia',
+    prior: 3,
+    severity: 'normal',
+    likelihoods: {
+      muscle_pain: 0.95,
+      fatigue: 0.85,
+      insomnia: 0.6,
+      anxiety: 0.4,
+      low_mood: 0.4,
+      headache: 0.4,
+    },
+  },
+  {
+    name: 'Herniated Disc',
+    prior: 5,
+    severity: 'moderate',
+    likelihoods: {
+      back_pain: 0.95,
+      numbness: 0.45,
+      tingling: 0.4,
+    },
+  },
+  {
+    name: 'Sciatica',
+    prior: 6,
+    severity: 'moderate',
+    likelihoods: {
+      back_pain: 0.9,
+      tingling: 0.5,
+      numbness: 0.4,
+    },
+  },
+  {
+    name: 'Osteoporosis',
+    prior: 3,
+    severity: 'normal',
+    likelihoods: {
+      back_pain: 0.35,
+    },
+  },
+  {
+    name: 'Lupus',
+    prior: 0.5,
+    severity: 'moderate',
+    likelihoods: {
+      joint_pain: 0.85,
+      fatigue: 0.8,
+      rash: 0.6,
+      fever: 0.4,
+    },
+  },
+  {
+    name: 'Ankylosing Spondylitis',
+    prior: 0.5,
+    severity: 'moderate',
+    likelihoods: {
+      back_pain: 0.95,
+      joint_pain: 0.4,
+      fatigue: 0.4,
+    },
+  },
+
+  // Infectious
+  {
+    name: 'Viral Infection',
+    prior: 25,
+    severity: 'normal',
+    likelihoods: {
+      fever: 0.7,
+      fatigue: 0.7,
+      muscle_pain: 0.5,
+      headache: 0.5,
+      sore_throat: 0.3,
+      cough: 0.3,
+    },
+  },
+  {
+    name: 'Influenza',
+    aliases: ['Flu'],
+    prior: 20,
+    severity: 'moderate',
+    likelihoods: {
+      fever: 0.9,
+      muscle_pain: 0.8,
+      fatigue: 0.8,
+      cough: 0.8,
+      headache: 0.7,
+      chills: 0.6,
+      sore_throat: 0.5,
+      runny_nose: 0.4,
+    },
+  },
+  {
+    name: 'COVID-19',
+    prior: 10,
+    severity: 'moderate',
+    likelihoods: {
+      fever: 0.8,
+      cough: 0.7,
+      fatigue: 0.7,
+      muscle_pain: 0.5,
+      headache: 0.5,
+      sore_throat: 0.4,
+      shortness_of_breath: 0.35,
+      loss_of_appetite: 0.3,
+    },
+  },
+  {
+    name: 'Dengue Fever',
+    aliases: ['Dengue'],
+    prior: 6,
+    severity: 'high',
+    likelihoods: {
+      fever: 0.98,
+      muscle_pain: 0.8,
+      headache: 0.75,
+      joint_pain: 0.75,
+      fatigue: 0.7,
+      rash: 0.5,
+      nausea: 0.45,
+      vomiting: 0.35,
+      bleeding: 0.1,
+    },
+  },
+  {
+    name: 'Typhoid',
+    aliases: ['Typhoid Fever'],
+    prior: 5,
+    severity: 'high',
+    likelihoods: {
+      fever: 0.95,
+      fatigue: 0.7,
+      headache: 0.6,
+      loss_of_appetite: 0.6,
+      abdominal_pain: 0.5,
+      constipation: 0.3,
+      diarrhea: 0.3,
+    },
+  },
+  {
+    name: 'Malaria',
+    prior: 5,
+    severity: 'high',
+    likelihoods: {
+      fever: 0.95,
+      chills: 0.85,
+      sweating: 0.7,
+      headache: 0.65,
+      fatigue: 0.6,
+      muscle_pain: 0.5,
+      nausea: 0.4,
+      vomiting: 0.3,
+    },
+  },
+  {
+    name: 'Bacterial Infection',
+    prior: 10,
+    severity: 'moderate',
+    likelihoods: {
+      fever: 0.75,
+      fatigue: 0.5,
+      pain: 0.4,
+      chills: 0.35,
+    },
+  },
+  {
+    name: 'Sepsis',
+    prior: 0.5,
+    severity: 'critical',
+    likelihoods: {
+      fever: 0.85,
+      chills: 0.6,
+      fatigue: 0.6,
+      palpitations: 0.5,
+      shortness_of_breath: 0.5,
+      dizziness: 0.4,
+    },
+  },
+
+  // Urinary
+  {
+    name: 'UTI',
+    aliases: ['Urinary Tract Infection'],
+    prior: 10,
+    severity: 'moderate',
+    likelihoods: {
+      burning_urination: 0.9,
+      frequent_urination: 0.85,
+      abdominal_pain: 0.4,
+      fever: 0.2,
+      back_pain: 0.2,
+    },
+  },
+  {
+    name: 'Kidney Stones',
+    prior: 4,
+    severity: 'high',
+    likelihoods: {
+      back_pain: 0.8,
+      abdominal_pain: 0.7,
+      nausea: 0.5,
+      bleeding: 0.4,
+      vomiting: 0.35,
+      burning_urination: 0.3,
+    },
+  },
+  {
+    name: 'Pyelonephritis',
+    prior: 1,
+    severity: 'high',
+    likelihoods: {
+      fever: 0.85,
+      back_pain: 0.75,
+      burning_urination: 0.6,
+      frequent_urination: 0.5,
+      nausea: 0.5,
+      chills: 0.5,
+    },
+  },
+  {
+    name: 'Prostatitis',
+    prior: 1,
+    severity: 'moderate',
+    likelihoods: {
+      burning_urination: 0.7,
+      frequent_urination: 0.7,
+      pain: 0.5,
+      fever: 0.3,
+    },
+  },
+
+  // Dermatological
+  {
+    name: 'Eczema',
+    prior: 10,
+    severity: 'normal',
+    likelihoods: {
+      itching: 0.95,
+      rash: 0.9,
+    },
+  },
+  {
+    name: 'Dermatitis',
+    prior: 10,
+    severity: 'normal',
+    likelihoods: {
+      rash: 0.9,
+      itching: 0.85,
+      swelling: 0.2,
+    },
+  },
+  {
+    name: 'Hives',
+    aliases: ['Urticaria'],
+    prior: 8,
+    severity: 'normal',
+    likelihoods: {
+      rash: 0.95,
+      itching: 0.95,
+      swelling: 0.4,
+    },
+  },
+  {
+    name: 'Fungal Infection',
+    prior: 12,
+    severity: 'normal',
+    likelihoods: {
+      itching: 0.9,
+      rash: 0.8,
+    },
+  },
+  {
+    name: 'Psoriasis',
+    prior: 3,
+    severity: 'normal',
+    likelihoods: {
+      rash: 0.95,
+      itching: 0.6,
+      joint_pain: 0.2,
+    },
+  },
+  {
+    name: 'Scabies',
+    prior: 4,
+    severity: 'normal',
+    likelihoods: {
+      itching: 0.98,
+      rash: 0.85,
+      insomnia: 0.3,
+    },
+  },
+  {
+    name: 'Shingles',
+    prior: 1,
+    severity: 'moderate',
+    likelihoods: {
+      rash: 0.9,
+      pain: 0.85,
+      itching: 0.4,
+      tingling: 0.3,
+      fever: 0.2,
+    },
+  },
+  {
+    name: 'Cellulitis',
+    prior: 2,
+    severity: 'moderate',
+    likelihoods: {
+      swelling: 0.9,
+      pain: 0.8,
+      rash: 0.6,
+      fever: 0.4,
+    },
+  },
+
+  // Mental health
+  {
+    name: 'Generalized Anxiety Disorder',
+    aliases: ['Anxiety Disorder'],
+    prior: 12,
+    severity: 'moderate',
+    likelihoods: {
+      anxiety: 0.95,
+      insomnia: 0.6,
+      fatigue: 0.5,
+      palpitations: 0.4,
+      headache: 0.3,
+      muscle_pain: 0.3,
+      dizziness: 0.2,
+    },
+  },
+  {
+    name: 'Depression',
+    prior: 12,
+    severity: 'moderate',
+    likelihoods: {
+      low_mood: 0.95,
+      fatigue: 0.75,
+      insomnia: 0.6,
+      anxiety: 0.5,
+      loss_of_appetite: 0.45,
+      weight_loss: 0.2,
+    },
+  },
+  {
+    name: 'Insomnia',
+    prior: 12,
+    severity: 'normal',
+    likelihoods: {
+      insomnia: 0.98,
+      fatigue: 0.7,
+      anxiety: 0.35,
+      low_mood: 0.3,
+      headache: 0.2,
+    },
+  },
+  {
+    name: 'Panic Disorder',
+    prior: 3,
+    severity: 'moderate',
+    likelihoods: {
+      anxiety: 0.95,
+      palpitations: 0.85,
+      shortness_of_breath: 0.6,
+      sweating: 0.6,
+      dizziness: 0.5,
+      chest_pain: 0.4,
+      tingling: 0.3,
+      numbness: 0.2,
+    },
+  },
+  {
+    name: 'PTSD',
+    prior: 1,
+    severity: 'moderate',
+    likelihoods: {
+      anxiety: 0.85,
+      insomnia: 0.75,
+      low_mood: 0.6,
+    },
+  },
+  {
+    name: 'Chronic Fatigue Syndrome',
+    prior: 1,
+    severity: 'normal',
+    likelihoods: {
+      fatigue: 0.98,
+      insomnia: 0.5,
+      muscle_pain: 0.5,
+      headache: 0.4,
+      joint_pain: 0.3,
+      sore_throat: 0.2,
+    },
+  },
+
+  // General medicine
+  {
+    name: 'Anemia',
+    prior: 8,
+    severity: 'moderate',
+    likelihoods: {
+      fatigue: 0.85,
+      dizziness: 0.45,
+      shortness_of_breath: 0.35,
+      palpitations: 0.3,
+      headache: 0.3,
+    },
+  },
+  {
+    name: 'Diabetes Type 2',
+    aliases: ['Type 2 Diabetes'],
+    prior: 8,
+    severity: 'moderate',
+    likelihoods: {
+      frequent_urination: 0.5,
+      fatigue: 0.5,
+      blurred_vision: 0.2,
+      weight_loss: 0.2,
+      tingling: 0.2,
+    },
+  },
+  {
+    name: 'Hypothyroidism',
+    prior: 4,
+    severity: 'normal',
+    likelihoods: {
+      fatigue: 0.8,
+      constipation: 0.4,
+      low_mood: 0.35,
+      swelling: 0.2,
+    },
+  },
+  {
+    name: 'Hyperthyroidism',
+    prior: 1,
+    severity: 'moderate',
+    likelihoods: {
+      palpitations: 0.7,
+      weight_loss: 0.6,
+      anxiety: 0.6,
+      sweating: 0.5,
+      insomnia: 0.4,
+    },
+  },
+  {
+    name: 'Dehydration',
+    prior: 8,
+    severity: 'moderate',
+    likelihoods: {
+      dizziness: 0.6,
+      fatigue: 0.6,
+      headache: 0.5,
+    },
+  },
+  {
+    name: 'Vitamin D Deficiency',
+    prior: 10,
+    severity: 'normal',
+    likelihoods: {
+      fatigue: 0.5,
+      muscle_pain: 0.45,
+      back_pain: 0.3,
+      low_mood: 0.2,
+    },
+  },
+  {
+    name: 'Sleep Apnea',
+    prior: 3,
+    severity: 'moderate',
+    likelihoods: {
+      fatigue: 0.8,
+      headache: 0.4,
+      insomnia: 0.4,
+    },
+  },
+];
+
+const PROFILES_BY_NAME = new Map<string, DiseaseProfile>();
+for (const profile of DISEASE_PROFILES) {
+  for (const name of [profile.name, ...(profile.aliases || [])]) {
+    PROFILES_BY_NAME.set(name.toLowerCase(), profile);
+  }
+}
+
+/**
+ * Knowledge-base entry for a condition name (case-insensitive, aliases
+ * included). Names with a qualifier in brackets, as the LLM often writes
+ * them ("Influenza (Flu)"), are tried with and without it.
+ */
+export function findDiseaseProfile(name: string): DiseaseProfile | undefined {
+  const key = name.trim().toLowerCase();
+  const qualifier = key.match(/\(([^)]+)\)/)?.[1].trim();
+  const bare = key.replace(/\s*\([^)]*\)/g, '').trim();
+  return (
+    PROFILES_BY_NAME.get(key) ||
+    PROFILES_BY_NAME.get(bare) ||
+    (qualifier ? PROFILES_BY_NAME.get(qualifier) : undefined)
+  );
+}
+
+export function symptomBaseRate(symptomId: string): number {
+  return SYMPTOM_BASE_RATES[symptomId] ?? DEFAULT_BASE_RATE;
+}
@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyFindings,
+  createDiseaseCandidate,
+  differentialConfidence,
+  isScored,
+  rankCandidates,
+} from './disease-scoring';
+
+describe('createDiseaseCandidate', () => {
+  test('starts a knowledge-base condition at its own prior', () => {
+    const flu = createDiseaseCandidate('Influenza (Flu)', 15);
+    assert.equal(flu.prior, 20);
+    assert.ok(isScored(flu));
+  });
+
+  test('marks unknown conditions unscored at the fallback prior', () => {
+    const unknown = createDiseaseCandidate('Mystery Syndrome', 15);
+    assert.equal(unknown.probability, 15);
+    assert.equal(unknown.unscored, true);
+    assert.ok(!isScored(unknown));
+  });
+});
+
+describe('rankCandidates', () => {
+  test('ranks unscored candidates below scored ones', () => {
+    const unknown = createDiseaseCandidate('Mystery Syndrome', 90);
+    const cold = createDiseaseCandidate('Common Cold', 15);
+    const ranked = rankCandidates([unknown, cold]);
+    assert.deepEqual(
+      ranked.map(c => c.name),
+      ['Common Cold', 'Mystery Syndrome']
+    );
+  });
+});
+
+describe('differentialConfidence', () => {
+  test('is the lead of the top scored candidate over the runner-up', () => {
+    const findings = { present: ['runny_nose', 'sneezing'], absent: [] };
+    const cold = applyFindings(
+      createDiseaseCandidate('Common Cold', 15),
+      findings,
+      1
+    );
+    const flu = applyFindings(
+      createDiseaseCandidate('Influenza', 15),
+      findings,
+      1
+    );
+    const unknown = createDiseaseCandidate('Mystery Syndrome', 99);
+
+    const confidence = differentialConfidence([unknown, cold, flu]);
+    assert.ok(cold.probability > flu.probability);
+    assert.equal(
+      confidence,
+      Math.round((cold.probability - flu.probability) * 10) / 10
+    );
+  });
+
+  test('is 0 without scored candidates', () => {
+    assert.equal(
+      differentialConfidence([createDiseaseCandidate('Mystery Syndrome', 50)]),
+      0
+    );
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Disease Scoring
+ * Deterministic, evidence-based probability updates for DiseaseCandidates
+ *
+ * A candidate starts at its knowledge-base prior and is updated in log-odds
+ * with one likelihood ratio per finding:
+ *   reported symptom  LR+ = P(s | disease) / P(s | other)
+ *   denied symptom    LR- = (1 - P(s | disease)) / (1 - P(s | other))
+ *
+ * Each finding is applied once per candidate; if the patient later changes
+ * their answer, the old ratio is swapped for the new one. Every change is
+ * appended to candidate.evidence, so the same answers always produce the same
+ * differential and a doctor can see why a condition rose or fell.
+ *
+ * Conditions missing from the knowledge base are `unscored`: they keep a
+ * fixed prior and rank below every scored candidate (rankCandidates).
+ */
+
+import type {
+  DiseaseCandidate,
+  DifferentialEvidence,
+  ProbabilityContribution,
+} from './types';
+import { findDiseaseProfile, symptomBaseRate } from './disease-knowledge';
+import { symptomLabel } from './symptom-lexicon';
+
+const MIN_PROBABILITY = 1;
+const MAX_PROBABILITY = 99;
+
+// A symptom the knowledge base does not list for a disease is assumed to be
+// half as common with it as with other conditions
+const UNLISTED_SYMPTOM_FACTOR = 0.5;
+
+// Symptom ids that count as a located pain when only "pain" was reported
+const PAIN_SYMPTOMS = [
+  'headache',
+  'chest_pain',
+  'abdominal_pain',
+  'back_pain',
+  'joint_pain',
+  'muscle_pain',
+  'sore_throat',
+  'ear_pain',
+];
+
+// Number of candidate symptoms kept as differentiatingSymptoms
+const MAX_DIFFERENTIATING_SYMPTOMS = 5;
+
+// Ceiling of differentialConfidence
+const MAX_CONFIDENCE = 95;
+
+type Finding = ProbabilityContribution['finding'];
+
+function toLogOdds(probability: number): number {
+  const p = Math.min(Math.max(probability, 0.01), 99.99) / 100;
+  return Math.log(p / (1 - p));
+}
+
+function fromLogOdds(logOdds: number): number {
+  const p = (1 / (1 + Math.exp(-logOdds))) * 100;
+  return Math.min(Math.max(p, MIN_PROBABILITY), MAX_PROBABILITY);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * P(symptom | disease) as used by the scorer (also read by question-planner)
+ */
+export function symptomLikelihood(
+  likelihoods: Record<string, number>,
+  symptom: string
+): number {
+  if (likelihoods[symptom] !== undefined) return likelihoods[symptom];
+
+  // Unlocated pain: as likely as the disease's most typical pain
+  if (symptom === 'pain') {
+    const located = PAIN_SYMPTOMS.map(s => likelihoods[s] ?? 0);
+    const best = Math.max(...located);
+    if (best > 0) return best;
+  }
+
+  return symptomBaseRate(symptom) * UNLISTED_SYMPTOM_FACTOR;
+}
+
+function likelihoodRatio(
+  likelihoods: Record<string, number>,
+  symptom: string,
+  finding: Finding
+): number {
+  const p = Math.min(
+    Math.max(symptomLikelihood(likelihoods, symptom), 0.01),
+    0.99
+  );
+  const q = symptomBaseRate(symptom);
+  return finding === 'present' ? p / q : (1 - p) / (1 - q);
+}
+
+function latestFinding(
+  evidence: ProbabilityContribution[],
+  symptom: string
+): Finding | undefined {
+  for (let i = evidence.length - 1; i >= 0; i--) {
+    if (evidence[i].symptom === symptom) return evidence[i].finding;
+  }
+  return undefined;
+}
+
+/**
+ * Highest-likelihood symptoms nobody has asked about yet for this disease
+ */
+function pickDifferentiatingSymptoms(
+  likelihoods: Record<string, number>,
+  evidence: ProbabilityContribution[]
+): string[] {
+  const known = new Set(evidence.map(e => e.symptom));
+  return Object.entries(likelihoods)
+    .filter(([symptom, p]) => p >= 0.5 && !known.has(symptom))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_DIFFERENTIATING_SYMPTOMS)
+    .map(([symptom]) => symptom);
+}
+
+/**
+ * New candidate at its knowledge-base prior (fallbackPrior, 0-100, when the
+ * condition is not in the knowledge base)
+ */
+export function createDiseaseCandidate(
+  name: string,
+  fallbackPrior: number
+): DiseaseCandidate {
+  const profile = findDiseaseProfile(name);
+  const prior = round(
+    Math.min(
+      Math.max(profile?.prior ?? fallbackPrior, MIN_PROBABILITY),
+      MAX_PROBABILITY
+    ),
+    1
+  );
+  const symptomLikelihoods = profile ? { ...profile.likelihoods } : {};
+
+  return {
+    name,
+    probability: prior,
+    prior,
+    matchedSymptoms: [],
+    differentiatingSymptoms: pickDifferentiatingSymptoms(
+      symptomLikelihoods,
+      []
+    ),
+    severity: profile?.severity ?? 'moderate',
+    symptomLikelihoods,
+    ...(!profile && { unscored: true }),
+    evidence: [],
+  };
+}
+
+/**
+ * Whether findings move this candidate (it has knowledge-base likelihoods)
+ */
+export function isScored(candidate: DiseaseCandidate): boolean {
+  return (
+    !candidate.unscored &&
+    Object.keys(candidate.symptomLikelihoods || {}).length > 0
+  );
+}
+
+/**
+ * Differential order: scored candidates by posterior, then unscored ones
+ * by their fixed prior
+ */
+export function rankCandidates(
+  candidates: DiseaseCandidate[]
+): DiseaseCandidate[] {
+  return [...candidates].sort(
+    (a, b) =>
+      Number(isScored(b)) - Number(isScored(a)) || b.probability - a.probability
+  );
+}
+
+/**
+ * Confidence (0-100) in the leading diagnosis: its posterior minus the
+ * runner-up's, so a likely condition with a clear lead scores high and a tie
+ * scores 0. Unscored candidates do not count.
+ */
+export function differentialConfidence(candidates: DiseaseCandidate[]): number {
+  const [top, runnerUp] = candidates
+    .filter(isScored)
+    .map(c => c.probability)
+    .sort((a, b) => b - a);
+  if (top === undefined) return 0;
+  return round(Math.min(Math.max(top - (runnerUp ?? 0), 0), MAX_CONFIDENCE), 1);
+}
+
+/**
+ * Bayesian update of one candidate with the findings known at this turn
+ * Findings that were already applied with the same answer are skipped.
+ */
+export function applyFindings(
+  candidate: DiseaseCandidate,
+  findings: { present: string[]; absent: string[] },
+  turn: number
+): DiseaseCandidate {
+  const likelihoods = candidate.symptomLikelihoods || {};
+  // No knowledge-base data: findings cannot move this candidate
+  if (Object.keys(likelihoods).length === 0) return candidate;
+
+  const evidence = [...(candidate.evidence || [])];
+  let logOdds = toLogOdds(candidate.probability);
+
+  const observations: Array<[string, Finding]> = [
+    ...findings.present.map((s): [string, Finding] => [s, 'present']),
+    ...findings.absent.map((s): [string, Finding] => [s, 'absent']),
+  ];
+
+  for (const [symptom, finding] of observations) {
+    const previous = latestFinding(evidence, symptom);
+    if (previous === finding) continue;
+
+    // A changed answer replaces the earlier ratio instead of stacking on it
+    const ratio =
+      likelihoodRatio(likelihoods, symptom, finding) /
+      (previous ? likelihoodRatio(likelihoods, symptom, previous) : 1);
+
+    const before = fromLogOdds(logOdds);
+    logOdds += Math.log(ratio);
+    const after = fromLogOdds(logOdds);
+
+    evidence.push({
+      turn,
+      symptom,
+      finding,
+      likelihoodRatio: round(ratio, 2),
+      change: round(after - before, 1),
+      probability: round(after, 1),
+    });
+  }
+
+  const supporting = findings.present.filter(
+    s => symptomLikelihood(likelihoods, s) > symptomBaseRate(s)
+  );
+
+  return {
+    ...candidate,
+    probability: round(fromLogOdds(logOdds), 1),
+    prior: candidate.prior ?? candidate.probability,
+    matchedSymptoms: [
+      ...new Set([...candidate.matchedSymptoms, ...supporting]),
+    ].filter(s => !findings.absent.includes(s)),
+    differentiatingSymptoms: pickDifferentiatingSymptoms(likelihoods, evidence),
+    evidence,
+  };
+}
+
+/**
+ * Doctor-facing summary of a candidate's evidence trail
+ * (latest answer per symptom, largest effect first)
+ */
+export function summarizeEvidence(
+  candidate: DiseaseCandidate
+): DifferentialEvidence {
+  const evidence = candidate.evidence || [];
+  const latest = new Map<string, ProbabilityContribution>();
+  for (const entry of evidence) latest.set(entry.symptom, entry);
+
+  const likelihoods = candidate.symptomLikelihoods || {};
+  const contributions = [...latest.values()]
+    .map(entry => ({
+      symptom: symptomLabel(entry.symptom),
+      finding: entry.finding,
+      // Net ratio of the current answer (a changed answer was stored as a swap)
+      likelihoodRatio: round(
+        likelihoodRatio(likelihoods, entry.symptom, entry.finding),
+        2
+      ),
+      change: round(
+        evidence
+          .filter(e => e.symptom === entry.symptom)
+          .reduce((sum, e) => sum + e.change, 0),
+        1
+      ),
+      turn: entry.turn,
+    }))
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  return {
+    condition: candidate.name,
+    prior: candidate.prior ?? candidate.probability,
+    probability: round(candidate.probability, 1),
+    contributions,
+  };
+}
@@ -3,11 +3,14 @@
  * Agent 3: Generates SOAP reports when clinical interview completes
  *
  * Flow:
- * 1. Collect all conversation data
- * 2. Generate SOAP report structure
+ * 1. Collect all conversation data and the patient's relevant past episodes
+ * 2. Generate SOAP report structure, citing the session's knowledge-base
+ *    sources per assessment/plan statement (see citations.ts)
  * 3. Determine department assignment
- * 4. Save report to Supabase
- * 5. Trigger Safety Agent
+ * 4. Code the diagnoses with ICD-10 (see icd-coding.ts)
+ * 5. Write the patient's plain-language summary (see patient-summary.ts)
+ * 6. Save report to Supabase
+ * 7. Trigger Safety Agent
  */
 
 import { StateGraph } from '@langchain/langgraph';
@@ -19,9 +22,26 @@ import type {
   ChatMessage,
   DiagnosisState,
   PatientInfo,
+  RAGSource,
 } from './types';
 import { DocumentationAgentStateSchema } from './types';
-import { generateSOAPReport } from './llm-utils';
+import { citeReport, toReferences } from './citations';
+import {
+  describeEpisode,
+  findPastEpisodes,
+  indexSessionEpisode,
+} from './patient-history';
+import {
+  ensureBaselineVersion,
+  updateReportWithVersion,
+  versionSnapshot,
+} from './report-versions';
+import { codeDiagnoses, codingData, reportCodes } from './icd-coding';
+import { asSummaryJson, summarizeForPatient } from './patient-summary';
+import { generateEmbedding, generateSOAPReport } from './llm-utils';
+import { symptomLabels } from './symptom-lexicon';
+import { summarizeEvidence } from './disease-scoring';
+import { characterizeSymptom, formatSymptomRecord } from './symptom-records';
 import prisma from '@/lib/prisma';
 import { determineDepartment as getDepartmentFromSymptoms } from '@/lib/constants/departments';
 
@@ -147,7 +167,26 @@ async function compileSessionData(state: DocumentationAgentState) {
   console.log(`   📋 Chief complaint: ${chiefComplaint.slice(0, 50)}...`);
   console.log(`   💬 Total messages: ${state.conversationHistory.length}`);
 
-  return {};
+  // Earlier sessions of this patient that resemble the whole session
+  const symptoms = symptomLabels(
+    state.diagnosisState?.identifiedSymptoms || []
+  );
+  const text = [chiefComplaint, ...symptoms].join('. ');
+  const pastEpisodes = await findPastEpisodes({
+    patientId: state.patientId,
+    text,
+    keywords: [
+      text,
+      ...(state.diagnosisState?.potentialDiseases || [])
+        .slice(0, 3)
+        .map(d => d.name),
+    ].join(' '),
+    embedding: await generateEmbedding(text),
+    excludeSessionId: state.sessionId,
+  });
+  console.log(`   🗂️ Relevant past episodes: ${pastEpisodes.length}`);
+
+  return { pastEpisodes };
 }
 
 /**
@@ -158,9 +197,10 @@ async function generateReport(state: DocumentationAgentState) {
 
   const { conversationHistory, diagnosisState, patientInfo, ragSources } =
     state;
+  const references = toReferences(ragSources);
 
   // Prepare data for SOAP generation
-  const soapData = await generateSOAPReport({
+  const { data: soapData, generation } = await generateSOAPReport({
     conversationHistory: conversationHistory.map(m => ({
       role: m.role,
       content: m.content,
@@ -172,23 +212,33 @@ async function generateReport(state: DocumentationAgentState) {
           name: d.name,
           probability: d.probability,
         })) || [],
-      identifiedSymptoms: diagnosisState?.identifiedSymptoms || [],
+      identifiedSymptoms: symptomLabels(
+        diagnosisState?.identifiedSymptoms || []
+      ),
+      negativeFindings: symptomLabels(diagnosisState?.negativeFindings || []),
+      symptomDetails: (diagnosisState?.symptomRecords || []).map(
+        formatSymptomRecord
+      ),
       confidenceScore: diagnosisState?.confidenceScore || 50,
     },
-    ragSources,
+    references,
+    pastEpisodes: state.pastEpisodes.map(e => describeEpisode(e)),
   });
 
   // Build full SOAP report with normalized severity values
-  const soapReport: SOAPReport = {
+  const draftReport: SOAPReport = {
     subjective: {
       chiefComplaint:
         soapData.subjective?.chiefComplaint || 'Clinical interview',
       symptoms:
         soapData.subjective?.symptoms ||
-        diagnosisState?.identifiedSymptoms ||
-        [],
+        symptomLabels(diagnosisState?.identifiedSymptoms || []),
       patientHistory: state.medicalHistory,
       patientNarrative: soapData.subjective?.patientNarrative || '',
+      symptomCharacterization: (diagnosisState?.symptomRecords || []).map(
+        characterizeSymptom
+      ),
+      pastEpisodes: state.pastEpisodes,
     },
     objective: {
       reportedSymptoms: soapData.objective?.reportedSymptoms || [],
@@ -211,7 +261,11 @@ async function generateReport(state: DocumentationAgentState) {
         50,
       aiAnalysis: soapData.assessment?.aiAnalysis || '',
       redFlags: soapData.assessment?.redFlags || [],
-      medicalSources: ragSources,
+      medicalSources: [...new Set(ragSources.map(s => s.source))],
+      differentialEvidence: (diagnosisState?.potentialDiseases || [])
+        .slice(0, 5)
+        .map(summarizeEvidence),
+      citations: soapData.assessment?.citations,
     },
     plan: {
       recommendations: soapData.plan?.recommendations || [
@@ -221,6 +275,7 @@ async function generateReport(state: DocumentationAgentState) {
       specialistReferral: soapData.plan?.specialistReferral,
       followUpNeeded: soapData.plan?.followUpNeeded ?? true,
       urgency: normalizeUrgency(soapData.plan?.urgency),
+      citations: soapData.plan?.citations,
     },
     metadata: {
       generatedAt: new Date().toISOString(),
@@ -228,12 +283,23 @@ async function generateReport(state: DocumentationAgentState) {
       patientId: state.patientId,
       triageLabel: 'standard',
       aiVersion: 'sehat-guftagu-v2.0',
+      generation,
     },
   };
 
+  // Keep the model's citations that name a real reference, cite the rest
+  // by topic
+  const soapReport = citeReport(draftReport, references);
+  const citedStatements =
+    (soapReport.assessment.citations?.length ?? 0) +
+    (soapReport.plan.citations?.length ?? 0);
+  console.log(
+    `   📚 ${citedStatements} statement(s) cited from ${references.length} session source(s)`
+  );
+
   // Determine department using centralized function
   const department = getDepartmentFromSymptoms(
-    diagnosisState?.identifiedSymptoms || [],
+    symptomLabels(diagnosisState?.identifiedSymptoms || []),
     diagnosisState?.potentialDiseases || []
   );
 
@@ -247,7 +313,13 @@ async function generateReport(state: DocumentationAgentState) {
   soapReport.metadata.department = department;
   soapReport.metadata.triageLabel = triageLabel;
 
-  console.log(`   ✅ SOAP report generated`);
+  if (generation.source === 'fallback') {
+    console.warn(
+      `   ⚠️ SOAP report is a FALLBACK template (${generation.attempts} failed attempts)`
+    );
+  } else {
+    console.log(`   ✅ SOAP report generated (${generation.source})`);
+  }
   console.log(`   🏥 Department: ${department}`);
   console.log(`   🚨 Triage: ${triageLabel}`);
 
@@ -258,6 +330,40 @@ async function generateReport(state: DocumentationAgentState) {
   };
 }
 
+/**
+ * Node: Code the primary and differential diagnoses with ICD-10
+ * A regenerated report keeps the codes a doctor reviewed for diagnoses that
+ * did not change
+ */
+async function codeReportDiagnoses(state: DocumentationAgentState) {
+  if (!state.soapReport) return {};
+
+  console.log('\n🏷️ [Documentation Agent] Coding diagnoses (ICD-10)...');
+
+  const previous = await reportCodes({ sessionId: state.sessionId });
+  const diagnosisCodes = codeDiagnoses(state.soapReport.assessment, previous);
+  for (const c of diagnosisCodes) {
+    const coded = c.code ? `${c.code} (${c.status})` : 'uncoded';
+    console.log(`   ${c.code ? '✅' : '❔'} ${c.diagnosis} → ${coded}`);
+  }
+
+  return { diagnosisCodes };
+}
+
+/**
+ * Node: Write the patient-facing summary (released after doctor approval)
+ */
+async function writePatientSummary(state: DocumentationAgentState) {
+  if (!state.soapReport) return {};
+
+  console.log('\n🗣️ [Documentation Agent] Writing patient summary...');
+  const patientSummary = await summarizeForPatient(state.soapReport);
+  console.log(
+    `   ✅ Patient summary written (${patientSummary.generation?.source})`
+  );
+  return { patientSummary };
+}
+
 /**
  * Node: Save report to Supabase
  */
@@ -285,36 +391,39 @@ async function saveReportToDb(state: DocumentationAgentState) {
       plan: state.soapReport.plan ? 'Present' : 'Missing',
     });
 
-    // DEBUG: Log the exact object being passed to create/update
-    const saveData = {
-      subjective: state.soapReport.subjective,
-      objective: state.soapReport.objective,
-      assessment: state.soapReport.assessment,
-      plan: state.soapReport.plan,
-      department: state.department,
-      priority:
-        state.triageLabel === 'emergency'
-          ? 'urgent'
-          : state.triageLabel === 'urgent'
-            ? 'high'
-            : 'normal',
-      reviewStatus: 'pending',
-    };
-    console.log('   💾 Saving payload preview:', JSON.stringify(saveData, null, 2));
+    // Sizes only - the content (and the patient summary) is patient health
+    // information and stays out of the server logs
+    const jsonLength = (value: unknown) =>
+      value ? JSON.stringify(value).length : 0;
+    console.log('   💾 Saving payload (characters):', {
+      subjective: jsonLength(state.soapReport.subjective),
+      objective: jsonLength(state.soapReport.objective),
+      assessment: jsonLength(state.soapReport.assessment),
+      plan: jsonLength(state.soapReport.plan),
+      patientSummary: jsonLength(state.patientSummary),
+    });
     // Check if report already exists
     const existingReport = await prisma.sOAPReport.findUnique({
       where: { sessionId: state.sessionId },
     });
 
     if (existingReport) {
-      // Update existing report
-      const updated = await prisma.sOAPReport.update({
-        where: { sessionId: state.sessionId },
+      // Keep the content being replaced in the report's history
+      await ensureBaselineVersion(existingReport.id);
+
+      // Update existing report, together with its new version
+      const version = await updateReportWithVersion({
+        reportId: existingReport.id,
         data: {
           subjective: state.soapReport.subjective,
           objective: state.soapReport.objective,
           assessment: state.soapReport.assessment,
           plan: state.soapReport.plan,
+          generation: state.soapReport.metadata.generation,
+          ...codingData(state.diagnosisCodes),
+          patientSummary: state.patientSummary
+            ? asSummaryJson(state.patientSummary)
+            : undefined,
           department: state.department,
           priority:
             state.triageLabel === 'emergency'
@@ -325,10 +434,18 @@ async function saveReportToDb(state: DocumentationAgentState) {
           reviewStatus: 'pending',
           updatedAt: new Date(),
         },
+        meta: {
+          kind: 'regenerated',
+          aiVersion: state.soapReport.metadata.aiVersion,
+        },
       });
+      if (version === null) {
+        console.error('   ❌ Report changed concurrently - not updated');
+        return { savedToDb: false };
+      }
 
-      console.log(`   ✅ Report updated: ${updated.id}`);
-      return { savedToDb: true, reportId: updated.id };
+      console.log(`   ✅ Report updated: ${existingReport.id}`);
+      return { savedToDb: true, reportId: existingReport.id };
     } else {
       // Create new report
       const created = await prisma.sOAPReport.create({
@@ -339,6 +456,11 @@ async function saveReportToDb(state: DocumentationAgentState) {
           objective: state.soapReport.objective,
           assessment: state.soapReport.assessment,
           plan: state.soapReport.plan,
+          generation: state.soapReport.metadata.generation,
+          ...codingData(state.diagnosisCodes),
+          patientSummary: state.patientSummary
+            ? asSummaryJson(state.patientSummary)
+            : undefined,
           department: state.department,
           priority:
             state.triageLabel === 'emergency'
@@ -347,6 +469,20 @@ async function saveReportToDb(state: DocumentationAgentState) {
                 ? 'high'
                 : 'normal',
           reviewStatus: 'pending',
+          // Created with the report, as its original version
+          versions: {
+            create: versionSnapshot(
+              1,
+              {
+                ...state.soapReport,
+                generation: state.soapReport.metadata.generation,
+              },
+              {
+                kind: 'original',
+                aiVersion: state.soapReport.metadata.aiVersion,
+              }
+            ),
+          },
         },
       });
 
@@ -398,6 +534,20 @@ async function updateSessionStatus(state: DocumentationAgentState) {
   return {};
 }
 
+/**
+ * Node: Add the session to the patient's history namespace, so later
+ * interviews can retrieve it (see patient-history.ts)
+ */
+async function indexPatientHistory(state: DocumentationAgentState) {
+  if (!state.savedToDb) return {};
+
+  console.log(
+    '\n🗂️ [Documentation Agent] Indexing episode in patient history...'
+  );
+  await indexSessionEpisode(state.reportId);
+  return {};
+}
+
 /**
  * Build the Documentation Agent Graph
  */
@@ -405,13 +555,19 @@ export function createDocumentationAgent() {
   const workflow = new StateGraph(DocumentationAgentStateSchema)
     .addNode('compile_data', compileSessionData)
     .addNode('generate_report', generateReport)
+    .addNode('code_diagnoses', codeReportDiagnoses)
+    .addNode('summarize_for_patient', writePatientSummary)
     .addNode('save_to_db', saveReportToDb)
     .addNode('update_session', updateSessionStatus)
+    .addNode('index_history', indexPatientHistory)
     .addEdge('__start__', 'compile_data')
     .addEdge('compile_data', 'generate_report')
-    .addEdge('generate_report', 'save_to_db')
+    .addEdge('generate_report', 'code_diagnoses')
+    .addEdge('code_diagnoses', 'summarize_for_patient')
+    .addEdge('summarize_for_patient', 'save_to_db')
     .addEdge('save_to_db', 'update_session')
-    .addEdge('update_session', '__end__');
+    .addEdge('update_session', 'index_history')
+    .addEdge('index_history', '__end__');
 
   return workflow.compile();
 }
@@ -426,7 +582,7 @@ export async function generateSOAPForSession(params: {
   diagnosisState: DiagnosisState;
   patientInfo: PatientInfo | null;
   medicalHistory: string;
-  ragSources: string[];
+  ragSources: RAGSource[];
 }): Promise<{
   soapReport: SOAPReport | null;
   department: string;
@@ -444,7 +600,10 @@ export async function generateSOAPForSession(params: {
     patientInfo: params.patientInfo,
     medicalHistory: params.medicalHistory,
     ragSources: params.ragSources,
+    pastEpisodes: [],
     soapReport: null,
+    diagnosisCodes: [],
+    patientSummary: null,
     department: '',
     triageLabel: 'standard' as TriageLabel,
     savedToDb: false,
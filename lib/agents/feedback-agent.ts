@@ -11,11 +11,31 @@
  */
 
 import { StateGraph } from '@langchain/langgraph';
-import type { FeedbackAgentState, SOAPReport, ReviewStatus } from './types';
+import type {
+  FeedbackAgentState,
+  SOAPReport,
+  SOAPContent,
+  ReviewStatus,
+  ReviewedPrescriptionWarning,
+} from './types';
 import { FeedbackAgentStateSchema } from './types';
 import { regenerateSOAPWithFeedback } from './llm-utils';
+import { citeReport } from './citations';
+import { indexSessionEpisode } from './patient-history';
+import {
+  ensureBaselineVersion,
+  updateReportWithVersion,
+} from './report-versions';
+import { codeDiagnoses, codingData, reportCodes } from './icd-coding';
+import { STALE_SUMMARY, ensurePatientSummary } from './patient-summary';
+import { asWarningsJson } from './prescription-safety';
 import prisma from '@/lib/prisma';
 
+const REGENERATION_FAILED =
+  'The report could not be regenerated - the original content was kept. Please try again.';
+const REPORT_CHANGED =
+  'The report was changed at the same time - please reload it and try again.';
+
 /**
  * Node: Process doctor's review action
  */
@@ -81,30 +101,34 @@ async function regenerateReport(state: FeedbackAgentState) {
 
     if (!originalReport) {
       console.log('   ❌ Original report not found');
-      return { regeneratedReport: null };
+      return {
+        regeneratedReport: null,
+        regenerationError: 'Report not found',
+      };
     }
 
     // Use LLM to regenerate with feedback
-    const regeneratedData = await regenerateSOAPWithFeedback({
-      originalReport: {
-        subjective: originalReport.subjective,
-        objective: originalReport.objective,
-        assessment: originalReport.assessment,
-        plan: originalReport.plan,
-      },
-      doctorFeedback: state.doctorFeedback,
-      rejectionReason: state.rejectionReason,
-    });
+    const { data: regeneratedData, generation } =
+      await regenerateSOAPWithFeedback({
+        originalReport: {
+          subjective: originalReport.subjective,
+          objective: originalReport.objective,
+          assessment: originalReport.assessment,
+          plan: originalReport.plan,
+        } as unknown as SOAPContent,
+        doctorFeedback: state.doctorFeedback,
+        rejectionReason: state.rejectionReason,
+      });
 
     // Construct new SOAP report
-    const regeneratedReport: SOAPReport = {
-      subjective: regeneratedData.subjective || originalReport.subjective,
-      objective: regeneratedData.objective || originalReport.objective,
+    const draftReport: SOAPReport = {
+      subjective: regeneratedData.subjective,
+      objective: regeneratedData.objective,
       assessment: {
-        ...(regeneratedData.assessment || originalReport.assessment),
+        ...regeneratedData.assessment,
         redFlags: (originalReport.assessment as any)?.redFlags || [],
       },
-      plan: regeneratedData.plan || originalReport.plan,
+      plan: regeneratedData.plan,
       metadata: {
         generatedAt: new Date().toISOString(),
         sessionId: originalReport.sessionId,
@@ -112,14 +136,37 @@ async function regenerateReport(state: FeedbackAgentState) {
         department: originalReport.department || undefined,
         triageLabel: 'standard',
         aiVersion: 'sehat-guftagu-v2.0-regenerated',
+        generation,
       },
     };
 
+    // Rewritten statements cite the same session sources as the original
+    const regeneratedReport = citeReport(
+      draftReport,
+      (originalReport.assessment as unknown as SOAPReport['assessment'])
+        .references || []
+    );
+
+    if (generation.source === 'fallback') {
+      // The fallback is the original content: keep the report (and its
+      // generation record) as it is and let the doctor try again
+      console.warn(
+        '   ⚠️ Regeneration failed validation - original content kept'
+      );
+      return {
+        regeneratedReport: null,
+        regenerationError: REGENERATION_FAILED,
+      };
+    }
+
     console.log('   ✅ Report regenerated with doctor feedback');
     return { regeneratedReport };
   } catch (error) {
     console.error('   ❌ Report regeneration failed:', error);
-    return { regeneratedReport: null };
+    return {
+      regeneratedReport: null,
+      regenerationError: REGENERATION_FAILED,
+    };
   }
 }
 
@@ -141,9 +188,13 @@ async function updateReviewInDb(state: FeedbackAgentState) {
       updateData.doctorNotes = state.doctorNotes;
     }
 
-    // Add prescription if approved
+    // Add prescription if approved (free text replaces structured items)
     if (state.prescription && state.finalStatus === 'approved') {
       updateData.prescription = state.prescription;
+      updateData.prescriptionItems = { deleteMany: {} };
+      updateData.prescriptionWarnings = asWarningsJson(
+        state.prescriptionWarnings
+      );
     }
 
     // Add doctor ID
@@ -157,16 +208,60 @@ async function updateReviewInDb(state: FeedbackAgentState) {
       updateData.objective = state.regeneratedReport.objective;
       updateData.assessment = state.regeneratedReport.assessment;
       updateData.plan = state.regeneratedReport.plan;
+      updateData.generation = state.regeneratedReport.metadata.generation;
+      // The summary described the replaced content; approval rewrites it
+      updateData.patientSummary = STALE_SUMMARY;
+      // Recode the new diagnoses, keeping codes the doctor already reviewed
+      Object.assign(
+        updateData,
+        codingData(
+          codeDiagnoses(
+            state.regeneratedReport.assessment,
+            await reportCodes({ id: state.reportId })
+          )
+        )
+      );
       // Reset to pending for re-review after regeneration
       updateData.reviewStatus = 'pending';
     }
 
-    await prisma.sOAPReport.update({
-      where: { id: state.reportId },
-      data: updateData,
-    });
+    // Regenerated content is saved together with its version; the content
+    // being replaced stays in the report's history
+    const regenerated = state.needsRegeneration
+      ? state.regeneratedReport
+      : null;
+    if (regenerated) {
+      await ensureBaselineVersion(state.reportId);
+      const version = await updateReportWithVersion({
+        reportId: state.reportId,
+        data: updateData,
+        meta: {
+          kind: 'regenerated',
+          authorId: state.doctorId,
+          feedback: state.doctorFeedback || state.rejectionReason,
+          aiVersion: regenerated.metadata.aiVersion,
+        },
+      });
+      if (version === null) {
+        return { updatedInDb: false, regenerationError: REPORT_CHANGED };
+      }
+    } else {
+      await prisma.sOAPReport.update({
+        where: { id: state.reportId },
+        data: updateData,
+      });
+    }
 
     console.log(`   ✅ Report updated - Status: ${updateData.reviewStatus}`);
+
+    // Released to the patient now - make sure it describes this content
+    if (state.finalStatus === 'approved') {
+      await ensurePatientSummary(state.reportId);
+    }
+
+    // The patient's history record follows the review (approved diagnosis,
+    // regenerated content, rejected reports dropped from retrieval)
+    await indexSessionEpisode(state.reportId);
     return { updatedInDb: true };
   } catch (error) {
     console.error('   ❌ Database update failed:', error);
@@ -206,12 +301,9 @@ async function recordFeedbackMetrics(state: FeedbackAgentState) {
  */
 function checkRegenerationSuccess(
   state: FeedbackAgentState
-): 'success' | 'update' {
-  if (state.needsRegeneration && !state.regeneratedReport) {
-    // Regeneration was needed but failed - still update with partial status
-    return 'update';
-  }
-  return 'update'; // Always proceed to update
+): 'success' | 'failed' {
+  // A failed regeneration changes nothing - not even the review status
+  return state.regenerationError ? 'failed' : 'success';
 }
 
 /**
@@ -227,7 +319,7 @@ export function createFeedbackAgent() {
     .addEdge('process_review', 'regenerate_report')
     .addConditionalEdges('regenerate_report', checkRegenerationSuccess, {
       success: 'update_db',
-      update: 'update_db',
+      failed: 'record_metrics',
     })
     .addEdge('update_db', 'record_metrics')
     .addEdge('record_metrics', '__end__');
@@ -246,11 +338,13 @@ export async function processDoctorReview(params: {
   starRating?: number;
   rejectionReason?: string;
   prescription?: string;
+  prescriptionWarnings?: ReviewedPrescriptionWarning[];
   doctorNotes?: string;
 }): Promise<{
   finalStatus: ReviewStatus;
   needsRegeneration: boolean;
   regeneratedReport: SOAPReport | null;
+  regenerationError: string;
   updatedInDb: boolean;
 }> {
   const agent = createFeedbackAgent();
@@ -265,8 +359,10 @@ export async function processDoctorReview(params: {
     suggestedCorrections: [],
     needsRegeneration: false,
     regeneratedReport: null,
+    regenerationError: '',
     finalStatus: 'pending' as ReviewStatus,
     prescription: params.prescription || '',
+    prescriptionWarnings: params.prescriptionWarnings || [],
     doctorNotes: params.doctorNotes || '',
     updatedInDb: false,
   });
@@ -275,6 +371,7 @@ export async function processDoctorReview(params: {
     finalStatus: result.finalStatus,
     needsRegeneration: result.needsRegeneration,
     regeneratedReport: result.regeneratedReport,
+    regenerationError: result.regenerationError,
     updatedInDb: result.updatedInDb,
   };
 }
@@ -16,7 +16,7 @@ import type {
   MedicalHistoryData,
 } from './types';
 import { HistoryCollectorStateSchema } from './types';
-import { groqLLM } from './llm-utils';
+import { getChatModel } from './llm-providers';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import prisma from '@/lib/prisma';
@@ -202,11 +202,13 @@ async function parseResponse(
         'system',
         `Extract the option from user response. Options: ${options.join(', ')}. Return ONLY the matching option or "unknown".`,
       ],
-      ['human', response],
+      ['human', '{response}'],
     ]);
     try {
-      const chain = prompt.pipe(groqLLM).pipe(new StringOutputParser());
-      const result = await chain.invoke({});
+      const chain = prompt
+        .pipe(getChatModel('reason'))
+        .pipe(new StringOutputParser());
+      const result = await chain.invoke({ response });
       const cleaned = result.trim().toLowerCase();
       if (options.includes(cleaned)) return cleaned;
     } catch {}
@@ -0,0 +1,214 @@
+/**
+ * ICD-10 Coding
+ * Maps the free-text diagnoses of a SOAP assessment to ICD-10 codes from
+ * the offline table (lib/constants/icd10.ts)
+ *
+ * - suggestICD10Codes: candidate codes for one diagnosis, scored by how
+ *   well the diagnosis text matches a code's terms (0-1)
+ * - codeDiagnoses: codes the primary and differential diagnoses, selecting
+ *   the best candidate when it is confident enough. Codes a doctor already
+ *   reviewed are kept for diagnoses that did not change
+ * - reviewDiagnosisCode: a doctor's confirmation or override
+ *
+ * Codes are stored on the report (diagnosisCodes, with the primary
+ * diagnosis' code in primaryIcd10 for reporting queries).
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { DiagnosisCode, ICD10Candidate, SOAPReport } from './types';
+import prisma from '@/lib/prisma';
+import { ICD10_CODES, type ICD10Entry } from '@/lib/constants/icd10';
+
+// Below this the best candidate is offered but not selected
+export const MIN_SELECT_CONFIDENCE = 0.5;
+const MIN_CANDIDATE_CONFIDENCE = 0.25;
+const MAX_CANDIDATES = 3;
+
+// Hedging and filler words that say nothing about the condition
+const IGNORED_WORDS = new Set([
+  'a',
+  'an',
+  'the',
+  'of',
+  'and',
+  'or',
+  'with',
+  'due',
+  'to',
+  'likely',
+  'probable',
+  'possible',
+  'possibly',
+  'suspected',
+  'query',
+  'rule',
+  'out',
+  'r/o',
+  'vs',
+  'versus',
+  'unspecified',
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .split(/[^a-z0-9/]+/)
+    .filter(t => t && !IGNORED_WORDS.has(t))
+    .map(t => (t.length > 3 && t.endsWith('s') ? t.slice(0, -1) : t));
+}
+
+const INDEXED_CODES = ICD10_CODES.map(entry => ({
+  entry,
+  terms: entry.terms.map(term => new Set(tokenize(term))),
+}));
+
+// Exact term: 0.95. Term contained in the diagnosis: 0.5-0.9 by how much of
+// the diagnosis it covers. Partial overlap: up to 0.6 (Dice coefficient).
+function matchScore(diagnosis: Set<string>, term: Set<string>): number {
+  if (term.size === 0 || diagnosis.size === 0) return 0;
+
+  const shared = [...term].filter(t => diagnosis.has(t)).length;
+  if (shared === term.size && shared === diagnosis.size) return 0.95;
+  if (shared === term.size) return 0.5 + 0.4 * (term.size / diagnosis.size);
+  return 0.6 * ((2 * shared) / (term.size + diagnosis.size));
+}
+
+/**
+ * Candidate ICD-10 codes for a diagnosis, best first
+ */
+export function suggestICD10Codes(
+  diagnosis: string,
+  limit: number = MAX_CANDIDATES
+): ICD10Candidate[] {
+  const tokens = new Set(tokenize(diagnosis));
+
+  return INDEXED_CODES.map(({ entry, terms }) => ({
+    code: entry.code,
+    title: entry.title,
+    confidence:
+      Math.round(Math.max(...terms.map(t => matchScore(tokens, t))) * 100) /
+      100,
+  }))
+    .filter(c => c.confidence >= MIN_CANDIDATE_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+function sameDiagnosis(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function codeDiagnosis(
+  diagnosis: string,
+  role: DiagnosisCode['role']
+): DiagnosisCode {
+  const candidates = suggestICD10Codes(diagnosis);
+  const best = candidates[0];
+  const selected = best && best.confidence >= MIN_SELECT_CONFIDENCE;
+
+  return {
+    diagnosis,
+    role,
+    candidates,
+    code: selected ? best.code : null,
+    title: selected ? best.title : null,
+    status: selected ? 'suggested' : 'uncoded',
+  };
+}
+
+/**
+ * Code the assessment's primary and differential diagnoses
+ * `previous` codes that a doctor reviewed are kept where the diagnosis is
+ * unchanged
+ */
+export function codeDiagnoses(
+  assessment: Pick<
+    SOAPReport['assessment'],
+    'primaryDiagnosis' | 'differentialDiagnosis'
+  >,
+  previous: DiagnosisCode[] = []
+): DiagnosisCode[] {
+  const diagnoses: [string, DiagnosisCode['role']][] = [
+    [assessment.primaryDiagnosis, 'primary'],
+    ...(assessment.differentialDiagnosis || []).map(
+      d => [d, 'differential'] as [string, DiagnosisCode['role']]
+    ),
+  ];
+
+  return diagnoses
+    .filter(([diagnosis]) => diagnosis?.trim())
+    .map(([diagnosis, role]) => {
+      const reviewed = previous.find(
+        p =>
+          (p.status === 'confirmed' || p.status === 'overridden') &&
+          sameDiagnosis(p.diagnosis, diagnosis)
+      );
+      return reviewed
+        ? { ...reviewed, diagnosis, role }
+        : codeDiagnosis(diagnosis, role);
+    });
+}
+
+/**
+ * Selected code of the primary diagnosis, if any
+ */
+export function primaryICD10Code(codes: DiagnosisCode[]): string | null {
+  return codes.find(c => c.role === 'primary')?.code ?? null;
+}
+
+/**
+ * Record a doctor's choice of code for one diagnosis: keeping the suggested
+ * code confirms it, any other code overrides it. Returns null if the
+ * diagnosis is not in the coding.
+ */
+export function reviewDiagnosisCode(
+  codes: DiagnosisCode[],
+  review: { diagnosis: string; code: ICD10Entry; doctorId: string }
+): DiagnosisCode[] | null {
+  const index = codes.findIndex(c =>
+    sameDiagnosis(c.diagnosis, review.diagnosis)
+  );
+  if (index === -1) return null;
+
+  const current = codes[index];
+  const keepsCode =
+    current.code === review.code.code && current.status !== 'overridden';
+
+  const updated = [...codes];
+  updated[index] = {
+    ...current,
+    code: review.code.code,
+    title: review.code.title,
+    status: keepsCode ? 'confirmed' : 'overridden',
+    reviewedBy: review.doctorId,
+    reviewedAt: new Date().toISOString(),
+  };
+  return updated;
+}
+
+/**
+ * The ICD-10 columns of a report for a coding
+ */
+export function codingData(codes: DiagnosisCode[]): {
+  diagnosisCodes: Prisma.InputJsonValue;
+  primaryIcd10: string | null;
+} {
+  return {
+    diagnosisCodes: codes as unknown as Prisma.InputJsonValue,
+    primaryIcd10: primaryICD10Code(codes),
+  };
+}
+
+/**
+ * A report's stored coding (empty if it has none yet)
+ */
+export async function reportCodes(
+  where: Prisma.SOAPReportWhereUniqueInput
+): Promise<DiagnosisCode[]> {
+  const report = await prisma.sOAPReport.findUnique({
+    where,
+    select: { diagnosisCodes: true },
+  });
+  return (report?.diagnosisCodes || []) as unknown as DiagnosisCode[];
+}
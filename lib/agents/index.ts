@@ -25,8 +25,9 @@
  *                    │                               │
  *                    │  Starts with ~50 diseases     │
  *                    │  Narrows down with questions  │
- *                    │  Ends at 90% confidence or    │
- *                    │  <5 diseases                  │
+ *                    │  Ends per completion policy:  │
+ *                    │  confidence, <=3 diseases,    │
+ *                    │  turn or time limit           │
  *                    └──────────────┬───────────────┘
  *                                   │
  *                    ┌──────────────▼───────────────┐
@@ -66,15 +67,23 @@ import {
   getInitialQuestion,
   TOTAL_QUESTIONS,
 } from './history-collector';
+import { runInterviewStep, INITIAL_DISEASE_COUNT } from './interview-agent';
 import {
-  runInterviewStep,
-  MAX_CONVERSATION_TURNS,
-  MIN_CONVERSATION_TURNS,
-  CONFIDENCE_THRESHOLD,
-  MIN_DISEASES_FOR_COMPLETION,
-  INITIAL_DISEASE_COUNT,
-} from './interview-agent';
+  getCompletionPolicy,
+  setCompletionPolicy,
+  DEFAULT_COMPLETION_POLICY,
+} from './completion-policy';
 import { generateSOAPForSession } from './documentation-agent';
+import {
+  loadInterviewSession,
+  saveInterviewTurn,
+  findResumableSession,
+  cancelStaleSessions,
+  cancelActiveSessions,
+  interviewElapsedSeconds,
+  type InterviewSessionState,
+} from './interview-session';
+import { extractSymptoms, symptomLabels } from './symptom-lexicon';
 import { runSafetyCheck, quickEmergencyCheck } from './safety-agent';
 import {
   processDoctorReview,
@@ -88,6 +97,10 @@ import type {
   TriageLabel,
   MedicalHistoryData,
   SeverityLevel,
+  InterviewStreamEvent,
+  CompletionPolicy,
+  RAGSource,
+  ReviewedPrescriptionWarning,
 } from './types';
 
 // ========== TYPE ALIASES ==========
@@ -121,6 +134,8 @@ export interface InterviewInput {
   conversationHistory?: ChatMessage[];
   diagnosisState?: DiagnosisState;
   conversationTurn?: number;
+  elapsedSeconds?: number; // interview clock, see interviewElapsedSeconds
+  ragSources?: RAGSource[]; // retrieved in earlier turns of the session
 }
 
 export interface InterviewOutput {
@@ -134,8 +149,10 @@ export interface InterviewOutput {
   shouldGenerateReport: boolean;
   conversationHistory: ChatMessage[];
   diagnosisState: DiagnosisState;
+  ragSources: RAGSource[];
   agentActions: Array<{ agentName: string; action: string; result: any }>;
   thinkingSteps: Array<{ title: string; content: string }>;
+  userMessageTranslated: string;
   emergencyCheck?: { isEmergency: boolean; flags: string[] };
 }
 
@@ -146,7 +163,7 @@ export interface DocumentationInput {
   diagnosisState: DiagnosisState;
   patientInfo: PatientInfo | null;
   medicalHistory: string;
-  ragSources: string[];
+  ragSources: RAGSource[];
 }
 
 export interface DocumentationOutput {
@@ -180,6 +197,7 @@ export interface DoctorReviewInput {
   starRating?: number;
   rejectionReason?: string;
   prescription?: string;
+  prescriptionWarnings?: ReviewedPrescriptionWarning[]; // from reviewPrescriptionText
   doctorNotes?: string;
 }
 
@@ -187,6 +205,7 @@ export interface DoctorReviewOutput {
   finalStatus: 'pending' | 'in_review' | 'approved' | 'rejected';
   needsRegeneration: boolean;
   regeneratedReport: SOAPReport | null;
+  regenerationError: string; // set when regeneration failed
   updatedInDb: boolean;
 }
 
@@ -225,18 +244,20 @@ export function getHistoryInitialQuestion() {
 
 /**
  * Run the Clinical Interview workflow
+ * onEvent receives live node progress and reply tokens (SSE endpoint)
  */
 export async function orchestrateClinicalInterview(
-  input: InterviewInput
+  input: InterviewInput,
+  onEvent?: (event: InterviewStreamEvent) => void
 ): Promise<InterviewOutput> {
   console.log('\n' + '═'.repeat(60));
   console.log('🏥 ORCHESTRATOR: Clinical Interview Agent');
   console.log('═'.repeat(60));
 
-  // Quick emergency check before full processing
-  const emergencyCheck = quickEmergencyCheck([input.userMessage]);
-  if (emergencyCheck.isEmergency) {
-    console.log('🚨 EMERGENCY DETECTED:', emergencyCheck.flags);
+  // Quick emergency check on the message as written, before full processing
+  const precheck = quickEmergencyCheck([input.userMessage]);
+  if (precheck.isEmergency) {
+    console.log('🚨 EMERGENCY DETECTED:', precheck.flags);
   }
 
   const result = await runInterviewStep(
@@ -245,9 +266,24 @@ export async function orchestrateClinicalInterview(
     input.userMessage,
     input.conversationHistory || [],
     input.diagnosisState,
-    input.conversationTurn || 0
+    input.conversationTurn || 0,
+    {
+      elapsedSeconds: input.elapsedSeconds,
+      completionPolicy: getCompletionPolicy(),
+      ragSources: input.ragSources,
+    },
+    onEvent
   );
 
+  // And with its translation, which may name what the original only hinted at
+  const emergencyCheck = quickEmergencyCheck([
+    input.userMessage,
+    result.userMessageTranslated,
+  ]);
+  if (emergencyCheck.flags.length > precheck.flags.length) {
+    console.log('🚨 EMERGENCY DETECTED (translation):', emergencyCheck.flags);
+  }
+
   // Build thinking steps for UI
   const thinkingSteps = result.agentActions.map(action => ({
     title: `${action.agentName}: ${action.action}`,
@@ -317,7 +353,7 @@ export async function completeInterviewAndGenerateReport(params: {
   diagnosisState: DiagnosisState;
   patientInfo: PatientInfo | null;
   medicalHistory: string;
-  ragSources: string[];
+  ragSources: RAGSource[];
 }): Promise<{
   soapReport: SOAPReport | null;
   department: string;
@@ -362,12 +398,9 @@ export async function completeInterviewAndGenerateReport(params: {
 
 // ========== WORKFLOW CONSTANTS ==========
 
+// Interview completion limits are per deployment: getCompletionPolicy()
 export const WORKFLOW_CONSTANTS = {
   TOTAL_HISTORY_QUESTIONS: TOTAL_QUESTIONS,
-  MAX_INTERVIEW_TURNS: MAX_CONVERSATION_TURNS,
-  MIN_INTERVIEW_TURNS: MIN_CONVERSATION_TURNS,
-  CONFIDENCE_THRESHOLD: CONFIDENCE_THRESHOLD,
-  MIN_DISEASES_FOR_COMPLETION: MIN_DISEASES_FOR_COMPLETION,
   INITIAL_DISEASE_COUNT: INITIAL_DISEASE_COUNT,
 };
 
@@ -382,6 +415,10 @@ export {
   TriageLabel,
   MedicalHistoryData,
   SeverityLevel,
+  InterviewSessionState,
+  InterviewStreamEvent,
+  CompletionPolicy,
+  RAGSource,
   // Agent functions for direct use if needed
   runHistoryCollectionStep,
   runInterviewStep,
@@ -389,4 +426,18 @@ export {
   runSafetyCheck,
   processDoctorReview,
   quickEmergencyCheck,
+  // Server-side interview state
+  loadInterviewSession,
+  saveInterviewTurn,
+  findResumableSession,
+  cancelStaleSessions,
+  cancelActiveSessions,
+  interviewElapsedSeconds,
+  // Interview completion policy (per deployment)
+  getCompletionPolicy,
+  setCompletionPolicy,
+  DEFAULT_COMPLETION_POLICY,
+  // Symptom lexicon
+  extractSymptoms,
+  symptomLabels,
 };
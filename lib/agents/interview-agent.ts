@@ -3,20 +3,27 @@
  * Agent 2: Main clinical interview with sub-agents
  *
  * Sub-agents:
- * - RAG Retrieval Agent: Fetches context from Pinecone
+ * - RAG Retrieval Agent: Fetches context from the vector store
  * - History Fetch Agent: Gets patient medical history from Supabase
  * - Disease Identification Agent: Identifies potential diseases
+ * - Knowledge Verification Agent: Grounds top candidates in the knowledge base
  * - Reasoning Agent: Generates responses and narrows down diagnosis
  *
  * Flow:
  * 1. Translate user message to English
  * 2. Generate embedding for RAG query
- * 3. Retrieve medical knowledge from Pinecone
+ * 3. Retrieve medical knowledge from the vector store
  * 4. Fetch patient history from Supabase
  * 5. Identify potential diseases (starts with ~50, narrows down)
- * 6. Generate narrowing questions or final diagnosis
- * 7. Update confidence score based on symptom matches
- * 8. Complete when confidence >= 90% or diseases <= 5
+ * 6. Verify the top candidates against the knowledge base
+ * 7. Generate narrowing questions or final diagnosis
+ * 8. Update confidence score from the posterior of the leading conditions
+ * 9. Complete per the completion policy (confidence, narrowed differential,
+ *    max turns, or the session time cap - then wrap up with what we have)
+ *
+ * Streaming: runInterviewStep takes an optional onEvent listener; the graph
+ * then runs through streamEvents and reports each node as it starts and
+ * finishes, plus the reasoning reply as it is generated.
  */
 
 import { StateGraph, END } from '@langchain/langgraph';
@@ -25,9 +32,14 @@ import type {
   ChatMessage,
   DiseaseCandidate,
   DiagnosisState,
+  PastEpisode,
   PatientInfo,
   RAGContext,
+  RAGSource,
   SeverityLevel,
+  InterviewNode,
+  InterviewStreamEvent,
+  CompletionPolicy,
 } from './types';
 import { InterviewAgentStateSchema } from './types';
 import {
@@ -36,18 +48,70 @@ import {
   identifyDiseases,
   generateClinicalResponse,
 } from './llm-utils';
-import { queryMedicalKnowledge } from '@/lib/pinecone';
+import { createStreamedFieldReader } from './structured-output';
+import {
+  extractSymptoms,
+  isKnownSymptom,
+  symptomCategories,
+  symptomLabel,
+  symptomLabels,
+} from './symptom-lexicon';
+import {
+  applyFindings,
+  createDiseaseCandidate,
+  differentialConfidence,
+  rankCandidates,
+} from './disease-scoring';
+import { planNarrowingQuestions } from './question-planner';
+import { evaluateCompletion, getCompletionPolicy } from './completion-policy';
+import {
+  OPQRST_LABELS,
+  formatSymptomRecord,
+  mergeSymptomDetails,
+  missingAttributes,
+  primaryComplaint,
+  syncSymptomRecords,
+} from './symptom-records';
+import {
+  groundCandidate,
+  isSameDisease,
+  toSymptomIds,
+  VERIFY_TOP_N,
+  type DifferentialMatch,
+} from './knowledge-verification';
+import { mergeRAGSources } from './citations';
+import { describeEpisode, findPastEpisodes } from './patient-history';
+import {
+  getDifferentialDiagnosis,
+  queryMedicalKnowledge,
+  searchDiseaseInfo,
+} from '@/lib/pinecone';
+import { isZeroVector } from '@/lib/vector-store';
 import prisma from '@/lib/prisma';
 
-// Constants for interview completion - Optimized for speed + thoroughness
-const MIN_CONVERSATION_TURNS = 10; // Minimum 10 questions before concluding (was 15)
-const MAX_CONVERSATION_TURNS = 25; // Maximum 25 questions (was 30)
-const CONFIDENCE_THRESHOLD = 90; // Only complete at 90%+ confidence
-const MIN_DISEASES_FOR_COMPLETION = 3; // Only complete when narrowed to 3 or fewer
-const MIN_CONFIDENCE_FOR_DISEASE_COMPLETION = 85; // Also need this confidence when disease count is low
+// Completion limits (turns, confidence, time) live in completion-policy.ts
 const INITIAL_DISEASE_COUNT = 50; // Start with ~50 potential diseases (was 100, reduced for speed)
-const MIN_TIME_MINUTES = 3; // Minimum 3 minutes interview time (was 4)
-const MAX_TIME_MINUTES = 12; // Maximum 12 minutes (was 15)
+
+// Starting probability (0-100) for conditions missing from disease-knowledge.ts
+const FALLBACK_PRIORS = {
+  rag: 25, // named by a retrieved knowledge-base passage
+  category: 20, // common condition for the reported organ system
+  llm: 15, // named by the LLM (its own probability is not reproducible)
+  generic: 10, // filler to keep the differential broad
+};
+
+// Confidence from the posterior: the leading condition's lead over the
+// runner-up, held below the completion threshold until minTurns
+function scoreConfidence(
+  diseases: DiseaseCandidate[],
+  turn: number,
+  policy: CompletionPolicy
+): number {
+  const confidence = differentialConfidence(diseases);
+  return turn < policy.minTurns
+    ? Math.min(confidence, policy.confidenceThreshold - 1)
+    : confidence;
+}
 
 // Disease elimination tracking
 interface DiseaseEliminationTracker {
@@ -108,14 +172,25 @@ async function translateNode(state: InterviewAgentState) {
  * Sub-Agent 2: Generate embedding and query RAG
  */
 async function ragRetrievalNode(state: InterviewAgentState) {
-  console.log('\n🔍 [RAG Retrieval Agent] Querying Pinecone...');
+  console.log('\n🔍 [RAG Retrieval Agent] Querying knowledge base...');
 
   // Generate embedding
-  const embedding = await generateEmbedding(
-    state.userMessageTranslated || state.userMessage
-  );
-
-  // Query Pinecone
+  const query = state.userMessageTranslated || state.userMessage;
+  const embedding = await generateEmbedding(query);
+  // Zero vector = model failed; retrieval then runs on keywords only
+  const embeddingAvailable = !isZeroVector(embedding);
+
+  // Lexical query: the patient's own words plus English names of the
+  // symptoms they reported, so Roman Urdu and exact names still match
+  const keywords = [
+    state.userMessage,
+    state.userMessageTranslated,
+    ...symptomLabels(extractSymptoms(state.userMessage).present),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  // Hybrid retrieval over the vector store (see lib/retrieval)
   let ragContext: RAGContext = {
     context: '',
     sources: [],
@@ -124,27 +199,33 @@ async function ragRetrievalNode(state: InterviewAgentState) {
   };
 
   try {
-    const result = await queryMedicalKnowledge(embedding, 10);
-    ragContext = {
-      context: result.context,
-      sources: result.sources,
-      diseases: result.diseases,
-      relevanceScore: result.sources.length > 0 ? 0.7 : 0.3,
-    };
-    console.log(`   ✅ Retrieved ${result.sources.length} medical sources`);
+    ragContext = await queryMedicalKnowledge(query, embedding, keywords);
+    console.log(
+      `   ✅ Retrieved ${ragContext.sources.length} medical sources (relevance ${ragContext.relevanceScore.toFixed(2)})`
+    );
     console.log(
-      `   📚 Diseases from RAG: ${result.diseases.join(', ') || 'None'}`
+      `   📚 Diseases from RAG: ${ragContext.diseases.join(', ') || 'None'}`
     );
   } catch (error) {
     console.error('   ❌ RAG retrieval failed:', error);
   }
 
+  // Kept for the whole session so the SOAP report can cite them
+  const ragSources = mergeRAGSources(
+    state.ragSources,
+    ragContext.chunks || [],
+    state.conversationTurn
+  );
+
   const agentAction = {
     agentName: 'RAGRetrievalAgent',
     action: 'query_pinecone',
     result: {
       sourcesFound: ragContext.sources.length,
       diseasesFound: ragContext.diseases.length,
+      relevanceScore: ragContext.relevanceScore,
+      sessionSources: ragSources.length,
+      embeddingAvailable,
     },
     timestamp: new Date().toISOString(),
   };
@@ -152,6 +233,7 @@ async function ragRetrievalNode(state: InterviewAgentState) {
   return {
     queryEmbedding: embedding,
     ragContext,
+    ragSources,
     agentActions: [agentAction],
   };
 }
@@ -214,16 +296,37 @@ Patient Profile:
     console.error('   ❌ History fetch failed:', error);
   }
 
+  // Earlier sessions of this patient that resemble this complaint
+  const pastEpisodes: PastEpisode[] = await findPastEpisodes({
+    patientId: state.patientId,
+    text: state.userMessageTranslated || state.userMessage,
+    keywords: [
+      state.userMessage,
+      ...symptomLabels(state.diagnosisState.identifiedSymptoms),
+    ].join(' '),
+    embedding: state.queryEmbedding,
+    excludeSessionId: state.sessionId,
+  });
+  if (pastEpisodes.length > 0) {
+    console.log(
+      `   🗂️ Relevant past episodes: ${pastEpisodes.map(e => `${e.date} ${e.diagnosis}`).join(', ')}`
+    );
+  }
+
   const agentAction = {
     agentName: 'HistoryFetchAgent',
     action: 'fetch_patient_history',
-    result: { hasHistory: !!patientInfo },
+    result: {
+      hasHistory: !!patientInfo,
+      pastEpisodes: pastEpisodes.map(e => describeEpisode(e)),
+    },
     timestamp: new Date().toISOString(),
   };
 
   return {
     patientInfo,
     medicalHistory,
+    pastEpisodes,
     agentActions: [agentAction],
   };
 }
@@ -231,149 +334,56 @@ Patient Profile:
 /**
  * Sub-Agent 4: Disease identification and narrowing
  * Enhanced with 100+ disease tracking and systematic elimination
+ * Probabilities are Bayesian updates from knowledge-base likelihoods
+ * (disease-scoring.ts), so identical answers give an identical differential.
  */
 async function diseaseIdentificationNode(state: InterviewAgentState) {
   console.log('\n🦠 [Disease Identification Agent] Analyzing symptoms...');
 
   const currentState = state.diagnosisState;
   const conversationTurn = state.conversationTurn;
-
-  // Enhanced symptom extraction with medical terminology
-  const symptomKeywords = [
-    // Pain-related
-    'pain',
-    'drd',
-    'درد',
-    'ache',
-    'sore',
-    'sharp',
-    'dull',
-    'throbbing',
-    'burning',
-    // Common symptoms
-    'fever',
-    'bukhar',
-    'بخار',
-    'cough',
-    'khansi',
-    'کھانسی',
-    'cold',
-    'zukam',
-    'headache',
-    'sar dard',
-    'سر درد',
-    'nausea',
-    'متلی',
-    'vomiting',
-    'ulti',
-    'dizziness',
-    'chakkar',
-    'چکر',
-    'fatigue',
-    'kamzori',
-    'کمزوری',
-    'weakness',
-    // Body parts
-    'chest',
-    'seena',
-    'سینہ',
-    'stomach',
-    'pait',
-    'پیٹ',
-    'back',
-    'kamar',
-    'head',
-    'throat',
-    'gala',
-    'گلا',
-    'heart',
-    'dil',
-    'دل',
-    'lung',
-    'phepra',
-    'joint',
-    'jor',
-    'جوڑ',
-    'muscle',
-    'patha',
-    'skin',
-    'jild',
-    'جلد',
-    // Severity indicators
-    'severe',
-    'mild',
-    'moderate',
-    'chronic',
-    'acute',
-    'sudden',
-    'gradual',
-    // Duration indicators
-    'days',
-    'din',
-    'weeks',
-    'hafte',
-    'months',
-    'mahine',
-    'hours',
-    'ghante',
-    // Other symptoms
-    'breathing',
-    'saans',
-    'سانس',
-    'swelling',
-    'sujan',
-    'سوجن',
-    'rash',
-    'daane',
-    'itching',
-    'khujli',
-    'کھجلی',
-    'bleeding',
-    'khoon',
-    'خون',
-    'numbness',
-    'sunn',
-    'tingling',
-    'weight',
-    'appetite',
-    'bhook',
-    'بھوک',
-    'sleep',
-    'neend',
-    'نیند',
-    'stress',
-    'anxiety',
-    'depression',
-    'tired',
-    'thakan',
-    'تھکان',
-  ];
-
-  // Extract symptoms from current message
-  const messageToAnalyze = (
-    state.userMessageTranslated || state.userMessage
-  ).toLowerCase();
-  const newSymptoms = symptomKeywords.filter(kw =>
-    messageToAnalyze.includes(kw.toLowerCase())
-  );
-
-  // Also check for negative responses to track ruled-out symptoms
-  const negativeIndicators = [
-    'no',
-    'nahi',
-    'نہیں',
-    'not',
-    "don't",
-    "haven't",
-    'never',
-  ];
-  const isNegativeResponse = negativeIndicators.some(neg =>
-    messageToAnalyze.includes(neg)
+  const policy = state.completionPolicy ?? getCompletionPolicy();
+
+  // Symptom extraction via the bilingual lexicon. The original message is
+  // analysed too, so Urdu-script and Roman Urdu terms survive translation.
+  const translated = state.userMessageTranslated || state.userMessage;
+  const extraction = extractSymptoms(
+    translated === state.userMessage
+      ? state.userMessage
+      : `${state.userMessage}\n${translated}`
   );
 
+  // A bare "yes" / "no" answers the planner question asked last turn (not
+  // an OPQRST question asked instead of it)
+  const plannedSymptom = currentState.askedQuestion?.targetSymptom;
+  const answersPlanned =
+    !!plannedSymptom &&
+    isKnownSymptom(plannedSymptom) &&
+    extraction.findings.length === 0;
+  const newSymptoms =
+    answersPlanned && extraction.isAffirmation
+      ? [plannedSymptom]
+      : extraction.present;
+  const deniedSymptoms =
+    answersPlanned && extraction.isDenial
+      ? [plannedSymptom]
+      : extraction.negated;
+
+  // A symptom denied now is no longer "identified"; one reported now is no
+  // longer a negative finding
   const allSymptoms = [
     ...new Set([...currentState.identifiedSymptoms, ...newSymptoms]),
-  ];
+  ].filter(s => !deniedSymptoms.includes(s));
+  const negativeFindings = [
+    ...new Set([...(currentState.negativeFindings || []), ...deniedSymptoms]),
+  ].filter(s => !newSymptoms.includes(s));
+
+  if (newSymptoms.length > 0) {
+    console.log(`   ➕ Reported: ${symptomLabels(newSymptoms).join(', ')}`);
+  }
+  if (deniedSymptoms.length > 0) {
+    console.log(`   ➖ Denied: ${symptomLabels(deniedSymptoms).join(', ')}`);
+  }
 
   // Initialize diseases
   let diseases = currentState.potentialDiseases;
@@ -384,67 +394,48 @@ async function diseaseIdentificationNode(state: InterviewAgentState) {
     remainingCount: 0,
   };
 
+  // Everything the patient has reported or denied so far; applyFindings only
+  // applies what a candidate has not seen yet, so re-scoring is idempotent
+  const findings = { present: allSymptoms, absent: negativeFindings };
+
   if (conversationTurn <= 1 || diseases.length === 0) {
     // INITIAL DISEASE IDENTIFICATION - Start with ~50 diseases (optimized for speed)
     console.log(
       `   📊 Initial disease identification - gathering ${INITIAL_DISEASE_COUNT} potential conditions...`
     );
 
-    // Add diseases from RAG knowledge base FIRST (no LLM call needed)
-    if (state.ragContext?.diseases) {
-      for (const ragDisease of state.ragContext.diseases) {
-        if (
-          !diseases.find(d => d.name.toLowerCase() === ragDisease.toLowerCase())
-        ) {
-          diseases.push({
-            name: ragDisease,
-            probability: 40 + Math.random() * 25, // 40-65% initial probability
-            matchedSymptoms: allSymptoms,
-            differentiatingSymptoms: [],
-            severity: 'moderate',
-          });
-        }
+    // Knowledge-base conditions start at their own prior; fallbackPrior is
+    // only used for names the knowledge base does not know
+    const addCandidate = (name: string, fallbackPrior: number) => {
+      if (!diseases.find(d => d.name.toLowerCase() === name.toLowerCase())) {
+        diseases.push(createDiseaseCandidate(name, fallbackPrior));
       }
+    };
+
+    // Add diseases from RAG knowledge base FIRST (no LLM call needed)
+    for (const ragDisease of state.ragContext?.diseases || []) {
+      addCandidate(ragDisease, FALLBACK_PRIORS.rag);
     }
 
     // Expand with common conditions based on symptoms (no LLM call)
-    const commonConditionCategories =
-      getCommonConditionsForSymptoms(allSymptoms);
-    for (const condition of commonConditionCategories) {
-      if (
-        !diseases.find(d => d.name.toLowerCase() === condition.toLowerCase())
-      ) {
-        diseases.push({
-          name: condition,
-          probability: 30 + Math.random() * 20, // 30-50% probability
-          matchedSymptoms: allSymptoms,
-          differentiatingSymptoms: [],
-          severity: 'moderate',
-        });
-      }
+    for (const condition of getCommonConditionsForSymptoms(allSymptoms)) {
+      addCandidate(condition, FALLBACK_PRIORS.category);
     }
 
     // Only call LLM if we don't have enough diseases yet (optimization)
     if (diseases.length < 15 && allSymptoms.length > 0) {
-      const llmDiseases = await identifyDiseases(
-        allSymptoms,
+      const { data: llmDiseases, generation } = await identifyDiseases(
+        symptomLabels(allSymptoms),
         state.ragContext?.context
       );
+      if (generation.source === 'fallback') {
+        console.warn(
+          '   ⚠️ LLM disease identification unavailable - using RAG/rule-based candidates only'
+        );
+      }
 
       for (const d of llmDiseases) {
-        if (
-          !diseases.find(
-            existing => existing.name.toLowerCase() === d.name.toLowerCase()
-          )
-        ) {
-          diseases.push({
-            name: d.name,
-            probability: d.probability,
-            matchedSymptoms: allSymptoms,
-            differentiatingSymptoms: [],
-            severity: 'moderate' as SeverityLevel,
-          });
-        }
+        addCandidate(d.name, FALLBACK_PRIORS.llm);
       }
     }
 
@@ -455,16 +446,14 @@ async function diseaseIdentificationNode(state: InterviewAgentState) {
       );
       for (const condition of genericConditions) {
         if (diseases.length >= INITIAL_DISEASE_COUNT) break;
-        diseases.push({
-          name: condition,
-          probability: 15 + Math.random() * 15, // 15-30% probability
-          matchedSymptoms: [],
-          differentiatingSymptoms: [],
-          severity: 'moderate',
-        });
+        addCandidate(condition, FALLBACK_PRIORS.generic);
       }
     }
 
+    diseases = rankCandidates(
+      diseases.map(d => applyFindings(d, findings, conversationTurn))
+    );
+
     console.log(
       `   🎯 Identified ${diseases.length} initial potential conditions`
     );
@@ -474,82 +463,33 @@ async function diseaseIdentificationNode(state: InterviewAgentState) {
 
     const previousDiseaseCount = diseases.length;
 
-    if (isNegativeResponse) {
-      // Patient said NO to a symptom - eliminate diseases that REQUIRE this symptom
-      const lastQuestion = currentState.narrowingQuestions[0];
-      if (lastQuestion?.targetSymptom) {
-        const symptomToRuleOut = lastQuestion.targetSymptom;
-
-        // Eliminate diseases where this symptom is critical
-        const diseasesToEliminate = diseases.filter(d => {
-          const requiresSymptom =
-            d.differentiatingSymptoms.some(s =>
-              s.toLowerCase().includes(symptomToRuleOut.toLowerCase())
-            ) || lastQuestion.targetDiseases.includes(d.name);
-          return requiresSymptom;
-        });
-
-        eliminationRecord.eliminated = diseasesToEliminate.map(d => d.name);
-        eliminationRecord.reason = `Patient denied symptom: ${symptomToRuleOut}`;
-
-        diseases = diseases.filter(
-          d => !eliminationRecord.eliminated.includes(d.name)
-        );
-
-        // Decrease probability for remaining diseases that might be associated
-        diseases = diseases.map(d => ({
-          ...d,
-          probability: Math.max(d.probability - 3, 10),
-        }));
-      }
-    } else {
-      // Patient confirmed symptom - increase relevant disease probabilities
-      const matchingDiseases = diseases.filter(d =>
-        newSymptoms.some(
-          s =>
-            d.name.toLowerCase().includes(s) ||
-            d.matchedSymptoms.some(ms => ms.toLowerCase().includes(s))
-        )
-      );
+    // Bayesian update from this turn's reported and denied symptoms
+    diseases = diseases.map(d => applyFindings(d, findings, conversationTurn));
 
-      diseases = diseases.map(d => {
-        const isMatch = matchingDiseases.includes(d);
-        return {
-          ...d,
-          probability: isMatch
-            ? Math.min(d.probability + 8, 95)
-            : Math.max(d.probability - 3, 5),
-          matchedSymptoms: isMatch
-            ? [...new Set([...d.matchedSymptoms, ...newSymptoms])]
-            : d.matchedSymptoms,
-        };
-      });
+    // Eliminate lowest probability diseases to maintain narrowing
+    const eliminationThreshold = Math.max(10, 30 - conversationTurn * 2);
+    const lowProbDiseases = diseases
+      .filter(d => d.probability < eliminationThreshold)
+      .sort((a, b) => a.probability - b.probability);
 
-      // Eliminate lowest probability diseases to maintain narrowing
-      const eliminationThreshold = Math.max(10, 30 - conversationTurn * 2);
-      const lowProbDiseases = diseases.filter(
-        d => d.probability < eliminationThreshold
+    if (lowProbDiseases.length > 0 && diseases.length > 10) {
+      const toEliminate = lowProbDiseases.slice(
+        0,
+        Math.ceil(lowProbDiseases.length * 0.3)
+      );
+      eliminationRecord.eliminated = toEliminate.map(d => d.name);
+      eliminationRecord.reason = `Low probability (< ${eliminationThreshold}%) after this answer`;
+      diseases = diseases.filter(
+        d => !eliminationRecord.eliminated.includes(d.name)
       );
-
-      if (lowProbDiseases.length > 0 && diseases.length > 10) {
-        const toEliminate = lowProbDiseases.slice(
-          0,
-          Math.ceil(lowProbDiseases.length * 0.3)
-        );
-        eliminationRecord.eliminated = toEliminate.map(d => d.name);
-        eliminationRecord.reason = `Low probability (< ${eliminationThreshold}%) after symptom confirmation`;
-        diseases = diseases.filter(
-          d => !eliminationRecord.eliminated.includes(d.name)
-        );
-      }
     }
 
-    // Sort by probability and keep tracking
-    diseases = diseases.sort((a, b) => b.probability - a.probability);
+    // Scored candidates by probability first, unscored ones last
+    diseases = rankCandidates(diseases);
 
     // Gradually narrow - more aggressive as turns progress
     const maxToKeep = Math.max(
-      MIN_DISEASES_FOR_COMPLETION,
+      policy.maxDiseasesForCompletion,
       INITIAL_DISEASE_COUNT - conversationTurn * 5 // Eliminate ~5 per turn on average
     );
 
@@ -575,42 +515,25 @@ async function diseaseIdentificationNode(state: InterviewAgentState) {
     }
   }
 
-  // Calculate CONFIDENCE SCORE based on disease narrowing
-  // Confidence = (Initial Diseases - Current Diseases) / Initial Diseases * 100
-  const diseaseReductionRatio =
-    (INITIAL_DISEASE_COUNT - diseases.length) / INITIAL_DISEASE_COUNT;
-  const symptomContribution = Math.min(allSymptoms.length * 4, 25); // Max 25% from symptoms
-  const turnContribution = Math.min(conversationTurn * 3, 25); // Max 25% from turns (faster confidence growth)
-  const topDiseaseProbability = diseases[0]?.probability || 30;
-
-  let confidenceScore = Math.min(
-    diseaseReductionRatio * 50 + // 50% weight from disease elimination
-      symptomContribution +
-      turnContribution +
-      topDiseaseProbability * 0.15, // 15% from top disease probability
-    95 // Cap at 95%
-  );
+  const confidenceScore = scoreConfidence(diseases, conversationTurn, policy);
 
-  // Only allow high confidence after minimum turns
-  if (conversationTurn < MIN_CONVERSATION_TURNS) {
-    confidenceScore = Math.min(confidenceScore, 85);
-  }
-
-  // Generate simple narrowing questions WITHOUT extra LLM call (for speed)
-  // The actual question text will be generated by the reasoning agent
-  const topDiseases = diseases.slice(0, 5).map(d => d.name);
-  const narrowingQuestions = topDiseases.map((disease, i) => ({
-    question: `Ask about ${disease} differentiating symptoms`,
-    questionUrdu: `${disease} کی علامات کے بارے میں پوچھیں`,
-    targetSymptom: disease.toLowerCase().split(' ')[0],
-    targetDiseases: [disease],
-    priority: i + 1,
-  }));
+  // Rank the next symptom questions by expected information gain (no LLM
+  // call); the reasoning agent phrases the top one
+  const narrowingQuestions = planNarrowingQuestions(diseases, [
+    ...allSymptoms,
+    ...negativeFindings,
+  ]);
 
   const diagnosisState: DiagnosisState = {
     potentialDiseases: diseases,
     confidenceScore: Math.round(confidenceScore),
     identifiedSymptoms: allSymptoms,
+    negativeFindings,
+    symptomRecords: syncSymptomRecords(
+      currentState.symptomRecords || [],
+      allSymptoms,
+      conversationTurn
+    ),
     ruledOutDiseases: [
       ...currentState.ruledOutDiseases,
       ...eliminationRecord.eliminated,
@@ -626,9 +549,7 @@ async function diseaseIdentificationNode(state: InterviewAgentState) {
       .map(d => `${d.name}(${Math.round(d.probability)}%)`)
       .join(', ')}`
   );
-  console.log(
-    `   💬 Turn: ${conversationTurn} / Min: ${MIN_CONVERSATION_TURNS}`
-  );
+  console.log(`   💬 Turn: ${conversationTurn} / Min: ${policy.minTurns}`);
 
   const agentAction = {
     agentName: 'DiseaseIdentificationAgent',
@@ -637,7 +558,8 @@ async function diseaseIdentificationNode(state: InterviewAgentState) {
       initialDiseaseCount: INITIAL_DISEASE_COUNT,
       currentDiseaseCount: diseases.length,
       confidence: diagnosisState.confidenceScore,
-      symptoms: allSymptoms,
+      symptoms: symptomLabels(allSymptoms),
+      deniedSymptoms: symptomLabels(deniedSymptoms),
       eliminatedThisTurn: eliminationRecord.eliminated.length,
       topDiseases: diseases
         .slice(0, 5)
@@ -655,17 +577,14 @@ async function diseaseIdentificationNode(state: InterviewAgentState) {
 
 /**
  * Get common medical conditions based on reported symptoms
+ * (grouped by the organ system of each lexicon symptom)
  */
 function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
-  const symptomText = symptoms.join(' ').toLowerCase();
+  const categories = symptomCategories(symptoms);
   const conditions: string[] = [];
 
   // Respiratory conditions
-  if (
-    symptomText.includes('cough') ||
-    symptomText.includes('breathing') ||
-    symptomText.includes('saans')
-  ) {
+  if (categories.includes('respiratory')) {
     conditions.push(
       'Common Cold',
       'Bronchitis',
@@ -682,11 +601,7 @@ function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
   }
 
   // Cardiovascular conditions
-  if (
-    symptomText.includes('chest') ||
-    symptomText.includes('heart') ||
-    symptomText.includes('dil')
-  ) {
+  if (categories.includes('cardiovascular')) {
     conditions.push(
       'Angina',
       'Heart Attack',
@@ -702,11 +617,7 @@ function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
   }
 
   // Gastrointestinal conditions
-  if (
-    symptomText.includes('stomach') ||
-    symptomText.includes('pait') ||
-    symptomText.includes('nausea')
-  ) {
+  if (categories.includes('gastrointestinal')) {
     conditions.push(
       'Gastritis',
       'GERD',
@@ -724,11 +635,7 @@ function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
   }
 
   // Neurological conditions
-  if (
-    symptomText.includes('head') ||
-    symptomText.includes('dizz') ||
-    symptomText.includes('chakkar')
-  ) {
+  if (categories.includes('neurological')) {
     conditions.push(
       'Migraine',
       'Tension Headache',
@@ -745,11 +652,7 @@ function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
   }
 
   // Musculoskeletal conditions
-  if (
-    symptomText.includes('joint') ||
-    symptomText.includes('muscle') ||
-    symptomText.includes('back')
-  ) {
+  if (categories.includes('musculoskeletal')) {
     conditions.push(
       'Osteoarthritis',
       'Rheumatoid Arthritis',
@@ -765,7 +668,7 @@ function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
   }
 
   // Infectious diseases
-  if (symptomText.includes('fever') || symptomText.includes('bukhar')) {
+  if (categories.includes('infectious')) {
     conditions.push(
       'Influenza',
       'COVID-19',
@@ -780,11 +683,7 @@ function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
   }
 
   // Dermatological conditions
-  if (
-    symptomText.includes('skin') ||
-    symptomText.includes('rash') ||
-    symptomText.includes('itching')
-  ) {
+  if (categories.includes('dermatological')) {
     conditions.push(
       'Eczema',
       'Psoriasis',
@@ -798,11 +697,7 @@ function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
   }
 
   // Mental health conditions
-  if (
-    symptomText.includes('stress') ||
-    symptomText.includes('anxiety') ||
-    symptomText.includes('sleep')
-  ) {
+  if (categories.includes('mental_health')) {
     conditions.push(
       'Generalized Anxiety Disorder',
       'Depression',
@@ -813,6 +708,17 @@ function getCommonConditionsForSymptoms(symptoms: string[]): string[] {
     );
   }
 
+  // Urinary conditions
+  if (categories.includes('urinary')) {
+    conditions.push(
+      'UTI',
+      'Kidney Stones',
+      'Pyelonephritis',
+      'Prostatitis',
+      'Diabetes Type 2'
+    );
+  }
+
   return [...new Set(conditions)];
 }
 
@@ -894,43 +800,183 @@ function getGenericMedicalConditions(existingConditions: string[]): string[] {
 }
 
 /**
- * Sub-Agent 5: Reasoning and response generation
- * Enhanced to enforce minimum conversation turns (15-20 questions)
+ * Sub-Agent 5: Ground the top candidates in the medical knowledge base
+ * (knowledge-verification.ts) and drop the ones nothing supports
  */
-async function reasoningNode(state: InterviewAgentState) {
-  console.log('\n🧠 [Reasoning Agent] Generating clinical response...');
+async function knowledgeVerificationNode(state: InterviewAgentState) {
+  console.log('\n📖 [Knowledge Verification Agent] Checking top candidates...');
 
   const { diagnosisState, conversationTurn } = state;
+  const findings = {
+    present: diagnosisState.identifiedSymptoms,
+    absent: diagnosisState.negativeFindings,
+  };
+  const top = diagnosisState.potentialDiseases.slice(0, VERIFY_TOP_N);
+
+  // Conditions the knowledge base names for the reported symptoms
+  const differential: DifferentialMatch[] = [];
+  if (findings.present.length > 0) {
+    const labels = symptomLabels(findings.present);
+    const matches = await getDifferentialDiagnosis(
+      await generateEmbedding(labels.join(', ')),
+      labels
+    );
+    for (const match of matches) {
+      differential.push({
+        disease: match.disease,
+        matchedSymptoms: toSymptomIds(match.matchedSymptoms),
+        sources: match.sources,
+      });
+    }
+  }
+
+  // What the knowledge base lists for each candidate (looked up once it
+  // answers; an empty result may be a failed embedding or store error, so
+  // it is not kept and the lookup is retried next turn)
+  const lookedUp = await Promise.all(
+    top.map(async candidate => {
+      if (candidate.knowledgeEvidence?.sources.length) return candidate;
+      const info = await searchDiseaseInfo(
+        await generateEmbedding(candidate.name),
+        candidate.name
+      );
+      if (info.sources.length === 0) {
+        return { ...candidate, knowledgeEvidence: undefined };
+      }
+      return {
+        ...candidate,
+        knowledgeEvidence: {
+          symptoms: toSymptomIds(info.symptoms),
+          sources: info.sources,
+          verifiedTurn: conversationTurn,
+        },
+      };
+    })
+  );
+
+  const grounded = lookedUp.map(candidate =>
+    groundCandidate(
+      candidate,
+      findings,
+      differential.find(d => isSameDisease(d.disease, candidate.name))
+    )
+  );
+
+  // Nothing came back at all: the knowledge base is empty or unreachable,
+  // which says nothing about the candidates
+  const knowledgeBaseAnswered =
+    differential.length > 0 ||
+    grounded.some(g => g.candidate.knowledgeEvidence?.sources.length);
+  const canDrop = knowledgeBaseAnswered && findings.present.length > 0;
+
+  const supported = grounded
+    .filter(g => g.supported)
+    .map(g => g.candidate.name);
+  let dropped = canDrop
+    ? grounded.filter(g => !g.supported).map(g => g.candidate.name)
+    : [];
+  // Never empty the differential
+  if (
+    dropped.length === grounded.length &&
+    diagnosisState.potentialDiseases.length === grounded.length
+  ) {
+    dropped = [];
+  }
+
+  const potentialDiseases = [
+    ...grounded.map(g => g.candidate),
+    ...diagnosisState.potentialDiseases.slice(VERIFY_TOP_N),
+  ].filter(d => !dropped.includes(d.name));
+
+  if (!knowledgeBaseAnswered) {
+    console.log('   ⚠️ Knowledge base returned nothing - candidates kept');
+  }
+  console.log(`   ✅ Supported: ${supported.join(', ') || 'None'}`);
+  if (dropped.length > 0) {
+    console.log(`   ❌ No supporting evidence: ${dropped.join(', ')}`);
+  }
+
+  const agentAction = {
+    agentName: 'KnowledgeVerificationAgent',
+    action: 'verify_candidates',
+    result: {
+      verified: grounded.length,
+      supported,
+      dropped,
+      knowledgeBaseAnswered,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  return {
+    diagnosisState: {
+      ...diagnosisState,
+      potentialDiseases,
+      ruledOutDiseases: [...diagnosisState.ruledOutDiseases, ...dropped],
+      // Re-score and re-plan if the differential changed
+      confidenceScore:
+        dropped.length > 0
+          ? Math.round(
+              scoreConfidence(
+                potentialDiseases,
+                conversationTurn,
+                state.completionPolicy ?? getCompletionPolicy()
+              )
+            )
+          : diagnosisState.confidenceScore,
+      narrowingQuestions:
+        dropped.length > 0
+          ? planNarrowingQuestions(potentialDiseases, [
+              ...findings.present,
+              ...findings.absent,
+            ])
+          : diagnosisState.narrowingQuestions,
+    },
+    agentActions: [agentAction],
+  };
+}
 
-  // Check interview completion criteria - ENFORCING MINIMUM TURNS
-  const hasMinimumTurns = conversationTurn >= MIN_CONVERSATION_TURNS;
-  const hasHighConfidence =
-    diagnosisState.confidenceScore >= CONFIDENCE_THRESHOLD;
-  const hasNarrowedDiseases =
-    diagnosisState.potentialDiseases.length <= MIN_DISEASES_FOR_COMPLETION &&
-    diagnosisState.confidenceScore >= MIN_CONFIDENCE_FOR_DISEASE_COMPLETION;
-  const maxTurnsReached = conversationTurn >= MAX_CONVERSATION_TURNS;
+/**
+ * Sub-Agent 6: Reasoning and response generation
+ * Completion (turns, confidence, disease count, session clock) follows the
+ * deployment's completion policy (completion-policy.ts)
+ */
+async function reasoningNode(state: InterviewAgentState) {
+  console.log('\n🧠 [Reasoning Agent] Generating clinical response...');
 
-  // Interview is ready ONLY if minimum turns met AND (high confidence OR narrowed diseases OR max turns)
-  const isReadyForDiagnosis =
-    hasMinimumTurns &&
-    (hasHighConfidence || hasNarrowedDiseases || maxTurnsReached);
+  const { diagnosisState, conversationTurn, elapsedMinutes } = state;
+  const policy = state.completionPolicy ?? getCompletionPolicy();
+
+  const completion = evaluateCompletion(policy, {
+    turn: conversationTurn,
+    confidence: diagnosisState.confidenceScore,
+    diseaseCount: diagnosisState.potentialDiseases.length,
+    elapsedMinutes,
+  });
+  const { checks } = completion;
+  const isReadyForDiagnosis = completion.isReady;
 
   console.log(`   📊 Interview completion check:`);
   console.log(
-    `      - Minimum turns (${MIN_CONVERSATION_TURNS}): ${conversationTurn}/${MIN_CONVERSATION_TURNS} - ${hasMinimumTurns ? '✅' : '❌'}`
+    `      - Minimum turns (${policy.minTurns}): ${conversationTurn}/${policy.minTurns} - ${checks.minimumTurns ? '✅' : '❌'}`
+  );
+  console.log(
+    `      - Minimum time (${policy.minMinutes} min): ${elapsedMinutes.toFixed(1)} min - ${checks.minimumTime ? '✅' : '❌'}`
+  );
+  console.log(
+    `      - Confidence: ${diagnosisState.confidenceScore}% (threshold: ${policy.confidenceThreshold}%) - ${checks.highConfidence ? '✅' : '❌'}`
   );
   console.log(
-    `      - Confidence: ${diagnosisState.confidenceScore}% (threshold: ${CONFIDENCE_THRESHOLD}%) - ${hasHighConfidence ? '✅' : '❌'}`
+    `      - Disease count: ${diagnosisState.potentialDiseases.length} (min: ${policy.maxDiseasesForCompletion}) - ${checks.narrowed ? '✅' : '❌'}`
   );
   console.log(
-    `      - Disease count: ${diagnosisState.potentialDiseases.length} (min: ${MIN_DISEASES_FOR_COMPLETION}) - ${hasNarrowedDiseases ? '✅' : '❌'}`
+    `      - Max turns (${policy.maxTurns}): ${conversationTurn}/${policy.maxTurns} - ${checks.maxTurnsReached ? '✅' : '❌'}`
   );
   console.log(
-    `      - Max turns (${MAX_CONVERSATION_TURNS}): ${conversationTurn}/${MAX_CONVERSATION_TURNS} - ${maxTurnsReached ? '✅' : '❌'}`
+    `      - Time limit (${policy.maxMinutes} min): ${elapsedMinutes.toFixed(1)} min - ${checks.timeUp ? '⏰' : '❌'}`
   );
   console.log(
-    `      - Ready for diagnosis: ${isReadyForDiagnosis ? '✅ YES' : '❌ NO - Continue questioning'}`
+    `      - Ready for diagnosis: ${isReadyForDiagnosis ? `✅ YES (${completion.reason}${completion.isWrapUp ? ', wrap-up' : ''})` : '❌ NO - Continue questioning'}`
   );
 
   // Build conversation history
@@ -940,27 +986,70 @@ async function reasoningNode(state: InterviewAgentState) {
   }));
 
   // Generate response with context about remaining questions
-  const remainingToMinimum = Math.max(
-    0,
-    MIN_CONVERSATION_TURNS - conversationTurn
-  );
+  const remainingToMinimum = Math.max(0, policy.minTurns - conversationTurn);
   const progressInfo = !isReadyForDiagnosis
     ? `\n\nProgress: ${conversationTurn} questions asked, ${remainingToMinimum > 0 ? `at least ${remainingToMinimum} more needed` : 'nearing conclusion'}.`
     : '';
 
-  const response = await generateClinicalResponse({
+  // OPQRST details still unknown for the main complaint
+  const records = diagnosisState.symptomRecords || [];
+  const primary = primaryComplaint(records);
+  const missing = primary ? missingAttributes(primary) : [];
+
+  // Alternate between characterizing the main complaint and the planner's
+  // information-gain question (disease identification), so neither starves
+  const characterizeThisTurn =
+    missing.length > 0 &&
+    (diagnosisState.narrowingQuestions.length === 0 ||
+      conversationTurn % 2 === 0);
+  const plannedQuestion =
+    isReadyForDiagnosis || characterizeThisTurn
+      ? undefined
+      : diagnosisState.narrowingQuestions[0];
+  if (plannedQuestion) {
+    console.log(
+      `   🧭 Next question: ${symptomLabel(plannedQuestion.targetSymptom)} - ${plannedQuestion.rationale}`
+    );
+  } else if (characterizeThisTurn && !isReadyForDiagnosis) {
+    console.log(
+      `   🧭 Next question: characterize ${symptomLabel(primary!.symptom)} - unknown: ${missing.join(', ')}`
+    );
+  }
+
+  const { data: response, generation } = await generateClinicalResponse({
     userMessage: state.userMessage,
     medicalContext: state.ragContext?.context || '',
     patientHistory: state.medicalHistory,
+    pastEpisodes: state.pastEpisodes.map(e => describeEpisode(e)),
     conversationHistory,
     potentialDiseases: diagnosisState.potentialDiseases
       .slice(0, 8)
       .map(d => d.name),
     confidenceScore: diagnosisState.confidenceScore,
-    identifiedSymptoms: diagnosisState.identifiedSymptoms,
+    identifiedSymptoms: symptomLabels(diagnosisState.identifiedSymptoms),
+    negativeFindings: symptomLabels(diagnosisState.negativeFindings || []),
+    plannedQuestion,
+    isWrapUp: completion.isWrapUp,
+    primaryComplaint: primary
+      ? {
+          label: symptomLabel(primary.symptom),
+          unknown: missing.map(a => OPQRST_LABELS[a]),
+        }
+      : undefined,
     isReadyForDiagnosis,
   });
 
+  const symptomRecords = mergeSymptomDetails(
+    records,
+    response.symptomDetails,
+    conversationTurn
+  );
+  for (const record of symptomRecords) {
+    if (record.updatedTurn === conversationTurn) {
+      console.log(`   📝 ${formatSymptomRecord(record)}`);
+    }
+  }
+
   // Determine severity
   let severity: SeverityLevel = 'moderate';
   const emergencyKeywords = [
@@ -993,11 +1082,12 @@ async function reasoningNode(state: InterviewAgentState) {
       metadata: {
         urdu: response.urdu,
         severity: response.severity,
-        confidence: response.confidenceLevel,
+        confidence: diagnosisState.confidenceScore,
+        generation,
         diseaseCount: diagnosisState.potentialDiseases.length,
         turnNumber: conversationTurn,
         isNearingConclusion:
-          hasMinimumTurns && diagnosisState.confidenceScore >= 80,
+          checks.minimumTurns && diagnosisState.confidenceScore >= 80,
       },
     },
   ];
@@ -1008,27 +1098,35 @@ async function reasoningNode(state: InterviewAgentState) {
       ? 'generate_diagnosis'
       : 'generate_narrowing_question',
     result: {
-      confidence: response.confidenceLevel,
+      confidence: diagnosisState.confidenceScore,
       isConfident: response.isConfident,
       remainingDiseases: diagnosisState.potentialDiseases.length,
       questionsAsked: conversationTurn,
-      minimumQuestionsRequired: MIN_CONVERSATION_TURNS,
+      minimumQuestionsRequired: policy.minTurns,
+      elapsedMinutes: Math.round(elapsedMinutes * 10) / 10,
+      completionReason: completion.reason,
+      isWrapUp: completion.isWrapUp,
       isReadyForDiagnosis,
+      pastEpisodesConsidered: state.pastEpisodes.map(e => describeEpisode(e)),
+      plannedQuestion: plannedQuestion
+        ? {
+            symptom: symptomLabel(plannedQuestion.targetSymptom),
+            informationGain: plannedQuestion.expectedInformationGain,
+            rationale: plannedQuestion.rationale,
+          }
+        : undefined,
+      primaryComplaint: primary
+        ? {
+            symptom: symptomLabel(primary.symptom),
+            unknown: missingAttributes(
+              symptomRecords.find(r => r.symptom === primary.symptom) || primary
+            ),
+          }
+        : undefined,
     },
     timestamp: new Date().toISOString(),
   };
 
-  // Normalize confidence level
-  let normalizedConfidence =
-    response.confidenceLevel || diagnosisState.confidenceScore;
-  if (normalizedConfidence > 0 && normalizedConfidence <= 1) {
-    normalizedConfidence = Math.round(normalizedConfidence * 100);
-  }
-  normalizedConfidence = Math.max(
-    0,
-    Math.min(100, Math.round(normalizedConfidence))
-  );
-
   return {
     aiResponse: response.content,
     aiResponseUrdu: response.urdu,
@@ -1038,9 +1136,11 @@ async function reasoningNode(state: InterviewAgentState) {
     shouldGenerateReport:
       (response.isConfident && isReadyForDiagnosis) || isReadyForDiagnosis,
     conversationHistory: newMessages,
+    // confidenceScore stays the one from disease scoring, not the model's
     diagnosisState: {
       ...diagnosisState,
-      confidenceScore: normalizedConfidence,
+      symptomRecords,
+      askedQuestion: plannedQuestion,
     },
     agentActions: [agentAction],
   };
@@ -1069,6 +1169,7 @@ export function createInterviewAgent() {
     .addNode('rag_retrieval', ragRetrievalNode)
     .addNode('history_fetch', historyFetchNode)
     .addNode('disease_identification', diseaseIdentificationNode)
+    .addNode('knowledge_verification', knowledgeVerificationNode)
     .addNode('reasoning', reasoningNode)
 
     // Define flow - Sequential to avoid concurrent state update issues
@@ -1076,14 +1177,125 @@ export function createInterviewAgent() {
     .addEdge('translate', 'rag_retrieval')
     .addEdge('rag_retrieval', 'history_fetch')
     .addEdge('history_fetch', 'disease_identification')
-    .addEdge('disease_identification', 'reasoning')
+    .addEdge('disease_identification', 'knowledge_verification')
+    .addEdge('knowledge_verification', 'reasoning')
     .addEdge('reasoning', '__end__');
 
   return workflow.compile();
 }
 
+// Agent label shown to the user for each graph node
+const INTERVIEW_NODE_AGENTS: Record<InterviewNode, string> = {
+  translate: 'Translation Agent',
+  rag_retrieval: 'RAG Retrieval Agent',
+  history_fetch: 'History Fetch Agent',
+  disease_identification: 'Disease Identification Agent',
+  knowledge_verification: 'Knowledge Verification Agent',
+  reasoning: 'Reasoning Agent',
+};
+
+function isInterviewNode(name: unknown): name is InterviewNode {
+  return typeof name === 'string' && name in INTERVIEW_NODE_AGENTS;
+}
+
+type InterviewGraph = ReturnType<typeof createInterviewAgent>;
+type InterviewGraphInput = Parameters<InterviewGraph['invoke']>[0];
+
+/**
+ * Run the graph through streamEvents, reporting node progress and the
+ * reasoning reply tokens; resolves with the final graph state
+ */
+async function runInterviewGraphWithEvents(
+  agent: InterviewGraph,
+  input: InterviewGraphInput,
+  onEvent: (event: InterviewStreamEvent) => void
+): Promise<InterviewAgentState> {
+  const running = new Map<string, { node: InterviewNode; startedAt: number }>();
+  const reply = createStreamedFieldReader('content');
+  let rootRunId: string | undefined;
+  let finalState: InterviewAgentState | undefined;
+
+  try {
+    for await (const event of agent.streamEvents(input, { version: 'v2' })) {
+      const node = event.metadata?.langgraph_node;
+
+      switch (event.event) {
+        case 'on_chain_start':
+          rootRunId ??= event.run_id;
+          if (isInterviewNode(event.name) && node === event.name) {
+            const started = event.name;
+            running.set(event.run_id, { node: started, startedAt: Date.now() });
+            onEvent({
+              type: 'node_start',
+              node: started,
+              agent: INTERVIEW_NODE_AGENTS[started],
+              startedAt: new Date().toISOString(),
+            });
+          }
+          break;
+
+        case 'on_chain_end': {
+          if (event.run_id === rootRunId) {
+            finalState = event.data.output as InterviewAgentState;
+            break;
+          }
+          const started = running.get(event.run_id);
+          if (!started) break;
+          running.delete(event.run_id);
+
+          const action = event.data.output?.agentActions?.[0];
+          onEvent({
+            type: 'node_end',
+            node: started.node,
+            agent: INTERVIEW_NODE_AGENTS[started.node],
+            action: action?.action || started.node,
+            result: action?.result || {},
+            durationMs: Date.now() - started.startedAt,
+          });
+          break;
+        }
+
+        case 'on_chat_model_start':
+          // A repair attempt starts the reply over
+          if (node === 'reasoning' && reply.hasOutput) {
+            onEvent({ type: 'token_reset', node });
+          }
+          if (node === 'reasoning') reply.reset();
+          break;
+
+        case 'on_chat_model_stream': {
+          if (node !== 'reasoning') break;
+          const delta = reply.push(event.data.chunk?.text || '');
+          if (delta) onEvent({ type: 'token', node, delta });
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    // The node(s) still running are the ones that failed
+    for (const { node, startedAt } of running.values()) {
+      onEvent({
+        type: 'node_error',
+        node,
+        agent: INTERVIEW_NODE_AGENTS[node],
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      });
+    }
+    throw error;
+  }
+
+  if (!finalState) {
+    throw new Error('Interview graph finished without a final state');
+  }
+  return finalState;
+}
+
 /**
  * Run single interview step
+ * session.elapsedSeconds is the interview clock checked against the
+ * completion policy (defaults to this deployment's getCompletionPolicy()).
+ * Pass onEvent to receive node progress and reply tokens while it runs
  */
 export async function runInterviewStep(
   patientId: string,
@@ -1091,7 +1303,13 @@ export async function runInterviewStep(
   userMessage: string,
   conversationHistory: ChatMessage[] = [],
   diagnosisState?: DiagnosisState,
-  conversationTurn: number = 0
+  conversationTurn: number = 0,
+  session: {
+    elapsedSeconds?: number;
+    completionPolicy?: CompletionPolicy;
+    ragSources?: RAGSource[]; // sources retrieved in earlier turns
+  } = {},
+  onEvent?: (event: InterviewStreamEvent) => void
 ): Promise<{
   response: string;
   responseUrdu: string;
@@ -1103,7 +1321,9 @@ export async function runInterviewStep(
   shouldGenerateReport: boolean;
   conversationHistory: ChatMessage[];
   diagnosisState: DiagnosisState;
+  ragSources: RAGSource[];
   agentActions: Array<{ agentName: string; action: string; result: any }>;
+  userMessageTranslated: string; // the message in English
 }> {
   const agent = createInterviewAgent();
 
@@ -1111,21 +1331,27 @@ export async function runInterviewStep(
     potentialDiseases: [],
     confidenceScore: 30,
     identifiedSymptoms: [],
+    negativeFindings: [],
+    symptomRecords: [],
     ruledOutDiseases: [],
     narrowingQuestions: [],
   };
 
-  const result = await agent.invoke({
+  const input: InterviewGraphInput = {
     patientId,
     sessionId,
     userMessage,
     userMessageTranslated: '',
     patientInfo: null,
     medicalHistory: '',
+    pastEpisodes: [],
     ragContext: null,
     queryEmbedding: [],
+    ragSources: session.ragSources ?? [],
     conversationHistory,
     conversationTurn,
+    elapsedMinutes: (session.elapsedSeconds ?? 0) / 60,
+    completionPolicy: session.completionPolicy ?? getCompletionPolicy(),
     diagnosisState: initialDiagnosisState,
     aiResponse: '',
     aiResponseUrdu: '',
@@ -1133,14 +1359,18 @@ export async function runInterviewStep(
     isInterviewComplete: false,
     shouldGenerateReport: false,
     agentActions: [],
-  });
+  };
+
+  const result = onEvent
+    ? await runInterviewGraphWithEvents(agent, input, onEvent)
+    : await agent.invoke(input);
 
   return {
     response: result.aiResponse,
     responseUrdu: result.aiResponseUrdu,
     severity: result.severity,
     confidenceLevel: result.diagnosisState.confidenceScore,
-    identifiedSymptoms: result.diagnosisState.identifiedSymptoms,
+    identifiedSymptoms: symptomLabels(result.diagnosisState.identifiedSymptoms),
     potentialDiseases: result.diagnosisState.potentialDiseases.map(d => ({
       name: d.name,
       probability: d.probability,
@@ -1149,14 +1379,10 @@ export async function runInterviewStep(
     shouldGenerateReport: result.shouldGenerateReport,
     conversationHistory: result.conversationHistory,
     diagnosisState: result.diagnosisState,
+    ragSources: result.ragSources,
     agentActions: result.agentActions,
+    userMessageTranslated: result.userMessageTranslated || userMessage,
   };
 }
 
-export {
-  MAX_CONVERSATION_TURNS,
-  MIN_CONVERSATION_TURNS,
-  CONFIDENCE_THRESHOLD,
-  MIN_DISEASES_FOR_COMPLETION,
-  INITIAL_DISEASE_COUNT,
-};
+export { INTERVIEW_NODE_AGENTS, INITIAL_DISEASE_COUNT };
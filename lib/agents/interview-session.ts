@@ -0,0 +1,219 @@
+/**
+ * Interview Session Store
+ * ClinicalSession row as the source of truth for interview state
+ *
+ * The client only sends a session id and the new message; the conversation,
+ * DiagnosisState (incl. ruledOutDiseases / narrowingQuestions), the
+ * knowledge-base sources retrieved so far (cited by the SOAP report) and the
+ * turn counter are loaded from and saved to the database.
+ *
+ * Concurrency: each save is conditional on the turn counter that was loaded.
+ * If another request saved a turn in between, the save is rejected and the
+ * caller should ask the client to reload instead of overwriting that turn.
+ *
+ * Resume: an in_progress session can be continued until it has been idle for
+ * INTERVIEW_IDLE_TIMEOUT_MINUTES (default 60); after that it is cancelled the
+ * next time the patient's sessions are touched.
+ *
+ * Clock: ClinicalSession.duration holds the interview time used so far. It
+ * starts at createdAt and grows with each saved turn; long pauses between
+ * turns are only counted up to MAX_COUNTED_GAP_SECONDS, so a resumed
+ * interview does not come back with its time already used up.
+ */
+
+import prisma from '@/lib/prisma';
+import type {
+  ChatMessage,
+  DiagnosisState,
+  RAGSource,
+  SessionStatus,
+} from './types';
+
+const IDLE_TIMEOUT_MINUTES = Number(
+  process.env.INTERVIEW_IDLE_TIMEOUT_MINUTES || 60
+);
+
+const MAX_COUNTED_GAP_SECONDS = 5 * 60;
+
+export interface InterviewSessionState {
+  sessionId: string;
+  patientId: string;
+  status: SessionStatus;
+  conversationHistory: ChatMessage[];
+  diagnosisState?: DiagnosisState;
+  ragSources: RAGSource[]; // see citations.ts
+  conversationTurn: number;
+  durationSeconds: number; // interview time used so far
+  hasReport: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InterviewTurnUpdate {
+  conversationHistory: ChatMessage[];
+  diagnosisState: DiagnosisState;
+  ragSources: RAGSource[];
+  confidenceScore: number; // 0-100
+  redFlags: string[];
+  isComplete: boolean;
+  durationSeconds: number; // see interviewElapsedSeconds
+}
+
+type ClinicalSessionWithReport = NonNullable<
+  Awaited<ReturnType<typeof findSessionWithReport>>
+>;
+
+function findSessionWithReport(sessionId: string) {
+  return prisma.clinicalSession.findUnique({
+    where: { id: sessionId },
+    include: { soapReport: { select: { id: true } } },
+  });
+}
+
+function toSessionState(
+  session: ClinicalSessionWithReport
+): InterviewSessionState {
+  return {
+    sessionId: session.id,
+    patientId: session.patientId,
+    status: session.status as SessionStatus,
+    conversationHistory:
+      (session.conversationLog as unknown as ChatMessage[]) || [],
+    diagnosisState:
+      (session.diagnosisState as unknown as DiagnosisState) || undefined,
+    ragSources: (session.ragSources as unknown as RAGSource[]) || [],
+    conversationTurn: session.conversationTurn,
+    durationSeconds: session.duration ?? 0,
+    hasReport: !!session.soapReport,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+/**
+ * Load the persisted interview state for a session
+ */
+export async function loadInterviewSession(
+  sessionId: string
+): Promise<InterviewSessionState | null> {
+  const session = await findSessionWithReport(sessionId);
+  return session ? toSessionState(session) : null;
+}
+
+/**
+ * Interview time used so far, including the time since the last saved turn
+ */
+export function interviewElapsedSeconds(
+  session: InterviewSessionState,
+  now: Date = new Date()
+): number {
+  const since =
+    session.conversationTurn > 0 ? session.updatedAt : session.createdAt;
+  const gap = Math.max(0, (now.getTime() - since.getTime()) / 1000);
+  return Math.round(
+    session.durationSeconds + Math.min(gap, MAX_COUNTED_GAP_SECONDS)
+  );
+}
+
+/**
+ * Cancel a patient's in_progress sessions that have been idle too long
+ * Returns the number of sessions cancelled
+ */
+export async function cancelStaleSessions(patientId: string): Promise<number> {
+  const idleSince = new Date(Date.now() - IDLE_TIMEOUT_MINUTES * 60 * 1000);
+
+  const { count } = await prisma.clinicalSession.updateMany({
+    where: {
+      patientId,
+      status: 'in_progress',
+      updatedAt: { lt: idleSince },
+    },
+    data: { status: 'cancelled' },
+  });
+
+  if (count > 0) {
+    console.log(
+      `   🧹 Cancelled ${count} stale session(s) idle > ${IDLE_TIMEOUT_MINUTES} min`
+    );
+  }
+  return count;
+}
+
+/**
+ * Cancel every in_progress session of a patient (except one), e.g. when
+ * the patient chooses to start over instead of resuming
+ */
+export async function cancelActiveSessions(
+  patientId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const { count } = await prisma.clinicalSession.updateMany({
+    where: {
+      patientId,
+      status: 'in_progress',
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { status: 'cancelled' },
+  });
+  return count;
+}
+
+/**
+ * Most recent interview the patient can continue (at least one answered turn)
+ */
+export async function findResumableSession(
+  patientId: string
+): Promise<InterviewSessionState | null> {
+  await cancelStaleSessions(patientId);
+
+  const session = await prisma.clinicalSession.findFirst({
+    where: {
+      patientId,
+      status: 'in_progress',
+      conversationTurn: { gt: 0 },
+    },
+    orderBy: { updatedAt: 'desc' },
+    include: { soapReport: { select: { id: true } } },
+  });
+
+  return session ? toSessionState(session) : null;
+}
+
+/**
+ * Save one interview turn if nobody else saved a turn since it was loaded
+ * Returns false on a concurrency conflict
+ */
+export async function saveInterviewTurn(
+  sessionId: string,
+  expectedTurn: number,
+  update: InterviewTurnUpdate
+): Promise<boolean> {
+  const { count } = await prisma.clinicalSession.updateMany({
+    where: {
+      id: sessionId,
+      conversationTurn: expectedTurn,
+      status: 'in_progress',
+    },
+    data: {
+      conversationLog: JSON.parse(JSON.stringify(update.conversationHistory)),
+      diagnosisState: JSON.parse(JSON.stringify(update.diagnosisState)),
+      ragSources: JSON.parse(JSON.stringify(update.ragSources)),
+      conversationTurn: expectedTurn + 1,
+      identifiedSymptoms: update.diagnosisState.identifiedSymptoms,
+      confidenceScore: update.confidenceScore / 100,
+      differentialDiagnosis: update.diagnosisState.potentialDiseases.map(
+        d => d.name
+      ),
+      redFlagsDetected: update.redFlags,
+      duration: update.durationSeconds,
+      status: update.isComplete ? 'completed' : 'in_progress',
+    },
+  });
+
+  if (count === 0) {
+    console.warn(
+      `   ⚠️ Session ${sessionId}: turn ${expectedTurn} was already saved by another request`
+    );
+  }
+  return count > 0;
+}
@@ -0,0 +1,104 @@
+/**
+ * Knowledge Verification
+ * Grounds the top of the differential in the medical knowledge base
+ *
+ * Each of the top VERIFY_TOP_N candidates is looked up once
+ * (searchDiseaseInfo) and the reported symptoms are matched against the
+ * knowledge base as a whole (getDifferentialDiagnosis, every turn). Then:
+ *   matchedSymptoms         reported symptoms the retrieved entries list
+ *   differentiatingSymptoms listed symptoms the patient was not asked about
+ *
+ * A candidate is supported when the knowledge base lists one of its reported
+ * symptoms, names it for the reported symptoms, or the curated likelihoods in
+ * disease-knowledge.ts already matched a symptom. Unsupported candidates are
+ * dropped - unless the knowledge base returned nothing at all (empty index,
+ * store offline), in which case verification only annotates.
+ */
+
+import type { DiseaseCandidate, KnowledgeEvidence } from './types';
+import { extractSymptoms, isKnownSymptom } from './symptom-lexicon';
+
+export const VERIFY_TOP_N = 5;
+
+// Same cap disease-scoring.ts uses
+const MAX_DIFFERENTIATING_SYMPTOMS = 5;
+
+export interface DifferentialMatch {
+  disease: string;
+  matchedSymptoms: string[]; // symptom ids
+  sources: string[];
+}
+
+export interface GroundedCandidate {
+  candidate: DiseaseCandidate;
+  supported: boolean;
+}
+
+/**
+ * Lexicon ids for free-text knowledge-base symptoms ("High fever" -> fever)
+ */
+export function toSymptomIds(terms: string[]): string[] {
+  const ids = terms.flatMap(term =>
+    isKnownSymptom(term) ? [term] : extractSymptoms(term).present
+  );
+  return [...new Set(ids)];
+}
+
+/**
+ * Whether two condition names refer to the same disease
+ * ("Dengue" / "Dengue Fever")
+ */
+export function isSameDisease(a: string, b: string): boolean {
+  const x = a.toLowerCase().trim();
+  const y = b.toLowerCase().trim();
+  return x.length > 0 && y.length > 0 && (x.includes(y) || y.includes(x));
+}
+
+/**
+ * Fill a candidate's symptom lists from its knowledge-base evidence and
+ * decide whether anything supports it
+ */
+export function groundCandidate(
+  candidate: DiseaseCandidate,
+  findings: { present: string[]; absent: string[] },
+  differentialMatch?: DifferentialMatch
+): GroundedCandidate {
+  const evidence: KnowledgeEvidence | undefined = candidate.knowledgeEvidence;
+  const listed = evidence?.symptoms || [];
+  const asked = new Set([...findings.present, ...findings.absent]);
+
+  const matchedFromKnowledge = [
+    ...findings.present.filter(s => listed.includes(s)),
+    ...(differentialMatch?.matchedSymptoms || []),
+  ];
+
+  const matchedSymptoms = [
+    ...new Set([...candidate.matchedSymptoms, ...matchedFromKnowledge]),
+  ].filter(s => !findings.absent.includes(s));
+
+  const differentiatingSymptoms = [
+    ...new Set([...listed, ...candidate.differentiatingSymptoms]),
+  ]
+    .filter(s => !asked.has(s))
+    .slice(0, MAX_DIFFERENTIATING_SYMPTOMS);
+
+  const sources = [
+    ...new Set([
+      ...(evidence?.sources || []),
+      ...(differentialMatch?.sources || []),
+    ]),
+  ];
+
+  return {
+    candidate: {
+      ...candidate,
+      matchedSymptoms,
+      differentiatingSymptoms,
+      knowledgeEvidence: evidence && { ...evidence, sources },
+    },
+    supported:
+      matchedFromKnowledge.length > 0 ||
+      Boolean(differentialMatch) ||
+      candidate.matchedSymptoms.some(s => !findings.absent.includes(s)),
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * LLM Provider Registry
+ * Pluggable chat-model backends for the multi-agent system
+ *
+ * Providers:
+ * - groq: Groq-hosted LLaMA models (default)
+ * - google: Gemini models via @langchain/google-genai
+ * - openai-compatible: any OpenAI-style /chat/completions endpoint
+ * - scripted: deterministic offline stand-in that replays fixtures
+ *
+ * Agents never construct models directly - they ask for one by role:
+ * - translate: fast, low-temperature model for Urdu → English
+ * - reason:    analytical calls (disease identification, triage, parsing)
+ * - converse:  patient-facing interview questions
+ * - document:  SOAP report generation and regeneration
+ *
+ * Selection (env):
+ * - LLM_PROVIDER            provider for every role (default: groq)
+ * - LLM_PROVIDER_<ROLE>     per-role override, e.g. LLM_PROVIDER_TRANSLATE=scripted
+ */
+
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatGroq } from '@langchain/groq';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { OpenAICompatibleChatModel } from './openai-compatible-llm';
+import { ScriptedChatModel } from './scripted-llm';
+
+export type ModelRole = 'translate' | 'reason' | 'converse' | 'document';
+
+export interface ModelRoleProfile {
+  temperature: number;
+  tier: 'fast' | 'large';
+}
+
+export interface LLMProvider {
+  name: string;
+  createModel(role: ModelRole, profile: ModelRoleProfile): BaseChatModel;
+}
+
+// Role → generation settings shared by every provider
+const ROLE_PROFILES: Record<ModelRole, ModelRoleProfile> = {
+  translate: { temperature: 0.2, tier: 'fast' },
+  reason: { temperature: 0.3, tier: 'large' },
+  converse: { temperature: 0.5, tier: 'large' },
+  document: { temperature: 0.5, tier: 'large' },
+};
+
+const DEFAULT_PROVIDER = 'groq';
+
+// ========== BUILT-IN PROVIDERS ==========
+
+const groqProvider: LLMProvider = {
+  name: 'groq',
+  createModel: (_role, { temperature, tier }) =>
+    new ChatGroq({
+      apiKey: process.env.GROQ_API_KEY,
+      // Fast 8b model for simple tasks (translation) - ~3x faster than 70b
+      model:
+        tier === 'fast' ? 'llama-3.1-8b-instant' : 'llama-3.3-70b-versatile',
+      temperature,
+    }),
+};
+
+const googleProvider: LLMProvider = {
+  name: 'google',
+  createModel: (_role, { temperature, tier }) =>
+    new ChatGoogleGenerativeAI({
+      apiKey: process.env.GEMINI_API_KEY,
+      model:
+        tier === 'fast'
+          ? process.env.GEMINI_MODEL_FAST || 'gemini-2.0-flash-lite'
+          : process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+      temperature,
+    }),
+};
+
+const openAICompatibleProvider: LLMProvider = {
+  name: 'openai-compatible',
+  createModel: (_role, { temperature, tier }) => {
+    const model =
+      tier === 'fast'
+        ? process.env.OPENAI_COMPATIBLE_MODEL_FAST ||
+          process.env.OPENAI_COMPATIBLE_MODEL
+        : process.env.OPENAI_COMPATIBLE_MODEL;
+
+    if (!process.env.OPENAI_COMPATIBLE_BASE_URL || !model) {
+      throw new Error(
+        'openai-compatible provider requires OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL'
+      );
+    }
+
+    return new OpenAICompatibleChatModel({
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      model,
+      temperature,
+    });
+  },
+};
+
+const scriptedProvider: LLMProvider = {
+  name: 'scripted',
+  createModel: role =>
+    new ScriptedChatModel({
+      role,
+      fixturesPath: process.env.LLM_FIXTURES_PATH,
+    }),
+};
+
+// ========== REGISTRY ==========
+
+const providers = new Map<string, LLMProvider>(
+  [
+    groqProvider,
+    googleProvider,
+    openAICompatibleProvider,
+    scriptedProvider,
+  ].map(p => [p.name, p])
+);
+
+// One model instance per provider/role pair
+const modelCache = new Map<string, BaseChatModel>();
+
+/**
+ * Register (or replace) a provider, e.g. for a self-hosted backend
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+  for (const key of modelCache.keys()) {
+    if (key.startsWith(`${provider.name}:`)) modelCache.delete(key);
+  }
+}
+
+/**
+ * Resolve which provider serves a role for this deployment
+ */
+export function getProviderNameForRole(role: ModelRole): string {
+  return (
+    process.env[`LLM_PROVIDER_${role.toUpperCase()}`] ||
+    process.env.LLM_PROVIDER ||
+    DEFAULT_PROVIDER
+  ).toLowerCase();
+}
+
+/**
+ * Get the chat model for a role
+ */
+export function getChatModel(role: ModelRole): BaseChatModel {
+  const providerName = getProviderNameForRole(role);
+  const cacheKey = `${providerName}:${role}`;
+
+  const cached = modelCache.get(cacheKey);
+  if (cached) return cached;
+
+  const provider = providers.get(providerName);
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider "${providerName}". Available: ${[...providers.keys()].join(', ')}`
+    );
+  }
+
+  console.log(`🤖 LLM provider for "${role}": ${providerName}`);
+  const model = provider.createModel(role, ROLE_PROFILES[role]);
+  modelCache.set(cacheKey, model);
+  return model;
+}
+
+/**
+ * Provider and model serving a role, e.g. "groq:llama-3.1-8b-instant", so
+ * cached outputs of one model are never served for another
+ */
+export function getModelId(role: ModelRole): string {
+  const model = getChatModel(role) as BaseChatModel & { model?: string };
+  return `${getProviderNameForRole(role)}:${model.model || role}`;
+}
+
+export { ROLE_PROFILES };
@@ -1,62 +1,84 @@
 /**
  * LLM Utilities for Multi-Agent System
- * Shared LLM operations using LangChain + Groq
+ * Shared LLM operations using LangChain + the provider registry
  */
 
-import { ChatGroq } from '@langchain/groq';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { pipeline } from '@xenova/transformers';
-
-// Initialize LLM instances
-// Fast 8b model for simple tasks (translation) - ~3x faster than 70b
-const groqLLMFast = new ChatGroq({
-  apiKey: process.env.GROQ_API_KEY,
-  model: 'llama-3.1-8b-instant',
-  temperature: 0.2,
-});
-
-const groqLLM = new ChatGroq({
-  apiKey: process.env.GROQ_API_KEY,
-  model: 'llama-3.3-70b-versatile',
-  temperature: 0.3,
-});
-
-const groqLLMCreative = new ChatGroq({
-  apiKey: process.env.GROQ_API_KEY,
-  model: 'llama-3.3-70b-versatile',
-  temperature: 0.5, // Reduced from 0.6 for faster, more consistent responses
-});
+import {
+  EMBEDDING_DIMENSION,
+  EMBEDDING_MODEL,
+  isZeroVector,
+} from '../vector-store/types';
+import { getContentCache } from '../cache';
+import { getChatModel, getModelId } from './llm-providers';
+import { invokeStructured, type StructuredResult } from './structured-output';
+import { formatReferences } from './citations';
+import {
+  DiseaseIdentificationOutputSchema,
+  ClinicalResponseOutputSchema,
+  EmergencyCheckOutputSchema,
+  SOAPContentSchema,
+  PatientSummaryContentSchema,
+  type DiseaseIdentificationOutput,
+  type ClinicalResponseOutput,
+  type SymptomDetail,
+  type EmergencyCheckOutput,
+  type SOAPContent,
+  type PatientSummaryContent,
+  type SourceReference,
+} from './types';
 
 // Singleton for embedding pipeline
 let embeddingPipeline: any = null;
 
+// Repeated messages ("haan", greetings, identical follow-ups) are embedded
+// and translated once (lib/cache). Zero vectors and empty translations are
+// failures and never cached.
+const embeddingCache = getContentCache(
+  'embedding',
+  (value): value is number[] =>
+    Array.isArray(value) &&
+    value.length === EMBEDDING_DIMENSION &&
+    !isZeroVector(value)
+);
+const translationCache = getContentCache(
+  'translation',
+  (value): value is string => typeof value === 'string' && value.length > 0
+);
+
+async function embed(text: string): Promise<number[]> {
+  if (!embeddingPipeline) {
+    console.log(`📥 Loading embedding model (${EMBEDDING_MODEL})...`);
+    // Loaded on first use: the scripted provider and the tests never embed
+    const { pipeline } = await import('@xenova/transformers');
+    embeddingPipeline = await pipeline('feature-extraction', EMBEDDING_MODEL);
+  }
+  const output = await embeddingPipeline(text, {
+    pooling: 'mean',
+    normalize: true,
+  });
+  return Array.from(output.data) as number[];
+}
+
 /**
  * Generate embedding using local Xenova model (384-dim)
+ * Falls back to a zero vector when the model fails - callers check
+ * isZeroVector before storing it or querying with it
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    if (!embeddingPipeline) {
-      console.log('📥 Loading embedding model (Xenova/all-MiniLM-L6-v2)...');
-      embeddingPipeline = await pipeline(
-        'feature-extraction',
-        'Xenova/all-MiniLM-L6-v2'
-      );
-    }
-    const output = await embeddingPipeline(text, {
-      pooling: 'mean',
-      normalize: true,
-    });
-    return Array.from(output.data) as number[];
+    return await embeddingCache.getOrCompute(text, EMBEDDING_MODEL, () =>
+      embed(text)
+    );
   } catch (e) {
     console.error('Embedding generation failed:', e);
-    return new Array(384).fill(0);
+    return new Array(EMBEDDING_DIMENSION).fill(0);
   }
 }
 
 /**
- * Translate text to English (for processing) - Uses fast 8b model
+ * Translate text to English (for processing) - Uses the fast translate model
  */
 export async function translateToEnglish(text: string): Promise<string> {
   const prompt = ChatPromptTemplate.fromMessages([
@@ -70,12 +92,20 @@ Return ONLY the translation.`,
   ]);
 
   try {
-    const chain = prompt.pipe(groqLLMFast).pipe(new StringOutputParser());
-    const result = await chain.invoke({ text });
-    console.log(
-      `🌐 Translated: "${text.slice(0, 50)}..." → "${result.slice(0, 50)}..."`
+    return await translationCache.getOrCompute(
+      text,
+      getModelId('translate'),
+      async () => {
+        const chain = prompt
+          .pipe(getChatModel('translate'))
+          .pipe(new StringOutputParser());
+        const result = await chain.invoke({ text });
+        console.log(
+          `🌐 Translated: "${text.slice(0, 50)}..." → "${result.slice(0, 50)}..."`
+        );
+        return result.trim().replace(/^"|"$/g, '');
+      }
     );
-    return result.trim().replace(/^"|"$/g, '');
   } catch (error) {
     console.error('Translation failed:', error);
     return text;
@@ -88,8 +118,18 @@ Return ONLY the translation.`,
 export async function identifyDiseases(
   symptoms: string[],
   ragContext?: string
-): Promise<{ name: string; probability: number }[]> {
-  if (symptoms.length === 0) return [];
+): Promise<StructuredResult<DiseaseIdentificationOutput>> {
+  if (symptoms.length === 0) {
+    return {
+      data: [],
+      generation: {
+        source: 'llm',
+        attempts: 0,
+        errors: [],
+        generatedAt: new Date().toISOString(),
+      },
+    };
+  }
 
   const prompt = ChatPromptTemplate.fromMessages([
     [
@@ -104,23 +144,25 @@ Return ONLY valid JSON, no explanation.`,
     [
       'human',
       `Symptoms: {symptoms}
-${ragContext ? `Medical Knowledge Context:\n${ragContext.slice(0, 2000)}` : ''}
+{context}
 
 Identify 3-7 potential diseases/conditions with probability scores.`,
     ],
   ]);
 
-  try {
-    const chain = prompt.pipe(groqLLM).pipe(new StringOutputParser());
-    const result = await chain.invoke({ symptoms: symptoms.join(', ') });
-    const match = result.match(/\[[\s\S]*\]/);
-    if (match) {
-      return JSON.parse(match[0]);
-    }
-  } catch (error) {
-    console.error('Disease identification failed:', error);
-  }
-  return [];
+  return invokeStructured({
+    label: 'Disease identification',
+    role: 'reason',
+    prompt,
+    input: {
+      symptoms: symptoms.join(', '),
+      context: ragContext
+        ? `Medical Knowledge Context:\n${ragContext.slice(0, 2000)}`
+        : '',
+    },
+    schema: DiseaseIdentificationOutputSchema,
+    fallback: () => [],
+  });
 }
 
 /**
@@ -130,40 +172,67 @@ export async function generateClinicalResponse(params: {
   userMessage: string;
   medicalContext: string;
   patientHistory: string;
+  pastEpisodes?: string[]; // describeEpisode lines, most relevant first
   conversationHistory: Array<{ role: string; content: string }>;
   potentialDiseases: string[];
   confidenceScore: number;
   identifiedSymptoms: string[];
+  negativeFindings?: string[];
+  plannedQuestion?: { question: string; rationale?: string };
+  primaryComplaint?: { label: string; unknown: string[] };
   isReadyForDiagnosis: boolean;
-}): Promise<{
-  content: string;
-  urdu: string;
-  severity: string;
-  confidenceLevel: number;
-  identifiedSymptoms: string[];
-  isConfident: boolean;
-  diagnosisSummary?: string;
-}> {
+  isWrapUp?: boolean; // session time is up before a confident diagnosis
+}): Promise<
+  StructuredResult<{
+    content: string;
+    urdu: string;
+    severity: string;
+    confidenceLevel: number;
+    identifiedSymptoms: string[];
+    isConfident: boolean;
+    diagnosisSummary?: string;
+    symptomDetails: SymptomDetail[];
+  }>
+> {
   const {
     userMessage,
     medicalContext,
     patientHistory,
+    pastEpisodes = [],
     conversationHistory,
     potentialDiseases,
     confidenceScore,
     identifiedSymptoms,
+    negativeFindings = [],
+    plannedQuestion,
+    primaryComplaint,
     isReadyForDiagnosis,
+    isWrapUp = false,
   } = params;
 
   let instruction = '';
-  if (isReadyForDiagnosis) {
+  if (isReadyForDiagnosis && isWrapUp) {
+    instruction = `WRAP-UP: Session time is up. Thank patient. Say we have run out of time for this session.
+Summarize what we know so far simply; these are possibilities, NOT a diagnosis.
+Say a doctor will review the report and may ask more questions. Max 4 sentences.
+Set isConfident:false, confidenceLevel:${confidenceScore}`;
+  } else if (isReadyForDiagnosis) {
     instruction = `DIAGNOSIS: Thank patient. Summarize condition simply. Mention report will be generated.
 Start: "Thank you for completing this clinical interview session!"
-Max 4 sentences. Set isConfident:true, confidenceLevel:95`;
+Max 4 sentences. Set isConfident:true, confidenceLevel:${confidenceScore}`;
   } else {
     instruction = `INTERVIEW: Ask ONE simple follow-up question (max 2 sentences).
 Focus: ${potentialDiseases.slice(0, 3).join(', ') || 'symptoms'}
 Simple language, no medical jargon. confidenceLevel: integer`;
+    // Planner-chosen question: the LLM only rephrases it for the patient
+    if (plannedQuestion) {
+      instruction += `
+Ask about: "${plannedQuestion.question}"${plannedQuestion.rationale ? ` (why: ${plannedQuestion.rationale})` : ''}
+Rephrase it naturally in the patient's language; do not ask about anything else.`;
+    } else if (primaryComplaint?.unknown.length) {
+      instruction += `
+Ask about the main complaint (${primaryComplaint.label}): ${primaryComplaint.unknown.slice(0, 2).join(', ')}`;
+    }
   }
 
   // Limit conversation history to reduce tokens
@@ -173,54 +242,74 @@ Simple language, no medical jargon. confidenceLevel: integer`;
   // Build the JSON format instruction with escaped braces
   const jsonFormat = isReadyForDiagnosis
     ? '{{content, urdu, severity, confidenceLevel, identifiedSymptoms, isConfident, followUpNeeded, diagnosisSummary}}'
-    : '{{content, urdu, severity, confidenceLevel, identifiedSymptoms, isConfident, followUpNeeded}}';
+    : '{{content, urdu, severity, confidenceLevel, identifiedSymptoms, isConfident, followUpNeeded, symptomDetails}}';
 
+  // Patient text, history and disease names are template variables, so
+  // braces in them are never read as placeholders
   const prompt = ChatPromptTemplate.fromMessages([
     [
       'system',
       `Medical AI interview. Match patient's language (English/Roman Urdu). No medications.
-${instruction}
-Return valid JSON with these fields: ${jsonFormat}`,
+{instruction}
+Return valid JSON with these fields: ${jsonFormat}
+symptomDetails: [{{symptom, onset, provocation, quality, region, radiation, severity (0-10 number), timing}}] - only what the patient said in this message, null for the rest, [] if none
+If a past episode resembles this complaint, refer to it briefly (e.g. "like the headache 3 months ago"); never treat its diagnosis as this one.`,
     ],
     [
       'human',
-      `Patient: ${patientHistory?.slice(0, 300) || 'N/A'}
-Context: ${limitedMedicalContext || 'General'}
-Chat: ${recentHistory.map(m => `${m.role}: ${m.content}`).join('\n')}
-Message: "${userMessage}"
-Diseases: ${potentialDiseases.slice(0, 5).join(', ') || 'Analyzing'}
-Confidence: ${confidenceScore}%
-Symptoms: ${identifiedSymptoms.slice(0, 10).join(', ') || 'None'}`,
+      `Patient: {patient}
+Past episodes: {pastEpisodes}
+Context: {context}
+Chat: {chat}
+Message: "{message}"
+Diseases: {diseases}
+Confidence: {confidence}%
+Symptoms: {symptoms}
+Denied (do not ask again): {denied}
+Main complaint: {mainComplaint}`,
     ],
   ]);
 
-  try {
-    const chain = prompt.pipe(groqLLMCreative).pipe(new StringOutputParser());
-    const result = await chain.invoke({});
-    const match = result.match(/\{[\s\S]*\}/);
-    if (match) {
-      const parsed = JSON.parse(match[0]);
-      return {
-        content: parsed.content || 'Please describe your symptoms.',
-        urdu: parsed.urdu || 'براہ کرم علامات بیان کریں',
-        severity: parsed.severity || 'moderate',
-        confidenceLevel: parsed.confidenceLevel || confidenceScore,
-        identifiedSymptoms: parsed.identifiedSymptoms || identifiedSymptoms,
-        isConfident: parsed.isConfident || false,
-        diagnosisSummary: parsed.diagnosisSummary,
-      };
-    }
-  } catch (error) {
-    console.error('Clinical response generation failed:', error);
-  }
+  const { data, generation } = await invokeStructured<ClinicalResponseOutput>({
+    label: 'Clinical response',
+    role: 'converse',
+    prompt,
+    input: {
+      instruction,
+      patient: patientHistory?.slice(0, 300) || 'N/A',
+      pastEpisodes: pastEpisodes.join(' | ') || 'None',
+      context: limitedMedicalContext || 'General',
+      chat: recentHistory.map(m => `${m.role}: ${m.content}`).join('\n'),
+      message: userMessage,
+      diseases: potentialDiseases.slice(0, 5).join(', ') || 'Analyzing',
+      confidence: confidenceScore,
+      symptoms: identifiedSymptoms.slice(0, 10).join(', ') || 'None',
+      denied: negativeFindings.slice(0, 10).join(', ') || 'None',
+      mainComplaint: primaryComplaint
+        ? `${primaryComplaint.label}; still unknown: ${primaryComplaint.unknown.join(', ') || 'nothing'}`
+        : 'Not yet identified',
+    },
+    schema: ClinicalResponseOutputSchema,
+    fallback: () => ({
+      content: 'Could you please describe your symptoms in more detail?',
+      urdu: 'براہ کرم اپنی علامات کی مزید تفصیل بیان کریں',
+      severity: 'moderate',
+      isConfident: false,
+    }),
+  });
 
   return {
-    content: 'Could you please describe your symptoms in more detail?',
-    urdu: 'براہ کرم اپنی علامات کی مزید تفصیل بیان کریں',
-    severity: 'moderate',
-    confidenceLevel: confidenceScore,
-    identifiedSymptoms: identifiedSymptoms,
-    isConfident: false,
+    data: {
+      content: data.content,
+      urdu: data.urdu,
+      severity: data.severity,
+      confidenceLevel: data.confidenceLevel ?? confidenceScore,
+      identifiedSymptoms: data.identifiedSymptoms || identifiedSymptoms,
+      isConfident: data.isConfident,
+      diagnosisSummary: data.diagnosisSummary,
+      symptomDetails: data.symptomDetails || [],
+    },
+    generation,
   };
 }
 
@@ -233,17 +322,20 @@ export async function generateSOAPReport(params: {
   diagnosisState: {
     potentialDiseases: Array<{ name: string; probability: number }>;
     identifiedSymptoms: string[];
+    negativeFindings?: string[];
+    symptomDetails?: string[]; // one formatted OPQRST line per complaint
     confidenceScore: number;
   };
-  ragSources: string[];
-}): Promise<{
-  subjective: any;
-  objective: any;
-  assessment: any;
-  plan: any;
-}> {
-  const { conversationHistory, patientInfo, diagnosisState, ragSources } =
-    params;
+  references: SourceReference[]; // knowledge-base sources of the session
+  pastEpisodes?: string[]; // describeEpisode lines
+}): Promise<StructuredResult<SOAPContent>> {
+  const {
+    conversationHistory,
+    patientInfo,
+    diagnosisState,
+    references,
+    pastEpisodes = [],
+  } = params;
 
   const prompt = ChatPromptTemplate.fromMessages([
     [
@@ -254,7 +346,7 @@ Return valid JSON with this exact structure:
     "subjective": {{
         "chiefComplaint": "Main symptom",
         "symptoms": ["symptom1", "symptom2"],
-        "patientHistory": "Relevant history",
+        "patientHistory": "Relevant history, incl. past episodes",
         "patientNarrative": "Patient's own words"
     }},
     "objective": {{
@@ -268,54 +360,79 @@ Return valid JSON with this exact structure:
         "severity": "moderate",
         "confidence": 75,
         "aiAnalysis": "Reasoning for diagnosis",
-        "redFlags": []
+        "redFlags": [],
+        "citations": [{{"statement": "Most likely condition", "sources": ["S1"]}}]
     }},
     "plan": {{
         "recommendations": ["recommendation1"],
         "testsNeeded": ["test1"],
         "specialistReferral": "Cardiology",
         "followUpNeeded": true,
-        "urgency": "standard"
+        "urgency": "standard",
+        "citations": [{{"statement": "recommendation1", "sources": ["S2"]}}]
     }}
-}}`,
+}}
+severity must be one of: critical, high, moderate, initial, normal
+urgency must be one of: emergency, urgent, standard, routine
+confidence and confidenceLevel are numbers 0-100
+citations: for each assessment/plan statement a knowledge-base reference supports, copy the statement and list the reference keys. Only cite keys from the references given; leave a statement out when none supports it.`,
     ],
     [
       'human',
       `Generate SOAP report from this clinical session:
 
 Patient Info:
-- Age: ${patientInfo?.age || 'Unknown'}
-- Gender: ${patientInfo?.gender || 'Unknown'}
-- Chronic conditions: ${patientInfo?.chronicConditions?.join(', ') || 'None'}
-- Medications: ${patientInfo?.currentMedications?.join(', ') || 'None'}
+{patientInfo}
 
 Conversation Summary:
-${conversationHistory
-        .slice(-10)
-        .map(m => `${m.role}: ${m.content.slice(0, 200)}`)
-        .join('\n')}
+{conversation}
 
 Diagnosis Analysis:
-- Potential diseases: ${diagnosisState.potentialDiseases.map(d => `${d.name} (${d.probability}%)`).join(', ')}
-- Identified symptoms: ${diagnosisState.identifiedSymptoms.join(', ')}
-- Confidence: ${diagnosisState.confidenceScore}%
+{analysis}
 
-Medical sources used: ${ragSources.slice(0, 5).join(', ') || 'General knowledge'}`,
+Knowledge-base references:
+{references}`,
     ],
   ]);
 
-  try {
-    const chain = prompt.pipe(groqLLMCreative).pipe(new StringOutputParser());
-    const result = await chain.invoke({});
-    const match = result.match(/\{[\s\S]*\}/);
-    if (match) {
-      return JSON.parse(match[0]);
-    }
-  } catch (error) {
-    console.error('SOAP generation failed:', error);
-  }
+  // The transcript, history and snippets are quoted verbatim - passed as
+  // template variables so braces in them stay text
+  return invokeStructured({
+    label: 'SOAP generation',
+    role: 'document',
+    prompt,
+    input: {
+      patientInfo: `- Age: ${patientInfo?.age || 'Unknown'}
+- Gender: ${patientInfo?.gender || 'Unknown'}
+- Chronic conditions: ${patientInfo?.chronicConditions?.join(', ') || 'None'}
+- Medications: ${patientInfo?.currentMedications?.join(', ') || 'None'}
+- Relevant past episodes: ${pastEpisodes.join(' | ') || 'None'}`,
+      conversation: conversationHistory
+        .slice(-10)
+        .map(m => `${m.role}: ${m.content.slice(0, 200)}`)
+        .join('\n'),
+      analysis: `- Potential diseases: ${diagnosisState.potentialDiseases.map(d => `${d.name} (${d.probability}%)`).join(', ')}
+- Identified symptoms: ${diagnosisState.identifiedSymptoms.join(', ')}
+- Denied symptoms (pertinent negatives): ${diagnosisState.negativeFindings?.join(', ') || 'None recorded'}
+- Symptom details (OPQRST): ${diagnosisState.symptomDetails?.join(' | ') || 'None recorded'}
+- Confidence: ${diagnosisState.confidenceScore}%`,
+      references:
+        formatReferences(references) ||
+        'None retrieved - do not add citations',
+    },
+    schema: SOAPContentSchema,
+    fallback: () => buildFallbackSOAP(diagnosisState),
+  });
+}
 
-  // Fallback SOAP structure
+/**
+ * Canned SOAP structure used when the model never produced a valid report
+ */
+function buildFallbackSOAP(diagnosisState: {
+  potentialDiseases: Array<{ name: string; probability: number }>;
+  identifiedSymptoms: string[];
+  confidenceScore: number;
+}): SOAPContent {
   return {
     subjective: {
       chiefComplaint: 'Clinical interview conducted',
@@ -336,8 +453,10 @@ Medical sources used: ${ragSources.slice(0, 5).join(', ') || 'General knowledge'
         .map(d => d.name),
       severity: 'moderate',
       confidence: diagnosisState.confidenceScore,
-      aiAnalysis: 'AI analysis pending',
+      aiAnalysis:
+        'AI analysis unavailable - this report was assembled from interview data without a validated model output.',
       redFlags: [],
+      medicalSources: [],
     },
     plan: {
       recommendations: ['Consult with physician'],
@@ -348,6 +467,111 @@ Medical sources used: ${ragSources.slice(0, 5).join(', ') || 'General knowledge'
   };
 }
 
+/**
+ * Write the patient-facing summary of a SOAP report in Urdu script and
+ * Roman Urdu
+ */
+export async function generatePatientSummary(params: {
+  report: Pick<SOAPContent, 'subjective' | 'assessment' | 'plan'>;
+}): Promise<StructuredResult<PatientSummaryContent>> {
+  const { report } = params;
+
+  const prompt = ChatPromptTemplate.fromMessages([
+    [
+      'system',
+      `You write patient-friendly summaries of clinical reports for patients in Pakistan.
+Write the same summary twice: in Urdu script, and in Roman Urdu (keep common English medical words in English).
+Return valid JSON with this exact structure:
+{{
+    "urdu": {{
+        "discussed": "2-4 short sentences: what the patient told us and what it most likely points to",
+        "watchFor": ["warning sign that means: seek care immediately"],
+        "nextSteps": ["what to do next"]
+    }},
+    "roman": {{
+        "discussed": "...",
+        "watchFor": ["..."],
+        "nextSteps": ["..."]
+    }}
+}}
+Rules:
+- Simple, calm, everyday language a patient without medical training understands. No jargon, no percentages, no probabilities.
+- Only use what the report says. Do not add diagnoses, tests or treatments.
+- Present the diagnosis as what the symptoms most likely point to, not as certain.
+- watchFor: the report's red flags plus the warning signs for this condition, 2-5 items.
+- nextSteps: tests, follow-up and referrals from the plan, 2-5 items. No medicine names or doses - the prescription is given separately.`,
+    ],
+    [
+      'human',
+      `Clinical report:
+{report}`,
+    ],
+  ]);
+
+  return invokeStructured({
+    label: 'Patient summary',
+    role: 'document',
+    prompt,
+    input: {
+      report: `- Chief complaint: ${report.subjective.chiefComplaint}
+- Symptoms: ${report.subjective.symptoms.join(', ') || 'None recorded'}
+- Most likely diagnosis: ${report.assessment.primaryDiagnosis}
+- Other possibilities: ${report.assessment.differentialDiagnosis.join(', ') || 'None'}
+- Severity: ${report.assessment.severity}
+- Red flags: ${report.assessment.redFlags.join(', ') || 'None'}
+- Recommendations: ${report.plan.recommendations.join('; ') || 'None'}
+- Tests: ${report.plan.testsNeeded.join(', ') || 'None'}
+- Specialist referral: ${report.plan.specialistReferral || 'None'}
+- Follow-up needed: ${report.plan.followUpNeeded ? 'yes' : 'no'}`,
+    },
+    schema: PatientSummaryContentSchema,
+    fallback: () => buildFallbackPatientSummary(report),
+  });
+}
+
+/**
+ * Generic summary used when the model never produced a valid one: the
+ * report's symptoms, red flags and tests with standard wording
+ */
+function buildFallbackPatientSummary(
+  report: Pick<SOAPContent, 'subjective' | 'assessment' | 'plan'>
+): PatientSummaryContent {
+  const symptoms = report.subjective.symptoms.join(', ');
+  const { redFlags } = report.assessment;
+  const { testsNeeded, followUpNeeded } = report.plan;
+
+  return {
+    urdu: {
+      discussed: `آپ نے اپنی علامات کے بارے میں بتایا${symptoms ? `: ${symptoms}` : ''}۔ آپ کی رپورٹ ڈاکٹر کے پاس ہے۔ مزید تفصیل کے لیے اپنے ڈاکٹر سے بات کریں۔`,
+      watchFor: [
+        ...redFlags,
+        'سانس لینے میں دشواری یا سینے میں درد',
+        'تیز بخار جو کم نہ ہو',
+        'علامات کا اچانک بگڑ جانا',
+      ],
+      nextSteps: [
+        'اپنے ڈاکٹر کی ہدایات پر عمل کریں',
+        ...testsNeeded.map(test => `ٹیسٹ: ${test}`),
+        ...(followUpNeeded ? ['دوبارہ معائنے کے لیے آئیں'] : []),
+      ],
+    },
+    roman: {
+      discussed: `Aap ne apni alamaat ke baare mein bataya${symptoms ? `: ${symptoms}` : ''}. Aap ki report doctor ke paas hai. Mazeed tafseel ke liye apne doctor se baat karein.`,
+      watchFor: [
+        ...redFlags,
+        'Saans lene mein dushwari ya seene mein dard',
+        'Tez bukhar jo kam na ho',
+        'Alamaat ka achanak bigar jana',
+      ],
+      nextSteps: [
+        'Apne doctor ki hidayat par amal karein',
+        ...testsNeeded.map(test => `Test: ${test}`),
+        ...(followUpNeeded ? ['Dobara muainay ke liye aayein'] : []),
+      ],
+    },
+  };
+}
+
 /**
  * Check for emergency red flags in symptoms/diagnosis
  */
@@ -355,12 +579,7 @@ export async function checkEmergencyFlags(params: {
   symptoms: string[];
   diagnosis: string;
   patientAge?: number;
-}): Promise<{
-  isEmergency: boolean;
-  redFlags: string[];
-  triageLabel: 'emergency' | 'urgent' | 'standard' | 'routine';
-  urgencyScore: number;
-}> {
+}): Promise<StructuredResult<EmergencyCheckOutput>> {
   const { symptoms, diagnosis, patientAge } = params;
 
   const prompt = ChatPromptTemplate.fromMessages([
@@ -388,46 +607,41 @@ Return JSON:
     [
       'human',
       `Analyze for emergency:
-Symptoms: ${symptoms.join(', ')}
-Diagnosis: ${diagnosis}
-Patient age: ${patientAge || 'Unknown'}`,
+Symptoms: {symptoms}
+Diagnosis: {diagnosis}
+Patient age: {age}`,
     ],
   ]);
 
-  try {
-    const chain = prompt.pipe(groqLLM).pipe(new StringOutputParser());
-    const result = await chain.invoke({});
-    const match = result.match(/\{[\s\S]*\}/);
-    if (match) {
-      return JSON.parse(match[0]);
-    }
-  } catch (error) {
-    console.error('Emergency check failed:', error);
-  }
-
-  return {
-    isEmergency: false,
-    redFlags: [],
-    triageLabel: 'standard',
-    urgencyScore: 30,
-  };
+  return invokeStructured({
+    label: 'Emergency check',
+    role: 'reason',
+    prompt,
+    input: {
+      symptoms: symptoms.join(', '),
+      diagnosis,
+      age: patientAge || 'Unknown',
+    },
+    schema: EmergencyCheckOutputSchema,
+    fallback: () => ({
+      isEmergency: false,
+      redFlags: [],
+      triageLabel: 'standard',
+      urgencyScore: 30,
+    }),
+  });
 }
 
 /**
  * Regenerate SOAP report based on doctor feedback
  */
 export async function regenerateSOAPWithFeedback(params: {
-  originalReport: any;
+  originalReport: SOAPContent;
   doctorFeedback: string;
   rejectionReason: string;
-}): Promise<any> {
+}): Promise<StructuredResult<SOAPContent>> {
   const { originalReport, doctorFeedback, rejectionReason } = params;
 
-  // Escape the report JSON for template safety
-  const reportJson = JSON.stringify(originalReport, null, 2)
-    .replace(/\{/g, '{{')
-    .replace(/\}/g, '}}');
-
   const prompt = ChatPromptTemplate.fromMessages([
     [
       'system',
@@ -439,16 +653,18 @@ CRITICAL INSTRUCTIONS:
 2.  **Professional Medical Tone:** Use high-quality, clinical language suitable for a medical record. Avoid vague terms.
 3.  **Refine the Content:** Don't just append the feedback; rewrite the relevant sections to flow naturally.
 4.  **JSON Structure:** You MUST return the exact same valid JSON structure. Do not break the schema.
+    severity: critical|high|moderate|initial|normal. urgency: emergency|urgent|standard|routine.
+5.  **Citations:** Keep "references" unchanged. Update "citations" so each cited statement matches its rewritten text, citing only keys listed in "references".
 
 Return ONLY valid JSON. No markdown, no explanations.`,
     ],
     [
       'human',
       `ORIGINAL REPORT:
-${reportJson}
+{report}
 
-DOCTOR'S FEEDBACK: "${doctorFeedback}"
-REJECTION REASON (if any): "${rejectionReason}"
+DOCTOR'S FEEDBACK: "{feedback}"
+REJECTION REASON (if any): "{reason}"
 
 TASK:
 - Update the report to address the feedback.
@@ -457,18 +673,18 @@ TASK:
     ],
   ]);
 
-  try {
-    const chain = prompt.pipe(groqLLMCreative).pipe(new StringOutputParser());
-    const result = await chain.invoke({});
-    const match = result.match(/\{[\s\S]*\}/);
-    if (match) {
-      return JSON.parse(match[0]);
-    }
-  } catch (error) {
-    console.error('SOAP regeneration failed:', error);
-  }
-
-  return originalReport;
+  return invokeStructured({
+    label: 'SOAP regeneration',
+    role: 'document',
+    prompt,
+    input: {
+      report: JSON.stringify(originalReport, null, 2),
+      feedback: doctorFeedback,
+      reason: rejectionReason,
+    },
+    schema: SOAPContentSchema,
+    fallback: () => originalReport,
+  });
 }
 
-export { groqLLM, groqLLMCreative };
+export { getChatModel };
@@ -0,0 +1,79 @@
+/**
+ * OpenAI-Compatible Chat Model
+ * Minimal LangChain chat model for any OpenAI-style /chat/completions endpoint
+ * (vLLM, Ollama, LM Studio, OpenRouter, Azure-style gateways, ...)
+ */
+
+import {
+  SimpleChatModel,
+  type BaseChatModelParams,
+} from '@langchain/core/language_models/chat_models';
+import type { BaseMessage } from '@langchain/core/messages';
+
+export interface OpenAICompatibleChatModelInput extends BaseChatModelParams {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+const ROLE_MAP: Record<string, 'system' | 'user' | 'assistant'> = {
+  system: 'system',
+  human: 'user',
+  ai: 'assistant',
+};
+
+export class OpenAICompatibleChatModel extends SimpleChatModel {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  temperature: number;
+
+  constructor(fields: OpenAICompatibleChatModelInput) {
+    super(fields);
+    this.baseURL = fields.baseURL.replace(/\/+$/, '');
+    this.model = fields.model;
+    this.apiKey = fields.apiKey;
+    this.temperature = fields.temperature ?? 0.3;
+  }
+
+  _llmType(): string {
+    return 'openai-compatible';
+  }
+
+  async _call(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions']
+  ): Promise<string> {
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: this.temperature,
+        stop: options.stop,
+        messages: messages.map(m => ({
+          role: ROLE_MAP[m.getType()] || 'user',
+          content: m.text,
+        })),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `OpenAI-compatible endpoint error ${response.status}: ${await response.text()}`
+      );
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    return data.choices?.[0]?.message?.content || '';
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Patient History
+ * Past episodes of a patient, retrieved from their own history namespace
+ *
+ * Every session with a SOAP report is one record under
+ * patientHistoryNamespace(patientId) (lib/pinecone.ts), keyed by session. It
+ * is indexed when the report is saved and re-indexed after each doctor
+ * review, so it mirrors the report's review status. Episodes whose report
+ * was rejected are kept out of retrieval - their diagnosis was not accepted.
+ *
+ * Retrieval is the same hybrid search as the knowledge base (lib/retrieval):
+ * the interview agent looks up episodes relevant to the current turn, the
+ * documentation agent the ones relevant to the whole session, which the SOAP
+ * report lists ("same headache 3 months ago, approved as migraine").
+ */
+
+import { generateEmbedding } from './llm-utils';
+import { symptomLabels } from './symptom-lexicon';
+import type { PastEpisode, ReviewStatus, SOAPReport } from './types';
+import { patientHistoryNamespace } from '@/lib/pinecone';
+import { getRetrievalConfig, hybridSearch } from '@/lib/retrieval';
+import {
+  getVectorStore,
+  isZeroVector,
+  type VectorMetadata,
+} from '@/lib/vector-store';
+import prisma from '@/lib/prisma';
+
+export const MAX_PAST_EPISODES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function episodeId(sessionId: string): string {
+  return `session#${sessionId}`;
+}
+
+function toPastEpisode(meta: VectorMetadata, relevance: number): PastEpisode {
+  return {
+    sessionId: String(meta.sessionId),
+    reportId: String(meta.reportId),
+    date: String(meta.date),
+    chiefComplaint: String(meta.title || ''),
+    symptoms: Array.isArray(meta.symptoms) ? meta.symptoms : [],
+    diagnosis: String(meta.disease || ''),
+    reviewStatus: String(meta.reviewStatus) as ReviewStatus,
+    relevance,
+  };
+}
+
+/**
+ * Embed a session's SOAP report into its patient's history namespace
+ * Best effort: returns false (and logs) instead of throwing
+ */
+export async function indexSessionEpisode(reportId: string): Promise<boolean> {
+  try {
+    const report = await prisma.sOAPReport.findUnique({
+      where: { id: reportId },
+      include: {
+        session: {
+          select: {
+            chiefComplaint: true,
+            identifiedSymptoms: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+    if (!report) return false;
+
+    const subjective = report.subjective as unknown as SOAPReport['subjective'];
+    const assessment = report.assessment as unknown as SOAPReport['assessment'];
+    const plan = report.plan as unknown as SOAPReport['plan'];
+
+    const date = report.session.createdAt.toISOString().slice(0, 10);
+    const chiefComplaint =
+      report.session.chiefComplaint ||
+      subjective.chiefComplaint ||
+      'Clinical interview';
+    const symptoms = symptomLabels(report.session.identifiedSymptoms);
+    const diagnosis = assessment.primaryDiagnosis || '';
+
+    const text = [
+      `${date}: ${chiefComplaint}`,
+      symptoms.length > 0 ? `Symptoms: ${symptoms.join(', ')}` : '',
+      `Assessment: ${diagnosis}`,
+      plan.recommendations?.length
+        ? `Plan: ${plan.recommendations.join('; ')}`
+        : '',
+      report.doctorNotes ? `Doctor notes: ${report.doctorNotes}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    const embedding = await generateEmbedding(text);
+    if (isZeroVector(embedding)) {
+      console.warn(
+        `   ⚠️ Episode ${report.sessionId} not indexed - embedding unavailable`
+      );
+      return false;
+    }
+
+    await getVectorStore().upsert(
+      [
+        {
+          id: episodeId(report.sessionId),
+          values: embedding,
+          metadata: {
+            sessionId: report.sessionId,
+            reportId: report.id,
+            date,
+            title: chiefComplaint,
+            disease: diagnosis,
+            symptoms,
+            reviewStatus: report.reviewStatus,
+            text,
+          },
+        },
+      ],
+      patientHistoryNamespace(report.patientId)
+    );
+    console.log(
+      `   🗂️ Episode ${report.sessionId} indexed (${report.reviewStatus})`
+    );
+    return true;
+  } catch (error) {
+    console.error('   ❌ Failed to index patient episode:', error);
+    return false;
+  }
+}
+
+/**
+ * A patient's past episodes relevant to the given complaint, most relevant
+ * first (never the session being documented, never rejected reports)
+ */
+export async function findPastEpisodes(params: {
+  patientId: string;
+  text: string;
+  embedding: number[];
+  keywords?: string;
+  excludeSessionId?: string;
+}): Promise<PastEpisode[]> {
+  const { patientId, text, embedding, keywords, excludeSessionId } = params;
+
+  try {
+    const chunks = await hybridSearch(
+      {
+        text,
+        keywords,
+        embedding,
+        namespace: patientHistoryNamespace(patientId),
+      },
+      { ...getRetrievalConfig(), topK: MAX_PAST_EPISODES * 3 }
+    );
+
+    return chunks
+      .filter(
+        chunk =>
+          chunk.metadata.sessionId !== excludeSessionId &&
+          chunk.metadata.reviewStatus !== 'rejected'
+      )
+      .slice(0, MAX_PAST_EPISODES)
+      .map(chunk => toPastEpisode(chunk.metadata, chunk.relevance));
+  } catch (error) {
+    console.error('   ❌ Past episode retrieval failed:', error);
+    return [];
+  }
+}
+
+function timeAgo(date: string, now: Date): string {
+  const days = Math.floor((now.getTime() - Date.parse(date)) / DAY_MS);
+  if (days < 1) return 'earlier today';
+  if (days < 31) return `${days} day${days === 1 ? '' : 's'} ago`;
+  const months = Math.floor(days / 30.4);
+  if (months < 12) return `${months} month${months === 1 ? '' : 's'} ago`;
+  const years = Math.floor(days / 365);
+  return `${years} year${years === 1 ? '' : 's'} ago`;
+}
+
+/**
+ * One line per episode for prompts and reports:
+ * "Headache for three days, 3 months ago (2026-07-10) - approved as Migraine"
+ */
+export function describeEpisode(
+  episode: PastEpisode,
+  now: Date = new Date()
+): string {
+  const outcome =
+    episode.reviewStatus === 'approved'
+      ? `approved as ${episode.diagnosis}`
+      : `assessed as ${episode.diagnosis} (not yet reviewed)`;
+  return `${episode.chiefComplaint}, ${timeAgo(episode.date, now)} (${episode.date}) - ${outcome}`;
+}
@@ -0,0 +1,130 @@
+/**
+ * Patient Summary
+ * Plain-language account of a SOAP report for the patient, in Urdu script
+ * and Roman Urdu: what was discussed, what to watch for and next steps
+ *
+ * The documentation agent writes it together with the report. It describes
+ * one version of the content: a regeneration, doctor edit or restore drops
+ * it, and approval writes it again from the approved content
+ * (ensurePatientSummary). Patients only see it once the report is approved
+ * (isSummaryReleased); doctors can preview it at any time.
+ */
+
+import { Prisma } from '@prisma/client';
+import { generatePatientSummary } from './llm-utils';
+import type { PatientSummary, SOAPReport } from './types';
+import prisma from '@/lib/prisma';
+
+/**
+ * Write the summary for a report's content
+ */
+export async function summarizeForPatient(
+  report: Pick<SOAPReport, 'subjective' | 'assessment' | 'plan'>
+): Promise<PatientSummary> {
+  const { data, generation } = await generatePatientSummary({ report });
+  return { ...data, generatedAt: new Date().toISOString(), generation };
+}
+
+export function isSummaryReleased(reviewStatus: string): boolean {
+  return reviewStatus === 'approved';
+}
+
+export function asSummaryJson(summary: PatientSummary): Prisma.InputJsonValue {
+  return summary as unknown as Prisma.InputJsonValue;
+}
+
+// The report column value once the content it described is replaced
+export const STALE_SUMMARY = Prisma.DbNull;
+
+/**
+ * Write the summary of an approved report if its content has none (dropped
+ * by a change since generation). Best effort: failures are logged and the
+ * report stays without a summary.
+ */
+export async function ensurePatientSummary(reportId: string): Promise<void> {
+  try {
+    const report = await prisma.sOAPReport.findUnique({
+      where: { id: reportId },
+      select: {
+        subjective: true,
+        assessment: true,
+        plan: true,
+        patientSummary: true,
+      },
+    });
+    if (!report || report.patientSummary) return;
+
+    const summary = await summarizeForPatient({
+      subjective: report.subjective as unknown as SOAPReport['subjective'],
+      assessment: report.assessment as unknown as SOAPReport['assessment'],
+      plan: report.plan as unknown as SOAPReport['plan'],
+    });
+    await prisma.sOAPReport.update({
+      where: { id: reportId },
+      data: { patientSummary: asSummaryJson(summary) },
+    });
+    console.log(`   🗣️ Patient summary written for report ${reportId}`);
+  } catch (error) {
+    console.error(
+      `   ⚠️ Failed to write patient summary for report ${reportId}:`,
+      error
+    );
+  }
+}
+
+export interface PatientSummaryRecord {
+  reportId: string;
+  patientId: string;
+  patientName: string;
+  doctorName: string | null;
+  chiefComplaint: string;
+  reviewStatus: string;
+  reviewedAt: Date | null;
+  createdAt: Date;
+  released: boolean;
+  summary: PatientSummary | null;
+}
+
+/**
+ * A report's summary with what the patient view and PDF show around it
+ */
+export async function findPatientSummary(
+  reportId: string
+): Promise<PatientSummaryRecord | null> {
+  const report = await prisma.sOAPReport.findUnique({
+    where: { id: reportId },
+    select: {
+      id: true,
+      patientId: true,
+      subjective: true,
+      reviewStatus: true,
+      reviewedAt: true,
+      createdAt: true,
+      patientSummary: true,
+      assignedDoctorId: true,
+      patient: { select: { name: true } },
+    },
+  });
+  if (!report) return null;
+
+  const doctor = report.assignedDoctorId
+    ? await prisma.user.findUnique({
+        where: { id: report.assignedDoctorId },
+        select: { name: true },
+      })
+    : null;
+  const subjective = report.subjective as unknown as SOAPReport['subjective'];
+
+  return {
+    reportId: report.id,
+    patientId: report.patientId,
+    patientName: report.patient.name || 'Patient',
+    doctorName: doctor?.name || null,
+    chiefComplaint: subjective?.chiefComplaint || 'Clinical Interview',
+    reviewStatus: report.reviewStatus,
+    reviewedAt: report.reviewedAt,
+    createdAt: report.createdAt,
+    released: isSummaryReleased(report.reviewStatus),
+    summary: report.patientSummary as unknown as PatientSummary | null,
+  };
+}
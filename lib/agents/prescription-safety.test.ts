@@ -0,0 +1,116 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  checkPrescriptionSafety,
+  checkPrescriptionTextSafety,
+  reviewPrescriptionWarnings,
+  type SafetyProfile,
+} from './prescription-safety';
+import type { PrescriptionItem } from './types';
+
+const ADULT: SafetyProfile = {
+  age: 40,
+  gender: 'male',
+  allergies: [],
+  currentMedications: [],
+};
+
+function item(
+  drug: string,
+  formularyId: string | null = null
+): PrescriptionItem {
+  return {
+    formularyId,
+    drug,
+    genericName: null,
+    strength: '',
+    form: 'tablet',
+    dose: '1 tablet',
+    route: 'oral',
+    frequency: '2 times a day',
+    duration: '5 days',
+    instructions: '',
+    instructionsUrdu: '',
+  };
+}
+
+describe('checkPrescriptionSafety', () => {
+  test('flags a class allergy by brand name', () => {
+    const warnings = checkPrescriptionSafety([item('Augmentin')], {
+      ...ADULT,
+      allergies: ['Penicillin'],
+    });
+    assert.deepEqual(
+      warnings.map(w => [w.kind, w.severity, w.conflictsWith]),
+      [['allergy', 'major', 'Penicillin']]
+    );
+  });
+
+  test('flags interactions with current medications', () => {
+    const warnings = checkPrescriptionSafety([item('Brufen', 'ibuprofen')], {
+      ...ADULT,
+      currentMedications: ['Warfarin 5mg'],
+    });
+    assert.equal(warnings.length, 1);
+    assert.equal(warnings[0].rule, 'anticoagulant-nsaid');
+    assert.equal(warnings[0].conflictsWith, 'Warfarin 5mg');
+  });
+
+  test('flags age contraindications', () => {
+    const warnings = checkPrescriptionSafety([item('Aspirin', 'aspirin')], {
+      ...ADULT,
+      age: 10,
+    });
+    assert.deepEqual(
+      warnings.map(w => w.rule),
+      ['aspirin-reye']
+    );
+  });
+
+  test('has no warnings for a safe prescription', () => {
+    assert.deepEqual(
+      checkPrescriptionSafety([item('Panadol', 'paracetamol')], ADULT),
+      []
+    );
+  });
+});
+
+describe('checkPrescriptionTextSafety', () => {
+  test('checks each line and lists lines outside the formulary', () => {
+    const warnings = checkPrescriptionTextSafety(
+      '1. Brufen 400mg TDS\n2. Augmentin 625 BD\n3. Herbal tonic',
+      { ...ADULT, allergies: ['Penicillin'], currentMedications: ['Warfarin'] }
+    );
+    assert.deepEqual(
+      warnings.map(w => w.kind),
+      ['allergy', 'interaction', 'unchecked']
+    );
+    assert.deepEqual(warnings[2].drugs, ['Herbal tonic']);
+  });
+});
+
+describe('reviewPrescriptionWarnings', () => {
+  test('keeps warnings without a decision pending', () => {
+    const warnings = checkPrescriptionTextSafety('Brufen\nHerbal tonic', {
+      ...ADULT,
+      currentMedications: ['Warfarin'],
+    });
+    const { reviewed, pending } = reviewPrescriptionWarnings(
+      warnings,
+      [
+        {
+          warningId: warnings[0].id,
+          decision: 'overridden',
+          reason: 'INR checked today',
+        },
+      ],
+      'doctor-1'
+    );
+    assert.equal(reviewed.length, 1);
+    assert.equal(reviewed[0].decidedBy, 'doctor-1');
+    assert.deepEqual(
+      pending.map(w => w.kind),
+      ['unchecked']
+    );
+  });
+});
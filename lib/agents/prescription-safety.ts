@@ -0,0 +1,453 @@
+/**
+ * Prescription Safety
+ * Checks a structured prescription against the patient's medical history
+ * with the offline ruleset (lib/constants/drug-interactions.ts)
+ *
+ * - checkPrescriptionSafety: allergies (with class cross-reactivity),
+ *   drug-drug interactions within the prescription and with current
+ *   medications, duplicate therapy, and age/pregnancy contraindications
+ * - reviewPrescriptionWarnings: pairs each warning with the doctor's
+ *   decision; the prescription is saved once every warning has one
+ *
+ * - checkPrescriptionTextSafety: the same checks for a free-text
+ *   prescription, one drug per line; lines naming no formulary drug get an
+ *   'unchecked' warning the doctor has to acknowledge
+ *
+ * Drugs resolve to the formulary by formularyId, or by name for items typed
+ * in and for the free-text current medications. Drugs that do not resolve
+ * are only checked against allergies by name. Reviewed warnings are stored
+ * on the report (prescriptionWarnings).
+ */
+
+import type { Prisma } from '@prisma/client';
+import type {
+  PrescriptionItem,
+  PrescriptionWarning,
+  PrescriptionWarningDecision,
+  ReviewedPrescriptionWarning,
+} from './types';
+import {
+  FORMULARY,
+  findFormularyDrug,
+  type FormularyDrug,
+} from '../constants/formulary';
+import {
+  AGE_RULES,
+  ALLERGY_RULES,
+  DUPLICATE_THERAPY_CLASSES,
+  INTERACTION_RULES,
+  PREGNANCY_AGE_RANGE,
+  PREGNANCY_RULES,
+} from '../constants/drug-interactions';
+import prisma from '../prisma';
+
+// What the checks need from the medical history
+export interface SafetyProfile {
+  age: number | null;
+  gender: string | null;
+  allergies: string[];
+  currentMedications: string[];
+}
+
+// A drug as written, with the formulary entry it resolves to
+interface CheckedDrug {
+  name: string;
+  drug: FormularyDrug | undefined;
+}
+
+// Longest names first, so "Co-Amoxiclav" wins over "Amoxiclav"
+const FORMULARY_NAMES = FORMULARY.flatMap(drug =>
+  [...drug.brands, drug.generic].map(name => ({
+    drug,
+    name: name.toLowerCase(),
+    written: name,
+  }))
+).sort((a, b) => b.name.length - a.name.length);
+
+// Numbering or bullet in front of a free-text prescription line
+const LINE_PREFIX = /^\s*(?:\d+[.)]|[-*•])\s*/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match, so "Ery" does not match "Erythromycin"
+function mentions(text: string, name: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(name)}([^a-z0-9]|$)`).test(
+    text.toLowerCase()
+  );
+}
+
+/**
+ * Formulary entry a drug name (or a medication line such as "Glucophage
+ * 500mg twice daily") refers to
+ */
+export function resolveFormularyDrug(text: string): FormularyDrug | undefined {
+  return FORMULARY_NAMES.find(({ name }) => mentions(text, name))?.drug;
+}
+
+// A free-text line as the drug it names ("1. Panadol 500mg TDS" -> Panadol)
+function lineDrug(line: string): CheckedDrug {
+  const match = FORMULARY_NAMES.find(({ name }) => mentions(line, name));
+  return match
+    ? { name: match.written, drug: match.drug }
+    : { name: line, drug: undefined };
+}
+
+function prescribedDrug(item: PrescriptionItem): CheckedDrug {
+  return {
+    name: item.drug,
+    drug:
+      (item.formularyId && findFormularyDrug(item.formularyId)) ||
+      resolveFormularyDrug(item.drug) ||
+      (item.genericName ? resolveFormularyDrug(item.genericName) : undefined),
+  };
+}
+
+// A drug matches a rule that lists its id or one of its classes
+function matches(drug: FormularyDrug | undefined, keys: string[]): boolean {
+  return (
+    !!drug &&
+    (keys.includes(drug.id) || drug.classes.some(c => keys.includes(c)))
+  );
+}
+
+function drugKey({ name, drug }: CheckedDrug): string {
+  return drug?.id ?? name.trim().toLowerCase();
+}
+
+function pairKey(a: CheckedDrug, b: CheckedDrug): string {
+  return [drugKey(a), drugKey(b)].sort().join('+');
+}
+
+function allergyWarnings(
+  drugs: CheckedDrug[],
+  allergies: string[]
+): PrescriptionWarning[] {
+  const warnings: PrescriptionWarning[] = [];
+
+  for (const checked of drugs) {
+    const names = checked.drug
+      ? [...checked.drug.brands, checked.drug.generic]
+      : [checked.name];
+
+    for (const allergy of allergies) {
+      if (names.some(name => mentions(allergy, name.toLowerCase()))) {
+        warnings.push({
+          id: `allergy:named-drug:${drugKey(checked)}`,
+          kind: 'allergy',
+          severity: 'major',
+          rule: 'named-drug',
+          drugs: [checked.name],
+          conflictsWith: allergy,
+          message: `Patient is allergic to ${allergy}`,
+        });
+        continue;
+      }
+
+      const rule = ALLERGY_RULES.find(r =>
+        r.terms.some(term => mentions(allergy, term))
+      );
+      if (!rule) continue;
+
+      if (matches(checked.drug, rule.drugs)) {
+        warnings.push({
+          id: `allergy:${rule.id}:${drugKey(checked)}`,
+          kind: 'allergy',
+          severity: 'major',
+          rule: rule.id,
+          drugs: [checked.name],
+          conflictsWith: allergy,
+          message: `Patient is allergic to ${allergy} - ${checked.name} is in the same class`,
+        });
+      } else if (
+        rule.crossReactive &&
+        matches(checked.drug, rule.crossReactive.drugs)
+      ) {
+        warnings.push({
+          id: `allergy:${rule.id}-cross:${drugKey(checked)}`,
+          kind: 'allergy',
+          severity: 'moderate',
+          rule: rule.id,
+          drugs: [checked.name],
+          conflictsWith: allergy,
+          message: `Patient is allergic to ${allergy}: ${rule.crossReactive.note}`,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+// Interaction and duplicate therapy findings for one pair of drugs; `b` is
+// a current medication when `current` is set
+function pairWarnings(
+  a: CheckedDrug,
+  b: CheckedDrug,
+  current: boolean
+): PrescriptionWarning[] {
+  if (!a.drug || !b.drug) return [];
+
+  const warnings: PrescriptionWarning[] = [];
+  const drugs = current ? [a.name] : [a.name, b.name];
+  const conflictsWith = current ? b.name : undefined;
+
+  if (a.drug.id === b.drug.id) {
+    return [
+      {
+        id: `duplicate:same-drug:${pairKey(a, b)}${current ? ':current' : ''}`,
+        kind: 'duplicate',
+        severity: 'moderate',
+        rule: 'same-drug',
+        drugs,
+        conflictsWith,
+        message: current
+          ? `Patient already takes ${b.name} (${a.drug.generic})`
+          : `${a.drug.generic} is prescribed twice`,
+      },
+    ];
+  }
+
+  const interaction = INTERACTION_RULES.find(
+    ({ drugs: [left, right] }) =>
+      (matches(a.drug, left) && matches(b.drug, right)) ||
+      (matches(b.drug, left) && matches(a.drug, right))
+  );
+  if (interaction) {
+    warnings.push({
+      id: `interaction:${interaction.id}:${pairKey(a, b)}`,
+      kind: 'interaction',
+      severity: interaction.severity,
+      rule: interaction.id,
+      drugs,
+      conflictsWith,
+      message: current
+        ? `${interaction.message} (with current medication ${b.name})`
+        : interaction.message,
+    });
+  }
+
+  const sharedClass = DUPLICATE_THERAPY_CLASSES.find(
+    c => a.drug?.classes.includes(c) && b.drug?.classes.includes(c)
+  );
+  if (sharedClass) {
+    warnings.push({
+      id: `duplicate:${sharedClass}:${pairKey(a, b)}`,
+      kind: 'duplicate',
+      severity: 'moderate',
+      rule: `same-class:${sharedClass}`,
+      drugs,
+      conflictsWith,
+      message: current
+        ? `Patient already takes ${b.name}, also a ${sharedClass}`
+        : `Two drugs of the same class (${sharedClass})`,
+    });
+  }
+
+  return warnings;
+}
+
+function isFemale(gender: string | null): boolean {
+  return !!gender && gender.trim().toLowerCase().startsWith('f');
+}
+
+function contraindicationWarnings(
+  drugs: CheckedDrug[],
+  { age, gender }: Pick<SafetyProfile, 'age' | 'gender'>
+): PrescriptionWarning[] {
+  const warnings: PrescriptionWarning[] = [];
+  const checkPregnancy =
+    isFemale(gender) &&
+    (age === null ||
+      (age >= PREGNANCY_AGE_RANGE.min && age <= PREGNANCY_AGE_RANGE.max));
+
+  for (const checked of drugs) {
+    if (age !== null) {
+      for (const rule of AGE_RULES) {
+        if (age >= rule.minAge || !matches(checked.drug, rule.drugs)) continue;
+        warnings.push({
+          id: `age:${rule.id}:${drugKey(checked)}`,
+          kind: 'age',
+          severity: rule.severity,
+          rule: rule.id,
+          drugs: [checked.name],
+          message: `${rule.message} (patient is ${age})`,
+        });
+      }
+    }
+
+    if (checkPregnancy) {
+      for (const rule of PREGNANCY_RULES) {
+        if (!matches(checked.drug, rule.drugs)) continue;
+        warnings.push({
+          id: `pregnancy:${rule.id}:${drugKey(checked)}`,
+          kind: 'pregnancy',
+          severity: rule.severity,
+          rule: rule.id,
+          drugs: [checked.name],
+          message: `${rule.message} - confirm the patient is not pregnant`,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+function checkDrugs(
+  prescribed: CheckedDrug[],
+  profile: SafetyProfile
+): PrescriptionWarning[] {
+  const current = profile.currentMedications
+    .filter(med => med.trim())
+    .map(med => ({ name: med.trim(), drug: resolveFormularyDrug(med) }));
+
+  const pairs = prescribed.flatMap((a, i) => [
+    ...prescribed.slice(i + 1).flatMap(b => pairWarnings(a, b, false)),
+    ...current.flatMap(b => pairWarnings(a, b, true)),
+  ]);
+
+  const warnings = [
+    ...allergyWarnings(
+      prescribed,
+      profile.allergies.filter(allergy => allergy.trim())
+    ),
+    ...pairs,
+    ...contraindicationWarnings(prescribed, profile),
+  ];
+
+  // One warning per finding (e.g. two allergies naming the same class)
+  const unique = [...new Map(warnings.map(w => [w.id, w])).values()];
+  return unique.sort(
+    (a, b) => Number(b.severity === 'major') - Number(a.severity === 'major')
+  );
+}
+
+/**
+ * Safety warnings for a prescription, major first
+ */
+export function checkPrescriptionSafety(
+  items: PrescriptionItem[],
+  profile: SafetyProfile
+): PrescriptionWarning[] {
+  return checkDrugs(items.map(prescribedDrug), profile);
+}
+
+/**
+ * Safety warnings for a free-text prescription, major first. Each line is
+ * checked as the formulary drug it names; lines naming none are listed in
+ * one 'unchecked' warning.
+ */
+export function checkPrescriptionTextSafety(
+  text: string,
+  profile: SafetyProfile
+): PrescriptionWarning[] {
+  const lines = text
+    .split(/[\n;]+/)
+    .map(line => line.replace(LINE_PREFIX, '').trim())
+    .filter(Boolean);
+  const drugs = lines.map(lineDrug);
+  const warnings = checkDrugs(
+    drugs.filter(d => d.drug),
+    profile
+  );
+
+  const unmatched = drugs.filter(d => !d.drug).map(d => d.name);
+  if (unmatched.length > 0) {
+    warnings.push({
+      id: `unchecked:not-in-formulary:${unmatched.join('+')}`,
+      kind: 'unchecked',
+      severity: 'moderate',
+      rule: 'not-in-formulary',
+      drugs: unmatched,
+      message:
+        'Not found in the formulary - not checked for allergies, interactions or contraindications',
+    });
+  }
+  return warnings;
+}
+
+/**
+ * Pair warnings with the doctor's decisions. `pending` are the warnings
+ * still without one; the prescription must not be saved while any remain.
+ */
+export function reviewPrescriptionWarnings(
+  warnings: PrescriptionWarning[],
+  decisions: PrescriptionWarningDecision[],
+  doctorId: string
+): { reviewed: ReviewedPrescriptionWarning[]; pending: PrescriptionWarning[] } {
+  const byWarning = new Map(decisions.map(d => [d.warningId, d]));
+  const decidedAt = new Date().toISOString();
+
+  const reviewed: ReviewedPrescriptionWarning[] = [];
+  const pending: PrescriptionWarning[] = [];
+  for (const warning of warnings) {
+    const decision = byWarning.get(warning.id);
+    if (decision) {
+      reviewed.push({
+        ...warning,
+        decision: decision.decision,
+        reason: decision.reason,
+        decidedBy: doctorId,
+        decidedAt,
+      });
+    } else {
+      pending.push(warning);
+    }
+  }
+
+  return { reviewed, pending };
+}
+
+/**
+ * Check a free-text prescription for a report and pair the warnings with the
+ * doctor's decisions (null if the report does not exist)
+ */
+export async function reviewPrescriptionText(params: {
+  reportId: string;
+  text: string;
+  decisions: PrescriptionWarningDecision[];
+  doctorId: string;
+}): Promise<{
+  warnings: PrescriptionWarning[];
+  reviewed: ReviewedPrescriptionWarning[];
+  pending: PrescriptionWarning[];
+} | null> {
+  const report = await prisma.sOAPReport.findUnique({
+    where: { id: params.reportId },
+    select: {
+      patient: {
+        select: {
+          medicalHistory: {
+            select: {
+              age: true,
+              gender: true,
+              allergies: true,
+              currentMedications: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!report) return null;
+
+  const history = report.patient?.medicalHistory;
+  const warnings = checkPrescriptionTextSafety(params.text, {
+    age: history?.age ?? null,
+    gender: history?.gender ?? null,
+    allergies: history?.allergies || [],
+    currentMedications: history?.currentMedications || [],
+  });
+  return {
+    warnings,
+    ...reviewPrescriptionWarnings(warnings, params.decisions, params.doctorId),
+  };
+}
+
+export function asWarningsJson(
+  warnings: ReviewedPrescriptionWarning[]
+): Prisma.InputJsonValue {
+  return warnings as unknown as Prisma.InputJsonValue;
+}
@@ -0,0 +1,92 @@
+/**
+ * Prescriptions
+ * Structured prescription of a report: one item per drug with strength,
+ * form, dosing and instructions in English and Urdu, picked from the
+ * formulary (lib/constants/formulary.ts) or typed in by the doctor
+ *
+ * The items are the source of truth once saved. The report's `prescription`
+ * text is rewritten from them, one numbered line per item, for the places
+ * that show the prescription as text (patient dashboard, FHIR narrative).
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { PrescriptionItem } from './types';
+import prisma from '@/lib/prisma';
+
+/**
+ * One line of prescription text, e.g.
+ * "Panadol (Paracetamol) 500 mg tablet - 1 tablet, oral, 3 times a day for
+ * 5 days. After meals"
+ */
+export function formatPrescriptionItem(item: PrescriptionItem): string {
+  const name =
+    item.genericName && item.genericName !== item.drug
+      ? `${item.drug} (${item.genericName})`
+      : item.drug;
+  const product = [name, item.strength, item.form].filter(Boolean).join(' ');
+  const dosing = [item.dose, item.route, item.frequency]
+    .filter(Boolean)
+    .join(', ');
+  const duration = item.duration ? ` for ${item.duration}` : '';
+  const instructions = item.instructions ? `. ${item.instructions}` : '';
+
+  return `${product} - ${dosing}${duration}${instructions}`;
+}
+
+export function prescriptionText(items: PrescriptionItem[]): string {
+  return items
+    .map((item, i) => `${i + 1}. ${formatPrescriptionItem(item)}`)
+    .join('\n');
+}
+
+/**
+ * Replace a report's prescription items and rewrite its prescription text,
+ * together with any other report changes (e.g. the approval) in one
+ * transaction. Returns the text
+ */
+export async function savePrescriptionItems(
+  reportId: string,
+  items: PrescriptionItem[],
+  reportData: Prisma.SOAPReportUpdateInput = {}
+): Promise<string> {
+  const text = prescriptionText(items);
+
+  await prisma.$transaction([
+    prisma.prescriptionItem.deleteMany({ where: { reportId } }),
+    prisma.prescriptionItem.createMany({
+      data: items.map((item, position) => ({ ...item, reportId, position })),
+    }),
+    prisma.sOAPReport.update({
+      where: { id: reportId },
+      data: { ...reportData, prescription: text || null },
+    }),
+  ]);
+
+  return text;
+}
+
+/**
+ * A report's prescription items in order (empty for free-text prescriptions)
+ */
+export async function reportPrescriptionItems(
+  reportId: string
+): Promise<PrescriptionItem[]> {
+  const rows = await prisma.prescriptionItem.findMany({
+    where: { reportId },
+    orderBy: { position: 'asc' },
+  });
+
+  return rows.map(row => ({
+    formularyId: row.formularyId,
+    drug: row.drug,
+    genericName: row.genericName,
+    strength: row.strength,
+    form: row.form,
+    dose: row.dose,
+    route: row.route,
+    frequency: row.frequency,
+    duration: row.duration,
+    instructions: row.instructions,
+    instructionsUrdu: row.instructionsUrdu,
+  }));
+}
@@ -0,0 +1,124 @@
+/**
+ * Question Planner
+ * Ranks the next yes/no symptom question by expected information gain
+ *
+ * The top PLANNING_POOL candidates are treated as a distribution over
+ * diagnoses (probabilities normalized to sum to 1). For every symptom the
+ * patient has not answered yet:
+ *
+ *   P(yes)  = sum_i p_i * P(symptom | disease_i)
+ *   gain    = H(differential) - [P(yes) * H(after yes) + P(no) * H(after no)]
+ *
+ * The question with the largest gain is the one whose answer is expected to
+ * shrink the differential the most. Same differential -> same question.
+ */
+
+import type { DiseaseCandidate, NarrowingQuestion } from './types';
+import { rankCandidates, symptomLikelihood } from './disease-scoring';
+import { symptomBaseRate } from './disease-knowledge';
+import { SYMPTOM_LEXICON, symptomLabel } from './symptom-lexicon';
+
+// Only the leading conditions matter for what to ask next
+const PLANNING_POOL = 15;
+
+// Too vague to ask about as a yes/no question
+const UNASKABLE_SYMPTOMS = new Set(['pain']);
+
+interface WeightedDisease {
+  candidate: DiseaseCandidate;
+  weight: number;
+}
+
+function entropy(weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return 0;
+  return weights.reduce((h, w) => {
+    const p = w / total;
+    return p > 0 ? h - p * Math.log2(p) : h;
+  }, 0);
+}
+
+function likelihoodFor(candidate: DiseaseCandidate, symptom: string): number {
+  const likelihoods = candidate.symptomLikelihoods || {};
+  // No knowledge-base data: the answer tells us nothing about this one
+  return Object.keys(likelihoods).length === 0
+    ? symptomBaseRate(symptom)
+    : symptomLikelihood(likelihoods, symptom);
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * One-line explanation: where the symptom is expected vs unexpected
+ */
+function explain(
+  symptom: string,
+  pool: WeightedDisease[],
+  gain: number
+): string {
+  const leading = pool.slice(0, 5).map(d => ({
+    name: d.candidate.name,
+    likelihood: likelihoodFor(d.candidate, symptom),
+  }));
+  const most = leading.reduce((a, b) => (b.likelihood > a.likelihood ? b : a));
+  const least = leading.reduce((a, b) => (b.likelihood < a.likelihood ? b : a));
+
+  return `${symptomLabel(symptom)} is expected with ${most.name} (${percent(most.likelihood)}) but not with ${least.name} (${percent(least.likelihood)}); expected gain ${gain.toFixed(2)} bits`;
+}
+
+/**
+ * Rank unanswered symptom questions for the current differential
+ * `answered` holds every symptom id already reported or denied.
+ */
+export function planNarrowingQuestions(
+  diseases: DiseaseCandidate[],
+  answered: string[],
+  limit = 5
+): NarrowingQuestion[] {
+  const pool: WeightedDisease[] = rankCandidates(diseases)
+    .slice(0, PLANNING_POOL)
+    .map(candidate => ({ candidate, weight: candidate.probability / 100 }));
+
+  if (pool.length < 2) return [];
+
+  const prior = entropy(pool.map(d => d.weight));
+  const known = new Set(answered);
+
+  const ranked = SYMPTOM_LEXICON.filter(
+    s => !known.has(s.id) && !UNASKABLE_SYMPTOMS.has(s.id)
+  )
+    .map(entry => {
+      const likelihoods = pool.map(d => likelihoodFor(d.candidate, entry.id));
+      const yes = pool.map((d, i) => d.weight * likelihoods[i]);
+      const no = pool.map((d, i) => d.weight * (1 - likelihoods[i]));
+
+      const total = pool.reduce((sum, d) => sum + d.weight, 0);
+      const pYes = yes.reduce((sum, w) => sum + w, 0) / total;
+      const expected = pYes * entropy(yes) + (1 - pYes) * entropy(no);
+
+      return { entry, likelihoods, pYes, gain: prior - expected };
+    })
+    // Highest gain first; symptom id breaks ties so the order is stable
+    .sort((a, b) => b.gain - a.gain || a.entry.id.localeCompare(b.entry.id))
+    .slice(0, limit);
+
+  return ranked.map(({ entry, likelihoods, pYes, gain }, i) => ({
+    question: `Do you have ${entry.label.toLowerCase()}?`,
+    questionUrdu: `کیا آپ کو ${entry.labelUrdu} ہے؟`,
+    targetSymptom: entry.id,
+    // Conditions whose probability this answer would move the most
+    targetDiseases: pool
+      .map((d, j) => ({
+        name: d.candidate.name,
+        impact: d.weight * Math.abs(likelihoods[j] - pYes),
+      }))
+      .sort((a, b) => b.impact - a.impact)
+      .slice(0, 3)
+      .map(d => d.name),
+    priority: i + 1,
+    expectedInformationGain: Math.round(gain * 1000) / 1000,
+    rationale: explain(entry.id, pool, gain),
+  }));
+}
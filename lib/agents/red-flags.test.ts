@@ -0,0 +1,36 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CRITICAL_RED_FLAGS, detectRedFlags } from './red-flags';
+
+function critical(text: string): string[] {
+  return detectRedFlags(CRITICAL_RED_FLAGS, [text]).map(rule => rule.flag);
+}
+
+describe('detectRedFlags', () => {
+  test('catches vomiting blood, overdoses and breathing difficulty', () => {
+    for (const text of [
+      "I'm vomiting blood",
+      'khoon ki ulti aa rahi hai',
+      'خون کی الٹی آ رہی ہے',
+      'I took a whole bottle of sleeping pills',
+      'I am not able to breathe',
+      'unable to breathe',
+    ]) {
+      assert.ok(critical(text).length > 0, text);
+    }
+  });
+
+  test('leaves out clauses that deny a symptom', () => {
+    assert.deepEqual(
+      critical("I don't have chest pain or shortness of breath, just a cough"),
+      []
+    );
+    assert.deepEqual(critical('koi seene mein dard nahi, saans theek hai'), []);
+  });
+
+  test('a denial does not hide what follows it', () => {
+    assert.ok(critical("I don't have a fever but I can't breathe").length > 0);
+    assert.ok(critical("No, I can't breathe").length > 0);
+    assert.ok(critical('saans nahi aa rahi').length > 0);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Red Flags
+ * Emergency and urgent warning signs in English, Roman Urdu and Urdu script
+ *
+ * Patients describe symptoms in any of the three, so every rule has a
+ * pattern per language, run on lowercased text. Clauses that deny a
+ * symptom ("I don't have chest pain", "koi dard nahi") are left out before
+ * the patterns run; "but", "and", commas etc. end a clause, so a denial
+ * never hides what follows it. The interview checks the
+ * patient's message as written and as translated (quickEmergencyCheck in
+ * safety-agent.ts); the safety agent checks the SOAP report.
+ *
+ * Recall is measured on the labelled utterances in
+ * fixtures/red-flag-corpus.json: npm run eval:red-flags (npm test fails
+ * below 95% critical recall)
+ */
+
+export interface RedFlagRule {
+  flag: string;
+  score: number; // urgency score when it fires (0-100)
+  patterns: {
+    en: RegExp;
+    roman: RegExp; // Roman Urdu
+    ur: RegExp; // Urdu script
+  };
+}
+
+// Common Roman Urdu spellings
+const CHEST = '(?:seen|sine|chh?ati)[a-z]*';
+const BREATH = 'saa?ns';
+const FEVER = 'b[ou]kh?aa?r';
+
+// Critical red flags that require immediate attention
+export const CRITICAL_RED_FLAGS: RedFlagRule[] = [
+  // Cardiac emergencies
+  {
+    flag: 'Potential cardiac emergency - chest pain with shortness of breath',
+    score: 100,
+    patterns: {
+      en: /chest\s*pain.*breath|breath.*chest\s*pain/i,
+      roman: new RegExp(
+        `${CHEST}\\s.*dard.*${BREATH}|${BREATH}.*${CHEST}\\s.*dard`,
+        'i'
+      ),
+      ur: /(سین|چھاتی).*درد.*سانس|سانس.*(سین|چھاتی).*درد/,
+    },
+  },
+  {
+    flag: 'Suspected heart attack',
+    score: 100,
+    patterns: {
+      en: /heart\s*attack|myocardial\s*infarction/i,
+      roman: /dil\s*k[ae]\s*d[ao]u?r[ae]/i,
+      ur: /دل\s*کا\s*دورہ/,
+    },
+  },
+  {
+    flag: 'Chest pain radiating to arm - cardiac concern',
+    score: 95,
+    patterns: {
+      en: /severe\s*chest\s*pain.*arm|arm.*severe\s*chest\s*pain/i,
+      roman: new RegExp(
+        `${CHEST}\\s.*dard.*(baa?zu|baju)|(baa?zu|baju).*${CHEST}\\s.*dard`,
+        'i'
+      ),
+      ur: /(سین|چھاتی).*درد.*بازو|بازو.*(سین|چھاتی).*درد/,
+    },
+  },
+  {
+    flag: 'Chest discomfort with sweating - cardiac concern',
+    score: 95,
+    patterns: {
+      en: /chest.*(tight|heavy|pressure).*sweat|sweat.*chest.*(tight|heavy|pressure)/i,
+      roman: new RegExp(
+        `(dil\\s*ghabra|${CHEST}\\s*(bhaa?ri|tang)).*pa?see?n|pa?see?n.*(dil\\s*ghabra|${CHEST}\\s*(bhaa?ri|tang))`,
+        'i'
+      ),
+      ur: /(دل\s*گھبرا|(سین|چھاتی).*(بھاری|تنگ)).*پسین|پسین.*(دل\s*گھبرا|(سین|چھاتی).*(بھاری|تنگ))/,
+    },
+  },
+
+  // Neurological emergencies
+  {
+    flag: 'Sudden severe headache - possible stroke/hemorrhage',
+    score: 95,
+    patterns: {
+      en: /sudden.*severe.*headache|worst\s*headache/i,
+      roman:
+        /achaa?nak.*(shadeed|tez|sakht).*sa?r\s*(mein\s*|me\s*|ka\s*)?dard|zindagi\s*ka\s*sab\s*se\s*(bura|shadeed|tez)\s*sa?r|achaa?nak.*sa?r\s*phat|sa?r\s*phat.*achaa?nak/i,
+      ur: /اچانک.*(شدید|تیز|سخت).*سر.*درد|زندگی\s*کا\s*سب\s*سے\s*(برا|شدید)\s*سر|اچانک.*سر\s*پھٹ|سر\s*پھٹ.*اچانک/,
+    },
+  },
+  {
+    flag: 'Stroke warning signs',
+    score: 100,
+    patterns: {
+      en: /stroke|facial\s*droop|speech\s*difficulty|slurred\s*speech/i,
+      roman:
+        /faa?lij|laq?wa|(chehr[ae]|munh)\s*(tedha|terha|latak)|bol(ne|nay)\s*(mein|me)\s*(mushkil|dushwari|takl)|zubaa?n\s*(larh?kh?ara|nahi\s*chal)/i,
+      ur: /فالج|لقوہ|(چہرہ|منہ)\s*(ٹیڑھا|لٹک)|بولنے\s*میں\s*(مشکل|دشواری|تکلیف)|زبان\s*(لڑکھڑا|نہیں\s*چل)/,
+    },
+  },
+  {
+    flag: 'Loss of consciousness',
+    score: 95,
+    patterns: {
+      en: /unconscious|loss\s*of\s*consciousness|passed\s*out|not\s*responding/i,
+      roman: /be\s*hosh|hosh\s*((mein|me)\s*)?(kho|ga?ya|nahi|nai)/i,
+      ur: /بے\s*ہوش|بیہوش|ہوش\s*(میں\s*)?(کھو|نہیں)/,
+    },
+  },
+  {
+    flag: 'Seizure activity',
+    score: 85,
+    patterns: {
+      en: /seizure|convulsion/i,
+      roman:
+        /mirgi|(?<!dil\s*k[ae]\s*)d[ao]u?r[ae]y?\s*(par|pad|aa?y)|jhatk[ey]/i,
+      ur: /مرگی|(?<!دل\s*کا\s*)دورے?\s*(پڑ|آ)|جھٹکے/,
+    },
+  },
+
+  // Respiratory emergencies
+  {
+    flag: 'Severe respiratory distress',
+    score: 100,
+    patterns: {
+      en: /(cannot|can['’]?t|can\s*not|not\s*able\s*to|unable\s*to)\s*breath|severe.*breathing/i,
+      roman: new RegExp(
+        `${BREATH}\\s*(bilkul\\s*)?(nahi|nai|na)\\s*(aa|le)|${BREATH}\\s*ruk|dam\\s*ghut|${BREATH}.*(shadeed|bohat|bahut|sakht)\\s*(mushkil|dushwari|takl)`,
+        'i'
+      ),
+      ur: /سانس\s*(بالکل\s*)?(نہیں|نہ)\s*(آ|لے)|سانس\s*رک|دم\s*گھٹ|سانس.*(شدید|بہت|سخت)\s*(مشکل|دشواری|تکلیف)/,
+    },
+  },
+  {
+    flag: 'Airway emergency',
+    score: 100,
+    patterns: {
+      en: /choking|airway\s*obstruction/i,
+      roman: /(gal[ae]y?|halq)\s*(mein|me)\s*(kuch\s*)?(phans|atak)/i,
+      ur: /(گلے|حلق)\s*میں\s*(کچھ\s*)?(پھنس|اٹک)/,
+    },
+  },
+  {
+    flag: 'Cyanosis - oxygen deprivation',
+    score: 95,
+    patterns: {
+      en: /cyanosis|blue\s*lips|turning\s*blue/i,
+      roman: /ho?o?nt[a-z]*\s*neel|neel[ae]y?\s*ho?o?nt|neela\s*(par|pad|ho)/i,
+      ur: /ہونٹ\s*نیل|نیلے\s*ہونٹ|نیلا\s*(پڑ|ہو)/,
+    },
+  },
+
+  // Trauma/Bleeding
+  {
+    flag: 'Severe bleeding',
+    score: 95,
+    patterns: {
+      en: /severe\s*bleeding|heavy\s*bleeding|uncontrolled\s*bleeding/i,
+      roman:
+        /(bohat|bahut)\s*(zyada\s*|ziada\s*)?khoo?n\s*(beh|bah|nikal|ja)|khoo?n\s*(ruk|band)\s*(hi\s*)?(nahi|nai)/i,
+      ur: /بہت\s*(زیادہ\s*)?خون\s*(بہ|نکل|جا)|خون\s*(رک|بند)\s*(ہی\s*)?(نہیں)/,
+    },
+  },
+  {
+    flag: 'Vomiting blood - possible upper GI bleed',
+    score: 95,
+    patterns: {
+      en: /vomit(ing|ed|s)?\s*(up\s*)?blood|throw(ing)?\s*up\s*blood|hematemesis/i,
+      roman: /khoo?n\s*ki\s*(ult|qay|qai)|ult[iy]\s*(mein|me)\s*khoo?n/i,
+      ur: /خون\s*کی\s*(الٹی|قے)|الٹی\s*میں\s*خون/,
+    },
+  },
+  {
+    flag: 'Head trauma with altered consciousness',
+    score: 90,
+    patterns: {
+      en: /head\s*injury.*confusion|trauma.*head/i,
+      roman:
+        /sa?r\s*(par|pe|mein|me)\s*(shadeed\s*)?(chot|zarb).*(hosh|ulti|uljh|samajh)/i,
+      ur: /سر\s*(پر|میں)\s*(شدید\s*)?(چوٹ|ضرب).*(ہوش|الٹی|الجھ|سمجھ)/,
+    },
+  },
+
+  // Allergic reactions
+  {
+    flag: 'Severe allergic reaction/Anaphylaxis',
+    score: 100,
+    patterns: {
+      en: /anaphylaxis|severe\s*allergic|throat\s*swelling/i,
+      roman:
+        /gal[ae]y?\s*(band|soo?j|suj)|gal[ae]y?\s*(mein|me)\s*soo?jan|zubaa?n\s*(soo?j|suj)/i,
+      ur: /(گلا|گلے)\s*(بند|سوج)|گلے\s*میں\s*سوجن|زبان\s*سوج/,
+    },
+  },
+
+  // Abdominal emergencies
+  {
+    flag: 'Acute abdomen - possible peritonitis',
+    score: 90,
+    patterns: {
+      en: /severe\s*abdominal\s*pain.*rigid/i,
+      roman:
+        /(pai?t|pet)\s*(mein|me)\s*(shadeed|bohat\s*tez)\s*dard.*(sakht|pa?tthar)|(pai?t|pet)\s*(bilkul\s*)?pa?tthar/i,
+      ur: /پیٹ.*(شدید|بہت\s*تیز)\s*درد.*(سخت|پتھر)|پیٹ\s*(بالکل\s*)?پتھر/,
+    },
+  },
+
+  // Psychiatric emergencies
+  {
+    flag: 'Suicide risk - immediate psychiatric evaluation needed',
+    score: 100,
+    patterns: {
+      en: /suicide|self\s*harm|want\s*to\s*die|kill(ing)?\s*myself|(end|take)\s*my\s*(own\s*)?life/i,
+      roman:
+        /khud\s*kush|khud\s*ko\s*(nuq?san|khatam|maar)|mar(na)?\s*(jana\s*)?chaht|jee?na\s*nahi\s*chaht|zindagi\s*khatam\s*kar|apni\s*jaan\s*(le|khatam)/i,
+      ur: /خود\s*کشی|خود\s*کو\s*(نقصان|ختم|مار)|مرنا\s*چاہت|جینا\s*نہیں\s*چاہت|زندگی\s*ختم\s*کر|اپنی\s*جان\s*(لے|لینا|ختم)/,
+    },
+  },
+  {
+    flag: 'Overdose - poisoning risk',
+    score: 100,
+    patterns: {
+      en: /overdos(e|ed|ing)|(whole|entire|full)\s*(bottle|pack|packet|strip)\s*of\s*\w*\s*(pills|tablets|medicine)|took\s*(all|too\s*many)\s*(of\s*)?(my\s*|the\s*)?(pills|tablets)/i,
+      roman:
+        /(saari|puri|poori)\s*(bottle|botal|sheeshi|patti|dabbi)\s*(ki\s*)?(goli|dawai|dawa)|(bohat|bahut)\s*saari\s*goliy?aa?n\s*(kha|le)\s*l/i,
+      ur: /(ساری|پوری)\s*(بوتل|شیشی|پتی|ڈبی).*(گولی|گولیاں|دوا)|بہت\s*ساری\s*گولیاں\s*(کھا|لے)\s*ل/,
+    },
+  },
+];
+
+// Urgent flags (not immediately life-threatening but need prompt attention)
+export const URGENT_FLAGS: RedFlagRule[] = [
+  {
+    flag: 'High fever in child',
+    score: 75,
+    patterns: {
+      en: /high\s*fever.*child|child.*high\s*fever/i,
+      roman: new RegExp(
+        `(bach|baby|munn)[a-z]*\\s.*(tez|shadeed|bohat)\\s*${FEVER}|(tez|shadeed|bohat)\\s*${FEVER}.*(bach|baby|munn)`,
+        'i'
+      ),
+      ur: /(بچ|منے|منی).*(تیز|شدید)\s*بخار|(تیز|شدید)\s*بخار.*(بچ|منے|منی)/,
+    },
+  },
+  {
+    flag: 'Very high fever (39-40°C)',
+    score: 70,
+    patterns: {
+      en: /fever.*39|39.*fever|fever.*40|40.*fever/i,
+      roman: new RegExp(
+        `${FEVER}.*(39|40|10[3-5])|(39|40|10[3-5]).*${FEVER}`,
+        'i'
+      ),
+      ur: /بخار.*(39|40|10[3-5]|۳۹|۴۰|۱۰[۳-۵])|(39|40|10[3-5]|۳۹|۴۰|۱۰[۳-۵]).*بخار/,
+    },
+  },
+  {
+    flag: 'GI bleeding',
+    score: 75,
+    patterns: {
+      en: /blood\s*in\s*stool|rectal\s*bleeding|black\s*stool/i,
+      roman:
+        /(pakh?aa?n|latrine|potty|fuzl)[a-z]*\s*(mein|me)\s*khoo?n|khoo?ni\s*(pechish|dast)|(latrine|pakh?aa?n[ae]|potty)\s*kaa?l/i,
+      ur: /(پاخانے|فضلے)\s*میں\s*خون|خونی\s*(پیچش|دست)|پاخانہ\s*کالا/,
+    },
+  },
+  {
+    flag: 'Blood in urine',
+    score: 65,
+    patterns: {
+      en: /blood\s*(in\s*(my\s*)?urine|when\s*i\s*(pee|urinate))|hematuria/i,
+      roman: /pe?shaa?b\s*(mein|me)\s*khoo?n|khoo?ni\s*pe?shaa?b/i,
+      ur: /پیشاب\s*میں\s*خون|خونی\s*پیشاب/,
+    },
+  },
+  {
+    flag: 'Sudden vision changes',
+    score: 80,
+    patterns: {
+      en: /sudden.*vision|vision.*loss/i,
+      roman:
+        /achaa?nak.*(nazar|dikhai)|nazar\s*(chali|khatam|ja\s*rahi)|dikhai\s*(dena\s*)?band/i,
+      ur: /اچانک.*(نظر|دکھائی)|نظر\s*(چلی|ختم)|دکھائی\s*(دینا\s*)?بند/,
+    },
+  },
+  {
+    flag: 'Severe dehydration',
+    score: 70,
+    patterns: {
+      en: /severe\s*dehydration/i,
+      roman:
+        /(shadeed|bohat\s*zyada)\s*pani\s*ki\s*kami|pani\s*ki\s*(shadeed|bohat)\s*kami/i,
+      ur: /شدید\s*پانی\s*کی\s*کمی|پانی\s*کی\s*(شدید|بہت)\s*کمی/,
+    },
+  },
+  {
+    flag: 'Diabetic ketoacidosis',
+    score: 85,
+    patterns: {
+      en: /diabetic.*ketoacidosis|dka/i,
+      roman:
+        /(sugar|shakar).*(bohat|bahut|zyada)\s*(high|barh|zyada).*(ulti|qay|saa?ns|hosh)/i,
+      ur: /(شوگر|شکر).*(بہت|زیادہ).*(الٹی|قے|سانس|ہوش)/,
+    },
+  },
+  {
+    flag: 'Possible meningitis',
+    score: 90,
+    patterns: {
+      en: /meningitis|stiff\s*neck.*fever/i,
+      roman: new RegExp(
+        `gardan\\s*(akar|akad|sakht).*${FEVER}|${FEVER}.*gardan\\s*(akar|akad|sakht)`,
+        'i'
+      ),
+      ur: /گردن\s*(اکڑ|سخت).*بخار|بخار.*گردن\s*(اکڑ|سخت)/,
+    },
+  },
+];
+
+// Clause boundaries: punctuation and conjunctions, in all three languages
+const CLAUSE_BREAK =
+  /([.,;!?؟،۔]|\s(?:but|and|or|lekin|magar|aur|ya)\s|\s(?:لیکن|مگر|اور|یا)\s)/;
+
+// A clause denying a symptom: "I don't have ...", "no ...", "koi ... nahi".
+// Cues that also describe symptoms ("saans nahi aa rahi", "not responding")
+// are deliberately not denials.
+const DENIAL = [
+  /^(?:(?:i|he|she|we|they|my\s+\w+)\s+)?(?:do|does|did|have|has)\s*(?:not|n['’]t)\s+(?:have|had|feel|felt|get|got)\b/,
+  /^no\s+(?!i\b|i['’]m|one\b)\w/,
+  /^(?:there\s+(?:is|was)\s+no|denies|deny)\b/,
+  /^koi\b.*\b(?:nahi|nai)\b/,
+  /^کوئی.*نہیں/,
+];
+
+function withoutDenials(text: string): string {
+  return text
+    .split(CLAUSE_BREAK)
+    .filter(clause => !DENIAL.some(cue => cue.test(clause.trim())))
+    .join('');
+}
+
+/**
+ * Whether a rule fires on a text, in any of its languages
+ */
+export function matchesRedFlag(rule: RedFlagRule, text: string): boolean {
+  const lower = withoutDenials(text.toLowerCase());
+  return Object.values(rule.patterns).some(pattern => pattern.test(lower));
+}
+
+/**
+ * The rules that fire on any of the texts (e.g. a message as written and
+ * its translation). Texts are checked one by one, not joined.
+ */
+export function detectRedFlags(
+  rules: RedFlagRule[],
+  texts: string[]
+): RedFlagRule[] {
+  return rules.filter(rule =>
+    texts.some(text => text.trim() && matchesRedFlag(rule, text))
+  );
+}
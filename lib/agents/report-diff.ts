@@ -0,0 +1,107 @@
+/**
+ * Report Diff
+ * Section-by-section comparison of two SOAP report versions
+ *
+ * Every field of subjective/objective/assessment/plan is compared as text
+ * (strings, numbers, booleans) or as a list (arrays, records), so a change
+ * reads "Primary diagnosis: Migraine → Tension headache" or "Tests needed:
+ * + CBC, - MRI". Citations and references follow the statements they cite
+ * and are left out. Pure - used by the doctor report page.
+ */
+
+export const SOAP_SECTIONS = [
+  'subjective',
+  'objective',
+  'assessment',
+  'plan',
+] as const;
+
+export type SOAPSection = (typeof SOAP_SECTIONS)[number];
+
+export type SOAPSections = Record<SOAPSection, Record<string, unknown>>;
+
+export type FieldChange =
+  | { field: string; type: 'text'; before: string; after: string }
+  | { field: string; type: 'list'; added: string[]; removed: string[] };
+
+export interface SectionDiff {
+  section: SOAPSection;
+  changes: FieldChange[];
+}
+
+const IGNORED_FIELDS = new Set(['citations', 'references']);
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'object') return String(value);
+  return Object.entries(value)
+    .filter(([, v]) => v !== null && v !== undefined && v !== '')
+    .map(
+      ([k, v]) =>
+        `${k}: ${Array.isArray(v) ? v.map(describe).join(', ') : describe(v)}`
+    )
+    .join('; ');
+}
+
+function isList(value: unknown): boolean {
+  return Array.isArray(value) || (typeof value === 'object' && value !== null);
+}
+
+function items(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(describe).filter(Boolean);
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).map(([k, v]) => `${k}: ${describe(v)}`);
+  }
+  return [];
+}
+
+function diffField(
+  field: string,
+  before: unknown,
+  after: unknown
+): FieldChange | null {
+  if (isList(before) || isList(after)) {
+    const a = items(before);
+    const b = items(after);
+    const added = b.filter(item => !a.includes(item));
+    const removed = a.filter(item => !b.includes(item));
+    return added.length > 0 || removed.length > 0
+      ? { field, type: 'list', added, removed }
+      : null;
+  }
+
+  const a = describe(before);
+  const b = describe(after);
+  return a !== b ? { field, type: 'text', before: a, after: b } : null;
+}
+
+/**
+ * What changed from one version's sections to another's (sections without
+ * changes are omitted)
+ */
+export function diffReportSections(
+  before: SOAPSections,
+  after: SOAPSections
+): SectionDiff[] {
+  return SOAP_SECTIONS.map(section => {
+    const a = before[section] || {};
+    const b = after[section] || {};
+    const fields = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+
+    return {
+      section,
+      changes: fields
+        .filter(field => !IGNORED_FIELDS.has(field))
+        .map(field => diffField(field, a[field], b[field]))
+        .filter((change): change is FieldChange => change !== null),
+    };
+  }).filter(diff => diff.changes.length > 0);
+}
+
+/**
+ * "primaryDiagnosis" → "Primary diagnosis"
+ */
+export function fieldLabel(field: string): string {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
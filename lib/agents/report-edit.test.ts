@@ -0,0 +1,25 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReportEditSchema } from './types';
+
+describe('ReportEditSchema', () => {
+  test('keeps only the fields the doctor sent', () => {
+    const edit = ReportEditSchema.parse({
+      assessment: { primaryDiagnosis: 'Migraine' },
+    });
+    assert.deepEqual(edit, { assessment: { primaryDiagnosis: 'Migraine' } });
+  });
+
+  test('does not default medicalSources, which would wipe the citations', () => {
+    const edit = ReportEditSchema.parse({
+      assessment: { aiAnalysis: 'Updated' },
+    });
+    assert.ok(!('medicalSources' in (edit.assessment || {})));
+  });
+
+  test('rejects fields of the wrong type', () => {
+    assert.ok(
+      !ReportEditSchema.safeParse({ plan: { followUpNeeded: 'yes' } }).success
+    );
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Report Versions
+ * Content history of a SOAP report (SOAPReportVersion)
+ *
+ * The report row holds the current content; every change to it is recorded
+ * as a new version: the original AI output, each regeneration from doctor
+ * feedback, doctor edits and restores of an earlier version. Reports created
+ * before versioning get their content recorded as the original the first
+ * time it changes (ensureBaselineVersion, best effort).
+ *
+ * A content change and its version are written in one transaction
+ * (updateReportWithVersion), so the history never misses a version. Version
+ * numbers are latest + 1; when a concurrent change takes the number first
+ * the change is retried, and given up (null) after MAX_VERSION_ATTEMPTS.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { indexSessionEpisode } from './patient-history';
+import { codeDiagnoses, codingData, reportCodes } from './icd-coding';
+import { STALE_SUMMARY } from './patient-summary';
+import { SOAP_SECTIONS, type SOAPSections } from './report-diff';
+import type { ReportEdit, SOAPReport } from './types';
+import prisma from '@/lib/prisma';
+
+export type ReportVersionKind =
+  | 'original'
+  | 'regenerated'
+  | 'doctor_edit'
+  | 'restored';
+
+// Added by the safety agent after generation; they describe the session, not
+// one version's wording, so a restore keeps the current ones
+const SAFETY_FIELDS = ['redFlags', 'safetyNotes', 'urgencyScore'];
+
+const MAX_VERSION_ATTEMPTS = 3;
+
+const contentSelect = {
+  subjective: true,
+  objective: true,
+  assessment: true,
+  plan: true,
+  generation: true,
+} as const;
+
+type ReportContent = Record<keyof typeof contentSelect, unknown>;
+
+// Who and what produced a version
+export interface ReportVersionMeta {
+  kind: ReportVersionKind;
+  authorId?: string;
+  feedback?: string;
+  aiVersion?: string;
+  restoredFrom?: number;
+}
+
+function asJson(value: unknown): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue;
+}
+
+// The snapshot of a report's content as a version (without its report)
+export function versionSnapshot(
+  version: number,
+  content: ReportContent,
+  meta: ReportVersionMeta
+) {
+  return {
+    version,
+    kind: meta.kind,
+    subjective: asJson(content.subjective),
+    objective: asJson(content.objective),
+    assessment: asJson(content.assessment),
+    plan: asJson(content.plan),
+    generation:
+      meta.kind === 'doctor_edit' || content.generation == null
+        ? undefined
+        : asJson(content.generation),
+    authorId: meta.authorId || null,
+    feedback: meta.feedback || null,
+    aiVersion: meta.aiVersion || null,
+    restoredFrom: meta.restoredFrom ?? null,
+  };
+}
+
+// Unique constraint violation: another change took the version number
+function isVersionConflict(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'P2002';
+}
+
+/**
+ * Record a report's current content as its original version, unless it
+ * already has versions
+ */
+export async function ensureBaselineVersion(reportId: string): Promise<void> {
+  try {
+    if ((await prisma.sOAPReportVersion.count({ where: { reportId } })) > 0) {
+      return;
+    }
+    const report = await prisma.sOAPReport.findUnique({
+      where: { id: reportId },
+      select: { ...contentSelect, createdAt: true },
+    });
+    if (!report) return;
+
+    await prisma.sOAPReportVersion.create({
+      data: {
+        reportId,
+        ...versionSnapshot(1, report, { kind: 'original' }),
+        createdAt: report.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error('   ❌ Failed to record baseline report version:', error);
+  }
+}
+
+/**
+ * Update a report and record its new content as the next version, in one
+ * transaction. Returns the version number, or null when concurrent changes
+ * kept taking the number - the report is left unchanged then.
+ */
+export async function updateReportWithVersion(params: {
+  reportId: string;
+  data: Prisma.SOAPReportUpdateInput;
+  meta: ReportVersionMeta;
+}): Promise<number | null> {
+  const { reportId, data, meta } = params;
+
+  for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS; attempt++) {
+    try {
+      const version = await prisma.$transaction(async tx => {
+        const report = await tx.sOAPReport.update({
+          where: { id: reportId },
+          data,
+          select: contentSelect,
+        });
+        const latest = await tx.sOAPReportVersion.findFirst({
+          where: { reportId },
+          orderBy: { version: 'desc' },
+          select: { version: true },
+        });
+        const next = (latest?.version ?? 0) + 1;
+        await tx.sOAPReportVersion.create({
+          data: { reportId, ...versionSnapshot(next, report, meta) },
+        });
+        return next;
+      });
+
+      console.log(`   🗂️ Report version ${version} recorded (${meta.kind})`);
+      return version;
+    } catch (error) {
+      if (!isVersionConflict(error)) throw error;
+      console.warn(
+        `   ⚠️ Report version taken by a concurrent change (attempt ${attempt})`
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * A report's versions, oldest first, with their authors
+ */
+export async function listReportVersions(reportId: string) {
+  const versions = await prisma.sOAPReportVersion.findMany({
+    where: { reportId },
+    orderBy: { version: 'asc' },
+    include: { author: { select: { id: true, name: true } } },
+  });
+
+  return versions.map(v => ({
+    id: v.id,
+    version: v.version,
+    kind: v.kind as ReportVersionKind,
+    author: v.author,
+    feedback: v.feedback,
+    aiVersion: v.aiVersion,
+    restoredFrom: v.restoredFrom,
+    generation: v.generation,
+    createdAt: v.createdAt.toISOString(),
+    sections: {
+      subjective: v.subjective,
+      objective: v.objective,
+      assessment: v.assessment,
+      plan: v.plan,
+    } as unknown as SOAPSections,
+  }));
+}
+
+// Replace a report's content on a doctor's behalf and record the version
+// (null on a version conflict). The changed report goes back to the
+// doctor's review.
+async function applyDoctorChange(params: {
+  reportId: string;
+  doctorId: string;
+  sections: SOAPSections;
+  generation?: Prisma.InputJsonValue;
+  kind: ReportVersionKind;
+  restoredFrom?: number;
+}): Promise<number | null> {
+  const { reportId, doctorId, sections, generation, kind, restoredFrom } =
+    params;
+
+  // Diagnoses may have changed; codes the doctor reviewed are kept
+  const codes = codeDiagnoses(
+    sections.assessment as unknown as SOAPReport['assessment'],
+    await reportCodes({ id: reportId })
+  );
+
+  await ensureBaselineVersion(reportId);
+  const version = await updateReportWithVersion({
+    reportId,
+    data: {
+      subjective: asJson(sections.subjective),
+      objective: asJson(sections.objective),
+      assessment: asJson(sections.assessment),
+      plan: asJson(sections.plan),
+      ...(generation !== undefined && { generation }),
+      ...codingData(codes),
+      patientSummary: STALE_SUMMARY,
+      reviewStatus: 'in_review',
+      assignedDoctorId: doctorId,
+      updatedAt: new Date(),
+    },
+    meta: { kind, authorId: doctorId, restoredFrom },
+  });
+  if (version !== null) await indexSessionEpisode(reportId);
+  return version;
+}
+
+async function currentSections(reportId: string): Promise<SOAPSections> {
+  const report = await prisma.sOAPReport.findUnique({
+    where: { id: reportId },
+    select: contentSelect,
+  });
+  if (!report) throw new Error(`Report ${reportId} not found`);
+  return report as unknown as SOAPSections;
+}
+
+/**
+ * Make an earlier version the report's content again (as a new version)
+ */
+export async function restoreReportVersion(params: {
+  reportId: string;
+  version: number;
+  doctorId: string;
+}): Promise<number | null> {
+  const { reportId, version, doctorId } = params;
+
+  const target = await prisma.sOAPReportVersion.findUnique({
+    where: { reportId_version: { reportId, version } },
+  });
+  if (!target) throw new Error(`Version ${version} not found`);
+
+  const current = await currentSections(reportId);
+  const safety = Object.fromEntries(
+    SAFETY_FIELDS.filter(f => f in current.assessment).map(f => [
+      f,
+      current.assessment[f],
+    ])
+  );
+
+  return applyDoctorChange({
+    reportId,
+    doctorId,
+    sections: {
+      subjective: target.subjective as Record<string, unknown>,
+      objective: target.objective as Record<string, unknown>,
+      assessment: {
+        ...(target.assessment as Record<string, unknown>),
+        ...safety,
+      },
+      plan: target.plan as Record<string, unknown>,
+    },
+    generation: target.generation ?? undefined,
+    kind: 'restored',
+    restoredFrom: version,
+  });
+}
+
+/**
+ * Apply a doctor's edits to the report's sections (as a new version)
+ */
+export async function editReport(params: {
+  reportId: string;
+  edit: ReportEdit;
+  doctorId: string;
+}): Promise<number | null> {
+  const { reportId, edit, doctorId } = params;
+
+  const current = await currentSections(reportId);
+  const sections = Object.fromEntries(
+    SOAP_SECTIONS.map(section => [
+      section,
+      { ...current[section], ...edit[section] },
+    ])
+  ) as SOAPSections;
+
+  return applyDoctorChange({
+    reportId,
+    doctorId,
+    sections,
+    kind: 'doctor_edit',
+  });
+}
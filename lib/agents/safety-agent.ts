@@ -14,135 +14,13 @@ import { StateGraph } from '@langchain/langgraph';
 import type { SafetyAgentState, SOAPReport, TriageLabel } from './types';
 import { SafetyAgentStateSchema } from './types';
 import { checkEmergencyFlags } from './llm-utils';
-import prisma from '@/lib/prisma';
-
-// Critical red flags that require immediate attention
-const CRITICAL_RED_FLAGS = [
-  // Cardiac emergencies
-  {
-    pattern: /chest\s*pain.*breath|breath.*chest\s*pain/i,
-    flag: 'Potential cardiac emergency - chest pain with shortness of breath',
-    score: 100,
-  },
-  {
-    pattern: /heart\s*attack|myocardial\s*infarction/i,
-    flag: 'Suspected heart attack',
-    score: 100,
-  },
-  {
-    pattern: /severe\s*chest\s*pain.*arm|arm.*severe\s*chest\s*pain/i,
-    flag: 'Chest pain radiating to arm - cardiac concern',
-    score: 95,
-  },
-
-  // Neurological emergencies
-  {
-    pattern: /sudden.*severe.*headache|worst\s*headache/i,
-    flag: 'Sudden severe headache - possible stroke/hemorrhage',
-    score: 95,
-  },
-  {
-    pattern: /stroke|facial\s*droop|speech\s*difficulty/i,
-    flag: 'Stroke warning signs',
-    score: 100,
-  },
-  {
-    pattern: /unconscious|loss\s*of\s*consciousness/i,
-    flag: 'Loss of consciousness',
-    score: 95,
-  },
-  { pattern: /seizure|convulsion/i, flag: 'Seizure activity', score: 85 },
-
-  // Respiratory emergencies
-  {
-    pattern: /cannot\s*breath|can't\s*breath|severe.*breathing/i,
-    flag: 'Severe respiratory distress',
-    score: 100,
-  },
-  {
-    pattern: /choking|airway\s*obstruction/i,
-    flag: 'Airway emergency',
-    score: 100,
-  },
-  {
-    pattern: /cyanosis|blue\s*lips/i,
-    flag: 'Cyanosis - oxygen deprivation',
-    score: 95,
-  },
-
-  // Trauma/Bleeding
-  {
-    pattern: /severe\s*bleeding|heavy\s*bleeding|uncontrolled\s*bleeding/i,
-    flag: 'Severe bleeding',
-    score: 95,
-  },
-  {
-    pattern: /head\s*injury.*confusion|trauma.*head/i,
-    flag: 'Head trauma with altered consciousness',
-    score: 90,
-  },
-
-  // Allergic reactions
-  {
-    pattern: /anaphylaxis|severe\s*allergic|throat\s*swelling/i,
-    flag: 'Severe allergic reaction/Anaphylaxis',
-    score: 100,
-  },
-
-  // Abdominal emergencies
-  {
-    pattern: /severe\s*abdominal\s*pain.*rigid/i,
-    flag: 'Acute abdomen - possible peritonitis',
-    score: 90,
-  },
-
-  // Psychiatric emergencies
-  {
-    pattern: /suicide|self\s*harm|want\s*to\s*die/i,
-    flag: 'Suicide risk - immediate psychiatric evaluation needed',
-    score: 100,
-  },
-];
-
-// Urgent flags (not immediately life-threatening but need prompt attention)
-const URGENT_FLAGS = [
-  {
-    pattern: /high\s*fever.*child|child.*high\s*fever/i,
-    flag: 'High fever in child',
-    score: 75,
-  },
-  {
-    pattern: /fever.*39|39.*fever|fever.*40|40.*fever/i,
-    flag: 'Very high fever (39-40°C)',
-    score: 70,
-  },
-  {
-    pattern: /blood\s*in\s*stool|rectal\s*bleeding/i,
-    flag: 'GI bleeding',
-    score: 75,
-  },
-  {
-    pattern: /blood\s*in\s*urine|hematuria/i,
-    flag: 'Blood in urine',
-    score: 65,
-  },
-  {
-    pattern: /sudden.*vision|vision.*loss/i,
-    flag: 'Sudden vision changes',
-    score: 80,
-  },
-  { pattern: /severe\s*dehydration/i, flag: 'Severe dehydration', score: 70 },
-  {
-    pattern: /diabetic.*ketoacidosis|dka/i,
-    flag: 'Diabetic ketoacidosis',
-    score: 85,
-  },
-  {
-    pattern: /meningitis|stiff\s*neck.*fever/i,
-    flag: 'Possible meningitis',
-    score: 90,
-  },
-];
+import {
+  CRITICAL_RED_FLAGS,
+  URGENT_FLAGS,
+  detectRedFlags,
+  matchesRedFlag,
+} from './red-flags';
+import prisma from '../prisma';
 
 /**
  * Node: Analyze SOAP report for red flags
@@ -172,8 +50,9 @@ async function analyzeRedFlags(state: SafetyAgentState) {
     .toLowerCase();
 
   // Check critical red flags
-  for (const { pattern, flag, score } of CRITICAL_RED_FLAGS) {
-    if (pattern.test(reportText)) {
+  for (const rule of CRITICAL_RED_FLAGS) {
+    const { flag, score } = rule;
+    if (matchesRedFlag(rule, reportText)) {
       redFlagsDetected.push(flag);
       emergencyIndicators.push(`CRITICAL: ${flag}`);
       maxScore = Math.max(maxScore, score);
@@ -182,8 +61,9 @@ async function analyzeRedFlags(state: SafetyAgentState) {
   }
 
   // Check urgent flags
-  for (const { pattern, flag, score } of URGENT_FLAGS) {
-    if (pattern.test(reportText)) {
+  for (const rule of URGENT_FLAGS) {
+    const { flag, score } = rule;
+    if (matchesRedFlag(rule, reportText)) {
       redFlagsDetected.push(flag);
       if (score >= 75) {
         emergencyIndicators.push(`URGENT: ${flag}`);
@@ -226,12 +106,20 @@ async function llmSafetyCheck(state: SafetyAgentState) {
   }
 
   try {
-    const llmResult = await checkEmergencyFlags({
+    const { data: llmResult, generation } = await checkEmergencyFlags({
       symptoms: state.soapReport.subjective.symptoms,
       diagnosis: state.soapReport.assessment.primaryDiagnosis,
       patientAge: undefined, // Could be passed from patient info
     });
 
+    // A canned verdict must not influence triage - keep rule-based findings
+    if (generation.source === 'fallback') {
+      console.warn(
+        '   ⚠️ LLM verification unavailable - rule-based triage only'
+      );
+      return { llmGeneration: generation };
+    }
+
     // Merge LLM findings with rule-based findings
     const mergedFlags = [
       ...new Set([...state.redFlagsDetected, ...llmResult.redFlags]),
@@ -251,6 +139,7 @@ async function llmSafetyCheck(state: SafetyAgentState) {
       redFlagsDetected: mergedFlags,
       emergencyIndicators: mergedEmergency,
       urgencyScore: Math.max(state.urgencyScore, llmResult.urgencyScore),
+      llmGeneration: generation,
     };
   } catch (error) {
     console.error('   ❌ LLM safety check failed:', error);
@@ -293,6 +182,9 @@ async function determineTriageLabel(state: SafetyAgentState) {
     safetyNotes += 'IMMEDIATE MEDICAL ATTENTION REQUIRED. ';
   }
   safetyNotes += `Urgency score: ${urgencyScore}/100.`;
+  if (state.llmGeneration?.source === 'fallback') {
+    safetyNotes += ' LLM verification unavailable - rule-based triage only.';
+  }
 
   console.log(`   🏷️ Triage: ${triageLabel.toUpperCase()}`);
   console.log(`   🚨 Immediate attention: ${requiresImmediateAttention}`);
@@ -392,6 +284,7 @@ export async function runSafetyCheck(params: {
     triageLabel: 'standard' as TriageLabel,
     urgencyScore: 0,
     safetyNotes: '',
+    llmGeneration: null,
     requiresImmediateAttention: false,
     updatedReport: false,
   });
@@ -409,19 +302,14 @@ export async function runSafetyCheck(params: {
 
 /**
  * Quick check for emergency symptoms (for real-time use during interview)
+ * Pass the patient's message as written (often Roman Urdu or Urdu) and its
+ * translation; each is checked in every language
  */
-export function quickEmergencyCheck(symptoms: string[]): {
+export function quickEmergencyCheck(texts: string[]): {
   isEmergency: boolean;
   flags: string[];
 } {
-  const symptomText = symptoms.join(' ').toLowerCase();
-  const flags: string[] = [];
-
-  for (const { pattern, flag } of CRITICAL_RED_FLAGS) {
-    if (pattern.test(symptomText)) {
-      flags.push(flag);
-    }
-  }
+  const flags = detectRedFlags(CRITICAL_RED_FLAGS, texts).map(r => r.flag);
 
   return {
     isEmergency: flags.length > 0,
@@ -0,0 +1,141 @@
+/**
+ * Scripted Chat Model
+ * Deterministic offline LLM stand-in for CI and local demos
+ *
+ * Replays fixture responses instead of calling a hosted model, so the full
+ * interview → SOAP → safety pipeline runs with no network access.
+ *
+ * Fixture matching (first match wins):
+ * - role:  only applies to models created for this role (optional)
+ * - match: case-insensitive regex tested against the full prompt (optional)
+ * - response: a string, or a list replayed in order (wraps around)
+ *
+ * Response templates:
+ * - {{input}} → the last human message
+ * - {{json}}  → the first JSON object embedded in the last human message
+ *
+ * When streamed, the response is replayed word by word so the SSE interview
+ * endpoint behaves like it does against a hosted model.
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import {
+  SimpleChatModel,
+  type BaseChatModelParams,
+} from '@langchain/core/language_models/chat_models';
+import { AIMessageChunk, type BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import type { ModelRole } from './llm-providers';
+import defaultFixtures from './fixtures/scripted-llm.json';
+
+const ScriptedFixtureSchema = z.object({
+  role: z.enum(['translate', 'reason', 'converse', 'document']).optional(),
+  match: z.string().optional(),
+  response: z.union([z.string(), z.array(z.string()).min(1)]),
+});
+
+const ScriptedFixtureFileSchema = z.object({
+  fixtures: z.array(ScriptedFixtureSchema),
+});
+
+export type ScriptedFixture = z.infer<typeof ScriptedFixtureSchema>;
+
+export interface ScriptedChatModelInput extends BaseChatModelParams {
+  role: ModelRole;
+  fixturesPath?: string;
+  fixtures?: ScriptedFixture[];
+}
+
+/**
+ * Load fixtures from a JSON file, or the bundled defaults
+ */
+export function loadScriptedFixtures(fixturesPath?: string): ScriptedFixture[] {
+  const raw = fixturesPath
+    ? JSON.parse(readFileSync(fixturesPath, 'utf-8'))
+    : defaultFixtures;
+  return ScriptedFixtureFileSchema.parse(raw).fixtures;
+}
+
+function extractJsonObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : '{}';
+}
+
+export class ScriptedChatModel extends SimpleChatModel {
+  role: ModelRole;
+  fixtures: ScriptedFixture[];
+  // Replay position per fixture index
+  private cursors = new Map<number, number>();
+
+  constructor(fields: ScriptedChatModelInput) {
+    super(fields);
+    this.role = fields.role;
+    this.fixtures =
+      fields.fixtures || loadScriptedFixtures(fields.fixturesPath);
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    const prompt = messages.map(m => m.text).join('\n');
+    const lastHuman =
+      [...messages].reverse().find(m => m.getType() === 'human')?.text || '';
+
+    const index = this.fixtures.findIndex(
+      f =>
+        (!f.role || f.role === this.role) &&
+        (!f.match || new RegExp(f.match, 'i').test(prompt))
+    );
+
+    if (index < 0) {
+      throw new Error(
+        `No scripted fixture matched for role "${this.role}": ${prompt.slice(0, 80)}...`
+      );
+    }
+
+    const { response } = this.fixtures[index];
+    let text: string;
+    if (Array.isArray(response)) {
+      const position = this.cursors.get(index) || 0;
+      text = response[position % response.length];
+      this.cursors.set(index, position + 1);
+    } else {
+      text = response;
+    }
+
+    return text
+      .replace(/\{\{input\}\}/g, () => lastHuman)
+      .replace(/\{\{json\}\}/g, () => extractJsonObject(lastHuman));
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const text = await this._call(messages);
+
+    // Words with their trailing whitespace, so the chunks join back exactly
+    for (const word of text.match(/\S+\s*|\s+/g) || []) {
+      if (options.signal?.aborted) break;
+      const chunk = new ChatGenerationChunk({
+        message: new AIMessageChunk({ content: word }),
+        text: word,
+      });
+      yield chunk;
+      await runManager?.handleLLMNewToken(
+        word,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { chunk }
+      );
+    }
+  }
+}
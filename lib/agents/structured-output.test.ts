@@ -0,0 +1,112 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { z } from 'zod';
+import { registerLLMProvider } from './llm-providers';
+import { ScriptedChatModel, type ScriptedFixture } from './scripted-llm';
+import { invokeStructured } from './structured-output';
+
+const TriageSchema = z.object({
+  triageLabel: z.enum(['emergency', 'urgent', 'standard', 'routine']),
+  urgencyScore: z.number(),
+});
+
+const FALLBACK = { triageLabel: 'standard' as const, urgencyScore: 0 };
+
+const prompt = ChatPromptTemplate.fromMessages([
+  ['system', 'Triage the complaint. Return JSON.'],
+  ['human', '{complaint}'],
+]);
+
+// Serve the 'reason' role from a provider replaying these fixtures
+function scriptReplies(name: string, fixtures: ScriptedFixture[]): void {
+  registerLLMProvider({
+    name,
+    createModel: role => new ScriptedChatModel({ role, fixtures }),
+  });
+  process.env.LLM_PROVIDER_REASON = name;
+}
+
+function triage(complaint: string, maxAttempts?: number) {
+  return invokeStructured({
+    label: 'Triage',
+    role: 'reason',
+    prompt,
+    input: { complaint },
+    schema: TriageSchema,
+    fallback: () => FALLBACK,
+    maxAttempts,
+  });
+}
+
+describe('invokeStructured', () => {
+  test('accepts valid JSON wrapped in prose and markdown', async () => {
+    scriptReplies('valid', [
+      {
+        response:
+          'Here you go:\n```json\n{"triageLabel": "urgent", "urgencyScore": 70}\n```',
+      },
+    ]);
+    const { data, generation } = await triage('chest pain');
+    assert.deepEqual(data, { triageLabel: 'urgent', urgencyScore: 70 });
+    assert.equal(generation.source, 'llm');
+    assert.equal(generation.attempts, 1);
+  });
+
+  test('repairs an invalid reply on the next attempt', async () => {
+    scriptReplies('repair', [
+      {
+        response: [
+          '{"triageLabel": "soon", "urgencyScore": 70}',
+          '{"triageLabel": "urgent", "urgencyScore": 70}',
+        ],
+      },
+    ]);
+    const { data, generation } = await triage('chest pain');
+    assert.equal(data.triageLabel, 'urgent');
+    assert.equal(generation.source, 'repaired');
+    assert.equal(generation.attempts, 2);
+    assert.ok(generation.errors[0].startsWith('attempt 1: triageLabel'));
+  });
+
+  test('falls back after maxAttempts invalid replies', async () => {
+    scriptReplies('invalid', [{ response: 'no JSON here' }]);
+    const { data, generation } = await triage('chest pain', 2);
+    assert.deepEqual(data, FALLBACK);
+    assert.equal(generation.source, 'fallback');
+    assert.equal(generation.attempts, 2);
+    assert.equal(generation.errors.length, 2);
+  });
+
+  test('keeps braces in prompt variables literal', async () => {
+    scriptReplies('literal', [
+      {
+        match: 'my fever is \\{high\\}',
+        response: '{"triageLabel": "routine", "urgencyScore": 10}',
+      },
+      { response: 'the complaint did not reach the model as written' },
+    ]);
+
+    const { data, generation } = await triage('my fever is {high}');
+    assert.deepEqual(data, { triageLabel: 'routine', urgencyScore: 10 });
+    assert.equal(generation.source, 'llm');
+  });
+
+  test('falls back without calling the model when the prompt cannot be formatted', async () => {
+    scriptReplies('unused', [
+      { response: '{"triageLabel": "urgent", "urgencyScore": 70}' },
+    ]);
+    const { data, generation } = await invokeStructured({
+      label: 'Triage',
+      role: 'reason',
+      prompt,
+      input: {},
+      schema: TriageSchema,
+      fallback: () => FALLBACK,
+    });
+    assert.deepEqual(data, FALLBACK);
+    assert.equal(generation.source, 'fallback');
+    assert.equal(generation.attempts, 0);
+    assert.match(generation.errors[0], /^prompt could not be formatted/);
+  });
+});
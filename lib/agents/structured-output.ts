@@ -0,0 +1,261 @@
+/**
+ * Structured LLM Output
+ * Schema-validated JSON generation with a bounded repair/retry loop
+ *
+ * Flow:
+ * 1. Invoke the role's model with the prompt
+ * 2. Extract the JSON payload and validate it against a zod schema
+ * 3. On failure, feed the validation errors back and ask for a correction
+ * 4. After MAX_STRUCTURED_ATTEMPTS, use the caller's fallback - and say so
+ *
+ * Every result carries a GenerationRecord so downstream consumers (and
+ * doctors) can tell model output from a canned default.
+ */
+
+import type { ChatPromptTemplate } from '@langchain/core/prompts';
+import {
+  AIMessage,
+  HumanMessage,
+  type BaseMessage,
+} from '@langchain/core/messages';
+import type { z } from 'zod';
+import { getChatModel, type ModelRole } from './llm-providers';
+import type { GenerationRecord } from './types';
+
+const DEFAULT_STRUCTURED_ATTEMPTS = 3;
+
+// A positive integer, or the default for a missing/invalid value
+function parseAttempts(value: string | undefined): number {
+  const attempts = Number(value);
+  return Number.isInteger(attempts) && attempts > 0
+    ? attempts
+    : DEFAULT_STRUCTURED_ATTEMPTS;
+}
+
+const MAX_STRUCTURED_ATTEMPTS = parseAttempts(
+  process.env.LLM_STRUCTURED_MAX_ATTEMPTS
+);
+
+export interface StructuredResult<T> {
+  data: T;
+  generation: GenerationRecord;
+}
+
+/**
+ * Pull the outermost JSON object/array out of a model reply
+ * (tolerates markdown fences and leading/trailing prose)
+ */
+function extractJson(text: string): string | null {
+  const cleaned = text.replace(/```(?:json)?/gi, '');
+  const objectStart = cleaned.indexOf('{');
+  const arrayStart = cleaned.indexOf('[');
+
+  const useArray =
+    arrayStart >= 0 && (objectStart < 0 || arrayStart < objectStart);
+  const start = useArray ? arrayStart : objectStart;
+  const end = cleaned.lastIndexOf(useArray ? ']' : '}');
+
+  return start >= 0 && end > start ? cleaned.slice(start, end + 1) : null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(
+    issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+  );
+}
+
+function validateReply<T>(
+  raw: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; problems: string[] } {
+  const json = extractJson(raw);
+  if (!json) {
+    return { success: false, problems: ['(root): no JSON found in response'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      problems: [`(root): invalid JSON - ${errorMessage(error)}`],
+    };
+  }
+
+  const result = schema.safeParse(parsed);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, problems: formatIssues(result.error) };
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+};
+
+/**
+ * Decode the prefix of a JSON string body that has arrived so far
+ * (stops at the closing quote or at an escape split across chunks)
+ */
+function decodePartialJsonString(raw: string): string {
+  let decoded = '';
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      decoded += char;
+      continue;
+    }
+
+    const next = raw[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = raw.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      decoded += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      decoded += JSON_ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+  return decoded;
+}
+
+/**
+ * Follow one string field of a JSON reply while it is being streamed, so the
+ * human-readable part can be shown before the whole object is valid
+ *
+ *   const reader = createStreamedFieldReader('content');
+ *   const delta = reader.push(chunkText); // newly decoded characters
+ */
+export function createStreamedFieldReader(field: string) {
+  const keyPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = '';
+  let emitted = 0;
+
+  return {
+    push(chunk: string): string {
+      buffer += chunk;
+      const match = keyPattern.exec(buffer);
+      if (!match) return '';
+
+      const value = decodePartialJsonString(
+        buffer.slice(match.index + match[0].length)
+      );
+      const delta = value.slice(emitted);
+      emitted = value.length;
+      return delta;
+    },
+    reset() {
+      buffer = '';
+      emitted = 0;
+    },
+    get hasOutput() {
+      return emitted > 0;
+    },
+  };
+}
+
+/**
+ * Invoke a prompt and return schema-validated data, repairing or falling back
+ */
+export async function invokeStructured<T>(params: {
+  label: string;
+  role: ModelRole;
+  prompt: ChatPromptTemplate;
+  input?: Record<string, unknown>;
+  schema: z.ZodType<T>;
+  fallback: () => T;
+  maxAttempts?: number;
+}): Promise<StructuredResult<T>> {
+  const { label, role, prompt, input = {}, schema, fallback } = params;
+  const maxAttempts = Math.max(
+    1,
+    params.maxAttempts ?? MAX_STRUCTURED_ATTEMPTS
+  );
+
+  const errors: string[] = [];
+  const fallbackResult = (attempts: number): StructuredResult<T> => {
+    console.error(
+      `   ❌ ${label}: no valid output after ${attempts} attempts - using fallback`
+    );
+    return {
+      data: fallback(),
+      generation: {
+        source: 'fallback',
+        attempts,
+        errors,
+        generatedAt: new Date().toISOString(),
+      },
+    };
+  };
+
+  let messages: BaseMessage[];
+  try {
+    messages = await prompt.formatMessages(input);
+  } catch (error) {
+    // A template error would fail every attempt the same way
+    errors.push(`prompt could not be formatted: ${errorMessage(error)}`);
+    return fallbackResult(0);
+  }
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let raw: string;
+    try {
+      const reply = await getChatModel(role).invoke(messages);
+      raw = reply.text;
+    } catch (error) {
+      // Transport/provider failure - retry the same conversation
+      errors.push(
+        `attempt ${attempt}: model call failed: ${errorMessage(error)}`
+      );
+      continue;
+    }
+
+    const validation = validateReply(raw, schema);
+    if (validation.success) {
+      if (attempt > 1) {
+        console.log(`   🔧 ${label}: repaired on attempt ${attempt}`);
+      }
+      return {
+        data: validation.data,
+        generation: {
+          source: attempt === 1 ? 'llm' : 'repaired',
+          attempts: attempt,
+          errors,
+          generatedAt: new Date().toISOString(),
+        },
+      };
+    }
+
+    const { problems } = validation;
+    console.warn(
+      `   ⚠️ ${label}: attempt ${attempt} invalid - ${problems.join('; ')}`
+    );
+    errors.push(...problems.map(p => `attempt ${attempt}: ${p}`));
+
+    // Repair: show the model its own reply and what was wrong with it
+    messages.push(
+      new AIMessage(raw),
+      new HumanMessage(
+        `Your previous reply did not match the required format:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Return ONLY the corrected JSON with the same structure. No markdown, no explanations.`
+      )
+    );
+  }
+
+  return fallbackResult(maxAttempts);
+}
+
+export { MAX_STRUCTURED_ATTEMPTS };
@@ -0,0 +1,102 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractSymptoms } from './symptom-lexicon';
+
+function extract(text: string) {
+  const { present, negated } = extractSymptoms(text);
+  return { present: [...present].sort(), negated: [...negated].sort() };
+}
+
+describe('extractSymptoms', () => {
+  test('maps English, Roman Urdu and Urdu terms to one id', () => {
+    assert.deepEqual(extract('I have fever').present, ['fever']);
+    assert.deepEqual(extract('mujhe bukhar hai').present, ['fever']);
+    assert.deepEqual(extract('مجھے بخار ہے').present, ['fever']);
+  });
+
+  test('negates forward and backward cues', () => {
+    assert.deepEqual(extract('no fever').negated, ['fever']);
+    assert.deepEqual(extract('bukhar nahi hai').negated, ['fever']);
+    assert.deepEqual(extract('کھانسی نہیں ہے').negated, ['cough']);
+  });
+
+  test('carries a negation across a list', () => {
+    assert.deepEqual(extract('no fever, cough or headache'), {
+      present: [],
+      negated: ['cough', 'fever', 'headache'],
+    });
+    assert.deepEqual(extract('bukhar ya khansi nahi'), {
+      present: [],
+      negated: ['cough', 'fever'],
+    });
+  });
+
+  test('stops a negation at "but"', () => {
+    assert.deepEqual(extract('No fever but I have a cough'), {
+      present: ['cough'],
+      negated: ['fever'],
+    });
+  });
+
+  test('does not negate what follows a bare "no"', () => {
+    assert.deepEqual(extract('No, I have a headache').present, ['headache']);
+  });
+
+  describe('breathlessness idioms', () => {
+    for (const text of [
+      'saans nahi aa rahi',
+      'saans nahi aati',
+      'saans lene mein dushwari hai',
+      'سانس نہیں آ رہی',
+    ]) {
+      test(text, () => {
+        assert.deepEqual(extract(text), {
+          present: ['shortness_of_breath'],
+          negated: [],
+        });
+      });
+    }
+  });
+
+  describe('"cannot breathe" phrasings', () => {
+    for (const text of [
+      "I can't breathe",
+      'I cannot breathe',
+      'I am not able to breathe properly',
+      'unable to breathe since morning',
+    ]) {
+      test(text, () => {
+        assert.deepEqual(extract(text), {
+          present: ['shortness_of_breath'],
+          negated: [],
+        });
+      });
+    }
+  });
+
+  test('a backward cue does not reach across "aur"', () => {
+    assert.deepEqual(extract('Seene mein dard aur saans nahi aa rahi'), {
+      present: ['chest_pain', 'shortness_of_breath'],
+      negated: [],
+    });
+    assert.deepEqual(extract('sar dard hai aur kuch nahi'), {
+      present: ['headache'],
+      negated: [],
+    });
+  });
+
+  test('"never had X but now I have it" reports X', () => {
+    assert.deepEqual(extract('I never had chest pain but now I have it'), {
+      present: ['chest_pain'],
+      negated: [],
+    });
+    assert.deepEqual(extract('pehle bukhar nahi tha lekin ab ho gaya'), {
+      present: ['fever'],
+      negated: [],
+    });
+    assert.deepEqual(extract('No fever but now I am fine'), {
+      present: [],
+      negated: ['fever'],
+    });
+  });
+});
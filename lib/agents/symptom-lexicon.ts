@@ -0,0 +1,1091 @@
+/**
+ * Symptom Lexicon
+ * Bilingual (English / Roman Urdu / Urdu script) symptom vocabulary with
+ * negation-aware extraction
+ *
+ * Every surface form maps to a canonical symptom id, so "bukhar", "بخار" and
+ * "fever" all become `fever`. DiagnosisState stores ids; use symptomLabel()
+ * wherever a symptom is shown to a person or put into a prompt.
+ *
+ * Negation:
+ * - Forward cues ("no", "not", "without", "نہ") negate symptoms up to
+ *   FORWARD_SCOPE tokens later in the same clause
+ * - Backward cues ("nahi", "نہیں") negate symptoms up to BACKWARD_SCOPE tokens
+ *   earlier, which is how Urdu and Roman Urdu place them ("bukhar nahi hai")
+ * - A negation carries across a list ("no fever, cough or cold",
+ *   "bukhar ya khansi nahi") but stops at "but" / "lekin" / sentence ends
+ * - A bare answer ("No, but I have a headache") does not negate what follows
+ * - A backward cue does not reach across "aur" / "ya" to an earlier symptom
+ * - "...but now I have it" takes back the denial of the symptoms before it
+ */
+
+export type SymptomCategory =
+  | 'respiratory'
+  | 'cardiovascular'
+  | 'gastrointestinal'
+  | 'neurological'
+  | 'musculoskeletal'
+  | 'infectious'
+  | 'dermatological'
+  | 'mental_health'
+  | 'urinary'
+  | 'general';
+
+export interface SymptomEntry {
+  id: string;
+  label: string;
+  labelUrdu: string;
+  category: SymptomCategory;
+  terms: {
+    en: string[];
+    roman: string[];
+    ur: string[];
+  };
+}
+
+export interface SymptomFinding {
+  id: string;
+  term: string; // surface form as written by the patient (normalized)
+  negated: boolean;
+}
+
+export interface SymptomExtraction {
+  present: string[]; // canonical ids the patient reported
+  negated: string[]; // canonical ids the patient denied
+  findings: SymptomFinding[];
+  isDenial: boolean; // a negative answer that reported no symptom
+  isAffirmation: boolean; // a bare "yes" / "haan" that named no symptom
+}
+
+export const SYMPTOM_LEXICON: SymptomEntry[] = [
+  // Infectious / general
+  {
+    id: 'fever',
+    label: 'Fever',
+    labelUrdu: 'بخار',
+    category: 'infectious',
+    terms: {
+      en: ['fever', 'feverish', 'temperature', 'high temperature'],
+      roman: ['bukhar', 'bukhaar', 'bokhar'],
+      ur: ['بخار'],
+    },
+  },
+  {
+    id: 'chills',
+    label: 'Chills',
+    labelUrdu: 'کپکپی',
+    category: 'infectious',
+    terms: {
+      en: ['chills', 'shivering', 'shivers', 'rigors'],
+      roman: ['kapkapi', 'kapkapahat', 'thand lagna', 'sardi lagna'],
+      ur: ['کپکپی', 'ٹھنڈ لگنا', 'سردی لگنا'],
+    },
+  },
+  {
+    id: 'sweating',
+    label: 'Sweating',
+    labelUrdu: 'پسینہ',
+    category: 'general',
+    terms: {
+      en: ['sweating', 'sweats', 'night sweats'],
+      roman: ['paseena', 'pasina'],
+      ur: ['پسینہ', 'پسینے'],
+    },
+  },
+  {
+    id: 'fatigue',
+    label: 'Fatigue / weakness',
+    labelUrdu: 'تھکن / کمزوری',
+    category: 'general',
+    terms: {
+      en: [
+        'fatigue',
+        'tired',
+        'tiredness',
+        'exhausted',
+        'exhaustion',
+        'weakness',
+        'weak',
+        'lethargy',
+        'lethargic',
+        'low energy',
+      ],
+      roman: ['thakan', 'thakaan', 'thakawat', 'kamzori', 'kamzoori', 'susti'],
+      ur: ['تھکن', 'تھکان', 'تھکاوٹ', 'کمزوری', 'سستی'],
+    },
+  },
+  {
+    id: 'loss_of_appetite',
+    label: 'Loss of appetite',
+    labelUrdu: 'بھوک نہ لگنا',
+    category: 'general',
+    terms: {
+      en: [
+        'loss of appetite',
+        'poor appetite',
+        'no appetite',
+        'lost my appetite',
+        'lost appetite',
+      ],
+      roman: [
+        'bhook nahi',
+        'bhook nahin',
+        'bhook kam',
+        'bhook na lagna',
+        'bhook khatam',
+        'bhuk nahi',
+      ],
+      ur: ['بھوک نہیں', 'بھوک کم', 'بھوک نہ لگنا'],
+    },
+  },
+  {
+    id: 'weight_loss',
+    label: 'Weight loss',
+    labelUrdu: 'وزن میں کمی',
+    category: 'general',
+    terms: {
+      en: ['weight loss', 'losing weight', 'lost weight'],
+      roman: ['wazan kam', 'wazan ghat', 'wazan gir'],
+      ur: ['وزن کم', 'وزن میں کمی', 'وزن گھٹ'],
+    },
+  },
+  {
+    id: 'swelling',
+    label: 'Swelling',
+    labelUrdu: 'سوجن',
+    category: 'general',
+    terms: {
+      en: ['swelling', 'swollen'],
+      roman: ['sujan', 'soojan', 'sooja', 'suja'],
+      ur: ['سوجن', 'سوجا', 'سوج'],
+    },
+  },
+  {
+    id: 'bleeding',
+    label: 'Bleeding',
+    labelUrdu: 'خون بہنا',
+    category: 'general',
+    terms: {
+      en: [
+        'bleeding',
+        'bleed',
+        'blood in stool',
+        'blood in urine',
+        'coughing blood',
+        'coughing up blood',
+        'vomiting blood',
+      ],
+      roman: ['khoon behna', 'khoon aana', 'khoon aa raha', 'khoon nikalna'],
+      ur: ['خون بہنا', 'خون آنا', 'خون نکلنا'],
+    },
+  },
+  {
+    id: 'pain',
+    label: 'Pain (site unspecified)',
+    labelUrdu: 'درد',
+    category: 'general',
+    terms: {
+      en: ['pain', 'ache', 'aching', 'hurts', 'hurting', 'sore'],
+      roman: ['dard', 'drd'],
+      ur: ['درد'],
+    },
+  },
+
+  // Respiratory
+  {
+    id: 'cough',
+    label: 'Cough',
+    labelUrdu: 'کھانسی',
+    category: 'respiratory',
+    terms: {
+      en: ['cough', 'coughing'],
+      roman: ['khansi', 'khaansi', 'khasi'],
+      ur: ['کھانسی'],
+    },
+  },
+  {
+    id: 'shortness_of_breath',
+    label: 'Shortness of breath',
+    labelUrdu: 'سانس پھولنا',
+    category: 'respiratory',
+    terms: {
+      en: [
+        'shortness of breath',
+        'short of breath',
+        'breathless',
+        'breathlessness',
+        'difficulty breathing',
+        'trouble breathing',
+        'hard to breathe',
+        "can't breathe",
+        'cant breathe',
+        'cannot breathe',
+        'not able to breathe',
+        'unable to breathe',
+      ],
+      roman: [
+        'saans phoolna',
+        'saans phool',
+        'sans phoolna',
+        'saans ki taklif',
+        'saans ki takleef',
+        'saans lene mein taklif',
+        'saans lene mein mushkil',
+        'saans lene mein dushwari',
+        'saans nahi aa rahi',
+        'saans nahi aati',
+      ],
+      ur: [
+        'سانس پھولنا',
+        'سانس پھول',
+        'سانس کی تکلیف',
+        'سانس لینے میں دشواری',
+        'سانس نہیں آ رہی',
+      ],
+    },
+  },
+  {
+    id: 'wheezing',
+    label: 'Wheezing',
+    labelUrdu: 'سانس میں سیٹی',
+    category: 'respiratory',
+    terms: {
+      en: ['wheezing', 'wheeze'],
+      roman: ['saans mein seeti', 'seeti'],
+      ur: ['سانس میں سیٹی', 'سیٹی'],
+    },
+  },
+  {
+    id: 'runny_nose',
+    label: 'Runny / blocked nose',
+    labelUrdu: 'زکام',
+    category: 'respiratory',
+    terms: {
+      en: [
+        'runny nose',
+        'blocked nose',
+        'stuffy nose',
+        'nasal congestion',
+        'common cold',
+        'head cold',
+      ],
+      roman: ['zukam', 'zukaam', 'nazla', 'naak behna', 'naak band'],
+      ur: ['زکام', 'نزلہ', 'ناک بہنا', 'ناک بند'],
+    },
+  },
+  {
+    id: 'sneezing',
+    label: 'Sneezing',
+    labelUrdu: 'چھینکیں',
+    category: 'respiratory',
+    terms: {
+      en: ['sneezing', 'sneeze', 'sneezes'],
+      roman: ['cheenk', 'cheenkain', 'chheenk', 'chheenkein'],
+      ur: ['چھینک', 'چھینکیں'],
+    },
+  },
+  {
+    id: 'sore_throat',
+    label: 'Sore throat',
+    labelUrdu: 'گلا خراب',
+    category: 'respiratory',
+    terms: {
+      en: [
+        'sore throat',
+        'throat pain',
+        'scratchy throat',
+        'painful swallowing',
+      ],
+      roman: ['gala kharab', 'gala dard', 'gale mein dard', 'gale me dard'],
+      ur: ['گلا خراب', 'گلے میں درد', 'گلے میں خراش'],
+    },
+  },
+  {
+    id: 'ear_pain',
+    label: 'Ear pain',
+    labelUrdu: 'کان درد',
+    category: 'respiratory',
+    terms: {
+      en: ['ear pain', 'earache', 'ear ache', 'pain in my ear', 'pain in ear'],
+      roman: ['kaan dard', 'kaan mein dard', 'kaan me dard'],
+      ur: ['کان درد', 'کان میں درد'],
+    },
+  },
+
+  // Cardiovascular
+  {
+    id: 'chest_pain',
+    label: 'Chest pain',
+    labelUrdu: 'سینے میں درد',
+    category: 'cardiovascular',
+    terms: {
+      en: [
+        'chest pain',
+        'chest tightness',
+        'chest discomfort',
+        'tight chest',
+        'pain in my chest',
+        'pain in chest',
+      ],
+      roman: [
+        'seene mein dard',
+        'seene me dard',
+        'seena dard',
+        'sine mein dard',
+        'seene mein dabao',
+      ],
+      ur: ['سینے میں درد', 'سینہ درد', 'سینے میں دباؤ'],
+    },
+  },
+  {
+    id: 'palpitations',
+    label: 'Palpitations',
+    labelUrdu: 'دل کی دھڑکن تیز',
+    category: 'cardiovascular',
+    terms: {
+      en: [
+        'palpitations',
+        'palpitation',
+        'racing heart',
+        'heart racing',
+        'pounding heart',
+        'heart pounding',
+        'irregular heartbeat',
+      ],
+      roman: [
+        'dil ki dhadkan tez',
+        'dhadkan tez',
+        'dil tez dharakna',
+        'dil ghabrana',
+      ],
+      ur: ['دل کی دھڑکن تیز', 'دھڑکن تیز', 'دل گھبرانا'],
+    },
+  },
+
+  // Neurological
+  {
+    id: 'headache',
+    label: 'Headache',
+    labelUrdu: 'سر درد',
+    category: 'neurological',
+    terms: {
+      en: ['headache', 'headaches', 'migraine', 'head pain', 'head hurts'],
+      roman: [
+        'sar dard',
+        'sir dard',
+        'sar mein dard',
+        'sir mein dard',
+        'sar me dard',
+        'sir me dard',
+      ],
+      ur: ['سر درد', 'سر میں درد'],
+    },
+  },
+  {
+    id: 'dizziness',
+    label: 'Dizziness',
+    labelUrdu: 'چکر',
+    category: 'neurological',
+    terms: {
+      en: ['dizziness', 'dizzy', 'light-headed', 'lightheaded', 'vertigo'],
+      roman: ['chakkar', 'chakar', 'sar chakrana', 'sir chakrana'],
+      ur: ['چکر', 'سر چکرانا'],
+    },
+  },
+  {
+    id: 'fainting',
+    label: 'Fainting',
+    labelUrdu: 'بے ہوشی',
+    category: 'neurological',
+    terms: {
+      en: ['fainting', 'fainted', 'faint', 'passed out', 'blacked out'],
+      roman: ['behosh', 'behoshi', 'be hosh', 'ghash'],
+      ur: ['بے ہوش', 'بے ہوشی', 'بیہوشی', 'غش'],
+    },
+  },
+  {
+    id: 'numbness',
+    label: 'Numbness',
+    labelUrdu: 'سن ہونا',
+    category: 'neurological',
+    terms: {
+      en: ['numbness', 'numb'],
+      roman: ['sunn', 'sun hona', 'sunn hona'],
+      ur: ['سن ہونا', 'سن ہو'],
+    },
+  },
+  {
+    id: 'tingling',
+    label: 'Tingling',
+    labelUrdu: 'جھنجھناہٹ',
+    category: 'neurological',
+    terms: {
+      en: ['tingling', 'pins and needles'],
+      roman: ['jhunjhunahat', 'jhunjhuni', 'chunchunahat'],
+      ur: ['جھنجھناہٹ', 'چنچناہٹ'],
+    },
+  },
+  {
+    id: 'blurred_vision',
+    label: 'Blurred vision',
+    labelUrdu: 'دھندلا نظر آنا',
+    category: 'neurological',
+    terms: {
+      en: [
+        'blurred vision',
+        'blurry vision',
+        'double vision',
+        'trouble seeing',
+        'vision problems',
+      ],
+      roman: ['dhundla dikhna', 'dhundla nazar', 'nazar dhundli'],
+      ur: ['دھندلا نظر', 'دھندلا دکھائی', 'نظر دھندلی'],
+    },
+  },
+
+  // Gastrointestinal
+  {
+    id: 'abdominal_pain',
+    label: 'Abdominal pain',
+    labelUrdu: 'پیٹ درد',
+    category: 'gastrointestinal',
+    terms: {
+      en: [
+        'abdominal pain',
+        'stomach pain',
+        'stomach ache',
+        'stomachache',
+        'tummy ache',
+        'belly pain',
+        'stomach cramps',
+        'abdominal cramps',
+        'pain in my stomach',
+        'pain in stomach',
+      ],
+      roman: [
+        'pait dard',
+        'pet dard',
+        'pait mein dard',
+        'pet mein dard',
+        'pait me dard',
+        'pet me dard',
+      ],
+      ur: ['پیٹ درد', 'پیٹ میں درد'],
+    },
+  },
+  {
+    id: 'nausea',
+    label: 'Nausea',
+    labelUrdu: 'متلی',
+    category: 'gastrointestinal',
+    terms: {
+      en: ['nausea', 'nauseous', 'nauseated', 'queasy', 'feel sick'],
+      roman: ['matli', 'mutli', 'ji matlana', 'jee matlana', 'ji machlana'],
+      ur: ['متلی', 'جی متلانا', 'جی مچلانا'],
+    },
+  },
+  {
+    id: 'vomiting',
+    label: 'Vomiting',
+    labelUrdu: 'الٹی',
+    category: 'gastrointestinal',
+    terms: {
+      en: ['vomiting', 'vomit', 'vomited', 'throwing up', 'threw up'],
+      roman: ['ulti', 'ultee', 'ultiyan', 'qay'],
+      ur: ['الٹی', 'الٹیاں', 'قے'],
+    },
+  },
+  {
+    id: 'diarrhea',
+    label: 'Diarrhoea',
+    labelUrdu: 'دست',
+    category: 'gastrointestinal',
+    terms: {
+      en: [
+        'diarrhea',
+        'diarrhoea',
+        'loose motions',
+        'loose stools',
+        'watery stools',
+      ],
+      roman: ['dast', 'dusth', 'pait kharab', 'pet kharab'],
+      ur: ['دست', 'اسہال', 'پیٹ خراب'],
+    },
+  },
+  {
+    id: 'constipation',
+    label: 'Constipation',
+    labelUrdu: 'قبض',
+    category: 'gastrointestinal',
+    terms: {
+      en: ['constipation', 'constipated'],
+      roman: ['qabz', 'qabzi', 'kabz'],
+      ur: ['قبض'],
+    },
+  },
+  {
+    id: 'heartburn',
+    label: 'Heartburn / acidity',
+    labelUrdu: 'سینے میں جلن',
+    category: 'gastrointestinal',
+    terms: {
+      en: ['heartburn', 'acid reflux', 'acidity', 'indigestion'],
+      roman: ['seene mein jalan', 'seene me jalan', 'tezabiyat', 'tezabiat'],
+      ur: ['سینے میں جلن', 'تیزابیت'],
+    },
+  },
+
+  // Musculoskeletal
+  {
+    id: 'back_pain',
+    label: 'Back pain',
+    labelUrdu: 'کمر درد',
+    category: 'musculoskeletal',
+    terms: {
+      en: [
+        'back pain',
+        'backache',
+        'lower back pain',
+        'pain in my back',
+        'pain in back',
+      ],
+      roman: ['kamar dard', 'kamar mein dard', 'kamar me dard'],
+      ur: ['کمر درد', 'کمر میں درد'],
+    },
+  },
+  {
+    id: 'joint_pain',
+    label: 'Joint pain',
+    labelUrdu: 'جوڑوں کا درد',
+    category: 'musculoskeletal',
+    terms: {
+      en: [
+        'joint pain',
+        'joint pains',
+        'painful joints',
+        'knee pain',
+        'joints hurt',
+      ],
+      roman: [
+        'jor dard',
+        'jodon mein dard',
+        'joron mein dard',
+        'jorron ka dard',
+        'ghutne mein dard',
+        'ghutnon mein dard',
+      ],
+      ur: ['جوڑوں میں درد', 'جوڑوں کا درد', 'گھٹنے میں درد', 'گھٹنوں میں درد'],
+    },
+  },
+  {
+    id: 'muscle_pain',
+    label: 'Muscle / body aches',
+    labelUrdu: 'جسم میں درد',
+    category: 'musculoskeletal',
+    terms: {
+      en: [
+        'muscle pain',
+        'muscle ache',
+        'muscle aches',
+        'body ache',
+        'body aches',
+        'body pain',
+        'myalgia',
+      ],
+      roman: [
+        'pathon mein dard',
+        'jism dard',
+        'jism mein dard',
+        'badan dard',
+        'badan mein dard',
+      ],
+      ur: ['پٹھوں میں درد', 'جسم میں درد', 'بدن درد', 'بدن میں درد'],
+    },
+  },
+
+  // Dermatological
+  {
+    id: 'rash',
+    label: 'Rash',
+    labelUrdu: 'دانے',
+    category: 'dermatological',
+    terms: {
+      en: ['rash', 'rashes', 'hives', 'skin spots'],
+      roman: ['daane', 'dane', 'chhaale'],
+      ur: ['دانے', 'دھبے', 'چھالے'],
+    },
+  },
+  {
+    id: 'itching',
+    label: 'Itching',
+    labelUrdu: 'خارش',
+    category: 'dermatological',
+    terms: {
+      en: ['itching', 'itchy', 'itch'],
+      roman: ['khujli', 'kharish', 'khaarish'],
+      ur: ['کھجلی', 'خارش'],
+    },
+  },
+
+  // Urinary
+  {
+    id: 'burning_urination',
+    label: 'Painful / burning urination',
+    labelUrdu: 'پیشاب میں جلن',
+    category: 'urinary',
+    terms: {
+      en: [
+        'burning urination',
+        'painful urination',
+        'burning when urinating',
+        'pain when urinating',
+        'burning when i pee',
+      ],
+      roman: ['peshab mein jalan', 'peshab me jalan', 'peshab mein dard'],
+      ur: ['پیشاب میں جلن', 'پیشاب میں درد'],
+    },
+  },
+  {
+    id: 'frequent_urination',
+    label: 'Frequent urination',
+    labelUrdu: 'بار بار پیشاب',
+    category: 'urinary',
+    terms: {
+      en: ['frequent urination', 'urinating often', 'peeing a lot'],
+      roman: ['baar baar peshab', 'bar bar peshab', 'zyada peshab'],
+      ur: ['بار بار پیشاب', 'زیادہ پیشاب'],
+    },
+  },
+
+  // Mental health
+  {
+    id: 'insomnia',
+    label: 'Trouble sleeping',
+    labelUrdu: 'نیند نہ آنا',
+    category: 'mental_health',
+    terms: {
+      en: [
+        'insomnia',
+        "can't sleep",
+        'cannot sleep',
+        'trouble sleeping',
+        'difficulty sleeping',
+        'poor sleep',
+      ],
+      roman: ['neend nahi', 'neend nahin', 'neend na aana', 'bekhwabi'],
+      ur: ['نیند نہیں', 'نیند نہ آنا', 'بے خوابی'],
+    },
+  },
+  {
+    id: 'anxiety',
+    label: 'Anxiety / stress',
+    labelUrdu: 'گھبراہٹ',
+    category: 'mental_health',
+    terms: {
+      en: ['anxiety', 'anxious', 'nervous', 'panic', 'stress', 'stressed'],
+      roman: ['ghabrahat', 'ghabrahut', 'pareshani', 'bechaini', 'tension'],
+      ur: ['گھبراہٹ', 'پریشانی', 'بے چینی'],
+    },
+  },
+  {
+    id: 'low_mood',
+    label: 'Low mood',
+    labelUrdu: 'اداسی',
+    category: 'mental_health',
+    terms: {
+      en: ['depression', 'depressed', 'low mood', 'hopeless', 'feeling down'],
+      roman: ['udaasi', 'udasi', 'mayoosi', 'mayusi'],
+      ur: ['اداسی', 'مایوسی'],
+    },
+  },
+];
+
+// ============================================
+// NEGATION CUES
+// ============================================
+
+const FORWARD_SCOPE = 6;
+const BACKWARD_SCOPE = 3;
+
+// Negate what follows: "no fever", "not coughing", "na bukhar na khansi"
+const FORWARD_NEGATIONS = new Set([
+  'no',
+  'not',
+  'never',
+  'without',
+  'denies',
+  'denied',
+  'neither',
+  'nor',
+  "don't",
+  'dont',
+  "doesn't",
+  'doesnt',
+  "didn't",
+  'didnt',
+  "haven't",
+  'havent',
+  "hasn't",
+  'hasnt',
+  "isn't",
+  'isnt',
+  "aren't",
+  "wasn't",
+  'na',
+  'baghair',
+  'نہ',
+  'بغیر',
+]);
+
+// Negate what precedes: "bukhar nahi hai", "کھانسی نہیں"
+const BACKWARD_NEGATIONS = new Set([
+  'nahi',
+  'nahin',
+  'nhi',
+  'nai',
+  'na',
+  'baghair',
+  'نہیں',
+  'نہ',
+  'بغیر',
+]);
+
+// "Yes" answers to a yes/no symptom question
+const AFFIRMATIONS = new Set([
+  'yes',
+  'yeah',
+  'yep',
+  'yup',
+  'haan',
+  'han',
+  'ha',
+  'jee',
+  'ji',
+  'bilkul',
+  'ہاں',
+  'جی',
+  'بالکل',
+]);
+
+// Words that end a negation scope inside a sentence
+const CLAUSE_BREAKS = new Set([
+  'but',
+  'however',
+  'although',
+  'though',
+  'except',
+  'lekin',
+  'magar',
+  'لیکن',
+  'مگر',
+]);
+
+// A backward cue does not reach across these to an earlier symptom:
+// "seene mein dard aur ... nahi" negates what follows "aur" only
+const CONJUNCTIONS = new Set(['and', 'or', 'aur', 'ya', 'اور', 'یا']);
+
+// Tokens allowed between two list items for a negation to carry over
+const LIST_CONNECTORS = new Set([
+  ',',
+  '،',
+  'and',
+  'or',
+  'nor',
+  'aur',
+  'ya',
+  'اور',
+  'یا',
+  'any',
+  'koi',
+  'کوئی',
+]);
+
+// A clause naming no symptom that takes back the denial of the symptoms
+// just before it: "I never had chest pain, but now I have it",
+// "pehle bukhar nahi tha lekin ab ho gaya"
+const RECURRENCES = [
+  ['have', 'it'],
+  ['having', 'it'],
+  ['has', 'it'],
+  ['got', 'it'],
+  ['get', 'it'],
+  ['ab', 'ho'],
+  ['ab', 'hai'],
+  ['اب', 'ہو'],
+  ['اب', 'ہے'],
+];
+
+// ============================================
+// TEXT NORMALIZATION
+// ============================================
+
+/**
+ * Lowercase and fold Arabic-script variants so Urdu typed on Arabic keyboards
+ * matches the lexicon
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u2018\u2019`]/g, "'")
+    .replace(/[\u064A\u0649]/g, '\u06CC') // Arabic yeh -> Urdu yeh
+    .replace(/\u0643/g, '\u06A9') // Arabic kaf -> Urdu kaf
+    .replace(/[\u064B-\u065F\u0670]/g, '') // harakat
+    .replace(/[\u200B-\u200F]/g, ''); // zero-width joiners / marks
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/[\p{L}\p{M}\p{N}']+|[,،]/gu) || [];
+}
+
+/**
+ * Split into clauses: sentence punctuation (incl. ۔ and ؟) and contrastive
+ * conjunctions close a negation scope
+ */
+function splitClauses(text: string): string[][] {
+  const clauses: string[][] = [];
+  for (const sentence of normalizeText(text).split(/[.;:!?۔؟\n]+/)) {
+    let current: string[] = [];
+    for (const token of tokenize(sentence)) {
+      if (CLAUSE_BREAKS.has(token)) {
+        if (current.length > 0) clauses.push(current);
+        current = [];
+      } else {
+        current.push(token);
+      }
+    }
+    if (current.length > 0) clauses.push(current);
+  }
+  return clauses;
+}
+
+// ============================================
+// TERM INDEX
+// ============================================
+
+interface IndexedTerm {
+  id: string;
+  tokens: string[];
+}
+
+const SYMPTOMS_BY_ID = new Map(SYMPTOM_LEXICON.map(s => [s.id, s]));
+
+// First token -> candidate terms, longest first
+const TERM_INDEX = (() => {
+  const index = new Map<string, IndexedTerm[]>();
+  for (const entry of SYMPTOM_LEXICON) {
+    const { en, roman, ur } = entry.terms;
+    for (const term of [...en, ...roman, ...ur]) {
+      const tokens = tokenize(normalizeText(term));
+      if (tokens.length === 0) continue;
+      const bucket = index.get(tokens[0]) || [];
+      bucket.push({ id: entry.id, tokens });
+      index.set(tokens[0], bucket);
+    }
+  }
+  for (const bucket of index.values()) {
+    bucket.sort((a, b) => b.tokens.length - a.tokens.length);
+  }
+  return index;
+})();
+
+interface ClauseMatch {
+  id: string;
+  start: number;
+  end: number; // exclusive
+  negation: 'forward' | 'backward' | null;
+}
+
+function matchAt(tokens: string[], start: number): IndexedTerm | null {
+  for (const term of TERM_INDEX.get(tokens[start]) || []) {
+    if (term.tokens.every((t, i) => tokens[start + i] === t)) return term;
+  }
+  return null;
+}
+
+/**
+ * Longest-match symptom terms in one clause
+ */
+function matchClause(tokens: string[]): ClauseMatch[] {
+  const matches: ClauseMatch[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const term = matchAt(tokens, i);
+    if (term) {
+      matches.push({
+        id: term.id,
+        start: i,
+        end: i + term.tokens.length,
+        negation: null,
+      });
+      i += term.tokens.length;
+    } else {
+      i++;
+    }
+  }
+  return matches;
+}
+
+function mentionsRecurrence(tokens: string[]): boolean {
+  return tokens.some((token, i) =>
+    RECURRENCES.some(([a, b]) => token === a && tokens[i + 1] === b)
+  );
+}
+
+function onlyConnectorsBetween(
+  tokens: string[],
+  from: number,
+  to: number
+): boolean {
+  return tokens.slice(from, to).every(t => LIST_CONNECTORS.has(t));
+}
+
+/**
+ * Mark negated matches in one clause. Scopes never reach past a neighbouring
+ * symptom; lists are handled by carrying the negation across connectors.
+ */
+function applyNegation(tokens: string[], matches: ClauseMatch[]): void {
+  matches.forEach((match, m) => {
+    const prevEnd = m > 0 ? matches[m - 1].end : 0;
+    const nextStart =
+      m < matches.length - 1 ? matches[m + 1].start : tokens.length;
+
+    for (
+      let j = match.start - 1;
+      j >= Math.max(prevEnd, match.start - FORWARD_SCOPE);
+      j--
+    ) {
+      // "No, I have a headache" - the cue answers the question, not the symptom
+      if (FORWARD_NEGATIONS.has(tokens[j]) && tokens[j + 1] !== ',') {
+        match.negation = 'forward';
+        return;
+      }
+    }
+
+    for (
+      let j = match.end;
+      j < Math.min(nextStart, match.end + BACKWARD_SCOPE);
+      j++
+    ) {
+      // Lists ("bukhar ya khansi nahi") are carried over below instead
+      if (CONJUNCTIONS.has(tokens[j])) break;
+      if (BACKWARD_NEGATIONS.has(tokens[j])) {
+        match.negation = 'backward';
+        return;
+      }
+    }
+  });
+
+  // "no fever, cough or cold"
+  for (let m = 1; m < matches.length; m++) {
+    const prev = matches[m - 1];
+    if (
+      prev.negation === 'forward' &&
+      !matches[m].negation &&
+      onlyConnectorsBetween(tokens, prev.end, matches[m].start)
+    ) {
+      matches[m].negation = 'forward';
+    }
+  }
+
+  // "bukhar ya khansi nahi"
+  for (let m = matches.length - 2; m >= 0; m--) {
+    const next = matches[m + 1];
+    if (
+      next.negation === 'backward' &&
+      !matches[m].negation &&
+      onlyConnectorsBetween(tokens, matches[m].end, next.start)
+    ) {
+      matches[m].negation = 'backward';
+    }
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Extract reported and denied symptoms from a patient message
+ * A symptom that is both reported and denied in one message counts as present.
+ */
+export function extractSymptoms(text: string): SymptomExtraction {
+  const findings: SymptomFinding[] = [];
+  let previous: SymptomFinding[] = []; // findings of the last clause naming any
+  let hasNegationCue = false;
+  let hasAffirmation = false;
+
+  for (const tokens of splitClauses(text)) {
+    const matches = matchClause(tokens);
+
+    // "...but now I have it" - the earlier denial no longer holds
+    if (matches.length === 0 && mentionsRecurrence(tokens)) {
+      previous.forEach(finding => (finding.negated = false));
+      continue;
+    }
+
+    if (
+      tokens.some(t => FORWARD_NEGATIONS.has(t) || BACKWARD_NEGATIONS.has(t))
+    ) {
+      hasNegationCue = true;
+    }
+    if (tokens.some(t => AFFIRMATIONS.has(t))) hasAffirmation = true;
+
+    applyNegation(tokens, matches);
+
+    const clauseFindings = matches.map(match => ({
+      id: match.id,
+      term: tokens.slice(match.start, match.end).join(' '),
+      negated: match.negation !== null,
+    }));
+    findings.push(...clauseFindings);
+    if (clauseFindings.length > 0) previous = clauseFindings;
+  }
+
+  const present = [...new Set(findings.filter(f => !f.negated).map(f => f.id))];
+  const negated = [
+    ...new Set(
+      findings.filter(f => f.negated && !present.includes(f.id)).map(f => f.id)
+    ),
+  ];
+
+  return {
+    present,
+    negated,
+    findings,
+    isDenial: hasNegationCue && present.length === 0,
+    isAffirmation: hasAffirmation && !hasNegationCue && findings.length === 0,
+  };
+}
+
+/**
+ * Display label for a symptom id (unknown values, e.g. from sessions saved
+ * before the lexicon existed, are returned unchanged)
+ */
+export function symptomLabel(id: string, language: 'en' | 'ur' = 'en'): string {
+  const entry = SYMPTOMS_BY_ID.get(id);
+  if (!entry) return id;
+  return language === 'ur' ? entry.labelUrdu : entry.label;
+}
+
+export function symptomLabels(
+  ids: string[],
+  language: 'en' | 'ur' = 'en'
+): string[] {
+  return ids.map(id => symptomLabel(id, language));
+}
+
+export function isKnownSymptom(id: string): boolean {
+  return SYMPTOMS_BY_ID.has(id);
+}
+
+/**
+ * Organ-system categories touched by a set of symptom ids
+ */
+export function symptomCategories(ids: string[]): SymptomCategory[] {
+  const categories = new Set<SymptomCategory>();
+  for (const id of ids) {
+    const entry = SYMPTOMS_BY_ID.get(id);
+    if (entry) categories.add(entry.category);
+  }
+  return [...categories];
+}
@@ -0,0 +1,197 @@
+/**
+ * Symptom Records
+ * Structured OPQRST characterization of each complaint
+ *
+ * Onset, Provocation, Quality, Region / Radiation, Severity (0-10), Timing.
+ * A record is opened when the lexicon first identifies a symptom; the
+ * reasoning model then reports whatever details the patient gives on later
+ * turns (symptomDetails) and they are merged in. A detail is only replaced
+ * when the patient restates it, so earlier answers are never lost.
+ */
+
+import type {
+  SymptomCharacterization,
+  SymptomDetail,
+  SymptomRecord,
+} from './types';
+import {
+  extractSymptoms,
+  isKnownSymptom,
+  symptomLabel,
+} from './symptom-lexicon';
+
+export const OPQRST_ATTRIBUTES = [
+  'onset',
+  'provocation',
+  'quality',
+  'region',
+  'radiation',
+  'severity',
+  'timing',
+] as const;
+
+export type OpqrstAttribute = (typeof OPQRST_ATTRIBUTES)[number];
+
+// How each attribute is phrased to the reasoning model
+export const OPQRST_LABELS: Record<OpqrstAttribute, string> = {
+  onset: 'onset (when and how it started)',
+  provocation: 'what makes it better or worse',
+  quality: 'quality (what it feels like)',
+  region: 'location',
+  radiation: 'radiation (does it spread)',
+  severity: 'severity (0-10)',
+  timing: 'timing (constant, comes and goes, time of day)',
+};
+
+// Whole-body complaints: asking where they are makes no sense
+const SYSTEMIC_SYMPTOMS = new Set([
+  'fever',
+  'chills',
+  'sweating',
+  'fatigue',
+  'loss_of_appetite',
+  'weight_loss',
+  'dizziness',
+  'fainting',
+  'insomnia',
+  'anxiety',
+  'low_mood',
+]);
+
+// Only pain spreads anywhere
+const RADIATING_SYMPTOMS = new Set([
+  'pain',
+  'headache',
+  'chest_pain',
+  'abdominal_pain',
+  'back_pain',
+  'joint_pain',
+  'muscle_pain',
+  'ear_pain',
+  'heartburn',
+]);
+
+/**
+ * OPQRST attributes that apply to a symptom
+ */
+export function applicableAttributes(symptom: string): OpqrstAttribute[] {
+  return OPQRST_ATTRIBUTES.filter(attribute => {
+    if (attribute === 'region') return !SYSTEMIC_SYMPTOMS.has(symptom);
+    if (attribute === 'radiation') return RADIATING_SYMPTOMS.has(symptom);
+    return true;
+  });
+}
+
+/**
+ * Applicable attributes the patient has not described yet
+ */
+export function missingAttributes(record: SymptomRecord): OpqrstAttribute[] {
+  return applicableAttributes(record.symptom).filter(
+    attribute => record[attribute] === undefined
+  );
+}
+
+/**
+ * Keep one record per identified symptom: open records for new ones and drop
+ * records for symptoms the patient has since denied
+ */
+export function syncSymptomRecords(
+  records: SymptomRecord[],
+  identifiedSymptoms: string[],
+  turn: number
+): SymptomRecord[] {
+  const identified = new Set(identifiedSymptoms);
+  const kept = records.filter(
+    r => identified.has(r.symptom) || !isKnownSymptom(r.symptom)
+  );
+  const open = new Set(kept.map(r => r.symptom));
+  const opened = identifiedSymptoms
+    .filter(s => !open.has(s))
+    .map(symptom => ({ symptom, firstReportedTurn: turn, updatedTurn: turn }));
+  return [...kept, ...opened];
+}
+
+/**
+ * Lexicon id for the model's symptom name (free text when nothing matches)
+ */
+function resolveSymptom(name: string): string {
+  const normalized = name.trim().toLowerCase();
+  const id = normalized.replace(/\s+/g, '_');
+  if (isKnownSymptom(id)) return id;
+  return extractSymptoms(normalized).present[0] ?? normalized;
+}
+
+/**
+ * Fold this turn's details into the records
+ */
+export function mergeSymptomDetails(
+  records: SymptomRecord[],
+  details: SymptomDetail[],
+  turn: number
+): SymptomRecord[] {
+  const merged = records.map(r => ({ ...r }));
+
+  for (const detail of details) {
+    const symptom = resolveSymptom(detail.symptom);
+    let record = merged.find(r => r.symptom === symptom);
+    if (!record) {
+      record = { symptom, firstReportedTurn: turn, updatedTurn: turn };
+      merged.push(record);
+    }
+
+    for (const attribute of OPQRST_ATTRIBUTES) {
+      const value = detail[attribute];
+      if (value === null || value === undefined) continue;
+      if (attribute === 'severity') {
+        record.severity = Math.round(Number(value));
+      } else if (String(value).trim()) {
+        record[attribute] = String(value).trim();
+      } else {
+        continue;
+      }
+      record.updatedTurn = turn;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * The complaint the patient came in with: the earliest record still open
+ */
+export function primaryComplaint(
+  records: SymptomRecord[]
+): SymptomRecord | undefined {
+  return [...records].sort(
+    (a, b) => a.firstReportedTurn - b.firstReportedTurn
+  )[0];
+}
+
+/**
+ * One line per complaint, e.g. "Headache: onset 3 days ago; severity 7/10"
+ */
+export function formatSymptomRecord(record: SymptomRecord): string {
+  const parts = OPQRST_ATTRIBUTES.filter(a => record[a] !== undefined).map(a =>
+    a === 'severity' ? `severity ${record.severity}/10` : `${a} ${record[a]}`
+  );
+  return `${symptomLabel(record.symptom)}: ${parts.join('; ') || 'no details yet'}`;
+}
+
+/**
+ * SOAP report view of a record
+ */
+export function characterizeSymptom(
+  record: SymptomRecord
+): SymptomCharacterization {
+  return {
+    symptom: symptomLabel(record.symptom),
+    onset: record.onset,
+    provocation: record.provocation,
+    quality: record.quality,
+    region: record.region,
+    radiation: record.radiation,
+    severity: record.severity,
+    timing: record.timing,
+    unknown: missingAttributes(record),
+  };
+}
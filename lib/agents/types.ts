@@ -79,22 +79,94 @@ export interface DiseaseCandidate {
   matchedSymptoms: string[];
   differentiatingSymptoms: string[];
   severity: SeverityLevel;
+  prior?: number; // 0-100, probability before any finding
+  symptomLikelihoods?: Record<string, number>; // symptom id -> P(symptom | disease)
+  unscored?: boolean; // not in the knowledge base: findings do not move it
+  evidence?: ProbabilityContribution[];
+  knowledgeEvidence?: KnowledgeEvidence;
+}
+
+// What the medical knowledge base says about a candidate
+// (see knowledge-verification.ts)
+export interface KnowledgeEvidence {
+  symptoms: string[]; // symptom ids the retrieved entries list
+  sources: string[]; // knowledge-base sources (or chunk ids)
+  verifiedTurn: number;
+}
+
+// One finding's effect on a candidate's probability (see disease-scoring.ts)
+export interface ProbabilityContribution {
+  turn: number;
+  symptom: string; // symptom id
+  finding: 'present' | 'absent';
+  likelihoodRatio: number;
+  change: number; // probability points, signed
+  probability: number; // 0-100, after this finding
+}
+
+// Why a condition in the differential rose or fell - shown to doctors
+export interface DifferentialEvidence {
+  condition: string;
+  prior: number;
+  probability: number;
+  contributions: Array<{
+    symptom: string; // display label
+    finding: 'present' | 'absent';
+    likelihoodRatio: number;
+    change: number;
+    turn: number;
+  }>;
 }
 
 export interface DiagnosisState {
   potentialDiseases: DiseaseCandidate[];
   confidenceScore: number; // 0-100
-  identifiedSymptoms: string[];
+  identifiedSymptoms: string[]; // canonical symptom ids (see symptom-lexicon)
+  negativeFindings: string[]; // symptom ids the patient explicitly denied
+  symptomRecords: SymptomRecord[]; // OPQRST per complaint, in reported order
   ruledOutDiseases: string[];
   narrowingQuestions: NarrowingQuestion[];
+  // The planner question put to the patient last turn; unset when the turn
+  // asked something else (e.g. OPQRST), so a bare yes/no is not mapped to it
+  askedQuestion?: NarrowingQuestion;
+}
+
+// OPQRST characterization of one complaint, filled in over several turns
+// (see symptom-records.ts)
+export interface SymptomRecord {
+  symptom: string; // symptom id (free text when the lexicon has no match)
+  onset?: string;
+  provocation?: string; // what makes it better or worse
+  quality?: string;
+  region?: string;
+  radiation?: string;
+  severity?: number; // 0-10, patient rating
+  timing?: string;
+  firstReportedTurn: number;
+  updatedTurn: number;
+}
+
+// Doctor-facing OPQRST summary of one complaint in the SOAP report
+export interface SymptomCharacterization {
+  symptom: string; // display label
+  onset?: string;
+  provocation?: string;
+  quality?: string;
+  region?: string;
+  radiation?: string;
+  severity?: number;
+  timing?: string;
+  unknown: string[]; // OPQRST attributes never established
 }
 
 export interface NarrowingQuestion {
   question: string;
   questionUrdu: string;
-  targetSymptom: string;
+  targetSymptom: string; // symptom id
   targetDiseases: string[];
   priority: number;
+  expectedInformationGain?: number; // bits (see question-planner.ts)
+  rationale?: string;
 }
 
 // ========== SOAP REPORT TYPES ==========
@@ -104,6 +176,8 @@ export interface SOAPReport {
     symptoms: string[];
     patientHistory: string;
     patientNarrative: string;
+    symptomCharacterization?: SymptomCharacterization[];
+    pastEpisodes?: PastEpisode[]; // earlier sessions relevant to this one
   };
   objective: {
     reportedSymptoms: string[];
@@ -119,6 +193,9 @@ export interface SOAPReport {
     aiAnalysis: string;
     redFlags: string[];
     medicalSources: string[];
+    differentialEvidence?: DifferentialEvidence[];
+    references?: SourceReference[];
+    citations?: StatementCitation[];
   };
   plan: {
     recommendations: string[];
@@ -126,6 +203,7 @@ export interface SOAPReport {
     specialistReferral?: string;
     followUpNeeded: boolean;
     urgency: TriageLabel;
+    citations?: StatementCitation[];
   };
   metadata: {
     generatedAt: string;
@@ -134,6 +212,7 @@ export interface SOAPReport {
     department?: string;
     triageLabel: TriageLabel;
     aiVersion: string;
+    generation?: GenerationRecord;
   };
 }
 
@@ -143,8 +222,214 @@ export interface RAGContext {
   sources: string[];
   diseases: string[];
   relevanceScore: number;
+  chunks?: RetrievedSource[]; // what the context was built from
+}
+
+export interface RetrievedSource {
+  id: string; // vector id of the chunk
+  source: string; // knowledge-base source it was ingested from
+  title: string; // disease / subject the chunk is about
+  snippet: string;
+  relevance: number; // 0-1
 }
 
+// Retrieved during the interview and kept for the whole session, so the
+// SOAP report can cite it (see citations.ts)
+export interface RAGSource extends RetrievedSource {
+  turn: number; // interview turn it was first retrieved
+}
+
+// ========== PATIENT HISTORY TYPES ==========
+// A past session of the same patient, retrieved from their history
+// namespace (see patient-history.ts)
+export interface PastEpisode {
+  sessionId: string;
+  reportId: string;
+  date: string; // YYYY-MM-DD of the session
+  chiefComplaint: string;
+  symptoms: string[]; // labels
+  diagnosis: string; // report's primary diagnosis
+  reviewStatus: ReviewStatus;
+  relevance: number; // 0-1
+}
+
+// ========== CITATION TYPES ==========
+// A session source as listed in the report ("S1", "S2", ...)
+export interface SourceReference extends RAGSource {
+  key: string;
+}
+
+// An assessment/plan statement and the references backing it
+export interface StatementCitation {
+  statement: string;
+  sources: string[]; // SourceReference keys
+}
+
+// ========== ICD-10 CODING TYPES ==========
+// A code from the offline ICD-10 table (see icd-coding.ts)
+export interface ICD10Candidate {
+  code: string;
+  title: string;
+  confidence: number; // 0-1, how well the diagnosis text matches
+}
+
+// suggested: picked by the coding step, confirmed: the doctor kept the
+// suggestion, overridden: the doctor chose another code, uncoded: no match
+export type DiagnosisCodeStatus =
+  | 'suggested'
+  | 'confirmed'
+  | 'overridden'
+  | 'uncoded';
+
+// ICD-10 coding of one assessment diagnosis
+export interface DiagnosisCode {
+  diagnosis: string; // free text as written in the assessment
+  role: 'primary' | 'differential';
+  candidates: ICD10Candidate[]; // best first
+  code: string | null;
+  title: string | null;
+  status: DiagnosisCodeStatus;
+  reviewedBy?: string; // doctor who confirmed or overrode the code
+  reviewedAt?: string;
+}
+
+// ========== PATIENT SUMMARY TYPES ==========
+// Plain-language account of a report for the patient (see patient-summary.ts)
+export interface PatientSummaryText {
+  discussed: string; // what the session covered and what it points to
+  watchFor: string[]; // warning signs to seek care for
+  nextSteps: string[];
+}
+
+// Shown to the patient only once a doctor approved the report
+export interface PatientSummary {
+  urdu: PatientSummaryText; // Urdu script
+  roman: PatientSummaryText; // Roman Urdu, English medical terms kept
+  generatedAt: string;
+  generation?: GenerationRecord;
+}
+
+// ========== PRESCRIPTION TYPES ==========
+// One drug on a doctor's prescription (see prescriptions.ts)
+export interface PrescriptionItem {
+  formularyId: string | null; // lib/constants/formulary.ts entry, null if typed in
+  drug: string; // brand or generic name as prescribed
+  genericName: string | null;
+  strength: string; // e.g. "500 mg", "120 mg/5 ml"
+  form: string; // tablet, syrup, ...
+  dose: string; // amount per dose, e.g. "1 tablet", "5 ml"
+  route: string;
+  frequency: string; // e.g. "3 times a day"
+  duration: string; // e.g. "5 days"
+  instructions: string; // English
+  instructionsUrdu: string;
+}
+
+// ========== PRESCRIPTION SAFETY TYPES ==========
+// Findings of the prescribing checks (see prescription-safety.ts)
+export type PrescriptionWarningKind =
+  | 'allergy'
+  | 'interaction'
+  | 'duplicate'
+  | 'age'
+  | 'pregnancy'
+  | 'unchecked'; // free-text lines naming no formulary drug
+
+export interface PrescriptionWarning {
+  id: string; // stable across checks, so decisions can refer to it
+  kind: PrescriptionWarningKind;
+  severity: 'major' | 'moderate';
+  rule: string; // lib/constants/drug-interactions.ts rule id
+  drugs: string[]; // prescribed drugs involved, as written
+  conflictsWith?: string; // allergy or current medication from the history
+  message: string;
+}
+
+// acknowledged: noted, prescribing as planned; overridden: the doctor judges
+// the warning does not apply or the benefit outweighs it (reason required)
+export type PrescriptionWarningDecisionKind = 'acknowledged' | 'overridden';
+
+export interface PrescriptionWarningDecision {
+  warningId: string;
+  decision: PrescriptionWarningDecisionKind;
+  reason: string;
+}
+
+// A warning with the doctor's decision, stored on the report for audit
+export interface ReviewedPrescriptionWarning extends PrescriptionWarning {
+  decision: PrescriptionWarningDecisionKind;
+  reason: string;
+  decidedBy: string;
+  decidedAt: string;
+}
+
+// ========== STRUCTURED LLM OUTPUT TYPES ==========
+// llm: valid on first attempt, repaired: valid after feeding errors back,
+// fallback: never validated - the caller's canned default was used
+export type GenerationSource = 'llm' | 'repaired' | 'fallback';
+
+export interface GenerationRecord {
+  source: GenerationSource;
+  attempts: number;
+  errors: string[];
+  generatedAt: string;
+}
+
+// ========== INTERVIEW COMPLETION ==========
+// When the interview may stop asking questions (see completion-policy.ts)
+export interface CompletionPolicy {
+  minTurns: number; // questions before any early completion
+  maxTurns: number;
+  confidenceThreshold: number; // 0-100, lead of the top condition over the runner-up
+  maxDiseasesForCompletion: number; // differential narrowed to this many...
+  minConfidenceWhenNarrowed: number; // ...with at least this confidence
+  minMinutes: number; // interview time before any early completion
+  maxMinutes: number; // time cap - wrap up with what we have
+}
+
+export type CompletionReason =
+  | 'confidence'
+  | 'narrowed'
+  | 'max_turns'
+  | 'time_limit';
+
+// ========== INTERVIEW STREAM EVENTS ==========
+// Emitted while the interview graph runs; one node_start/node_end (or
+// node_error) pair per LangGraph node, plus reply tokens from 'reasoning'
+export type InterviewNode =
+  | 'translate'
+  | 'rag_retrieval'
+  | 'history_fetch'
+  | 'disease_identification'
+  | 'knowledge_verification'
+  | 'reasoning';
+
+export type InterviewStreamEvent =
+  | {
+      type: 'node_start';
+      node: InterviewNode;
+      agent: string;
+      startedAt: string;
+    }
+  | {
+      type: 'node_end';
+      node: InterviewNode;
+      agent: string;
+      action: string;
+      result: Record<string, unknown>;
+      durationMs: number;
+    }
+  | {
+      type: 'node_error';
+      node: InterviewNode;
+      agent: string;
+      error: string;
+      durationMs: number;
+    }
+  // Reply text as the model writes it; token_reset discards it (repair attempt)
+  | { type: 'token'; node: InterviewNode; delta: string }
+  | { type: 'token_reset'; node: InterviewNode };
+
 // ========== AGENT STATE SCHEMAS (Zod-based for LangGraph) ==========
 
 // Chat Message Schema
@@ -163,6 +448,23 @@ const AgentMessageSchema = z.object({
   timestamp: z.string(),
 });
 
+// Probability Contribution Schema
+const ProbabilityContributionSchema = z.object({
+  turn: z.number(),
+  symptom: z.string(),
+  finding: z.enum(['present', 'absent']),
+  likelihoodRatio: z.number(),
+  change: z.number(),
+  probability: z.number(),
+});
+
+// Knowledge Evidence Schema
+const KnowledgeEvidenceSchema = z.object({
+  symptoms: z.array(z.string()),
+  sources: z.array(z.string()),
+  verifiedTurn: z.number(),
+});
+
 // Disease Candidate Schema
 const DiseaseCandidateSchema = z.object({
   name: z.string(),
@@ -170,6 +472,25 @@ const DiseaseCandidateSchema = z.object({
   matchedSymptoms: z.array(z.string()),
   differentiatingSymptoms: z.array(z.string()),
   severity: z.enum(['critical', 'high', 'moderate', 'initial', 'normal']),
+  prior: z.number().optional(),
+  symptomLikelihoods: z.record(z.string(), z.number()).optional(),
+  unscored: z.boolean().optional(),
+  evidence: z.array(ProbabilityContributionSchema).optional(),
+  knowledgeEvidence: KnowledgeEvidenceSchema.optional(),
+});
+
+// Symptom Record Schema
+const SymptomRecordSchema = z.object({
+  symptom: z.string(),
+  onset: z.string().optional(),
+  provocation: z.string().optional(),
+  quality: z.string().optional(),
+  region: z.string().optional(),
+  radiation: z.string().optional(),
+  severity: z.number().min(0).max(10).optional(),
+  timing: z.string().optional(),
+  firstReportedTurn: z.number(),
+  updatedTurn: z.number(),
 });
 
 // Narrowing Question Schema
@@ -179,6 +500,19 @@ const NarrowingQuestionSchema = z.object({
   targetSymptom: z.string(),
   targetDiseases: z.array(z.string()),
   priority: z.number(),
+  expectedInformationGain: z.number().optional(),
+  rationale: z.string().optional(),
+});
+
+// Completion Policy Schema
+export const CompletionPolicySchema = z.object({
+  minTurns: z.number().int().min(0),
+  maxTurns: z.number().int().min(1),
+  confidenceThreshold: z.number().min(0).max(100),
+  maxDiseasesForCompletion: z.number().int().min(1),
+  minConfidenceWhenNarrowed: z.number().min(0).max(100),
+  minMinutes: z.number().min(0),
+  maxMinutes: z.number().positive(),
 });
 
 // Diagnosis State Schema
@@ -186,8 +520,11 @@ const DiagnosisStateSchema = z.object({
   potentialDiseases: z.array(DiseaseCandidateSchema),
   confidenceScore: z.number().min(0).max(100),
   identifiedSymptoms: z.array(z.string()),
+  negativeFindings: z.array(z.string()).default([]),
+  symptomRecords: z.array(SymptomRecordSchema).default([]),
   ruledOutDiseases: z.array(z.string()),
   narrowingQuestions: z.array(NarrowingQuestionSchema),
+  askedQuestion: NarrowingQuestionSchema.optional(),
 });
 
 // Patient Info Schema
@@ -207,11 +544,59 @@ const PatientInfoSchema = z.object({
 });
 
 // RAG Context Schema
+const RetrievedSourceSchema = z.object({
+  id: z.string(),
+  source: z.string(),
+  title: z.string(),
+  snippet: z.string(),
+  relevance: z.number(),
+});
+
+const RAGSourceSchema = RetrievedSourceSchema.extend({ turn: z.number() });
+
 const RAGContextSchema = z.object({
   context: z.string(),
   sources: z.array(z.string()),
   diseases: z.array(z.string()),
   relevanceScore: z.number(),
+  chunks: z.array(RetrievedSourceSchema).optional(),
+});
+
+const PastEpisodeSchema = z.object({
+  sessionId: z.string(),
+  reportId: z.string(),
+  date: z.string(),
+  chiefComplaint: z.string(),
+  symptoms: z.array(z.string()),
+  diagnosis: z.string(),
+  reviewStatus: z.enum(['pending', 'in_review', 'approved', 'rejected']),
+  relevance: z.number(),
+});
+
+const StatementCitationSchema = z.object({
+  statement: z.string(),
+  sources: z.array(z.string()),
+});
+
+const DiagnosisCodeSchema = z.object({
+  diagnosis: z.string(),
+  role: z.enum(['primary', 'differential']),
+  candidates: z.array(
+    z.object({ code: z.string(), title: z.string(), confidence: z.number() })
+  ),
+  code: z.string().nullable(),
+  title: z.string().nullable(),
+  status: z.enum(['suggested', 'confirmed', 'overridden', 'uncoded']),
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.string().optional(),
+});
+
+// Generation Record Schema
+const GenerationRecordSchema = z.object({
+  source: z.enum(['llm', 'repaired', 'fallback']),
+  attempts: z.number(),
+  errors: z.array(z.string()),
+  generatedAt: z.string(),
 });
 
 // SOAP Report Schema
@@ -221,6 +606,15 @@ const SOAPReportSchema = z.object({
     symptoms: z.array(z.string()),
     patientHistory: z.string(),
     patientNarrative: z.string(),
+    symptomCharacterization: z
+      .array(
+        SymptomRecordSchema.omit({
+          firstReportedTurn: true,
+          updatedTurn: true,
+        }).extend({ unknown: z.array(z.string()) })
+      )
+      .optional(),
+    pastEpisodes: z.array(PastEpisodeSchema).optional(),
   }),
   objective: z.object({
     reportedSymptoms: z.array(z.string()),
@@ -236,6 +630,20 @@ const SOAPReportSchema = z.object({
     aiAnalysis: z.string(),
     redFlags: z.array(z.string()),
     medicalSources: z.array(z.string()),
+    differentialEvidence: z
+      .array(
+        z.object({
+          condition: z.string(),
+          prior: z.number(),
+          probability: z.number(),
+          contributions: z.array(
+            ProbabilityContributionSchema.omit({ probability: true })
+          ),
+        })
+      )
+      .optional(),
+    references: z.array(RAGSourceSchema.extend({ key: z.string() })).optional(),
+    citations: z.array(StatementCitationSchema).optional(),
   }),
   plan: z.object({
     recommendations: z.array(z.string()),
@@ -243,6 +651,7 @@ const SOAPReportSchema = z.object({
     specialistReferral: z.string().optional(),
     followUpNeeded: z.boolean(),
     urgency: z.enum(['emergency', 'urgent', 'standard', 'routine']),
+    citations: z.array(StatementCitationSchema).optional(),
   }),
   metadata: z.object({
     generatedAt: z.string(),
@@ -251,9 +660,122 @@ const SOAPReportSchema = z.object({
     department: z.string().optional(),
     triageLabel: z.enum(['emergency', 'urgent', 'standard', 'routine']),
     aiVersion: z.string(),
+    generation: GenerationRecordSchema.optional(),
   }),
 });
 
+// ========== LLM OUTPUT SCHEMAS ==========
+// What each agent call must return before it is trusted
+
+// identifyDiseases
+export const DiseaseIdentificationOutputSchema = z.array(
+  z.object({
+    name: z.string().min(1),
+    probability: z.number().min(0).max(100),
+  })
+);
+
+// OPQRST details the patient gave in one message (null = not mentioned)
+export const SymptomDetailSchema = z.object({
+  symptom: z.string().min(1),
+  onset: z.string().nullish(),
+  provocation: z.string().nullish(),
+  quality: z.string().nullish(),
+  region: z.string().nullish(),
+  radiation: z.string().nullish(),
+  severity: z.number().min(0).max(10).nullish(),
+  timing: z.string().nullish(),
+});
+
+// generateClinicalResponse
+export const ClinicalResponseOutputSchema = z.object({
+  content: z.string().min(1),
+  urdu: z.string().min(1),
+  severity: z.string().default('moderate'),
+  confidenceLevel: z.number().min(0).max(100).optional(),
+  identifiedSymptoms: z.array(z.string()).optional(),
+  isConfident: z.boolean().default(false),
+  followUpNeeded: z.boolean().optional(),
+  diagnosisSummary: z.string().optional(),
+  symptomDetails: z.array(SymptomDetailSchema).optional(),
+});
+
+// checkEmergencyFlags
+export const EmergencyCheckOutputSchema = z.object({
+  isEmergency: z.boolean(),
+  redFlags: z.array(z.string()),
+  triageLabel: z.enum(['emergency', 'urgent', 'standard', 'routine']),
+  urgencyScore: z.number().min(0).max(100),
+});
+
+// generateSOAPReport / regenerateSOAPWithFeedback
+// (metadata is filled in by the agents; sources come from the RAG session)
+export const SOAPContentSchema = z.object({
+  subjective: SOAPReportSchema.shape.subjective,
+  objective: SOAPReportSchema.shape.objective,
+  assessment: SOAPReportSchema.shape.assessment.extend({
+    medicalSources: z.array(z.string()).default([]),
+  }),
+  plan: SOAPReportSchema.shape.plan,
+});
+
+// A doctor edit: any fields of any sections, merged over the current content
+// (see report-versions.ts). Built from the report schema, which has no
+// defaults, so a field the doctor did not send is never overwritten.
+export const ReportEditSchema = z.object({
+  subjective: SOAPReportSchema.shape.subjective.partial().optional(),
+  objective: SOAPReportSchema.shape.objective.partial().optional(),
+  assessment: SOAPReportSchema.shape.assessment.partial().optional(),
+  plan: SOAPReportSchema.shape.plan.partial().optional(),
+});
+
+// generatePatientSummary
+const PatientSummaryTextSchema = z.object({
+  discussed: z.string().min(1),
+  watchFor: z.array(z.string()),
+  nextSteps: z.array(z.string()),
+});
+
+export const PatientSummaryContentSchema = z.object({
+  urdu: PatientSummaryTextSchema,
+  roman: PatientSummaryTextSchema,
+});
+
+const PatientSummarySchema = PatientSummaryContentSchema.extend({
+  generatedAt: z.string(),
+  generation: GenerationRecordSchema.optional(),
+});
+
+// Prescription items sent by the doctor's editor
+export const PrescriptionItemSchema = z.object({
+  formularyId: z.string().nullable().default(null),
+  drug: z.string().trim().min(1),
+  genericName: z.string().nullable().default(null),
+  strength: z.string().trim().default(''),
+  form: z.string().trim().min(1),
+  dose: z.string().trim().min(1),
+  route: z.string().trim().min(1),
+  frequency: z.string().trim().min(1),
+  duration: z.string().trim().default(''),
+  instructions: z.string().trim().default(''),
+  instructionsUrdu: z.string().trim().default(''),
+});
+
+export const PrescriptionWarningDecisionSchema = z
+  .object({
+    warningId: z.string().min(1),
+    decision: z.enum(['acknowledged', 'overridden']),
+    reason: z.string().trim().default(''),
+  })
+  .refine(d => d.decision !== 'overridden' || d.reason.length > 0, {
+    message: 'An override needs a reason',
+    path: ['reason'],
+  });
+
+export const PrescriptionWarningDecisionsSchema = z
+  .array(PrescriptionWarningDecisionSchema)
+  .default([]);
+
 // Medical History Data Schema
 const MedicalHistoryDataSchema = z.object({
   patientId: z.string(),
@@ -302,20 +824,26 @@ export const InterviewAgentStateSchema = z.object({
   // Patient Context
   patientInfo: PatientInfoSchema.nullable().default(null),
   medicalHistory: z.string().default(''),
+  pastEpisodes: z.array(PastEpisodeSchema).default([]),
 
   // RAG Context
   ragContext: RAGContextSchema.nullable().default(null),
   queryEmbedding: z.array(z.number()).default([]),
+  ragSources: z.array(RAGSourceSchema).default([]), // whole session
 
   // Conversation State
   conversationHistory: z.array(ChatMessageSchema).default([]),
   conversationTurn: z.number().default(0),
+  elapsedMinutes: z.number().default(0), // interview clock (session duration)
+  completionPolicy: CompletionPolicySchema.nullable().default(null),
 
   // Diagnosis State
   diagnosisState: DiagnosisStateSchema.default({
     potentialDiseases: [],
     confidenceScore: 30,
     identifiedSymptoms: [],
+    negativeFindings: [],
+    symptomRecords: [],
     ruledOutDiseases: [],
     narrowingQuestions: [],
   }),
@@ -342,10 +870,13 @@ export const DocumentationAgentStateSchema = z.object({
   diagnosisState: DiagnosisStateSchema.nullable().default(null),
   patientInfo: PatientInfoSchema.nullable().default(null),
   medicalHistory: z.string().default(''),
-  ragSources: z.array(z.string()).default([]),
+  ragSources: z.array(RAGSourceSchema).default([]),
+  pastEpisodes: z.array(PastEpisodeSchema).default([]),
 
   // Output
   soapReport: SOAPReportSchema.nullable().default(null),
+  diagnosisCodes: z.array(DiagnosisCodeSchema).default([]),
+  patientSummary: PatientSummarySchema.nullable().default(null),
   department: z.string().default(''),
   triageLabel: z
     .enum(['emergency', 'urgent', 'standard', 'routine'])
@@ -370,6 +901,7 @@ export const SafetyAgentStateSchema = z.object({
     .default('standard'),
   urgencyScore: z.number().min(0).max(100).default(0),
   safetyNotes: z.string().default(''),
+  llmGeneration: GenerationRecordSchema.nullable().default(null),
   requiresImmediateAttention: z.boolean().default(false),
   updatedReport: z.boolean().default(false),
 });
@@ -392,10 +924,15 @@ export const FeedbackAgentStateSchema = z.object({
   // Output
   needsRegeneration: z.boolean().default(false),
   regeneratedReport: SOAPReportSchema.nullable().default(null),
+  regenerationError: z.string().default(''), // shown to the doctor
   finalStatus: z
     .enum(['pending', 'in_review', 'approved', 'rejected'])
     .default('pending'),
   prescription: z.string().default(''),
+  // Formulary check of the prescription with the doctor's decisions
+  prescriptionWarnings: z
+    .array(z.custom<ReviewedPrescriptionWarning>())
+    .default([]),
   doctorNotes: z.string().default(''),
   updatedInDb: z.boolean().default(false),
 });
@@ -427,6 +964,8 @@ export const ClinicalOrchestrationStateSchema = z.object({
     potentialDiseases: [],
     confidenceScore: 30,
     identifiedSymptoms: [],
+    negativeFindings: [],
+    symptomRecords: [],
     ruledOutDiseases: [],
     narrowingQuestions: [],
   }),
@@ -458,3 +997,14 @@ export type FeedbackAgentState = z.infer<typeof FeedbackAgentStateSchema>;
 export type ClinicalOrchestrationState = z.infer<
   typeof ClinicalOrchestrationStateSchema
 >;
+export type DiseaseIdentificationOutput = z.infer<
+  typeof DiseaseIdentificationOutputSchema
+>;
+export type ClinicalResponseOutput = z.infer<
+  typeof ClinicalResponseOutputSchema
+>;
+export type SymptomDetail = z.infer<typeof SymptomDetailSchema>;
+export type EmergencyCheckOutput = z.infer<typeof EmergencyCheckOutputSchema>;
+export type SOAPContent = z.infer<typeof SOAPContentSchema>;
+export type ReportEdit = z.infer<typeof ReportEditSchema>;
+export type PatientSummaryContent = z.infer<typeof PatientSummaryContentSchema>;
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { headers } from 'next/headers';
+import { auth, type Session } from './auth';
+import prisma from './prisma';
+
+export type UserRole = 'patient' | 'doctor';
+
+export type RoleGuardResult =
+  | { ok: true; userId: string; role: UserRole; session: Session }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Route handler guard: resolve the Better Auth session and check the user's role.
+ *
+ * Usage:
+ *   const guard = await requireRole('doctor');
+ *   if (!guard.ok) return guard.response;
+ *   // guard.userId is the authenticated user
+ */
+export async function requireRole(
+  role: UserRole | UserRole[],
+  forbiddenMessage?: string
+): Promise<RoleGuardResult> {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    };
+  }
+
+  // Role lives on the User row, not in the session payload
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+
+  const allowed = Array.isArray(role) ? role : [role];
+  if (!user || !allowed.includes(user.role as UserRole)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          error:
+            forbiddenMessage || `Only ${allowed.join(' or ')}s can access this`,
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return {
+    ok: true,
+    userId: session.user.id,
+    role: user.role as UserRole,
+    session,
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Cache
+ * Content-hash caches for the interview hot path (query embeddings and
+ * translations), so repeated greetings, yes/no answers and identical
+ * follow-ups are embedded and translated once
+ *
+ * - Keys are sha256(kind, model, normalized text)
+ * - Lookups go to memory (LRU), then to the persistent store if one is
+ *   configured; computed values are written to both
+ * - Only successful results are cached: a computation that throws is counted
+ *   as a failure and the error reaches the caller
+ * - getCacheMetrics(): hits, misses and failures per cache
+ *
+ * Selection (env):
+ * - CACHE_STORE        memory | postgres (default: memory)
+ * - CACHE_MAX_ENTRIES  in-memory entries per cache (default: 5000)
+ */
+
+import { createHash } from "crypto";
+import { createLRUMap } from "./lru";
+import { createPostgresStore } from "./postgres-store";
+import type { CacheMetrics, CacheStats, CacheStore } from "./types";
+
+const DEFAULT_MAX_ENTRIES = 5000;
+
+export interface ContentCache<T> {
+    kind: string;
+    // variant: what else determines the value, e.g. the model id
+    getOrCompute(
+        text: string,
+        variant: string,
+        compute: () => Promise<T>
+    ): Promise<T>;
+    stats(): CacheStats;
+    clear(): void;
+}
+
+const storeFactories = new Map<string, () => CacheStore>([
+    ["postgres", createPostgresStore],
+]);
+
+// Resolved once; null = memory only
+let persistentStore: CacheStore | null | undefined;
+
+function getPersistentStore(): CacheStore | null {
+    if (persistentStore !== undefined) return persistentStore;
+
+    const name = (process.env.CACHE_STORE || "memory").toLowerCase();
+    const factory = storeFactories.get(name);
+    if (name !== "memory" && !factory) {
+        throw new Error(
+            `Unknown cache store "${name}". Available: memory, ${[...storeFactories.keys()].join(", ")}`
+        );
+    }
+
+    persistentStore = factory ? factory() : null;
+    console.log(`🗃️ Cache store: memory${factory ? ` + ${name}` : ""}`);
+    return persistentStore;
+}
+
+function maxEntries(): number {
+    const value = Number(process.env.CACHE_MAX_ENTRIES);
+    return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_ENTRIES;
+}
+
+/**
+ * Lowercased, whitespace-collapsed text: "Haan  ji " and "haan ji" share a key
+ */
+export function normalizeCacheText(text: string): string {
+    return text.normalize("NFC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function contentHash(kind: string, variant: string, text: string) {
+    return createHash("sha256")
+        .update(`${kind}\u0000${variant}\u0000${normalizeCacheText(text)}`)
+        .digest("hex");
+}
+
+function createContentCache<T>(
+    kind: string,
+    isValid: (value: unknown) => value is T
+): ContentCache<T> {
+    const memory = createLRUMap<T>(maxEntries());
+    // Concurrent lookups of the same key share one computation
+    const pending = new Map<string, Promise<T>>();
+    const counts = {
+        hits: 0,
+        persistentHits: 0,
+        misses: 0,
+        failures: 0,
+        storeErrors: 0,
+    };
+
+    async function load(key: string, compute: () => Promise<T>): Promise<T> {
+        const store = getPersistentStore();
+
+        if (store) {
+            try {
+                const stored = await store.get(key);
+                if (isValid(stored)) {
+                    counts.persistentHits++;
+                    memory.set(key, stored);
+                    return stored;
+                }
+            } catch (error) {
+                counts.storeErrors++;
+                console.error(`Cache store read failed (${kind}):`, error);
+            }
+        }
+
+        counts.misses++;
+        let value: T;
+        try {
+            value = await compute();
+        } catch (error) {
+            counts.failures++;
+            throw error;
+        }
+        if (!isValid(value)) {
+            counts.failures++;
+            throw new Error(`Invalid ${kind} value; not cached`);
+        }
+
+        memory.set(key, value);
+        if (store) {
+            store.set(key, kind, value).catch((error) => {
+                counts.storeErrors++;
+                console.error(`Cache store write failed (${kind}):`, error);
+            });
+        }
+        return value;
+    }
+
+    return {
+        kind,
+
+        async getOrCompute(text, variant, compute) {
+            const key = contentHash(kind, variant, text);
+
+            const cached = memory.get(key);
+            if (cached !== undefined) {
+                counts.hits++;
+                return cached;
+            }
+
+            const inFlight = pending.get(key);
+            if (inFlight) {
+                counts.hits++;
+                return inFlight;
+            }
+
+            const promise = load(key, compute).finally(() =>
+                pending.delete(key)
+            );
+            pending.set(key, promise);
+            return promise;
+        },
+
+        stats() {
+            const lookups = counts.hits + counts.persistentHits + counts.misses;
+            return {
+                kind,
+                ...counts,
+                entries: memory.size,
+                hitRate:
+                    lookups > 0
+                        ? (counts.hits + counts.persistentHits) / lookups
+                        : 0,
+            };
+        },
+
+        clear() {
+            memory.clear();
+        },
+    };
+}
+
+const caches = new Map<string, ContentCache<unknown>>();
+
+/**
+ * The cache for one kind of value. isValid rejects values that must not be
+ * cached (and stale or malformed entries read back from the store).
+ */
+export function getContentCache<T>(
+    kind: string,
+    isValid: (value: unknown) => value is T
+): ContentCache<T> {
+    if (!caches.has(kind)) {
+        caches.set(kind, createContentCache(kind, isValid));
+    }
+    return caches.get(kind) as ContentCache<T>;
+}
+
+/**
+ * Hit/miss counts of every cache since the server started
+ */
+export function getCacheMetrics(): CacheMetrics {
+    return {
+        store: getPersistentStore()?.name || "none",
+        caches: [...caches.values()].map((cache) => cache.stats()),
+    };
+}
+
+export * from "./types";
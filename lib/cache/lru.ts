@@ -0,0 +1,40 @@
+export interface LRUMap<V> {
+    readonly size: number;
+    get(key: string): V | undefined;
+    set(key: string, value: V): void;
+    clear(): void;
+}
+
+/**
+ * Map that keeps only the maxEntries most recently used keys
+ */
+export function createLRUMap<V>(maxEntries: number): LRUMap<V> {
+    const entries = new Map<string, V>();
+
+    return {
+        get size() {
+            return entries.size;
+        },
+
+        get(key) {
+            const value = entries.get(key);
+            if (value === undefined) return undefined;
+            // Re-insert so the key becomes the most recently used
+            entries.delete(key);
+            entries.set(key, value);
+            return value;
+        },
+
+        set(key, value) {
+            entries.delete(key);
+            entries.set(key, value);
+            if (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value!);
+            }
+        },
+
+        clear() {
+            entries.clear();
+        },
+    };
+}
@@ -0,0 +1,30 @@
+import prisma from "../prisma";
+import type { Prisma } from "@prisma/client";
+import type { CacheStore } from "./types";
+
+/**
+ * Cache entries in the app database (cache_entry table), shared by every
+ * server instance and kept across restarts
+ */
+export function createPostgresStore(): CacheStore {
+    return {
+        name: "postgres",
+
+        async get(key) {
+            const entry = await prisma.cacheEntry.findUnique({
+                where: { key },
+                select: { value: true },
+            });
+            return entry?.value ?? undefined;
+        },
+
+        async set(key, kind, value) {
+            const json = value as Prisma.InputJsonValue;
+            await prisma.cacheEntry.upsert({
+                where: { key },
+                create: { key, kind, value: json },
+                update: { value: json },
+            });
+        },
+    };
+}
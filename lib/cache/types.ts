@@ -0,0 +1,23 @@
+// Where cached values live, keyed by content hash. A store's failures are
+// counted and logged, never thrown to the caller.
+export interface CacheStore {
+    name: string;
+    get(key: string): Promise<unknown | undefined>;
+    set(key: string, kind: string, value: unknown): Promise<void>;
+}
+
+export interface CacheStats {
+    kind: string; // embedding | translation
+    hits: number; // answered from memory
+    persistentHits: number; // answered from the persistent store
+    misses: number; // computed
+    failures: number; // computations that failed (never cached)
+    storeErrors: number; // persistent store reads/writes that failed
+    entries: number; // in memory
+    hitRate: number; // (hits + persistentHits) / lookups
+}
+
+export interface CacheMetrics {
+    store: string; // persistent store, "none" for memory only
+    caches: CacheStats[];
+}
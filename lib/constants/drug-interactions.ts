@@ -0,0 +1,408 @@
+/**
+ * Prescribing Safety Rules
+ * Offline ruleset checked when a doctor prescribes: allergy cross-reactivity,
+ * major drug-drug interactions, duplicate therapy and age/pregnancy
+ * contraindications
+ *
+ * Rules name drugs by formulary class or formulary id (see
+ * lib/constants/formulary.ts); a drug matches a rule if its id or one of
+ * its classes is listed. The checks are run in
+ * lib/agents/prescription-safety.ts.
+ */
+
+// major: avoid unless the benefit clearly outweighs the risk,
+// moderate: use with care (monitoring, dose timing or patient advice)
+export type SafetySeverity = 'major' | 'moderate';
+
+export interface AllergyRule {
+  id: string;
+  terms: string[]; // how the allergy may be written in the medical history
+  drugs: string[]; // classes/ids the allergy rules out
+  crossReactive?: { drugs: string[]; note: string }; // smaller risk
+}
+
+export interface InteractionRule {
+  id: string;
+  drugs: [string[], string[]]; // one drug from each side
+  severity: SafetySeverity;
+  message: string;
+}
+
+export interface AgeRule {
+  id: string;
+  drugs: string[];
+  minAge: number; // years
+  severity: SafetySeverity;
+  message: string;
+}
+
+export interface PregnancyRule {
+  id: string;
+  drugs: string[];
+  severity: SafetySeverity;
+  message: string;
+}
+
+export const ALLERGY_RULES: AllergyRule[] = [
+  {
+    id: 'penicillin',
+    terms: [
+      'penicillin',
+      'amoxicillin',
+      'amoxil',
+      'ampicillin',
+      'augmentin',
+      'co-amoxiclav',
+    ],
+    drugs: ['penicillin'],
+    crossReactive: {
+      drugs: ['cephalosporin'],
+      note: 'a small share of penicillin-allergic patients also react to cephalosporins',
+    },
+  },
+  {
+    id: 'cephalosporin',
+    terms: [
+      'cephalosporin',
+      'cephradine',
+      'cephalexin',
+      'cefixime',
+      'ceftriaxone',
+      'velosef',
+    ],
+    drugs: ['cephalosporin'],
+    crossReactive: {
+      drugs: ['penicillin'],
+      note: 'cephalosporin and penicillin allergies can cross-react',
+    },
+  },
+  {
+    id: 'sulfonamide',
+    terms: [
+      'sulfa',
+      'sulpha',
+      'sulfonamide',
+      'co-trimoxazole',
+      'septran',
+      'bactrim',
+    ],
+    drugs: ['sulfonamide'],
+  },
+  {
+    id: 'nsaid',
+    terms: [
+      'nsaid',
+      'aspirin',
+      'disprin',
+      'ibuprofen',
+      'brufen',
+      'diclofenac',
+      'voltaren',
+      'naproxen',
+      'mefenamic',
+      'ponstan',
+    ],
+    drugs: ['nsaid'],
+  },
+  {
+    id: 'macrolide',
+    terms: ['macrolide', 'azithromycin', 'clarithromycin', 'erythromycin'],
+    drugs: ['macrolide'],
+  },
+  {
+    id: 'fluoroquinolone',
+    terms: ['quinolone', 'ciprofloxacin', 'levofloxacin', 'ofloxacin'],
+    drugs: ['fluoroquinolone'],
+  },
+  {
+    id: 'tetracycline',
+    terms: ['tetracycline', 'doxycycline', 'minocycline'],
+    drugs: ['tetracycline'],
+  },
+  {
+    id: 'opioid',
+    terms: ['opioid', 'opiate', 'codeine', 'morphine', 'tramadol'],
+    drugs: ['opioid'],
+  },
+  {
+    id: 'azole-antifungal',
+    terms: ['fluconazole', 'clotrimazole', 'ketoconazole', 'azole'],
+    drugs: ['azole-antifungal'],
+  },
+  {
+    id: 'ace-inhibitor',
+    terms: ['ace inhibitor', 'enalapril', 'captopril', 'lisinopril'],
+    drugs: ['ace-inhibitor'],
+    crossReactive: {
+      drugs: ['arb'],
+      note: 'angioedema on an ACE inhibitor can recur with an ARB',
+    },
+  },
+];
+
+// Most serious first: only the first rule matching a pair of drugs is reported
+export const INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: 'anticoagulant-nsaid',
+    drugs: [['anticoagulant'], ['nsaid']],
+    severity: 'major',
+    message: 'Bleeding risk: NSAIDs add to the effect of warfarin',
+  },
+  {
+    id: 'anticoagulant-antiplatelet',
+    drugs: [['anticoagulant'], ['antiplatelet']],
+    severity: 'major',
+    message: 'Bleeding risk: antiplatelets add to the effect of warfarin',
+  },
+  {
+    id: 'warfarin-inr',
+    drugs: [
+      ['warfarin'],
+      [
+        'metronidazole',
+        'co-trimoxazole',
+        'fluconazole',
+        'ciprofloxacin',
+        'levofloxacin',
+        'clarithromycin',
+      ],
+    ],
+    severity: 'major',
+    message: 'Raises the INR on warfarin - check the INR or choose another',
+  },
+  {
+    id: 'benzodiazepine-opioid',
+    drugs: [['benzodiazepine'], ['opioid']],
+    severity: 'major',
+    message: 'Respiratory depression and heavy sedation together',
+  },
+  {
+    id: 'serotonin-syndrome',
+    drugs: [['serotonergic'], ['serotonergic']],
+    severity: 'major',
+    message: 'Risk of serotonin syndrome',
+  },
+  {
+    id: 'qt-prolongation',
+    drugs: [['qt-prolonging'], ['qt-prolonging']],
+    severity: 'major',
+    message: 'Both prolong the QT interval - risk of arrhythmia',
+  },
+  {
+    id: 'hyperkalaemia',
+    drugs: [['raises-potassium'], ['raises-potassium']],
+    severity: 'major',
+    message: 'Both raise potassium - risk of hyperkalaemia',
+  },
+  {
+    id: 'statin-clarithromycin',
+    drugs: [['statin'], ['clarithromycin']],
+    severity: 'major',
+    message: 'Clarithromycin raises statin levels - risk of myopathy',
+  },
+  {
+    id: 'carbamazepine-inhibitors',
+    drugs: [['carbamazepine'], ['clarithromycin', 'fluconazole']],
+    severity: 'major',
+    message: 'Raises carbamazepine levels - risk of toxicity',
+  },
+  {
+    id: 'nsaid-antiplatelet',
+    drugs: [['nsaid'], ['antiplatelet']],
+    severity: 'moderate',
+    message: 'Stomach bleeding risk; ibuprofen can blunt the effect of aspirin',
+  },
+  {
+    id: 'nsaid-corticosteroid',
+    drugs: [['nsaid'], ['corticosteroid']],
+    severity: 'moderate',
+    message: 'Stomach bleeding risk - consider a PPI',
+  },
+  {
+    id: 'nsaid-antihypertensive',
+    drugs: [['nsaid'], ['ace-inhibitor', 'arb', 'loop-diuretic']],
+    severity: 'moderate',
+    message:
+      'NSAIDs reduce the blood pressure effect and can harm kidney function',
+  },
+  {
+    id: 'clopidogrel-ppi',
+    drugs: [['clopidogrel'], ['omeprazole', 'esomeprazole']],
+    severity: 'moderate',
+    message: 'Omeprazole and esomeprazole weaken clopidogrel',
+  },
+  {
+    id: 'sulfonylurea-hypoglycaemia',
+    drugs: [['sulfonylurea'], ['co-trimoxazole', 'fluconazole']],
+    severity: 'moderate',
+    message: 'Risk of hypoglycaemia - advise the patient to check sugar',
+  },
+  {
+    id: 'carbamazepine-warfarin',
+    drugs: [['carbamazepine'], ['warfarin']],
+    severity: 'moderate',
+    message: 'Carbamazepine weakens warfarin - check the INR',
+  },
+  {
+    id: 'chelation',
+    drugs: [
+      ['fluoroquinolone', 'tetracycline'],
+      ['antacid', 'iron-supplement', 'calcium-supplement', 'multivitamin-zinc'],
+    ],
+    severity: 'moderate',
+    message: 'Absorption is blocked - take the antibiotic 2 hours before',
+  },
+  {
+    id: 'beta-blocker-beta-agonist',
+    drugs: [['beta-blocker'], ['beta-agonist']],
+    severity: 'moderate',
+    message: 'Beta-blockers can blunt salbutamol and worsen bronchospasm',
+  },
+  {
+    id: 'sedation',
+    drugs: [
+      ['sedating', 'benzodiazepine'],
+      ['sedating', 'benzodiazepine'],
+    ],
+    severity: 'moderate',
+    message: 'Added drowsiness - advise against driving',
+  },
+];
+
+// Two drugs of one of these classes are usually a duplicate
+export const DUPLICATE_THERAPY_CLASSES = [
+  'nsaid',
+  'ppi',
+  'ssri',
+  'benzodiazepine',
+  'penicillin',
+  'cephalosporin',
+  'macrolide',
+  'fluoroquinolone',
+  'antihistamine',
+  'statin',
+  'beta-blocker',
+  'ace-inhibitor',
+  'arb',
+  'sulfonylurea',
+];
+
+export const AGE_RULES: AgeRule[] = [
+  {
+    id: 'aspirin-reye',
+    drugs: ['aspirin'],
+    minAge: 16,
+    severity: 'major',
+    message: "Reye's syndrome risk under 16",
+  },
+  {
+    id: 'tetracycline-teeth',
+    drugs: ['tetracycline'],
+    minAge: 8,
+    severity: 'major',
+    message: 'Stains developing teeth under 8',
+  },
+  {
+    id: 'tramadol-children',
+    drugs: ['opioid'],
+    minAge: 12,
+    severity: 'major',
+    message: 'Respiratory depression risk under 12',
+  },
+  {
+    id: 'loperamide-children',
+    drugs: ['loperamide'],
+    minAge: 6,
+    severity: 'major',
+    message: 'Not for diarrhoea in young children - use ORS',
+  },
+  {
+    id: 'fluoroquinolone-children',
+    drugs: ['fluoroquinolone'],
+    minAge: 18,
+    severity: 'moderate',
+    message: 'Joint and tendon risk under 18 - use only without alternatives',
+  },
+  {
+    id: 'antiemetic-children',
+    drugs: ['metoclopramide', 'domperidone'],
+    minAge: 12,
+    severity: 'moderate',
+    message: 'Movement disorders and heart rhythm risk in children',
+  },
+  {
+    id: 'benzodiazepine-children',
+    drugs: ['benzodiazepine'],
+    minAge: 18,
+    severity: 'moderate',
+    message: 'Not recommended under 18',
+  },
+  {
+    id: 'ssri-children',
+    drugs: ['ssri'],
+    minAge: 18,
+    severity: 'moderate',
+    message: 'Watch for suicidal thoughts under 18',
+  },
+];
+
+// Checked for female patients of childbearing age (12-50) or of unknown
+// age; the medical history does not record pregnancy
+export const PREGNANCY_AGE_RANGE = { min: 12, max: 50 };
+
+export const PREGNANCY_RULES: PregnancyRule[] = [
+  {
+    id: 'warfarin-pregnancy',
+    drugs: ['warfarin'],
+    severity: 'major',
+    message: 'Causes birth defects',
+  },
+  {
+    id: 'raas-pregnancy',
+    drugs: ['ace-inhibitor', 'arb'],
+    severity: 'major',
+    message: 'Harms fetal kidneys',
+  },
+  {
+    id: 'statin-pregnancy',
+    drugs: ['statin'],
+    severity: 'major',
+    message: 'Contraindicated in pregnancy',
+  },
+  {
+    id: 'tetracycline-pregnancy',
+    drugs: ['tetracycline'],
+    severity: 'major',
+    message: 'Affects fetal teeth and bones',
+  },
+  {
+    id: 'carbamazepine-pregnancy',
+    drugs: ['carbamazepine'],
+    severity: 'major',
+    message: 'Neural tube defects - needs specialist review and folic acid',
+  },
+  {
+    id: 'nsaid-pregnancy',
+    drugs: ['nsaid'],
+    severity: 'moderate',
+    message: 'Avoid, especially in the third trimester',
+  },
+  {
+    id: 'fluoroquinolone-pregnancy',
+    drugs: ['fluoroquinolone'],
+    severity: 'moderate',
+    message: 'Avoid in pregnancy where an alternative exists',
+  },
+  {
+    id: 'co-trimoxazole-pregnancy',
+    drugs: ['co-trimoxazole'],
+    severity: 'moderate',
+    message: 'Folate antagonist - avoid in the first trimester',
+  },
+  {
+    id: 'benzodiazepine-pregnancy',
+    drugs: ['benzodiazepine'],
+    severity: 'moderate',
+    message: 'Avoid in pregnancy, especially near delivery',
+  },
+];
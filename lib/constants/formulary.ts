@@ -0,0 +1,702 @@
+/**
+ * Drug Formulary
+ * Offline list of common medicines in Pakistan, by generic name with the
+ * local brand names doctors prescribe them by
+ *
+ * Used by the prescription editor (autocomplete, default strength/form and
+ * route) and stored with each prescription item as `formularyId`. Drugs
+ * outside the list can still be prescribed by name. `classes` group drugs
+ * for safety checks (e.g. "penicillin", "nsaid").
+ */
+
+export type DosageForm =
+  | 'tablet'
+  | 'capsule'
+  | 'syrup'
+  | 'suspension'
+  | 'drops'
+  | 'sachet'
+  | 'inhaler'
+  | 'cream'
+  | 'injection';
+
+export type DoseRoute = 'oral' | 'inhalation' | 'topical' | 'injection';
+
+export interface FormularyDrug {
+  id: string;
+  generic: string;
+  brands: string[];
+  classes: string[];
+  route: DoseRoute;
+  forms: { form: DosageForm; strengths: string[] }[]; // most used first
+}
+
+export const FORMULARY: FormularyDrug[] = [
+  // Pain and fever
+  {
+    id: 'paracetamol',
+    generic: 'Paracetamol',
+    brands: ['Panadol', 'Calpol', 'Disprol', 'Febrol'],
+    classes: ['analgesic'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['500 mg', '665 mg'] },
+      { form: 'syrup', strengths: ['120 mg/5 ml', '250 mg/5 ml'] },
+      { form: 'drops', strengths: ['100 mg/ml'] },
+    ],
+  },
+  {
+    id: 'ibuprofen',
+    generic: 'Ibuprofen',
+    brands: ['Brufen', 'Advil'],
+    classes: ['nsaid', 'analgesic'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['400 mg', '200 mg', '600 mg'] },
+      { form: 'suspension', strengths: ['100 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'diclofenac',
+    generic: 'Diclofenac sodium',
+    brands: ['Voltral', 'Dicloran'],
+    classes: ['nsaid', 'analgesic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['50 mg', '75 mg', '100 mg'] }],
+  },
+  {
+    id: 'mefenamic-acid',
+    generic: 'Mefenamic acid',
+    brands: ['Ponstan'],
+    classes: ['nsaid', 'analgesic'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['500 mg'] },
+      { form: 'capsule', strengths: ['250 mg'] },
+      { form: 'suspension', strengths: ['50 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'naproxen',
+    generic: 'Naproxen sodium',
+    brands: ['Synflex', 'Naprosyn'],
+    classes: ['nsaid', 'analgesic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['550 mg', '275 mg'] }],
+  },
+  {
+    id: 'etoricoxib',
+    generic: 'Etoricoxib',
+    brands: ['Arcoxia', 'Tory'],
+    classes: ['nsaid', 'cox2-inhibitor', 'analgesic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['90 mg', '60 mg', '120 mg'] }],
+  },
+  {
+    id: 'aspirin',
+    generic: 'Aspirin',
+    brands: ['Disprin', 'Loprin', 'Ascard'],
+    classes: ['nsaid', 'salicylate', 'antiplatelet'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['75 mg', '300 mg', '150 mg'] }],
+  },
+  {
+    id: 'tramadol',
+    generic: 'Tramadol',
+    brands: ['Tramal', 'Tonoflex'],
+    classes: ['opioid', 'analgesic', 'serotonergic'],
+    route: 'oral',
+    forms: [{ form: 'capsule', strengths: ['50 mg'] }],
+  },
+
+  // Antibiotics and antifungals
+  {
+    id: 'amoxicillin',
+    generic: 'Amoxicillin',
+    brands: ['Amoxil', 'Amoxil Forte'],
+    classes: ['penicillin', 'beta-lactam', 'antibiotic'],
+    route: 'oral',
+    forms: [
+      { form: 'capsule', strengths: ['500 mg', '250 mg'] },
+      { form: 'suspension', strengths: ['250 mg/5 ml', '125 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'co-amoxiclav',
+    generic: 'Amoxicillin + Clavulanic acid',
+    brands: ['Augmentin', 'Amclav', 'Calamox'],
+    classes: ['penicillin', 'beta-lactam', 'antibiotic'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['625 mg', '375 mg', '1 g'] },
+      { form: 'suspension', strengths: ['312 mg/5 ml', '156 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'cephradine',
+    generic: 'Cephradine',
+    brands: ['Velosef', 'Ceferin'],
+    classes: ['cephalosporin', 'beta-lactam', 'antibiotic'],
+    route: 'oral',
+    forms: [
+      { form: 'capsule', strengths: ['500 mg', '250 mg'] },
+      { form: 'suspension', strengths: ['125 mg/5 ml', '250 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'cefixime',
+    generic: 'Cefixime',
+    brands: ['Cefspan', 'Cefiget'],
+    classes: ['cephalosporin', 'beta-lactam', 'antibiotic'],
+    route: 'oral',
+    forms: [
+      { form: 'capsule', strengths: ['400 mg'] },
+      { form: 'suspension', strengths: ['100 mg/5 ml', '200 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'azithromycin',
+    generic: 'Azithromycin',
+    brands: ['Azomax', 'Zithromax'],
+    classes: ['macrolide', 'antibiotic', 'qt-prolonging'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['500 mg'] },
+      { form: 'capsule', strengths: ['250 mg'] },
+      { form: 'suspension', strengths: ['200 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'clarithromycin',
+    generic: 'Clarithromycin',
+    brands: ['Klaricid'],
+    classes: ['macrolide', 'antibiotic', 'qt-prolonging'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['500 mg', '250 mg'] },
+      { form: 'suspension', strengths: ['125 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'ciprofloxacin',
+    generic: 'Ciprofloxacin',
+    brands: ['Ciproxin', 'Novidat'],
+    classes: ['fluoroquinolone', 'antibiotic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['500 mg', '250 mg'] }],
+  },
+  {
+    id: 'levofloxacin',
+    generic: 'Levofloxacin',
+    brands: ['Leflox', 'Tavanic'],
+    classes: ['fluoroquinolone', 'antibiotic', 'qt-prolonging'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['500 mg', '250 mg', '750 mg'] }],
+  },
+  {
+    id: 'metronidazole',
+    generic: 'Metronidazole',
+    brands: ['Flagyl', 'Metrozine'],
+    classes: ['nitroimidazole', 'antibiotic'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['400 mg', '200 mg'] },
+      { form: 'suspension', strengths: ['200 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'co-trimoxazole',
+    generic: 'Sulfamethoxazole + Trimethoprim',
+    brands: ['Septran'],
+    classes: ['sulfonamide', 'antibiotic'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['480 mg', '960 mg'] },
+      { form: 'suspension', strengths: ['240 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'doxycycline',
+    generic: 'Doxycycline',
+    brands: ['Vibramycin', 'Doxycap'],
+    classes: ['tetracycline', 'antibiotic'],
+    route: 'oral',
+    forms: [{ form: 'capsule', strengths: ['100 mg'] }],
+  },
+  {
+    id: 'fluconazole',
+    generic: 'Fluconazole',
+    brands: ['Diflucan', 'Flucan'],
+    classes: ['azole-antifungal', 'antifungal'],
+    route: 'oral',
+    forms: [{ form: 'capsule', strengths: ['150 mg', '50 mg'] }],
+  },
+
+  // Stomach and gut
+  {
+    id: 'omeprazole',
+    generic: 'Omeprazole',
+    brands: ['Risek', 'Omezol'],
+    classes: ['ppi'],
+    route: 'oral',
+    forms: [{ form: 'capsule', strengths: ['20 mg', '40 mg'] }],
+  },
+  {
+    id: 'esomeprazole',
+    generic: 'Esomeprazole',
+    brands: ['Nexum', 'Esso'],
+    classes: ['ppi'],
+    route: 'oral',
+    forms: [
+      { form: 'capsule', strengths: ['40 mg', '20 mg'] },
+      { form: 'tablet', strengths: ['40 mg', '20 mg'] },
+    ],
+  },
+  {
+    id: 'antacid',
+    generic: 'Aluminium hydroxide + Magnesium hydroxide',
+    brands: ['Mucaine', 'Gaviscon'],
+    classes: ['antacid'],
+    route: 'oral',
+    forms: [{ form: 'suspension', strengths: ['10 ml'] }],
+  },
+  {
+    id: 'domperidone',
+    generic: 'Domperidone',
+    brands: ['Motilium'],
+    classes: ['antiemetic', 'qt-prolonging'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['10 mg'] },
+      { form: 'suspension', strengths: ['5 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'metoclopramide',
+    generic: 'Metoclopramide',
+    brands: ['Maxolon'],
+    classes: ['antiemetic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['10 mg'] }],
+  },
+  {
+    id: 'ondansetron',
+    generic: 'Ondansetron',
+    brands: ['Onset', 'Zofran'],
+    classes: ['antiemetic', 'serotonergic', 'qt-prolonging'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['4 mg', '8 mg'] },
+      { form: 'syrup', strengths: ['4 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'dimenhydrinate',
+    generic: 'Dimenhydrinate',
+    brands: ['Gravinate'],
+    classes: ['antihistamine', 'antiemetic', 'sedating'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['50 mg'] }],
+  },
+  {
+    id: 'hyoscine',
+    generic: 'Hyoscine butylbromide',
+    brands: ['Buscopan'],
+    classes: ['antispasmodic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['10 mg'] }],
+  },
+  {
+    id: 'loperamide',
+    generic: 'Loperamide',
+    brands: ['Imodium'],
+    classes: ['antidiarrheal'],
+    route: 'oral',
+    forms: [{ form: 'capsule', strengths: ['2 mg'] }],
+  },
+  {
+    id: 'ors',
+    generic: 'Oral rehydration salts',
+    brands: ['ORS', 'Peditral'],
+    classes: ['rehydration'],
+    route: 'oral',
+    forms: [{ form: 'sachet', strengths: ['1 sachet in 1 litre water'] }],
+  },
+  {
+    id: 'lactulose',
+    generic: 'Lactulose',
+    brands: ['Duphalac', 'Lilac'],
+    classes: ['laxative'],
+    route: 'oral',
+    forms: [{ form: 'syrup', strengths: ['3.35 g/5 ml'] }],
+  },
+  {
+    id: 'ispaghula',
+    generic: 'Ispaghula husk',
+    brands: ['Isogel', 'Fybogel'],
+    classes: ['laxative'],
+    route: 'oral',
+    forms: [{ form: 'sachet', strengths: ['3.5 g'] }],
+  },
+
+  // Allergy and breathing
+  {
+    id: 'cetirizine',
+    generic: 'Cetirizine',
+    brands: ['Rigix', 'Zyrtec'],
+    classes: ['antihistamine'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['10 mg'] },
+      { form: 'syrup', strengths: ['5 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'loratadine',
+    generic: 'Loratadine',
+    brands: ['Softin', 'Lorin'],
+    classes: ['antihistamine'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['10 mg'] },
+      { form: 'syrup', strengths: ['5 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'fexofenadine',
+    generic: 'Fexofenadine',
+    brands: ['Fexet', 'Telfast'],
+    classes: ['antihistamine'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['120 mg', '180 mg'] }],
+  },
+  {
+    id: 'chlorpheniramine',
+    generic: 'Chlorpheniramine',
+    brands: ['Piriton'],
+    classes: ['antihistamine', 'sedating'],
+    route: 'oral',
+    forms: [
+      { form: 'tablet', strengths: ['4 mg'] },
+      { form: 'syrup', strengths: ['2 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'montelukast',
+    generic: 'Montelukast',
+    brands: ['Montika', 'Singulair'],
+    classes: ['leukotriene-antagonist'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['10 mg', '5 mg', '4 mg'] }],
+  },
+  {
+    id: 'salbutamol',
+    generic: 'Salbutamol',
+    brands: ['Ventolin'],
+    classes: ['beta-agonist', 'bronchodilator'],
+    route: 'inhalation',
+    forms: [
+      { form: 'inhaler', strengths: ['100 mcg/puff'] },
+      { form: 'syrup', strengths: ['2 mg/5 ml'] },
+    ],
+  },
+  {
+    id: 'prednisolone',
+    generic: 'Prednisolone',
+    brands: ['Deltacortril'],
+    classes: ['corticosteroid'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['5 mg'] }],
+  },
+
+  // Heart and blood pressure
+  {
+    id: 'amlodipine',
+    generic: 'Amlodipine',
+    brands: ['Norvasc', 'Amlo'],
+    classes: ['calcium-channel-blocker', 'antihypertensive'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['5 mg', '10 mg'] }],
+  },
+  {
+    id: 'losartan',
+    generic: 'Losartan potassium',
+    brands: ['Cozaar', 'Eziday'],
+    classes: ['arb', 'antihypertensive', 'raises-potassium'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['50 mg', '25 mg', '100 mg'] }],
+  },
+  {
+    id: 'enalapril',
+    generic: 'Enalapril',
+    brands: ['Renitec'],
+    classes: ['ace-inhibitor', 'antihypertensive', 'raises-potassium'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['5 mg', '10 mg', '20 mg'] }],
+  },
+  {
+    id: 'bisoprolol',
+    generic: 'Bisoprolol',
+    brands: ['Concor'],
+    classes: ['beta-blocker', 'antihypertensive'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['5 mg', '2.5 mg'] }],
+  },
+  {
+    id: 'atenolol',
+    generic: 'Atenolol',
+    brands: ['Tenormin'],
+    classes: ['beta-blocker', 'antihypertensive'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['50 mg', '25 mg', '100 mg'] }],
+  },
+  {
+    id: 'furosemide',
+    generic: 'Furosemide',
+    brands: ['Lasix'],
+    classes: ['loop-diuretic', 'antihypertensive'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['40 mg'] }],
+  },
+  {
+    id: 'spironolactone',
+    generic: 'Spironolactone',
+    brands: ['Aldactone'],
+    classes: ['potassium-sparing-diuretic', 'raises-potassium'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['25 mg', '100 mg'] }],
+  },
+  {
+    id: 'atorvastatin',
+    generic: 'Atorvastatin',
+    brands: ['Lipiget', 'Lipitor'],
+    classes: ['statin'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['10 mg', '20 mg', '40 mg'] }],
+  },
+  {
+    id: 'clopidogrel',
+    generic: 'Clopidogrel',
+    brands: ['Plavix', 'Lowplat'],
+    classes: ['antiplatelet'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['75 mg'] }],
+  },
+  {
+    id: 'warfarin',
+    generic: 'Warfarin',
+    brands: ['Uniwarfin'],
+    classes: ['anticoagulant'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['5 mg', '1 mg', '3 mg'] }],
+  },
+
+  // Diabetes
+  {
+    id: 'metformin',
+    generic: 'Metformin',
+    brands: ['Glucophage', 'Neodipar'],
+    classes: ['biguanide', 'antidiabetic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['500 mg', '850 mg', '1000 mg'] }],
+  },
+  {
+    id: 'glimepiride',
+    generic: 'Glimepiride',
+    brands: ['Amaryl', 'Getryl'],
+    classes: ['sulfonylurea', 'antidiabetic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['1 mg', '2 mg', '3 mg', '4 mg'] }],
+  },
+  {
+    id: 'sitagliptin',
+    generic: 'Sitagliptin',
+    brands: ['Januvia', 'Sitaglu'],
+    classes: ['dpp4-inhibitor', 'antidiabetic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['100 mg', '50 mg'] }],
+  },
+
+  // Mind and nerves
+  {
+    id: 'sertraline',
+    generic: 'Sertraline',
+    brands: ['Serlift', 'Zoloft'],
+    classes: ['ssri', 'antidepressant', 'serotonergic'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['50 mg', '100 mg'] }],
+  },
+  {
+    id: 'escitalopram',
+    generic: 'Escitalopram',
+    brands: ['Cipralex', 'Estar'],
+    classes: ['ssri', 'antidepressant', 'serotonergic', 'qt-prolonging'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['10 mg', '5 mg', '20 mg'] }],
+  },
+  {
+    id: 'alprazolam',
+    generic: 'Alprazolam',
+    brands: ['Xanax'],
+    classes: ['benzodiazepine', 'sedating'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['0.25 mg', '0.5 mg'] }],
+  },
+  {
+    id: 'bromazepam',
+    generic: 'Bromazepam',
+    brands: ['Lexotanil'],
+    classes: ['benzodiazepine', 'sedating'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['3 mg'] }],
+  },
+  {
+    id: 'carbamazepine',
+    generic: 'Carbamazepine',
+    brands: ['Tegral'],
+    classes: ['anticonvulsant'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['200 mg'] }],
+  },
+
+  // Vitamins and supplements
+  {
+    id: 'ferrous-folic',
+    generic: 'Ferrous sulfate + Folic acid',
+    brands: ['Fefol'],
+    classes: ['iron-supplement'],
+    route: 'oral',
+    forms: [{ form: 'capsule', strengths: ['150 mg + 0.5 mg'] }],
+  },
+  {
+    id: 'folic-acid',
+    generic: 'Folic acid',
+    brands: ['Folic'],
+    classes: ['vitamin'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['5 mg'] }],
+  },
+  {
+    id: 'calcium-vitamin-d',
+    generic: 'Calcium carbonate + Vitamin D3',
+    brands: ['Qalsan-D', 'Caltrate-D'],
+    classes: ['calcium-supplement'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['600 mg + 400 IU'] }],
+  },
+  {
+    id: 'vitamin-d3',
+    generic: 'Cholecalciferol (Vitamin D3)',
+    brands: ['Sunny D', 'Indrop-D'],
+    classes: ['vitamin'],
+    route: 'oral',
+    forms: [{ form: 'capsule', strengths: ['200,000 IU'] }],
+  },
+  {
+    id: 'vitamin-b-complex',
+    generic: 'Vitamin B1 + B6 + B12',
+    brands: ['Neurobion'],
+    classes: ['vitamin'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['100 mg + 200 mg + 200 mcg'] }],
+  },
+  {
+    id: 'multivitamin-zinc',
+    generic: 'Multivitamin + Zinc',
+    brands: ['Surbex-Z'],
+    classes: ['vitamin'],
+    route: 'oral',
+    forms: [{ form: 'tablet', strengths: ['1 tablet'] }],
+  },
+
+  // Skin
+  {
+    id: 'clotrimazole',
+    generic: 'Clotrimazole',
+    brands: ['Canesten'],
+    classes: ['azole-antifungal', 'antifungal'],
+    route: 'topical',
+    forms: [{ form: 'cream', strengths: ['1%'] }],
+  },
+  {
+    id: 'fusidic-acid',
+    generic: 'Fusidic acid',
+    brands: ['Fucidin', 'Fusiderm'],
+    classes: ['antibiotic'],
+    route: 'topical',
+    forms: [{ form: 'cream', strengths: ['2%'] }],
+  },
+];
+
+// Dose frequencies with their Urdu wording for the patient's copy
+export const DOSE_FREQUENCIES: { en: string; ur: string }[] = [
+  { en: 'Once a day', ur: 'دن میں ایک بار' },
+  { en: 'Twice a day', ur: 'دن میں دو بار' },
+  { en: '3 times a day', ur: 'دن میں تین بار' },
+  { en: '4 times a day', ur: 'دن میں چار بار' },
+  { en: 'At bedtime', ur: 'رات سونے سے پہلے' },
+  { en: 'When needed', ur: 'ضرورت کے وقت' },
+];
+
+// Common instructions, English and Urdu
+export const INSTRUCTION_PRESETS: { en: string; ur: string }[] = [
+  { en: 'After meals', ur: 'کھانے کے بعد' },
+  { en: 'Before meals', ur: 'کھانے سے پہلے' },
+  { en: 'On an empty stomach', ur: 'خالی پیٹ' },
+  { en: 'With plenty of water', ur: 'زیادہ پانی کے ساتھ' },
+  { en: 'Complete the full course', ur: 'دوا کا پورا کورس مکمل کریں' },
+  {
+    en: 'May cause drowsiness - do not drive',
+    ur: 'اس سے غنودگی ہو سکتی ہے، گاڑی نہ چلائیں',
+  },
+  { en: 'Only for pain or fever', ur: 'صرف درد یا بخار ہونے پر' },
+  {
+    en: 'Apply a thin layer on the affected area',
+    ur: 'متاثرہ جگہ پر پتلی تہہ لگائیں',
+  },
+];
+
+// Usual single dose by form, as a starting point for the editor
+export const DEFAULT_DOSE: Record<DosageForm, string> = {
+  tablet: '1 tablet',
+  capsule: '1 capsule',
+  syrup: '5 ml',
+  suspension: '5 ml',
+  drops: '1 ml',
+  sachet: '1 sachet',
+  inhaler: '2 puffs',
+  cream: 'Thin layer',
+  injection: '1 injection',
+};
+
+export interface FormularyMatch {
+  drug: FormularyDrug;
+  name: string; // the brand or generic name that matched
+}
+
+const FORMULARY_BY_ID = new Map(FORMULARY.map(drug => [drug.id, drug]));
+
+/**
+ * Formulary entry by id
+ */
+export function findFormularyDrug(id: string): FormularyDrug | undefined {
+  return FORMULARY_BY_ID.get(id);
+}
+
+/**
+ * Brand and generic names starting with (then containing) a search query,
+ * one match per name
+ */
+export function searchFormulary(query: string, limit = 8): FormularyMatch[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  const names = FORMULARY.flatMap(drug =>
+    [...drug.brands, drug.generic].map(name => ({ drug, name }))
+  );
+  const starts = names.filter(m => m.name.toLowerCase().startsWith(q));
+  const contains = names.filter(
+    m => !starts.includes(m) && m.name.toLowerCase().includes(q)
+  );
+  return [...starts, ...contains].slice(0, limit);
+}
@@ -0,0 +1,629 @@
+/**
+ * ICD-10 Code Table
+ * Offline subset of WHO ICD-10 (2019) used to code report diagnoses
+ *
+ * Covers every condition in the disease knowledge base plus common
+ * symptom-level codes (R chapter) for diagnoses that stay unspecific.
+ * `terms` are the names a diagnosis may be written as; matching is done
+ * in lib/agents/icd-coding.ts.
+ */
+
+export interface ICD10Entry {
+  code: string;
+  title: string; // WHO ICD-10 title
+  terms: string[];
+}
+
+export const ICD10_CODES: ICD10Entry[] = [
+  // Respiratory
+  {
+    code: 'J00',
+    title: 'Acute nasopharyngitis [common cold]',
+    terms: ['common cold', 'cold', 'nasopharyngitis', 'coryza'],
+  },
+  {
+    code: 'J06.9',
+    title: 'Acute upper respiratory infection, unspecified',
+    terms: [
+      'upper respiratory infection',
+      'upper respiratory tract infection',
+      'URI',
+      'URTI',
+    ],
+  },
+  {
+    code: 'J02.9',
+    title: 'Acute pharyngitis, unspecified',
+    terms: ['pharyngitis', 'sore throat'],
+  },
+  {
+    code: 'J03.9',
+    title: 'Acute tonsillitis, unspecified',
+    terms: ['tonsillitis'],
+  },
+  {
+    code: 'J01.9',
+    title: 'Acute sinusitis, unspecified',
+    terms: ['sinusitis', 'acute sinusitis'],
+  },
+  {
+    code: 'J32.9',
+    title: 'Chronic sinusitis, unspecified',
+    terms: ['chronic sinusitis'],
+  },
+  {
+    code: 'J20.9',
+    title: 'Acute bronchitis, unspecified',
+    terms: ['bronchitis', 'acute bronchitis'],
+  },
+  {
+    code: 'J18.9',
+    title: 'Pneumonia, unspecified',
+    terms: [
+      'pneumonia',
+      'chest infection',
+      'lower respiratory tract infection',
+    ],
+  },
+  {
+    code: 'J11.1',
+    title:
+      'Influenza with other respiratory manifestations, virus not identified',
+    terms: ['influenza', 'flu'],
+  },
+  {
+    code: 'U07.1',
+    title: 'COVID-19, virus identified',
+    terms: ['COVID-19', 'COVID', 'coronavirus disease'],
+  },
+  {
+    code: 'J45.9',
+    title: 'Asthma, unspecified',
+    terms: ['asthma', 'bronchial asthma'],
+  },
+  {
+    code: 'J44.9',
+    title: 'Chronic obstructive pulmonary disease, unspecified',
+    terms: ['COPD', 'chronic obstructive pulmonary disease', 'emphysema'],
+  },
+  {
+    code: 'J30.4',
+    title: 'Allergic rhinitis, unspecified',
+    terms: ['allergic rhinitis', 'hay fever'],
+  },
+  {
+    code: 'A16.2',
+    title:
+      'Tuberculosis of lung, without mention of bacteriological or histological confirmation',
+    terms: ['tuberculosis', 'pulmonary tuberculosis', 'TB'],
+  },
+  {
+    code: 'C34.9',
+    title: 'Malignant neoplasm: Bronchus or lung, unspecified',
+    terms: ['lung cancer', 'bronchogenic carcinoma'],
+  },
+  {
+    code: 'I26.9',
+    title: 'Pulmonary embolism without mention of acute cor pulmonale',
+    terms: ['pulmonary embolism', 'PE'],
+  },
+  {
+    code: 'G47.3',
+    title: 'Sleep apnoea',
+    terms: ['sleep apnea', 'sleep apnoea', 'obstructive sleep apnea', 'OSA'],
+  },
+
+  // Cardiovascular
+  {
+    code: 'I20.9',
+    title: 'Angina pectoris, unspecified',
+    terms: ['angina', 'angina pectoris'],
+  },
+  {
+    code: 'I21.9',
+    title: 'Acute myocardial infarction, unspecified',
+    terms: [
+      'heart attack',
+      'myocardial infarction',
+      'MI',
+      'acute coronary syndrome',
+    ],
+  },
+  {
+    code: 'I49.9',
+    title: 'Cardiac arrhythmia, unspecified',
+    terms: ['arrhythmia', 'cardiac arrhythmia', 'palpitations'],
+  },
+  {
+    code: 'I50.9',
+    title: 'Heart failure, unspecified',
+    terms: ['heart failure', 'congestive heart failure', 'CHF'],
+  },
+  {
+    code: 'I10',
+    title: 'Essential (primary) hypertension',
+    terms: ['hypertension', 'high blood pressure'],
+  },
+  {
+    code: 'I30.9',
+    title: 'Acute pericarditis, unspecified',
+    terms: ['pericarditis'],
+  },
+  {
+    code: 'I25.1',
+    title: 'Atherosclerotic heart disease',
+    terms: ['coronary artery disease', 'CAD', 'ischemic heart disease'],
+  },
+  {
+    code: 'I42.9',
+    title: 'Cardiomyopathy, unspecified',
+    terms: ['cardiomyopathy'],
+  },
+  {
+    code: 'I71.0',
+    title: 'Dissection of aorta [any part]',
+    terms: ['aortic dissection'],
+  },
+  {
+    code: 'I40.9',
+    title: 'Acute myocarditis, unspecified',
+    terms: ['myocarditis'],
+  },
+  {
+    code: 'R07.4',
+    title: 'Chest pain, unspecified',
+    terms: ['chest pain'],
+  },
+
+  // Digestive
+  {
+    code: 'K29.7',
+    title: 'Gastritis, unspecified',
+    terms: ['gastritis'],
+  },
+  {
+    code: 'K21.9',
+    title: 'Gastro-oesophageal reflux disease without oesophagitis',
+    terms: [
+      'GERD',
+      'gastroesophageal reflux disease',
+      'acid reflux',
+      'reflux',
+      'heartburn',
+    ],
+  },
+  {
+    code: 'K27.9',
+    title:
+      'Peptic ulcer, site unspecified, unspecified as acute or chronic, without haemorrhage or perforation',
+    terms: ['peptic ulcer', 'peptic ulcer disease', 'stomach ulcer', 'PUD'],
+  },
+  {
+    code: 'K58.9',
+    title: 'Irritable bowel syndrome without diarrhoea',
+    terms: ['IBS', 'irritable bowel syndrome'],
+  },
+  {
+    code: 'A09.9',
+    title: 'Gastroenteritis and colitis of unspecified origin',
+    terms: [
+      'gastroenteritis',
+      'acute gastroenteritis',
+      'stomach flu',
+      'diarrhea',
+      'diarrhoea',
+    ],
+  },
+  {
+    code: 'A05.9',
+    title: 'Bacterial foodborne intoxication, unspecified',
+    terms: ['food poisoning'],
+  },
+  {
+    code: 'K37',
+    title: 'Unspecified appendicitis',
+    terms: ['appendicitis'],
+  },
+  {
+    code: 'K80.2',
+    title: 'Calculus of gallbladder without cholecystitis',
+    terms: ['gallstones', 'cholelithiasis'],
+  },
+  {
+    code: 'K81.9',
+    title: 'Cholecystitis, unspecified',
+    terms: ['cholecystitis'],
+  },
+  {
+    code: 'K85.9',
+    title: 'Acute pancreatitis, unspecified',
+    terms: ['pancreatitis', 'acute pancreatitis'],
+  },
+  {
+    code: 'K50.9',
+    title: 'Crohn disease, unspecified',
+    terms: ["Crohn's disease", 'Crohn disease', 'Crohns'],
+  },
+  {
+    code: 'K51.9',
+    title: 'Ulcerative colitis, unspecified',
+    terms: ['ulcerative colitis'],
+  },
+  {
+    code: 'K76.9',
+    title: 'Liver disease, unspecified',
+    terms: ['liver disease'],
+  },
+  {
+    code: 'B19.9',
+    title: 'Unspecified viral hepatitis without hepatic coma',
+    terms: ['hepatitis', 'viral hepatitis', 'jaundice'],
+  },
+  {
+    code: 'K59.0',
+    title: 'Constipation',
+    terms: ['constipation'],
+  },
+  {
+    code: 'R10.4',
+    title: 'Other and unspecified abdominal pain',
+    terms: ['abdominal pain', 'stomach pain'],
+  },
+  {
+    code: 'R11',
+    title: 'Nausea and vomiting',
+    terms: ['nausea', 'vomiting'],
+  },
+
+  // Nervous system
+  {
+    code: 'G44.2',
+    title: 'Tension-type headache',
+    terms: ['tension headache', 'tension type headache'],
+  },
+  {
+    code: 'G43.9',
+    title: 'Migraine, unspecified',
+    terms: ['migraine'],
+  },
+  {
+    code: 'G44.0',
+    title: 'Cluster headache syndrome',
+    terms: ['cluster headache'],
+  },
+  {
+    code: 'R51',
+    title: 'Headache',
+    terms: ['headache'],
+  },
+  {
+    code: 'R42',
+    title: 'Dizziness and giddiness',
+    terms: ['vertigo', 'dizziness'],
+  },
+  {
+    code: 'H81.1',
+    title: 'Benign paroxysmal vertigo',
+    terms: ['benign paroxysmal positional vertigo', 'BPPV'],
+  },
+  {
+    code: 'G03.9',
+    title: 'Meningitis, unspecified',
+    terms: ['meningitis'],
+  },
+  {
+    code: 'D43.2',
+    title: 'Neoplasm of uncertain or unknown behaviour: Brain, unspecified',
+    terms: ['brain tumor', 'brain tumour', 'brain mass'],
+  },
+  {
+    code: 'I64',
+    title: 'Stroke, not specified as haemorrhage or infarction',
+    terms: ['stroke', 'cerebrovascular accident', 'CVA'],
+  },
+  {
+    code: 'G45.9',
+    title: 'Transient cerebral ischaemic attack, unspecified',
+    terms: ['TIA', 'transient ischemic attack', 'transient ischaemic attack'],
+  },
+  {
+    code: 'G40.9',
+    title: 'Epilepsy, unspecified',
+    terms: ['epilepsy', 'seizure disorder'],
+  },
+  {
+    code: 'G35',
+    title: 'Multiple sclerosis',
+    terms: ['multiple sclerosis', 'MS'],
+  },
+  {
+    code: 'G20',
+    title: 'Parkinson disease',
+    terms: ["Parkinson's disease", 'Parkinson disease', 'parkinsonism'],
+  },
+
+  // Musculoskeletal
+  {
+    code: 'T14.3',
+    title: 'Dislocation, sprain and strain of unspecified body region',
+    terms: ['muscle strain', 'sprain', 'strain'],
+  },
+  {
+    code: 'M19.9',
+    title: 'Arthrosis, unspecified',
+    terms: ['osteoarthritis', 'arthrosis', 'degenerative joint disease'],
+  },
+  {
+    code: 'M06.9',
+    title: 'Rheumatoid arthritis, unspecified',
+    terms: ['rheumatoid arthritis', 'RA'],
+  },
+  {
+    code: 'M10.9',
+    title: 'Gout, unspecified',
+    terms: ['gout'],
+  },
+  {
+    code: 'M79.7',
+    title: 'Fibromyalgia',
+    terms: ['fibromyalgia'],
+  },
+  {
+    code: 'M51.2',
+    title: 'Other specified intervertebral disc displacement',
+    terms: ['herniated disc', 'slipped disc', 'disc prolapse'],
+  },
+  {
+    code: 'M54.3',
+    title: 'Sciatica',
+    terms: ['sciatica'],
+  },
+  {
+    code: 'M54.5',
+    title: 'Low back pain',
+    terms: ['low back pain', 'lower back pain', 'back pain'],
+  },
+  {
+    code: 'M81.9',
+    title: 'Osteoporosis, unspecified',
+    terms: ['osteoporosis'],
+  },
+  {
+    code: 'M32.9',
+    title: 'Systemic lupus erythematosus, unspecified',
+    terms: ['lupus', 'systemic lupus erythematosus', 'SLE'],
+  },
+  {
+    code: 'M45',
+    title: 'Ankylosing spondylitis',
+    terms: ['ankylosing spondylitis'],
+  },
+
+  // Infections
+  {
+    code: 'B34.9',
+    title: 'Viral infection, unspecified',
+    terms: ['viral infection', 'viral fever', 'viral illness'],
+  },
+  {
+    code: 'A90',
+    title: 'Dengue fever [classical dengue]',
+    terms: ['dengue fever', 'dengue'],
+  },
+  {
+    code: 'A91',
+    title: 'Dengue haemorrhagic fever',
+    terms: ['dengue hemorrhagic fever', 'dengue haemorrhagic fever', 'DHF'],
+  },
+  {
+    code: 'A01.0',
+    title: 'Typhoid fever',
+    terms: ['typhoid', 'typhoid fever', 'enteric fever'],
+  },
+  {
+    code: 'B54',
+    title: 'Unspecified malaria',
+    terms: ['malaria'],
+  },
+  {
+    code: 'A49.9',
+    title: 'Bacterial infection, unspecified',
+    terms: ['bacterial infection'],
+  },
+  {
+    code: 'A41.9',
+    title: 'Sepsis, unspecified',
+    terms: ['sepsis', 'septicemia'],
+  },
+  {
+    code: 'R50.9',
+    title: 'Fever, unspecified',
+    terms: ['fever', 'pyrexia'],
+  },
+
+  // Genitourinary
+  {
+    code: 'N39.0',
+    title: 'Urinary tract infection, site not specified',
+    terms: ['UTI', 'urinary tract infection'],
+  },
+  {
+    code: 'N20.0',
+    title: 'Calculus of kidney',
+    terms: [
+      'kidney stones',
+      'kidney stone',
+      'renal calculus',
+      'nephrolithiasis',
+    ],
+  },
+  {
+    code: 'N10',
+    title: 'Acute tubulo-interstitial nephritis',
+    terms: ['pyelonephritis', 'acute pyelonephritis', 'kidney infection'],
+  },
+  {
+    code: 'N41.9',
+    title: 'Inflammatory disease of prostate, unspecified',
+    terms: ['prostatitis'],
+  },
+
+  // Skin
+  {
+    code: 'L30.9',
+    title: 'Dermatitis, unspecified',
+    terms: ['dermatitis', 'eczema'],
+  },
+  {
+    code: 'L20.9',
+    title: 'Atopic dermatitis, unspecified',
+    terms: ['atopic dermatitis', 'atopic eczema'],
+  },
+  {
+    code: 'L50.9',
+    title: 'Urticaria, unspecified',
+    terms: ['hives', 'urticaria'],
+  },
+  {
+    code: 'B36.9',
+    title: 'Superficial mycosis, unspecified',
+    terms: ['fungal infection', 'fungal skin infection'],
+  },
+  {
+    code: 'B35.9',
+    title: 'Dermatophytosis, unspecified',
+    terms: ['ringworm', 'tinea', 'dermatophytosis'],
+  },
+  {
+    code: 'L40.9',
+    title: 'Psoriasis, unspecified',
+    terms: ['psoriasis'],
+  },
+  {
+    code: 'B86',
+    title: 'Scabies',
+    terms: ['scabies'],
+  },
+  {
+    code: 'B02.9',
+    title: 'Zoster without complication',
+    terms: ['shingles', 'herpes zoster'],
+  },
+  {
+    code: 'L03.9',
+    title: 'Cellulitis, unspecified',
+    terms: ['cellulitis'],
+  },
+
+  // Mental health and sleep
+  {
+    code: 'F41.1',
+    title: 'Generalized anxiety disorder',
+    terms: [
+      'generalized anxiety disorder',
+      'anxiety disorder',
+      'GAD',
+      'anxiety',
+    ],
+  },
+  {
+    code: 'F32.9',
+    title: 'Depressive episode, unspecified',
+    terms: ['depression', 'depressive episode', 'major depressive disorder'],
+  },
+  {
+    code: 'F41.0',
+    title: 'Panic disorder [episodic paroxysmal anxiety]',
+    terms: ['panic disorder', 'panic attacks'],
+  },
+  {
+    code: 'F43.1',
+    title: 'Post-traumatic stress disorder',
+    terms: ['PTSD', 'post traumatic stress disorder'],
+  },
+  {
+    code: 'G47.0',
+    title: 'Disorders of initiating and maintaining sleep [insomnias]',
+    terms: ['insomnia'],
+  },
+  {
+    code: 'G93.3',
+    title: 'Postviral fatigue syndrome',
+    terms: ['chronic fatigue syndrome', 'CFS', 'myalgic encephalomyelitis'],
+  },
+  {
+    code: 'R53',
+    title: 'Malaise and fatigue',
+    terms: ['fatigue', 'malaise', 'weakness'],
+  },
+
+  // Endocrine, blood and nutrition
+  {
+    code: 'D64.9',
+    title: 'Anaemia, unspecified',
+    terms: ['anemia', 'anaemia'],
+  },
+  {
+    code: 'D50.9',
+    title: 'Iron deficiency anaemia, unspecified',
+    terms: ['iron deficiency anemia', 'iron deficiency anaemia'],
+  },
+  {
+    code: 'E11.9',
+    title: 'Type 2 diabetes mellitus without complications',
+    terms: [
+      'diabetes type 2',
+      'type 2 diabetes',
+      'type 2 diabetes mellitus',
+      'diabetes',
+      'T2DM',
+    ],
+  },
+  {
+    code: 'E03.9',
+    title: 'Hypothyroidism, unspecified',
+    terms: ['hypothyroidism'],
+  },
+  {
+    code: 'E05.9',
+    title: 'Thyrotoxicosis, unspecified',
+    terms: ['hyperthyroidism', 'thyrotoxicosis'],
+  },
+  {
+    code: 'E86',
+    title: 'Volume depletion',
+    terms: ['dehydration', 'volume depletion'],
+  },
+  {
+    code: 'E55.9',
+    title: 'Vitamin D deficiency, unspecified',
+    terms: ['vitamin D deficiency'],
+  },
+];
+
+const ICD10_BY_CODE = new Map(ICD10_CODES.map(entry => [entry.code, entry]));
+
+/**
+ * Table entry for a code (case-insensitive)
+ */
+export function findICD10Code(code: string): ICD10Entry | undefined {
+  return ICD10_BY_CODE.get(code.trim().toUpperCase());
+}
+
+/**
+ * Table entries whose code, title or terms match a search query
+ */
+export function searchICD10Codes(query: string, limit = 10): ICD10Entry[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  const exact = findICD10Code(q);
+  const matches = ICD10_CODES.filter(
+    entry =>
+      entry !== exact &&
+      (entry.code.toLowerCase().startsWith(q) ||
+        entry.title.toLowerCase().includes(q) ||
+        entry.terms.some(t => t.toLowerCase().includes(q)))
+  );
+  return [...(exact ? [exact] : []), ...matches].slice(0, limit);
+}
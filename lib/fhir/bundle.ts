@@ -0,0 +1,545 @@
+import { createHash } from "crypto";
+import type {
+    DiagnosisCode,
+    PrescriptionItem,
+    SOAPReport,
+} from "../agents/types";
+import type {
+    AllergyIntolerance,
+    Bundle,
+    BundleEntry,
+    ClinicalResource,
+    CodeableConcept,
+    Composition,
+    CompositionSection,
+    Condition,
+    Encounter,
+    MedicationRequest,
+    MedicationStatement,
+    Narrative,
+    Observation,
+    Patient,
+    Reference,
+} from "./types";
+
+export const ENCOUNTER_BUNDLE_PROFILE =
+    "urn:sehat-guftagu:fhir:StructureDefinition:encounter-bundle";
+
+// Identifier systems for the app's own ids
+const SYSTEM = {
+    patient: "urn:sehat-guftagu:patient",
+    session: "urn:sehat-guftagu:session",
+    report: "urn:sehat-guftagu:report",
+};
+
+const LOINC = "http://loinc.org";
+const UCUM = "http://unitsofmeasure.org";
+const TERMINOLOGY = "http://terminology.hl7.org/CodeSystem";
+const ICD10 = "http://hl7.org/fhir/sid/icd-10";
+
+const AI_AUTHOR = "Sehat Guftagu AI";
+
+/**
+ * What one encounter is exported from: the report, its session and the
+ * patient's onboarding history
+ */
+export interface EncounterRecord {
+    report: {
+        id: string;
+        subjective: SOAPReport["subjective"];
+        objective: SOAPReport["objective"];
+        assessment: SOAPReport["assessment"];
+        plan: SOAPReport["plan"];
+        diagnosisCodes: DiagnosisCode[];
+        department: string | null;
+        priority: string;
+        reviewStatus: string;
+        doctorNotes: string | null;
+        prescription: string | null;
+        prescriptionItems: PrescriptionItem[];
+        createdAt: Date;
+        updatedAt: Date;
+    };
+    session: {
+        id: string;
+        status: string;
+        chiefComplaint: string | null;
+        createdAt: Date;
+        duration: number | null; // seconds
+    };
+    patient: { id: string; name: string | null; email: string };
+    medicalHistory: {
+        gender: string | null;
+        weight: number | null; // kg
+        height: number | null; // cm
+        allergies: string[];
+        currentMedications: string[];
+    } | null;
+    doctor: { id: string; name: string | null } | null;
+}
+
+/**
+ * Stable urn:uuid for a resource, so re-exports of the same encounter
+ * reference the same entries
+ */
+export function resourceUrn(resourceType: string, id: string): string {
+    const hex = createHash("sha1")
+        .update(`${resourceType}/${id}`)
+        .digest("hex");
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+// Label/value lines as an XHTML narrative (empty values left out)
+function narrative(lines: Array<[string, string | undefined]>): Narrative {
+    const body = lines
+        .filter(([, value]) => value && value.trim())
+        .map(
+            ([label, value]) =>
+                `<p><b>${escapeXml(label)}:</b> ${escapeXml(value!)}</p>`
+        )
+        .join("");
+    return {
+        status: "generated",
+        div: `<div xmlns="http://www.w3.org/1999/xhtml">${body || "<p>Not recorded</p>"}</div>`,
+    };
+}
+
+function concept(system: string, code: string, display?: string) {
+    return { coding: [{ system, code, display }], text: display };
+}
+
+function loinc(code: string, display: string): CodeableConcept {
+    return concept(LOINC, code, display);
+}
+
+function fhirId(...parts: string[]): string {
+    return parts
+        .join("-")
+        .replace(/[^A-Za-z0-9\-.]/g, "-")
+        .slice(0, 64);
+}
+
+function isNone(text: string): boolean {
+    return /^(none|no|nil|n\/a|na|-)$/i.test(text.trim());
+}
+
+function fhirGender(gender: string | null): Patient["gender"] {
+    const g = (gender || "").toLowerCase();
+    if (g.startsWith("m")) return "male";
+    if (g.startsWith("f")) return "female";
+    return g ? "other" : "unknown";
+}
+
+// Report priority (urgent/high/normal/low) as v3 ActPriority
+function encounterPriority(priority: string): CodeableConcept {
+    const system = `${TERMINOLOGY}/v3-ActPriority`;
+    if (priority === "urgent") return concept(system, "EM", "emergency");
+    if (priority === "high") return concept(system, "UR", "urgent");
+    return concept(system, "R", "routine");
+}
+
+/**
+ * FHIR R4 document Bundle for one encounter: Composition (the SOAP note)
+ * first, then Patient, Encounter, Conditions, Observations,
+ * AllergyIntolerances, MedicationStatements and MedicationRequests
+ */
+export function buildEncounterBundle(record: EncounterRecord): Bundle {
+    const { report, session, patient, medicalHistory, doctor } = record;
+    const reviewed = report.reviewStatus === "approved";
+    const recorded = report.createdAt.toISOString();
+    const entries: BundleEntry[] = [];
+
+    const add = <T extends ClinicalResource>(resource: T): Reference => {
+        const fullUrl = resourceUrn(resource.resourceType, resource.id);
+        entries.push({ fullUrl, resource });
+        return { reference: fullUrl };
+    };
+
+    // Patient
+    const patientRef: Reference = {
+        ...add<Patient>({
+            resourceType: "Patient",
+            id: patient.id,
+            identifier: [{ system: SYSTEM.patient, value: patient.id }],
+            ...(patient.name && { name: [{ text: patient.name }] }),
+            telecom: [{ system: "email", value: patient.email }],
+            gender: fhirGender(medicalHistory?.gender ?? null),
+        }),
+        display: patient.name || undefined,
+    };
+
+    // Encounter (the clinical interview)
+    const start = session.createdAt;
+    const encounterRef = add<Encounter>({
+        resourceType: "Encounter",
+        id: session.id,
+        identifier: [{ system: SYSTEM.session, value: session.id }],
+        status:
+            session.status === "completed"
+                ? "finished"
+                : session.status === "cancelled"
+                  ? "cancelled"
+                  : "in-progress",
+        class: {
+            system: `${TERMINOLOGY}/v3-ActCode`,
+            code: "VR",
+            display: "virtual",
+        },
+        priority: encounterPriority(report.priority),
+        subject: patientRef,
+        period: {
+            start: start.toISOString(),
+            ...(session.duration && {
+                end: new Date(
+                    start.getTime() + session.duration * 1000
+                ).toISOString(),
+            }),
+        },
+        reasonCode: [
+            {
+                text:
+                    session.chiefComplaint ||
+                    report.subjective.chiefComplaint ||
+                    "Clinical interview",
+            },
+        ],
+    });
+
+    // Conditions: the primary diagnosis and the differential
+    // ICD-10 coded where the report has a code; userSelected marks codes a
+    // doctor confirmed or chose
+    const diagnosisConcept = (name: string): CodeableConcept => {
+        const coded = report.diagnosisCodes.find(
+            (c) => c.diagnosis === name && c.code
+        );
+        return coded?.code
+            ? {
+                  coding: [
+                      {
+                          system: ICD10,
+                          code: coded.code,
+                          display: coded.title ?? undefined,
+                          userSelected:
+                              coded.status === "confirmed" ||
+                              coded.status === "overridden",
+                      },
+                  ],
+                  text: name,
+              }
+            : { text: name };
+    };
+    const condition = (
+        id: string,
+        name: string,
+        verification: "provisional" | "differential" | "confirmed",
+        extra: Partial<Condition> = {}
+    ): Reference =>
+        add<Condition>({
+            resourceType: "Condition",
+            id: fhirId(report.id, id),
+            clinicalStatus: concept(
+                `${TERMINOLOGY}/condition-clinical`,
+                "active"
+            ),
+            verificationStatus: concept(
+                `${TERMINOLOGY}/condition-ver-status`,
+                verification
+            ),
+            category: [
+                concept(
+                    `${TERMINOLOGY}/condition-category`,
+                    "encounter-diagnosis",
+                    "Encounter Diagnosis"
+                ),
+            ],
+            code: diagnosisConcept(name),
+            subject: patientRef,
+            encounter: encounterRef,
+            recordedDate: recorded,
+            ...extra,
+        });
+
+    const conditionRefs: Reference[] = [];
+    if (report.assessment.primaryDiagnosis) {
+        conditionRefs.push(
+            condition(
+                "primary",
+                report.assessment.primaryDiagnosis,
+                reviewed ? "confirmed" : "provisional",
+                {
+                    severity: { text: report.assessment.severity },
+                    ...(report.assessment.aiAnalysis && {
+                        note: [{ text: report.assessment.aiAnalysis }],
+                    }),
+                }
+            )
+        );
+    }
+    (report.assessment.differentialDiagnosis || [])
+        .filter((name) => name !== report.assessment.primaryDiagnosis)
+        .forEach((name, i) =>
+            conditionRefs.push(
+                condition(`differential-${i + 1}`, name, "differential")
+            )
+        );
+
+    // Observations: reported symptoms, vital signs, body measurements
+    const observationStatus = reviewed ? "final" : "preliminary";
+    const observation = (
+        id: string,
+        category: "survey" | "vital-signs",
+        fields: Pick<Observation, "code"> & Partial<Observation>
+    ): Reference =>
+        add<Observation>({
+            resourceType: "Observation",
+            id: fhirId(report.id, id),
+            status: observationStatus,
+            category: [
+                concept(`${TERMINOLOGY}/observation-category`, category),
+            ],
+            subject: patientRef,
+            encounter: encounterRef,
+            effectiveDateTime: start.toISOString(),
+            ...fields,
+        });
+
+    const characterizations = report.subjective.symptomCharacterization || [];
+    const symptomRefs = (report.subjective.symptoms || []).map((symptom, i) => {
+        const details = characterizations.find(
+            (c) => c.symptom.toLowerCase() === symptom.toLowerCase()
+        );
+        const opqrst = details
+            ? Object.entries(details)
+                  .filter(
+                      ([key, value]) =>
+                          !["symptom", "unknown"].includes(key) &&
+                          value !== undefined
+                  )
+                  .map(([key, value]) => `${key}: ${value}`)
+                  .join("; ")
+            : "";
+        return observation(`symptom-${i + 1}`, "survey", {
+            code: loinc("75325-1", "Symptom"),
+            valueCodeableConcept: { text: symptom },
+            ...(opqrst && { note: [{ text: opqrst }] }),
+        });
+    });
+
+    const vitalRefs = Object.entries(report.objective.vitalSigns || {}).map(
+        ([name, value], i) =>
+            observation(`vital-${i + 1}`, "vital-signs", {
+                code: { text: name },
+                valueString: String(value),
+            })
+    );
+    if (medicalHistory?.weight) {
+        vitalRefs.push(
+            observation("body-weight", "vital-signs", {
+                code: loinc("29463-7", "Body weight"),
+                valueQuantity: {
+                    value: medicalHistory.weight,
+                    unit: "kg",
+                    system: UCUM,
+                    code: "kg",
+                },
+            })
+        );
+    }
+    if (medicalHistory?.height) {
+        vitalRefs.push(
+            observation("body-height", "vital-signs", {
+                code: loinc("8302-2", "Body height"),
+                valueQuantity: {
+                    value: medicalHistory.height,
+                    unit: "cm",
+                    system: UCUM,
+                    code: "cm",
+                },
+            })
+        );
+    }
+
+    // Allergies and current medications from the onboarding history
+    const allergyRefs = (medicalHistory?.allergies || [])
+        .filter((allergy) => allergy.trim() && !isNone(allergy))
+        .map((allergy, i) =>
+            add<AllergyIntolerance>({
+                resourceType: "AllergyIntolerance",
+                id: fhirId(patient.id, "allergy", String(i + 1)),
+                clinicalStatus: concept(
+                    `${TERMINOLOGY}/allergyintolerance-clinical`,
+                    "active"
+                ),
+                code: { text: allergy },
+                patient: patientRef,
+            })
+        );
+
+    const medicationRefs = (medicalHistory?.currentMedications || [])
+        .filter((medication) => medication.trim() && !isNone(medication))
+        .map((medication, i) =>
+            add<MedicationStatement>({
+                resourceType: "MedicationStatement",
+                id: fhirId(patient.id, "medication", String(i + 1)),
+                status: "active",
+                medicationCodeableConcept: { text: medication },
+                subject: patientRef,
+            })
+        );
+
+    // Prescription: one MedicationRequest per structured item, or per line
+    // of a free-text prescription
+    const doctorRef: Reference | undefined = doctor
+        ? { display: doctor.name ? `Dr. ${doctor.name}` : "Reviewing doctor" }
+        : undefined;
+    const prescriptionLines: Pick<
+        MedicationRequest,
+        "medicationCodeableConcept" | "dosageInstruction"
+    >[] =
+        report.prescriptionItems.length > 0
+            ? report.prescriptionItems.map((item) => ({
+                  medicationCodeableConcept: {
+                      text: [item.drug, item.strength, item.form]
+                          .filter(Boolean)
+                          .join(" "),
+                  },
+                  dosageInstruction: [
+                      {
+                          text: [
+                              item.dose,
+                              item.frequency,
+                              item.duration && `for ${item.duration}`,
+                          ]
+                              .filter(Boolean)
+                              .join(", "),
+                          route: { text: item.route },
+                          ...(item.instructions && {
+                              patientInstruction: item.instructions,
+                          }),
+                      },
+                  ],
+              }))
+            : (report.prescription || "")
+                  .split("\n")
+                  .map((line) =>
+                      line.replace(/^\s*(\d+[.)]|[-*•])\s*/, "").trim()
+                  )
+                  .filter(Boolean)
+                  .map((line) => ({
+                      medicationCodeableConcept: { text: line },
+                      dosageInstruction: [{ text: line }],
+                  }));
+    const prescriptionRefs = prescriptionLines.map((line, i) =>
+        add<MedicationRequest>({
+            resourceType: "MedicationRequest",
+            id: fhirId(report.id, "rx", String(i + 1)),
+            status: reviewed ? "active" : "draft",
+            intent: "order",
+            ...line,
+            subject: patientRef,
+            encounter: encounterRef,
+            authoredOn: (report.updatedAt || report.createdAt).toISOString(),
+            ...(doctorRef && { requester: doctorRef }),
+        })
+    );
+
+    // Composition: the SOAP note, first entry of the document
+    const { subjective, objective, assessment, plan } = report;
+    const sections: CompositionSection[] = [
+        {
+            title: "Subjective",
+            code: loinc("61150-9", "Subjective Narrative"),
+            text: narrative([
+                ["Chief complaint", subjective.chiefComplaint],
+                ["Symptoms", subjective.symptoms?.join(", ")],
+                ["History", subjective.patientHistory],
+                ["Patient narrative", subjective.patientNarrative],
+            ]),
+            entry: [...symptomRefs, ...allergyRefs, ...medicationRefs],
+        },
+        {
+            title: "Objective",
+            code: loinc("61149-1", "Objective Narrative"),
+            text: narrative([
+                ["Reported symptoms", objective.reportedSymptoms?.join(", ")],
+                ["Severity", objective.severity],
+                [
+                    "Vital signs",
+                    Object.entries(objective.vitalSigns || {})
+                        .map(([name, value]) => `${name}: ${value}`)
+                        .join(", "),
+                ],
+            ]),
+            entry: vitalRefs,
+        },
+        {
+            title: "Assessment",
+            code: loinc("51848-0", "Evaluation note"),
+            text: narrative([
+                ["Primary diagnosis", assessment.primaryDiagnosis],
+                [
+                    "Differential diagnosis",
+                    assessment.differentialDiagnosis?.join(", "),
+                ],
+                ["Analysis", assessment.aiAnalysis],
+                ["Red flags", assessment.redFlags?.join(", ")],
+            ]),
+            entry: conditionRefs,
+        },
+        {
+            title: "Plan",
+            code: loinc("18776-5", "Plan of care note"),
+            text: narrative([
+                ["Recommendations", plan.recommendations?.join("; ")],
+                ["Tests", plan.testsNeeded?.join(", ")],
+                ["Referral", plan.specialistReferral],
+                ["Follow-up needed", plan.followUpNeeded ? "Yes" : "No"],
+                ["Prescription", report.prescription || undefined],
+                ["Doctor notes", report.doctorNotes || undefined],
+            ]),
+            entry: prescriptionRefs,
+        },
+    ].map((section) =>
+        section.entry.length > 0 ? section : { ...section, entry: undefined }
+    );
+
+    const composition: Composition = {
+        resourceType: "Composition",
+        id: report.id,
+        identifier: { system: SYSTEM.report, value: report.id },
+        status: reviewed ? "final" : "preliminary",
+        type: loinc("11506-3", "Progress note"),
+        subject: patientRef,
+        encounter: encounterRef,
+        date: report.updatedAt.toISOString(),
+        author: [{ display: AI_AUTHOR }, ...(doctorRef ? [doctorRef] : [])],
+        title: `SOAP note - ${report.department || "general"}`,
+        section: sections,
+    };
+    entries.unshift({
+        fullUrl: resourceUrn("Composition", report.id),
+        resource: composition,
+    });
+
+    return {
+        resourceType: "Bundle",
+        id: report.id,
+        meta: {
+            profile: [ENCOUNTER_BUNDLE_PROFILE],
+            lastUpdated: report.updatedAt.toISOString(),
+        },
+        identifier: { system: SYSTEM.report, value: report.id },
+        type: "document",
+        timestamp: new Date().toISOString(),
+        entry: entries,
+    };
+}
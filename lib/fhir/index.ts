@@ -0,0 +1,194 @@
+/**
+ * FHIR
+ * FHIR R4 export of finished encounters for hospital EHRs
+ *
+ * One encounter = one SOAPReport with its ClinicalSession and the patient's
+ * MedicalHistory, exported as a document Bundle:
+ *   Composition          the SOAP note (first entry)
+ *   Patient, Encounter
+ *   Condition            primary diagnosis + differential
+ *   Observation          reported symptoms, vital signs, weight/height
+ *   AllergyIntolerance   from the onboarding history
+ *   MedicationStatement  current medications
+ *   MedicationRequest    the doctor's prescription, one per item (or line)
+ *
+ * Every bundle is checked against the local profile (profile.ts) before it
+ * is returned. Bulk export writes the resources of many encounters as NDJSON
+ * (one resource per line, each Patient once).
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "../prisma";
+import type { DiagnosisCode, SOAPReport } from "../agents/types";
+import { buildEncounterBundle, type EncounterRecord } from "./bundle";
+import { validateEncounterBundle } from "./profile";
+import type { Bundle, OperationOutcomeIssue } from "./types";
+
+export interface EncounterExport {
+    bundle: Bundle;
+    issues: OperationOutcomeIssue[]; // profile violations, empty = valid
+}
+
+const reportInclude = {
+    session: {
+        select: {
+            id: true,
+            status: true,
+            chiefComplaint: true,
+            createdAt: true,
+            duration: true,
+        },
+    },
+    patient: {
+        select: {
+            id: true,
+            name: true,
+            email: true,
+            medicalHistory: {
+                select: {
+                    gender: true,
+                    weight: true,
+                    height: true,
+                    allergies: true,
+                    currentMedications: true,
+                },
+            },
+        },
+    },
+    prescriptionItems: {
+        orderBy: { position: "asc" },
+        omit: { id: true, reportId: true, position: true, createdAt: true },
+    },
+} as const;
+
+type ReportWithRelations = Prisma.SOAPReportGetPayload<{
+    include: typeof reportInclude;
+}>;
+
+async function toEncounterRecord(
+    report: ReportWithRelations
+): Promise<EncounterRecord> {
+    const doctor =
+        report.assignedDoctorId && report.reviewStatus === "approved"
+            ? await prisma.user.findUnique({
+                  where: { id: report.assignedDoctorId },
+                  select: { id: true, name: true },
+              })
+            : null;
+
+    return {
+        report: {
+            id: report.id,
+            subjective:
+                report.subjective as unknown as SOAPReport["subjective"],
+            objective: report.objective as unknown as SOAPReport["objective"],
+            assessment:
+                report.assessment as unknown as SOAPReport["assessment"],
+            plan: report.plan as unknown as SOAPReport["plan"],
+            diagnosisCodes: (report.diagnosisCodes ||
+                []) as unknown as DiagnosisCode[],
+            department: report.department,
+            priority: report.priority,
+            reviewStatus: report.reviewStatus,
+            doctorNotes: report.doctorNotes,
+            prescription: report.prescription,
+            prescriptionItems: report.prescriptionItems,
+            createdAt: report.createdAt,
+            updatedAt: report.updatedAt,
+        },
+        session: report.session,
+        patient: {
+            id: report.patient.id,
+            name: report.patient.name,
+            email: report.patient.email,
+        },
+        medicalHistory: report.patient.medicalHistory,
+        doctor,
+    };
+}
+
+/**
+ * The FHIR document Bundle for one report, or null if it does not exist
+ */
+export async function exportEncounter(
+    reportId: string
+): Promise<EncounterExport | null> {
+    const report = await prisma.sOAPReport.findUnique({
+        where: { id: reportId },
+        include: reportInclude,
+    });
+    if (!report) return null;
+
+    const bundle = buildEncounterBundle(await toEncounterRecord(report));
+    return { bundle, issues: validateEncounterBundle(bundle) };
+}
+
+// Bundle-local urn:uuid references as Type/id, so NDJSON resources
+// reference each other outside the bundle
+function withRelativeReferences<T>(value: T, ids: Map<string, string>): T {
+    return JSON.parse(JSON.stringify(value), (key, v) =>
+        key === "reference" && typeof v === "string" && ids.has(v)
+            ? ids.get(v)
+            : v
+    );
+}
+
+/**
+ * Resources of every report created in [since, until) as NDJSON (one
+ * resource per line, each Patient once). Bundles that fail the profile are
+ * left out and listed.
+ */
+export async function exportEncountersNdjson(range: {
+    since: Date;
+    until: Date;
+    types?: string[]; // resource types to include (default: all)
+}): Promise<{ ndjson: string; encounters: number; invalid: string[] }> {
+    const reports = await prisma.sOAPReport.findMany({
+        where: { createdAt: { gte: range.since, lt: range.until } },
+        include: reportInclude,
+        orderBy: { createdAt: "asc" },
+    });
+
+    const written = new Set<string>();
+    const lines: string[] = [];
+    const invalid: string[] = [];
+
+    for (const report of reports) {
+        const bundle = buildEncounterBundle(await toEncounterRecord(report));
+        const issues = validateEncounterBundle(bundle);
+        if (issues.length > 0) {
+            console.error(
+                `   ❌ FHIR bundle for report ${report.id} failed validation:`,
+                issues.map((i) => i.diagnostics)
+            );
+            invalid.push(report.id);
+            continue;
+        }
+
+        const ids = new Map(
+            bundle.entry.map(({ fullUrl, resource }) => [
+                fullUrl,
+                `${resource.resourceType}/${resource.id}`,
+            ])
+        );
+        for (const { fullUrl, resource } of bundle.entry) {
+            if (written.has(fullUrl)) continue;
+            if (range.types && !range.types.includes(resource.resourceType)) {
+                continue;
+            }
+            written.add(fullUrl);
+            lines.push(JSON.stringify(withRelativeReferences(resource, ids)));
+        }
+    }
+
+    return {
+        ndjson: lines.map((line) => line + "\n").join(""),
+        encounters: reports.length - invalid.length,
+        invalid,
+    };
+}
+
+export { buildEncounterBundle, resourceUrn } from "./bundle";
+export type { EncounterRecord } from "./bundle";
+export { validateEncounterBundle, toOperationOutcome } from "./profile";
+export * from "./types";
@@ -0,0 +1,115 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildEncounterBundle, type EncounterRecord } from "./bundle";
+import { validateEncounterBundle } from "./profile";
+import type { Bundle } from "./types";
+
+const CREATED = new Date("2026-01-05T10:00:00.000Z");
+
+function encounter(): EncounterRecord {
+    return {
+        report: {
+            id: "report-1",
+            subjective: {
+                chiefComplaint: "Headache for three days",
+                symptoms: ["headache", "fatigue"],
+                patientHistory: "",
+                patientNarrative: "Dull headache on both sides",
+            },
+            objective: {
+                reportedSymptoms: ["headache"],
+                severity: "moderate",
+                confidenceLevel: 70,
+                vitalSigns: { temperature: "37.8 C" },
+            },
+            assessment: {
+                primaryDiagnosis: "Tension Headache",
+                differentialDiagnosis: ["Migraine"],
+                severity: "moderate",
+                confidence: 70,
+                aiAnalysis: "Bilateral pressing headache",
+                redFlags: [],
+                medicalSources: [],
+            },
+            plan: {
+                recommendations: ["Rest and fluids"],
+                testsNeeded: [],
+                followUpNeeded: true,
+                urgency: "standard",
+            },
+            diagnosisCodes: [],
+            department: "General Medicine",
+            priority: "normal",
+            reviewStatus: "approved",
+            doctorNotes: null,
+            prescription: "Panadol 500mg TDS",
+            prescriptionItems: [],
+            createdAt: CREATED,
+            updatedAt: CREATED,
+        },
+        session: {
+            id: "session-1",
+            status: "completed",
+            chiefComplaint: "Headache",
+            createdAt: CREATED,
+            duration: 600,
+        },
+        patient: { id: "patient-1", name: "Ayesha", email: "a@example.com" },
+        medicalHistory: {
+            gender: "female",
+            weight: 60,
+            height: 165,
+            allergies: ["Penicillin"],
+            currentMedications: ["Metformin"],
+        },
+        doctor: { id: "doctor-1", name: "Khan" },
+    };
+}
+
+function diagnostics(bundle: Bundle): string[] {
+    return validateEncounterBundle(bundle).map((i) => i.diagnostics ?? "");
+}
+
+describe("validateEncounterBundle", () => {
+    test("accepts the bundle built for an encounter", () => {
+        assert.deepEqual(
+            validateEncounterBundle(buildEncounterBundle(encounter())),
+            []
+        );
+    });
+
+    test("requires the Composition first", () => {
+        const bundle = buildEncounterBundle(encounter());
+        bundle.entry.reverse();
+        assert.ok(
+            diagnostics(bundle).includes(
+                "A document bundle starts with its Composition"
+            )
+        );
+    });
+
+    test("reports references to entries outside the bundle", () => {
+        const bundle = buildEncounterBundle(encounter());
+        const patient = bundle.entry.find(
+            (e) => e.resource.resourceType === "Patient"
+        )!;
+        bundle.entry = bundle.entry.filter((e) => e !== patient);
+        const issues = validateEncounterBundle(bundle);
+        assert.ok(issues.some((i) => i.code === "not-found"));
+        assert.ok(
+            diagnostics(bundle).includes("Expected one Patient, found 0")
+        );
+    });
+
+    test("reports resources that break the profile", () => {
+        const bundle = buildEncounterBundle(encounter());
+        const entry = bundle.entry.find(
+            (e) => e.resource.resourceType === "Encounter"
+        )!;
+        (entry.resource as { status: string }).status = "planned";
+        const issues = validateEncounterBundle(bundle);
+        assert.equal(issues.length, 1);
+        assert.equal(issues[0].code, "invalid");
+        assert.match(issues[0].expression?.[0] ?? "", /\.resource\.status$/);
+    });
+});
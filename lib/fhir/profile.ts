@@ -0,0 +1,297 @@
+import { z } from "zod";
+import type { Bundle, OperationOutcome, OperationOutcomeIssue } from "./types";
+
+// Local profile of the encounter bundle: the FHIR R4 cardinalities and
+// value sets the export relies on, checked before a bundle leaves the app.
+// Codes are not checked against external terminology servers.
+
+const ID = /^[A-Za-z0-9\-.]{1,64}$/;
+const URN_UUID =
+    /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const XHTML_DIV =
+    /^<div xmlns="http:\/\/www\.w3\.org\/1999\/xhtml">[\s\S]*<\/div>$/;
+
+const Coding = z.object({
+    system: z.string().min(1),
+    code: z.string().min(1),
+    display: z.string().optional(),
+});
+
+// A coded or text-only concept; at least one of the two
+const CodeableConcept = z
+    .object({ coding: z.array(Coding).optional(), text: z.string().optional() })
+    .refine((c) => (c.coding?.length ?? 0) > 0 || Boolean(c.text?.trim()), {
+        message: "needs a coding or text",
+    });
+
+const Reference = z
+    .object({
+        reference: z.string().optional(),
+        display: z.string().optional(),
+    })
+    .refine((r) => Boolean(r.reference || r.display), {
+        message: "needs a reference or display",
+    });
+
+const LocalReference = z.object({
+    reference: z.string().regex(URN_UUID),
+    display: z.string().optional(),
+});
+
+const Identifier = z.object({
+    system: z.string().min(1),
+    value: z.string().min(1),
+});
+
+const Narrative = z.object({
+    status: z.literal("generated"),
+    div: z.string().regex(XHTML_DIV),
+});
+
+const DateTime = z.iso.datetime();
+
+const base = {
+    id: z.string().regex(ID),
+    text: Narrative.optional(),
+};
+
+const ResourceSchemas: Record<string, z.ZodType> = {
+    Patient: z.object({
+        ...base,
+        resourceType: z.literal("Patient"),
+        identifier: z.array(Identifier).min(1),
+        gender: z.enum(["male", "female", "other", "unknown"]).optional(),
+    }),
+    Encounter: z.object({
+        ...base,
+        resourceType: z.literal("Encounter"),
+        identifier: z.array(Identifier).min(1),
+        status: z.enum(["in-progress", "finished", "cancelled"]),
+        class: Coding,
+        subject: LocalReference,
+        period: z.object({ start: DateTime, end: DateTime.optional() }),
+    }),
+    Condition: z.object({
+        ...base,
+        resourceType: z.literal("Condition"),
+        clinicalStatus: CodeableConcept,
+        verificationStatus: CodeableConcept,
+        category: z.array(CodeableConcept).min(1),
+        code: CodeableConcept,
+        subject: LocalReference,
+        encounter: LocalReference,
+        recordedDate: DateTime,
+    }),
+    Observation: z
+        .object({
+            ...base,
+            resourceType: z.literal("Observation"),
+            status: z.enum(["preliminary", "final"]),
+            category: z.array(CodeableConcept).min(1),
+            code: CodeableConcept,
+            subject: LocalReference,
+            encounter: LocalReference.optional(),
+            effectiveDateTime: DateTime,
+            valueCodeableConcept: CodeableConcept.optional(),
+            valueQuantity: z
+                .object({
+                    value: z.number(),
+                    unit: z.string().min(1),
+                    system: z.string().optional(),
+                    code: z.string().optional(),
+                })
+                .optional(),
+            valueString: z.string().min(1).optional(),
+        })
+        .refine(
+            (o) =>
+                [o.valueCodeableConcept, o.valueQuantity, o.valueString].filter(
+                    (v) => v !== undefined
+                ).length === 1,
+            { message: "needs exactly one value[x]" }
+        ),
+    AllergyIntolerance: z.object({
+        ...base,
+        resourceType: z.literal("AllergyIntolerance"),
+        clinicalStatus: CodeableConcept,
+        code: CodeableConcept,
+        patient: LocalReference,
+    }),
+    MedicationStatement: z.object({
+        ...base,
+        resourceType: z.literal("MedicationStatement"),
+        status: z.literal("active"),
+        medicationCodeableConcept: CodeableConcept,
+        subject: LocalReference,
+    }),
+    MedicationRequest: z.object({
+        ...base,
+        resourceType: z.literal("MedicationRequest"),
+        status: z.enum(["active", "draft"]),
+        intent: z.literal("order"),
+        medicationCodeableConcept: CodeableConcept,
+        subject: LocalReference,
+        encounter: LocalReference,
+        authoredOn: DateTime,
+        requester: Reference.optional(),
+    }),
+    Composition: z.object({
+        ...base,
+        resourceType: z.literal("Composition"),
+        identifier: Identifier,
+        status: z.enum(["preliminary", "final", "amended"]),
+        type: CodeableConcept,
+        subject: LocalReference,
+        encounter: LocalReference,
+        date: DateTime,
+        author: z.array(Reference).min(1),
+        title: z.string().min(1),
+        section: z
+            .array(
+                z.object({
+                    title: z.string().min(1),
+                    code: CodeableConcept,
+                    text: Narrative,
+                    entry: z.array(LocalReference).min(1).optional(),
+                })
+            )
+            .min(1),
+    }),
+};
+
+const BundleSchema = z.object({
+    resourceType: z.literal("Bundle"),
+    id: z.string().regex(ID),
+    identifier: Identifier,
+    type: z.literal("document"),
+    timestamp: DateTime,
+    entry: z
+        .array(
+            z.object({
+                fullUrl: z.string().regex(URN_UUID),
+                resource: z.object({ resourceType: z.string() }),
+            })
+        )
+        .min(1),
+});
+
+// Exactly one of each per encounter bundle
+const SINGLETONS = ["Composition", "Patient", "Encounter"];
+
+function issue(
+    code: OperationOutcomeIssue["code"],
+    diagnostics: string,
+    expression?: string
+): OperationOutcomeIssue {
+    return {
+        severity: "error",
+        code,
+        diagnostics,
+        ...(expression && { expression: [expression] }),
+    };
+}
+
+function zodIssues(error: z.ZodError, prefix: string): OperationOutcomeIssue[] {
+    return error.issues.map((i) =>
+        issue(
+            "invalid",
+            i.message,
+            [prefix, ...i.path.map(String)].filter(Boolean).join(".")
+        )
+    );
+}
+
+// Every "reference" string anywhere in a resource
+function collectReferences(value: unknown, found: string[] = []): string[] {
+    if (Array.isArray(value)) {
+        value.forEach((v) => collectReferences(v, found));
+    } else if (value && typeof value === "object") {
+        for (const [key, v] of Object.entries(value)) {
+            if (key === "reference" && typeof v === "string") found.push(v);
+            else collectReferences(v, found);
+        }
+    }
+    return found;
+}
+
+/**
+ * Check a bundle against the local encounter-bundle profile
+ * Returns the problems found (empty = valid)
+ */
+export function validateEncounterBundle(
+    bundle: Bundle
+): OperationOutcomeIssue[] {
+    const shape = BundleSchema.safeParse(bundle);
+    if (!shape.success) return zodIssues(shape.error, "Bundle");
+
+    const issues: OperationOutcomeIssue[] = [];
+    const fullUrls = new Set<string>();
+
+    bundle.entry.forEach(({ fullUrl, resource }, i) => {
+        const path = `Bundle.entry[${i}]`;
+        if (fullUrls.has(fullUrl)) {
+            issues.push(
+                issue("structure", `Duplicate fullUrl ${fullUrl}`, path)
+            );
+        }
+        fullUrls.add(fullUrl);
+
+        const schema = ResourceSchemas[resource.resourceType];
+        if (!schema) {
+            issues.push(
+                issue(
+                    "structure",
+                    `${resource.resourceType} is not part of the profile`,
+                    path
+                )
+            );
+            return;
+        }
+        const result = schema.safeParse(resource);
+        if (!result.success) {
+            issues.push(...zodIssues(result.error, `${path}.resource`));
+        }
+    });
+
+    if (bundle.entry[0].resource.resourceType !== "Composition") {
+        issues.push(
+            issue(
+                "structure",
+                "A document bundle starts with its Composition",
+                "Bundle.entry[0]"
+            )
+        );
+    }
+    for (const type of SINGLETONS) {
+        const count = bundle.entry.filter(
+            (e) => e.resource.resourceType === type
+        ).length;
+        if (count !== 1) {
+            issues.push(
+                issue("required", `Expected one ${type}, found ${count}`)
+            );
+        }
+    }
+
+    bundle.entry.forEach(({ resource }, i) => {
+        for (const reference of collectReferences(resource)) {
+            if (!fullUrls.has(reference)) {
+                issues.push(
+                    issue(
+                        "not-found",
+                        `Reference ${reference} is not in the bundle`,
+                        `Bundle.entry[${i}].resource`
+                    )
+                );
+            }
+        }
+    });
+
+    return issues;
+}
+
+export function toOperationOutcome(
+    issues: OperationOutcomeIssue[]
+): OperationOutcome {
+    return { resourceType: "OperationOutcome", issue: issues };
+}
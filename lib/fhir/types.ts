@@ -0,0 +1,179 @@
+// The subset of FHIR R4 (4.0.1) the export produces
+// https://hl7.org/fhir/R4/resourcelist.html
+
+export interface Coding {
+    system?: string;
+    code?: string;
+    display?: string;
+    userSelected?: boolean; // chosen by a clinician
+}
+
+export interface CodeableConcept {
+    coding?: Coding[];
+    text?: string;
+}
+
+export interface Reference {
+    reference?: string; // urn:uuid of a bundle entry
+    display?: string;
+}
+
+export interface Identifier {
+    system: string;
+    value: string;
+}
+
+export interface Annotation {
+    text: string;
+}
+
+export interface Quantity {
+    value: number;
+    unit: string;
+    system?: string;
+    code?: string;
+}
+
+export interface Narrative {
+    status: "generated";
+    div: string; // XHTML
+}
+
+interface ResourceBase {
+    id: string;
+    meta?: { profile?: string[]; lastUpdated?: string };
+    text?: Narrative;
+}
+
+export interface Patient extends ResourceBase {
+    resourceType: "Patient";
+    identifier: Identifier[];
+    name?: Array<{ text: string }>;
+    telecom?: Array<{ system: "email"; value: string }>;
+    gender?: "male" | "female" | "other" | "unknown";
+}
+
+export interface Encounter extends ResourceBase {
+    resourceType: "Encounter";
+    identifier: Identifier[];
+    status: "in-progress" | "finished" | "cancelled";
+    class: Coding;
+    priority?: CodeableConcept;
+    subject: Reference;
+    period: { start: string; end?: string };
+    reasonCode?: CodeableConcept[];
+}
+
+export interface Condition extends ResourceBase {
+    resourceType: "Condition";
+    clinicalStatus: CodeableConcept;
+    verificationStatus: CodeableConcept;
+    category: CodeableConcept[];
+    severity?: CodeableConcept;
+    code: CodeableConcept;
+    subject: Reference;
+    encounter: Reference;
+    recordedDate: string;
+    note?: Annotation[];
+}
+
+export interface Observation extends ResourceBase {
+    resourceType: "Observation";
+    status: "preliminary" | "final";
+    category: CodeableConcept[];
+    code: CodeableConcept;
+    subject: Reference;
+    encounter?: Reference;
+    effectiveDateTime: string;
+    valueCodeableConcept?: CodeableConcept;
+    valueQuantity?: Quantity;
+    valueString?: string;
+    note?: Annotation[];
+}
+
+export interface AllergyIntolerance extends ResourceBase {
+    resourceType: "AllergyIntolerance";
+    clinicalStatus: CodeableConcept;
+    code: CodeableConcept;
+    patient: Reference;
+}
+
+export interface MedicationStatement extends ResourceBase {
+    resourceType: "MedicationStatement";
+    status: "active";
+    medicationCodeableConcept: CodeableConcept;
+    subject: Reference;
+}
+
+export interface MedicationRequest extends ResourceBase {
+    resourceType: "MedicationRequest";
+    status: "active" | "draft";
+    intent: "order";
+    medicationCodeableConcept: CodeableConcept;
+    subject: Reference;
+    encounter: Reference;
+    authoredOn: string;
+    requester?: Reference;
+    dosageInstruction?: Array<{
+        text: string;
+        route?: CodeableConcept;
+        patientInstruction?: string;
+    }>;
+}
+
+export interface CompositionSection {
+    title: string;
+    code: CodeableConcept;
+    text: Narrative;
+    entry?: Reference[];
+}
+
+export interface Composition extends ResourceBase {
+    resourceType: "Composition";
+    identifier: Identifier;
+    status: "preliminary" | "final" | "amended";
+    type: CodeableConcept;
+    subject: Reference;
+    encounter: Reference;
+    date: string;
+    author: Reference[];
+    title: string;
+    section: CompositionSection[];
+}
+
+export interface OperationOutcomeIssue {
+    severity: "fatal" | "error" | "warning" | "information";
+    code: "invalid" | "required" | "structure" | "not-found" | "exception";
+    diagnostics: string;
+    expression?: string[];
+}
+
+export interface OperationOutcome {
+    resourceType: "OperationOutcome";
+    issue: OperationOutcomeIssue[];
+}
+
+export type ClinicalResource =
+    | Patient
+    | Encounter
+    | Condition
+    | Observation
+    | AllergyIntolerance
+    | MedicationStatement
+    | MedicationRequest
+    | Composition;
+
+export interface BundleEntry {
+    fullUrl: string; // urn:uuid:...
+    resource: ClinicalResource;
+}
+
+export interface Bundle {
+    resourceType: "Bundle";
+    id: string;
+    meta?: { profile?: string[]; lastUpdated?: string };
+    identifier: Identifier;
+    type: "document";
+    timestamp: string;
+    entry: BundleEntry[];
+}
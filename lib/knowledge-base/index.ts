@@ -0,0 +1,32 @@
+/**
+ * Medical Knowledge Base
+ * Loads medical sources into the vector store that RAG retrieval queries
+ *
+ * Sources:
+ * - CSV:      header row of metadata fields (symptoms as "a; b; c")
+ * - JSONL:    one object per line with the same fields
+ * - Markdown: one "# Disease" section per entry, with optional
+ *             "## Symptoms", "## Severity" and "## Description" subsections
+ *
+ * Every chunk carries a source/version tag and is validated against
+ * KnowledgeMetadataSchema before it is written.
+ * CLI: scripts/ingest-knowledge.ts
+ */
+
+export {
+    CHUNK_OVERLAP,
+    CHUNK_SIZE,
+    chunkId,
+    chunkText,
+    deleteKnowledgeSource,
+    ingestKnowledgeFile,
+    sourcePrefix,
+    type IngestOptions,
+} from "./ingest";
+export {
+    parseCsv,
+    parseJsonl,
+    parseKnowledgeFile,
+    parseMarkdown,
+} from "./parsers";
+export * from "./types";
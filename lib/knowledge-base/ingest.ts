@@ -0,0 +1,257 @@
+import { readFile } from "fs/promises";
+import { NAMESPACES } from "../pinecone";
+import {
+    getVectorStore,
+    isZeroVector,
+    type VectorMetadata,
+    type VectorRecord,
+    type VectorStore,
+} from "../vector-store";
+import { parseKnowledgeFile } from "./parsers";
+import {
+    KnowledgeEntrySchema,
+    KnowledgeMetadataSchema,
+    KnowledgeSourceNameSchema,
+    type DeleteReport,
+    type IngestReport,
+    type KnowledgeEntry,
+    type SkippedItem,
+} from "./types";
+
+// all-MiniLM-L6-v2 reads ~256 word pieces; keep chunks comfortably inside it
+export const CHUNK_SIZE = 800; // characters
+export const CHUNK_OVERLAP = 100;
+
+export interface IngestOptions {
+    source: string;
+    version: string;
+    embed: (text: string) => Promise<number[]>; // generateEmbedding
+    dryRun?: boolean;
+    store?: VectorStore;
+}
+
+/**
+ * Chunk ids are "<source>#<version>#<n>" so one source (any version) can be
+ * listed and deleted by prefix
+ */
+export function sourcePrefix(source: string): string {
+    return `${source}#`;
+}
+
+export function chunkId(source: string, version: string, n: number): string {
+    return `${sourcePrefix(source)}${version}#${String(n).padStart(5, "0")}`;
+}
+
+/**
+ * Split text into overlapping windows of about `size` characters, on word
+ * boundaries
+ */
+export function chunkText(
+    text: string,
+    size = CHUNK_SIZE,
+    overlap = CHUNK_OVERLAP
+): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < words.length) {
+        let end = start;
+        let length = 0;
+        while (
+            end < words.length &&
+            (end === start || length + words[end].length + 1 <= size)
+        ) {
+            length += words[end].length + 1;
+            end++;
+        }
+        chunks.push(words.slice(start, end).join(" "));
+        if (end >= words.length) break;
+
+        // Step back far enough to repeat ~overlap characters
+        let next = end;
+        let repeated = 0;
+        while (
+            next - 1 > start &&
+            repeated + words[next - 1].length + 1 <= overlap
+        ) {
+            next--;
+            repeated += words[next].length + 1;
+        }
+        start = next;
+    }
+    return chunks;
+}
+
+// Text that gets embedded for an entry
+function entryText(entry: KnowledgeEntry): string {
+    if (entry.text) return entry.text;
+    return [
+        entry.title || entry.disease || entry.condition,
+        entry.question && `Question: ${entry.question}`,
+        entry.answer && `Answer: ${entry.answer}`,
+        entry.explanation,
+        entry.description,
+        entry.symptoms?.length && `Symptoms: ${entry.symptoms.join(", ")}`,
+    ]
+        .filter(Boolean)
+        .join("\n");
+}
+
+function describeIssues(error: {
+    issues: Array<{ path: PropertyKey[]; message: string }>;
+}): string {
+    return error.issues
+        .map(
+            (issue) =>
+                `${issue.path.map(String).join(".") || "entry"}: ${issue.message}`
+        )
+        .join("; ");
+}
+
+function checkName(label: string, value: string): void {
+    const result = KnowledgeSourceNameSchema.safeParse(value);
+    if (!result.success) {
+        throw new Error(
+            `Invalid ${label} "${value}": ${result.error.issues[0].message}`
+        );
+    }
+}
+
+function versionOf(id: string): string {
+    return id.split("#")[1] || "";
+}
+
+/**
+ * Parse, validate, chunk and embed a CSV/JSONL/Markdown file into the
+ * medical knowledge namespace as `source`@`version`.
+ *
+ * Re-ingesting a source upserts the new chunks first and then removes every
+ * other chunk of that source (older versions, or leftovers of a longer
+ * previous file), so queries never see an empty source. A dry run stops
+ * before embedding and reports what would change.
+ */
+export async function ingestKnowledgeFile(
+    filePath: string,
+    {
+        source,
+        version,
+        embed,
+        dryRun = false,
+        store = getVectorStore(),
+    }: IngestOptions
+): Promise<IngestReport> {
+    checkName("source", source);
+    checkName("version", version);
+
+    const items = parseKnowledgeFile(
+        filePath,
+        await readFile(filePath, "utf-8")
+    );
+    const ingestedAt = new Date().toISOString();
+    const skipped: SkippedItem[] = [];
+    const pending: Array<{ id: string; metadata: VectorMetadata }> = [];
+    let entries = 0;
+
+    for (const item of items) {
+        if (item.error) {
+            skipped.push({ location: item.location, error: item.error });
+            continue;
+        }
+        const parsed = KnowledgeEntrySchema.safeParse(item.data);
+        if (!parsed.success) {
+            skipped.push({
+                location: item.location,
+                error: describeIssues(parsed.error),
+            });
+            continue;
+        }
+        entries++;
+
+        for (const chunk of chunkText(entryText(parsed.data))) {
+            const n = pending.length;
+            const metadata = KnowledgeMetadataSchema.parse({
+                ...parsed.data,
+                text: chunk,
+                source,
+                version,
+                chunk: n,
+                ingestedAt,
+            });
+            pending.push({
+                id: chunkId(source, version, n),
+                metadata: metadata as VectorMetadata,
+            });
+        }
+    }
+
+    const namespace = NAMESPACES.MEDICAL_KNOWLEDGE;
+    const existing = await store.listIds(sourcePrefix(source), namespace);
+    const newIds = new Set(pending.map((p) => p.id));
+    const stale = existing.filter((id) => !newIds.has(id));
+
+    const report: IngestReport = {
+        source,
+        version,
+        store: store.name,
+        dryRun,
+        entries,
+        chunks: pending.length,
+        skipped,
+        previousVersions: [...new Set(existing.map(versionOf))].sort(),
+        replaced: stale.length,
+    };
+    if (dryRun) return report;
+
+    if (pending.length === 0) {
+        throw new Error(
+            `No valid entries in ${filePath}; "${source}" was left unchanged`
+        );
+    }
+
+    const records: VectorRecord[] = [];
+    for (const { id, metadata } of pending) {
+        const values = await embed(String(metadata.text));
+        // generateEmbedding falls back to a zero vector when the model fails
+        if (isZeroVector(values)) {
+            throw new Error(
+                `Embedding failed for ${id}; "${source}" was left unchanged`
+            );
+        }
+        records.push({ id, values, metadata });
+        if (records.length % 50 === 0) {
+            console.log(
+                `   embedded ${records.length}/${pending.length} chunks`
+            );
+        }
+    }
+
+    await store.upsert(records, namespace);
+    await store.delete(stale, namespace);
+    return report;
+}
+
+/**
+ * Remove every chunk of a source, all versions
+ */
+export async function deleteKnowledgeSource(
+    source: string,
+    {
+        dryRun = false,
+        store = getVectorStore(),
+    }: { dryRun?: boolean; store?: VectorStore } = {}
+): Promise<DeleteReport> {
+    checkName("source", source);
+
+    const namespace = NAMESPACES.MEDICAL_KNOWLEDGE;
+    const ids = await store.listIds(sourcePrefix(source), namespace);
+    if (!dryRun) await store.delete(ids, namespace);
+
+    return {
+        source,
+        store: store.name,
+        dryRun,
+        versions: [...new Set(ids.map(versionOf))].sort(),
+        deleted: ids.length,
+    };
+}
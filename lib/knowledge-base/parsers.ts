@@ -0,0 +1,185 @@
+import path from "path";
+import type { RawKnowledgeItem } from "./types";
+
+// Symptom lists in CSV cells and JSONL strings: "fever; chills | headache"
+const LIST_SEPARATOR = /\s*[;|]\s*/;
+
+/**
+ * Drop empty cells and split symptom lists so rows from any format look
+ * like KnowledgeEntrySchema input
+ */
+function normalizeItem(data: Record<string, unknown>): Record<string, unknown> {
+    const item: Record<string, unknown> = {};
+    for (const [rawKey, value] of Object.entries(data)) {
+        const key = rawKey.trim().toLowerCase();
+        if (value === null || value === undefined || value === "") continue;
+        item[key] =
+            key === "symptoms" && typeof value === "string"
+                ? value.split(LIST_SEPARATOR).filter(Boolean)
+                : value;
+    }
+    return item;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, "" and newlines
+ */
+function parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const ch = content[i];
+        if (quoted) {
+            if (ch === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(field);
+            field = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && content[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+export function parseCsv(content: string): RawKnowledgeItem[] {
+    const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ""));
+    if (!header) return [];
+
+    return rows.map((cells, i) => ({
+        location: `row ${i + 2}`,
+        data: normalizeItem(
+            Object.fromEntries(header.map((col, c) => [col, cells[c]?.trim()]))
+        ),
+    }));
+}
+
+export function parseJsonl(content: string): RawKnowledgeItem[] {
+    const items: RawKnowledgeItem[] = [];
+    content.split(/\r?\n/).forEach((line, i) => {
+        if (!line.trim()) return;
+        const location = `line ${i + 1}`;
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(line);
+        } catch {
+            items.push({ location, data: {}, error: "invalid JSON" });
+            return;
+        }
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+            items.push({ location, data: {}, error: "expected a JSON object" });
+            return;
+        }
+        items.push({
+            location,
+            data: normalizeItem(parsed as Record<string, unknown>),
+        });
+    });
+    return items;
+}
+
+/**
+ * One entry per "# Disease" section (text before the first heading becomes
+ * an entry titled after the file). Recognised "## ..." subsections:
+ * Symptoms (bullet list), Severity, Description/Overview; the whole section
+ * is kept as the entry text.
+ */
+export function parseMarkdown(
+    content: string,
+    fallbackTitle: string
+): RawKnowledgeItem[] {
+    const sections: Array<{
+        title: string;
+        lines: string[];
+        isDisease: boolean;
+    }> = [];
+    for (const line of content.split(/\r?\n/)) {
+        const h1 = line.match(/^#\s+(.+)$/);
+        if (h1) {
+            sections.push({ title: h1[1].trim(), lines: [], isDisease: true });
+        } else if (sections.length) {
+            sections[sections.length - 1].lines.push(line);
+        } else if (line.trim()) {
+            sections.push({
+                title: fallbackTitle,
+                lines: [line],
+                isDisease: false,
+            });
+        }
+    }
+
+    return sections.map(({ title, lines, isDisease }) => {
+        const data: Record<string, unknown> = { title };
+        if (isDisease) data.disease = title;
+        let heading = "";
+        const symptoms: string[] = [];
+        const description: string[] = [];
+
+        for (const line of lines) {
+            const h2 = line.match(/^#{2,}\s+(.+)$/);
+            if (h2) {
+                heading = h2[1].trim().toLowerCase();
+                continue;
+            }
+            const text = line.replace(/^\s*[-*+]\s+/, "").trim();
+            if (!text) continue;
+            if (heading.startsWith("symptom"))
+                symptoms.push(...text.split(LIST_SEPARATOR));
+            else if (heading.startsWith("severity"))
+                data.severity ??= text.match(/[a-z]+/i)?.[0];
+            else if (/^(description|overview)/.test(heading) || !heading)
+                description.push(text);
+        }
+
+        if (symptoms.length) data.symptoms = symptoms;
+        if (description.length) data.description = description.join(" ");
+        data.text = `${title}\n${lines.join("\n")}`.trim();
+
+        return { location: `section "${title}"`, data: normalizeItem(data) };
+    });
+}
+
+/**
+ * Read items from a .csv, .jsonl/.ndjson or .md file's content
+ */
+export function parseKnowledgeFile(
+    filePath: string,
+    content: string
+): RawKnowledgeItem[] {
+    const ext = path.extname(filePath).toLowerCase();
+    switch (ext) {
+        case ".csv":
+            return parseCsv(content);
+        case ".jsonl":
+        case ".ndjson":
+            return parseJsonl(content);
+        case ".md":
+        case ".markdown":
+            return parseMarkdown(content, path.basename(filePath, ext));
+        default:
+            throw new Error(
+                `Unsupported knowledge file "${filePath}" (expected .csv, .jsonl or .md)`
+            );
+    }
+}
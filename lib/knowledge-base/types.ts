@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+// Source and version names become chunk id prefixes ("<source>#<version>#<n>")
+const IdPartSchema = z
+    .string()
+    .trim()
+    .regex(/^[\w.-]+$/, "use letters, digits, '.', '_' or '-' only");
+
+const TextSchema = z.string().trim().min(1);
+
+export const KNOWLEDGE_SEVERITIES = [
+    "mild",
+    "moderate",
+    "severe",
+    "critical",
+] as const;
+
+// Metadata fields queryMedicalKnowledge, searchDiseaseInfo and
+// getDifferentialDiagnosis (lib/pinecone.ts) read back from a match
+const knowledgeFields = {
+    subject: TextSchema.optional(),
+    question: TextSchema.optional(),
+    answer: TextSchema.optional(),
+    explanation: TextSchema.optional(),
+    disease: TextSchema.optional(),
+    condition: TextSchema.optional(),
+    title: TextSchema.optional(),
+    description: TextSchema.optional(),
+    symptoms: z.array(TextSchema).optional(),
+    severity: z
+        .string()
+        .trim()
+        .toLowerCase()
+        .pipe(z.enum(KNOWLEDGE_SEVERITIES))
+        .optional(),
+};
+
+/**
+ * One item read from a source file (a CSV row, a JSONL line or a Markdown
+ * "# Disease" section), before chunking
+ */
+export const KnowledgeEntrySchema = z
+    .object({ ...knowledgeFields, text: TextSchema.optional() })
+    .strict()
+    .refine(
+        (e) => e.text || e.question || e.answer || e.description,
+        "needs at least one of text, question, answer or description"
+    );
+
+/**
+ * Metadata stored with every chunk
+ */
+export const KnowledgeMetadataSchema = z.object({
+    ...knowledgeFields,
+    text: TextSchema, // the chunk itself
+    source: IdPartSchema,
+    version: IdPartSchema,
+    chunk: z.number().int().min(0),
+    ingestedAt: z.iso.datetime(),
+});
+
+export const KnowledgeSourceNameSchema = IdPartSchema.min(1);
+
+export type KnowledgeEntry = z.infer<typeof KnowledgeEntrySchema>;
+export type KnowledgeMetadata = z.infer<typeof KnowledgeMetadataSchema>;
+
+// A raw item and where it came from (for the ingestion report)
+export interface RawKnowledgeItem {
+    location: string; // e.g. "row 12", "line 4", "section Dengue Fever"
+    data: Record<string, unknown>;
+    error?: string; // unreadable, e.g. a JSONL line that is not JSON
+}
+
+export interface SkippedItem {
+    location: string;
+    error: string;
+}
+
+export interface IngestReport {
+    source: string;
+    version: string;
+    store: string;
+    dryRun: boolean;
+    entries: number; // valid items
+    chunks: number;
+    skipped: SkippedItem[];
+    previousVersions: string[]; // versions of this source already in the store
+    replaced: number; // stale chunks removed (or that would be)
+}
+
+export interface DeleteReport {
+    source: string;
+    store: string;
+    dryRun: boolean;
+    versions: string[];
+    deleted: number;
+}
@@ -0,0 +1,19 @@
+/**
+ * Fonts for generated PDFs that the built-in jsPDF fonts cannot print
+ */
+
+import { readFile } from 'fs/promises';
+
+/**
+ * Base64 TTF with Urdu glyphs from PDF_URDU_FONT, if configured and readable
+ */
+export async function loadUrduFont(): Promise<string | undefined> {
+  const path = process.env.PDF_URDU_FONT;
+  if (!path) return undefined;
+  try {
+    return (await readFile(path)).toString('base64');
+  } catch (error) {
+    console.warn(`⚠️ Could not read PDF_URDU_FONT (${path}):`, error);
+    return undefined;
+  }
+}
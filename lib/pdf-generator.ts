@@ -4,7 +4,14 @@
  */
 
 import { jsPDF } from 'jspdf';
-import type { SOAPReport } from './agents/types';
+import type {
+  DiagnosisCode,
+  PatientSummary,
+  PatientSummaryText,
+  PrescriptionItem,
+  SOAPReport,
+  StatementCitation,
+} from './agents/types';
 
 // Project theme colors
 const THEME = {
@@ -34,6 +41,7 @@ interface SOAPReportPDFData {
     allergies?: string[];
     familyHistory?: Record<string, boolean>;
   };
+  diagnosisCodes?: DiagnosisCode[];
   sessionDate: string;
 }
 
@@ -43,6 +51,8 @@ interface PrescriptionPDFData {
   patientGender?: string;
   diagnosis: string;
   prescription: string;
+  items?: PrescriptionItem[]; // structured prescription, printed as a table
+  urduFont?: string; // base64 TTF for the items' Urdu instructions
   doctorName: string;
   doctorSpecialization?: string;
   doctorLicense?: string;
@@ -53,11 +63,39 @@ interface PrescriptionPDFData {
   date: string;
 }
 
+interface PatientSummaryPDFData {
+  patientName: string;
+  doctorName?: string;
+  chiefComplaint: string;
+  summary: PatientSummary;
+  // Base64 TTF with Urdu glyphs; without it only the Roman Urdu is printed
+  urduFont?: string;
+  date: string;
+}
+
+// " [S1, S2]" after a statement the report cites sources for
+function citationMarker(
+  statement: string | undefined,
+  citations: StatementCitation[] = []
+): string {
+  const keys = citations.find(c => c.statement === statement)?.sources || [];
+  return keys.length > 0 ? ` [${keys.join(', ')}]` : '';
+}
+
+// " - ICD-10 A90" after a coded diagnosis; codes no doctor reviewed yet are
+// marked as suggested
+function icdMarker(diagnosis: string, codes: DiagnosisCode[] = []): string {
+  const coded = codes.find(c => c.diagnosis === diagnosis && c.code);
+  if (!coded) return '';
+  return ` - ICD-10 ${coded.code}${coded.status === 'suggested' ? ' (suggested)' : ''}`;
+}
+
 /**
  * Generate SOAP Report PDF
  */
 export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
-  const { report, patientInfo, medicalHistory, sessionDate } = data;
+  const { report, patientInfo, medicalHistory, diagnosisCodes, sessionDate } =
+    data;
 
   const doc = new jsPDF({
     orientation: 'portrait',
@@ -309,6 +347,29 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
     }
   }
 
+  // Earlier sessions of this patient retrieved for this one
+  if (report.subjective.pastEpisodes?.length) {
+    addText('Relevant Past Episodes:', margin + 3, yPos, {
+      fontSize: 9,
+      fontStyle: 'bold',
+      color: THEME.muted,
+    });
+    yPos += 5;
+    report.subjective.pastEpisodes.forEach(episode => {
+      const outcome =
+        episode.reviewStatus === 'approved'
+          ? `approved as ${episode.diagnosis}`
+          : `assessed as ${episode.diagnosis} (not reviewed)`;
+      const episodeHeight = addText(
+        `• ${episode.date}: ${episode.chiefComplaint} - ${outcome}`,
+        margin + 5,
+        yPos,
+        { fontSize: 9, maxWidth: pageWidth - 2 * margin - 10 }
+      );
+      yPos += episodeHeight + 1;
+    });
+  }
+
   yPos += 5;
 
   // ==================== OBJECTIVE SECTION ====================
@@ -387,11 +448,21 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
     color: THEME.muted,
   });
   yPos += 5;
-  addText(report.assessment.primaryDiagnosis, margin + 3, yPos, {
-    fontSize: 12,
-    fontStyle: 'bold',
-    color: THEME.primary,
-  });
+  const { citations: assessmentCitations } = report.assessment;
+  const { citations: planCitations } = report.plan;
+
+  addText(
+    report.assessment.primaryDiagnosis +
+      icdMarker(report.assessment.primaryDiagnosis, diagnosisCodes) +
+      citationMarker(report.assessment.primaryDiagnosis, assessmentCitations),
+    margin + 3,
+    yPos,
+    {
+      fontSize: 12,
+      fontStyle: 'bold',
+      color: THEME.primary,
+    }
+  );
   yPos += 8;
 
   if (report.assessment.differentialDiagnosis.length > 0) {
@@ -402,7 +473,12 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
     });
     yPos += 5;
     report.assessment.differentialDiagnosis.forEach((dx, i) => {
-      addText(`${i + 1}. ${dx}`, margin + 5, yPos, { fontSize: 9 });
+      addText(
+        `${i + 1}. ${dx}${icdMarker(dx, diagnosisCodes)}${citationMarker(dx, assessmentCitations)}`,
+        margin + 5,
+        yPos,
+        { fontSize: 9 }
+      );
       yPos += 4;
     });
     yPos += 3;
@@ -424,7 +500,8 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
     });
     yPos += 5;
     const analysisHeight = addText(
-      report.assessment.aiAnalysis,
+      report.assessment.aiAnalysis +
+        citationMarker(report.assessment.aiAnalysis, assessmentCitations),
       margin + 3,
       yPos,
       { fontSize: 9, maxWidth: pageWidth - 2 * margin - 6 }
@@ -464,10 +541,15 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
   });
   yPos += 5;
   report.plan.recommendations.forEach((rec, i) => {
-    const recHeight = addText(`${i + 1}. ${rec}`, margin + 5, yPos, {
-      fontSize: 9,
-      maxWidth: pageWidth - 2 * margin - 10,
-    });
+    const recHeight = addText(
+      `${i + 1}. ${rec}${citationMarker(rec, planCitations)}`,
+      margin + 5,
+      yPos,
+      {
+        fontSize: 9,
+        maxWidth: pageWidth - 2 * margin - 10,
+      }
+    );
     yPos += recHeight + 2;
   });
   yPos += 3;
@@ -480,7 +562,12 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
     });
     yPos += 5;
     report.plan.testsNeeded.forEach(test => {
-      addText(`• ${test}`, margin + 5, yPos, { fontSize: 9 });
+      addText(
+        `• ${test}${citationMarker(test, planCitations)}`,
+        margin + 5,
+        yPos,
+        { fontSize: 9 }
+      );
       yPos += 4;
     });
     yPos += 3;
@@ -493,7 +580,13 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
       color: THEME.muted,
     });
     yPos += 5;
-    addText(report.plan.specialistReferral, margin + 5, yPos, { fontSize: 9 });
+    addText(
+      report.plan.specialistReferral +
+        citationMarker(report.plan.specialistReferral, planCitations),
+      margin + 5,
+      yPos,
+      { fontSize: 9 }
+    );
     yPos += 6;
   }
 
@@ -506,6 +599,62 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
   addText(`Urgency: ${report.plan.urgency}`, margin + 60, yPos, {
     fontSize: 9,
   });
+  yPos += 8;
+
+  // ==================== REFERENCES SECTION ====================
+  // Knowledge-base sources retrieved during the interview, with the
+  // statements above that cite them
+  const references = report.assessment.references || [];
+  if (references.length > 0) {
+    if (yPos > pageHeight - 60) {
+      doc.addPage();
+      yPos = margin;
+    }
+
+    addSection('REFERENCES', 'R', '#dbeafe');
+
+    references.forEach(ref => {
+      if (yPos > pageHeight - 40) {
+        doc.addPage();
+        yPos = margin;
+      }
+
+      addText(`[${ref.key}] ${ref.title} (${ref.source})`, margin + 3, yPos, {
+        fontSize: 9,
+        fontStyle: 'bold',
+      });
+      yPos += 4;
+
+      if (ref.snippet) {
+        const snippetHeight = addText(`"${ref.snippet}"`, margin + 5, yPos, {
+          fontSize: 8,
+          fontStyle: 'italic',
+          color: THEME.muted,
+          maxWidth: pageWidth - 2 * margin - 10,
+        });
+        yPos += snippetHeight + 1;
+      }
+
+      const supports = [
+        ...(assessmentCitations || []),
+        ...(planCitations || []),
+      ]
+        .filter(c => c.sources.includes(ref.key))
+        .map(c => c.statement);
+      const supportsHeight = addText(
+        supports.length > 0
+          ? `Supports: ${supports.join('; ')}`
+          : 'Retrieved during the interview, not cited',
+        margin + 5,
+        yPos,
+        {
+          fontSize: 8,
+          maxWidth: pageWidth - 2 * margin - 10,
+        }
+      );
+      yPos += supportsHeight + 4;
+    });
+  }
 
   // ==================== FOOTER ====================
   const footerY = pageHeight - 15;
@@ -537,6 +686,139 @@ export function generateSOAPReportPDF(data: SOAPReportPDFData): Uint8Array {
 /**
  * Generate Prescription PDF
  */
+// Rx table columns (mm, 180 total for A4 with 15 mm margins)
+const RX_COLUMNS: { label: string; width: number }[] = [
+  { label: '#', width: 8 },
+  { label: 'Medicine', width: 62 },
+  { label: 'Dose', width: 26 },
+  { label: 'Route', width: 20 },
+  { label: 'Frequency', width: 38 },
+  { label: 'Duration', width: 26 },
+];
+
+/**
+ * Draw structured prescription items as a table, one row per drug with its
+ * instructions underneath. Returns the y position after the table.
+ */
+function drawRxTable(
+  doc: jsPDF,
+  items: PrescriptionItem[],
+  layout: {
+    yPos: number;
+    margin: number;
+    pageHeight: number;
+    urduFont?: string;
+  }
+): number {
+  const { margin, pageHeight, urduFont } = layout;
+  const tableWidth = RX_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+  const lineHeight = 4.5;
+  let yPos = layout.yPos;
+
+  if (urduFont) {
+    doc.addFileToVFS('urdu.ttf', urduFont);
+    doc.addFont('urdu.ttf', 'Urdu', 'normal');
+  }
+
+  const drawHeader = () => {
+    doc.setFillColor(THEME.primary);
+    doc.rect(margin, yPos, tableWidth, 7, 'F');
+    doc.setTextColor('#ffffff');
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    let x = margin;
+    RX_COLUMNS.forEach(column => {
+      doc.text(column.label, x + 2, yPos + 4.8);
+      x += column.width;
+    });
+    yPos += 7;
+  };
+
+  drawHeader();
+
+  items.forEach((item, i) => {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+
+    const medicine = [
+      [item.drug, item.strength].filter(Boolean).join(' '),
+      [item.genericName !== item.drug && item.genericName, item.form]
+        .filter(Boolean)
+        .join(', '),
+    ];
+    const cells = [
+      [String(i + 1)],
+      medicine.flatMap(text =>
+        doc.splitTextToSize(text, RX_COLUMNS[1].width - 4)
+      ),
+      doc.splitTextToSize(item.dose, RX_COLUMNS[2].width - 4),
+      doc.splitTextToSize(item.route, RX_COLUMNS[3].width - 4),
+      doc.splitTextToSize(item.frequency, RX_COLUMNS[4].width - 4),
+      doc.splitTextToSize(item.duration || '-', RX_COLUMNS[5].width - 4),
+    ];
+    const instructions = item.instructions
+      ? doc.splitTextToSize(
+          `Instructions: ${item.instructions}`,
+          tableWidth - 4
+        )
+      : [];
+    const urdu = urduFont && item.instructionsUrdu;
+
+    const rowHeight =
+      Math.max(...cells.map(lines => lines.length)) * lineHeight +
+      instructions.length * lineHeight +
+      (urdu ? 6 : 0) +
+      4;
+
+    if (yPos + rowHeight > pageHeight - 45) {
+      doc.addPage();
+      yPos = margin;
+      drawHeader();
+      doc.setFontSize(9);
+    }
+
+    if (i % 2 === 1) {
+      doc.setFillColor(THEME.lightBg);
+      doc.rect(margin, yPos, tableWidth, rowHeight, 'F');
+    }
+
+    let x = margin;
+    let cellY = yPos + 5;
+    cells.forEach((lines, c) => {
+      doc.setTextColor(c === 1 ? THEME.primary : THEME.text);
+      doc.setFont('helvetica', c === 1 ? 'bold' : 'normal');
+      lines.forEach((line: string, l: number) => {
+        // Generic name and form under the brand, in regular weight
+        if (c === 1 && l > 0) doc.setFont('helvetica', 'normal');
+        doc.text(line, x + 2, cellY + l * lineHeight);
+      });
+      x += RX_COLUMNS[c].width;
+    });
+    cellY += Math.max(...cells.map(lines => lines.length)) * lineHeight;
+
+    if (instructions.length > 0) {
+      doc.setTextColor(THEME.muted);
+      doc.setFont('helvetica', 'italic');
+      doc.text(instructions, margin + 2, cellY);
+      cellY += instructions.length * lineHeight;
+    }
+    if (urdu) {
+      doc.setTextColor(THEME.muted);
+      doc.setFont('Urdu', 'normal');
+      doc.text(item.instructionsUrdu, margin + tableWidth - 2, cellY + 1, {
+        align: 'right',
+      });
+    }
+
+    yPos += rowHeight;
+    doc.setDrawColor(THEME.accent);
+    doc.setLineWidth(0.1);
+    doc.line(margin, yPos, margin + tableWidth, yPos);
+  });
+
+  return yPos + 6;
+}
+
 export function generatePrescriptionPDF(data: PrescriptionPDFData): Uint8Array {
   const doc = new jsPDF({
     orientation: 'portrait',
@@ -675,15 +957,27 @@ export function generatePrescriptionPDF(data: PrescriptionPDFData): Uint8Array {
   doc.setFontSize(11);
   doc.setFont('helvetica', 'normal');
 
-  // Parse and format prescription
-  const prescriptionLines = data.prescription.split('\n');
-  prescriptionLines.forEach(line => {
-    if (line.trim()) {
-      const textLines = doc.splitTextToSize(line, pageWidth - 2 * margin - 10);
-      doc.text(textLines, margin + 5, yPos);
-      yPos += textLines.length * 5 + 3;
-    }
-  });
+  if (data.items && data.items.length > 0) {
+    yPos = drawRxTable(doc, data.items, {
+      yPos,
+      margin,
+      pageHeight,
+      urduFont: data.urduFont,
+    });
+  } else {
+    // Parse and format prescription
+    const prescriptionLines = data.prescription.split('\n');
+    prescriptionLines.forEach(line => {
+      if (line.trim()) {
+        const textLines = doc.splitTextToSize(
+          line,
+          pageWidth - 2 * margin - 10
+        );
+        doc.text(textLines, margin + 5, yPos);
+        yPos += textLines.length * 5 + 3;
+      }
+    });
+  }
 
   // ==================== FOOTER ====================
   const footerY = pageHeight - 35;
@@ -719,6 +1013,193 @@ export function generatePrescriptionPDF(data: PrescriptionPDFData): Uint8Array {
   return doc.output('arraybuffer') as unknown as Uint8Array;
 }
 
+/**
+ * Patient-facing summary of an approved report: Roman Urdu, then Urdu
+ * script when a font for it is supplied
+ */
+export function generatePatientSummaryPDF(
+  data: PatientSummaryPDFData
+): Uint8Array {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - 2 * margin;
+  let yPos = margin;
+
+  const ensureSpace = (height: number) => {
+    if (yPos + height > pageHeight - 30) {
+      doc.addPage();
+      yPos = margin;
+    }
+  };
+
+  // Heading, paragraph and two bullet lists in the given font, aligned to
+  // the left (Roman Urdu) or right (Urdu script) margin
+  const writeSummary = (
+    text: PatientSummaryText,
+    headings: [string, string, string],
+    font: string,
+    rtl: boolean
+  ) => {
+    const x = rtl ? pageWidth - margin : margin;
+    const align = rtl ? 'right' : 'left';
+
+    const heading = (title: string, color: string) => {
+      ensureSpace(12);
+      doc.setTextColor(color);
+      doc.setFontSize(11);
+      doc.setFont(font, rtl ? 'normal' : 'bold');
+      doc.text(title, x, yPos, { align });
+      yPos += 7;
+    };
+    const paragraph = (value: string, indent = 0) => {
+      doc.setTextColor(THEME.text);
+      doc.setFontSize(10);
+      doc.setFont(font, 'normal');
+      const lines = doc.splitTextToSize(value, contentWidth - indent);
+      ensureSpace(lines.length * 5);
+      doc.text(lines, rtl ? x - indent : x + indent, yPos, { align });
+      yPos += lines.length * 5 + 2;
+    };
+    const bullets = (items: string[]) => {
+      items.forEach(item => paragraph(rtl ? `${item} •` : `• ${item}`, 3));
+      yPos += 3;
+    };
+
+    heading(headings[0], THEME.primary);
+    paragraph(text.discussed);
+    yPos += 3;
+    heading(headings[1], THEME.danger);
+    bullets(text.watchFor);
+    heading(headings[2], THEME.secondary);
+    bullets(text.nextSteps);
+  };
+
+  const sectionRule = (label: string) => {
+    ensureSpace(16);
+    doc.setDrawColor(THEME.secondary);
+    doc.setLineWidth(0.5);
+    doc.line(margin, yPos, pageWidth - margin, yPos);
+    yPos += 5;
+    doc.setTextColor(THEME.muted);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, margin, yPos + 4);
+    yPos += 12;
+  };
+
+  // ==================== HEADER ====================
+  doc.setFillColor(THEME.primary);
+  doc.rect(0, 0, pageWidth, 40, 'F');
+
+  doc.setTextColor('#ffffff');
+  doc.setFontSize(22);
+  doc.setFont('helvetica', 'bold');
+  doc.text('SEHAT GUFTAGU', margin, 18);
+
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Your Visit Summary', margin, 26);
+
+  doc.setFontSize(9);
+  doc.text(`Date: ${data.date}`, pageWidth - margin, 18, { align: 'right' });
+
+  yPos = 50;
+
+  // ==================== VISIT ====================
+  doc.setTextColor(THEME.text);
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Name: ${data.patientName}`, margin, yPos);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const complaintLines = doc.splitTextToSize(
+    `Concern: ${data.chiefComplaint}`,
+    contentWidth
+  );
+  doc.text(complaintLines, margin, yPos + 6);
+  yPos += 6 + complaintLines.length * 5;
+  if (data.doctorName) {
+    doc.text(`Reviewed by: Dr. ${data.doctorName}`, margin, yPos);
+    yPos += 5;
+  }
+  yPos += 5;
+
+  // ==================== ROMAN URDU ====================
+  sectionRule('KHULASA (ROMAN URDU)');
+  writeSummary(
+    data.summary.roman,
+    [
+      'Kya baat hui',
+      'In alamaat par foran doctor se rabta karein',
+      'Agay kya karna hai',
+    ],
+    'helvetica',
+    false
+  );
+
+  // ==================== URDU ====================
+  if (data.urduFont) {
+    doc.addFileToVFS('urdu.ttf', data.urduFont);
+    doc.addFont('urdu.ttf', 'Urdu', 'normal');
+
+    sectionRule('KHULASA (URDU)');
+    writeSummary(
+      data.summary.urdu,
+      [
+        'کیا بات ہوئی',
+        'ان علامات پر فوراً ڈاکٹر سے رابطہ کریں',
+        'آگے کیا کرنا ہے',
+      ],
+      'Urdu',
+      true
+    );
+  } else {
+    ensureSpace(10);
+    doc.setTextColor(THEME.muted);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'italic');
+    doc.text(
+      'The Urdu version of this summary is available in the Sehat Guftagu app.',
+      margin,
+      yPos
+    );
+  }
+
+  // ==================== FOOTER ====================
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    const footerY = pageHeight - 18;
+    doc.setDrawColor(THEME.muted);
+    doc.setLineWidth(0.3);
+    doc.line(margin, footerY, pageWidth - margin, footerY);
+
+    doc.setTextColor(THEME.muted);
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'italic');
+    doc.text(
+      'This summary explains your doctor-approved report in simple words. It does not replace your',
+      margin,
+      footerY + 5
+    );
+    doc.text(
+      "doctor's advice. In an emergency, go to the nearest hospital straight away.",
+      margin,
+      footerY + 9
+    );
+  }
+
+  return doc.output('arraybuffer') as unknown as Uint8Array;
+}
+
 /**
  * Convert PDF bytes to base64 for storage
  */
@@ -1,42 +1,55 @@
-import { Pinecone } from "@pinecone-database/pinecone";
+import { getRetrievalConfig, hybridSearch } from "./retrieval";
+import type { VectorMetadata } from "./vector-store";
 
-// Initialize Pinecone client
-const pinecone = new Pinecone({
-    apiKey: process.env.PINECONE_API_KEY!,
-});
-
-const INDEX_NAME = process.env.PINECONE_INDEX_NAME || "medical-fast-search";
-
-export const getIndex = () => {
-    return pinecone.index(INDEX_NAME);
-};
+// Medical knowledge queries. They go through the deployment's vector store
+// (Pinecone or the local on-disk index - see lib/vector-store), which holds
+// 384-dim Xenova/all-MiniLM-L6-v2 embeddings from generateEmbedding.
 
 export const NAMESPACES = {
     MEDICAL_KNOWLEDGE: "", // Data is in default namespace
     USER_HISTORY: "user-history",
 };
 
-// Query medical knowledge for symptoms/diseases
+// One history namespace per patient (past episodes - see
+// lib/agents/patient-history.ts), so retrieval never crosses patients
+export function patientHistoryNamespace(patientId: string): string {
+    return `${NAMESPACES.USER_HISTORY}:${patientId}`;
+}
+
+// Characters of chunk text kept as a citation snippet
+const SNIPPET_LENGTH = 300;
+
+// Query medical knowledge for symptoms/diseases (hybrid BM25 + vector
+// retrieval, re-ranked - see lib/retrieval). `keywords` widens the lexical
+// query, e.g. with English names of symptoms reported in Roman Urdu.
 export async function queryMedicalKnowledge(
+    query: string,
     embedding: number[],
-    topK: number = 5
-): Promise<{ context: string; sources: string[]; diseases: string[] }> {
-    const index = getIndex();
-
+    keywords?: string
+): Promise<{
+    context: string;
+    sources: string[];
+    diseases: string[];
+    relevanceScore: number;
+    chunks: Array<{ id: string; source: string; title: string; snippet: string; relevance: number }>;
+}> {
     try {
-        const results = await index.namespace(NAMESPACES.MEDICAL_KNOWLEDGE).query({
-            vector: embedding,
-            topK,
-            includeMetadata: true,
+        const chunks = await hybridSearch({
+            text: query,
+            keywords,
+            embedding,
+            namespace: NAMESPACES.MEDICAL_KNOWLEDGE,
         });
 
-        // Filter results by threshold > 0.25 as per Master Prompt
-        const validMatches = results.matches?.filter(match => (match.score || 0) > 0.25) || [];
-
-        const context = validMatches
-            .map((match) => {
-                const meta = match.metadata as any;
-                if (!meta) return "";
+        const context = chunks
+            .map((chunk) => {
+                const meta = chunk.metadata as any;
+                if (!meta.question && meta.text) {
+                    return `
+Topic: ${meta.disease || meta.condition || meta.title || "General"}
+${meta.text}
+`;
+                }
                 return `
 Subject: ${meta.subject || "General"}
 Question: ${meta.question || "N/A"}
@@ -44,55 +57,86 @@ Answer: ${meta.answer || "N/A"}
 Explanation: ${meta.explanation || "N/A"}
 `;
             })
-            .filter(text => text.length > 50) // Filter out empty/short records
-            .join("\n\n") || "";
+            .join("\n\n");
 
-        const sources = validMatches
-            .map((match) => match.metadata?.source || match.id)
-            .filter(Boolean) as string[] || [];
+        const sources = chunks
+            .map((chunk) => String(chunk.metadata.source || chunk.id))
+            .filter(Boolean);
 
         // Extract disease names from metadata
-        const diseases = validMatches
-            .map((match) => match.metadata?.disease || match.metadata?.condition || "")
-            .filter(Boolean) as string[] || [];
+        const diseases = chunks
+            .map((chunk) => String(chunk.metadata.disease || chunk.metadata.condition || ""))
+            .filter(Boolean);
+
+        // Mean relevance of what was kept (0 when nothing passed minRelevance)
+        const relevanceScore = chunks.length
+            ? chunks.reduce((sum, chunk) => sum + chunk.relevance, 0) / chunks.length
+            : 0;
 
-        return { context, sources, diseases: [...new Set(diseases)] };
+        return {
+            context,
+            sources,
+            diseases: [...new Set(diseases)],
+            relevanceScore,
+            chunks: chunks.map((chunk) => ({
+                id: chunk.id,
+                source: String(chunk.metadata.source || chunk.id),
+                title: entryDisease(chunk.metadata) || String(chunk.metadata.subject || "General"),
+                snippet: entrySnippet(chunk.metadata),
+                relevance: chunk.relevance,
+            })),
+        };
     } catch (error) {
         console.error("Error querying medical knowledge:", error);
-        return { context: "", sources: [], diseases: [] };
+        return { context: "", sources: [], diseases: [], relevanceScore: 0, chunks: [] };
     }
 }
 
-// Search for specific disease information
+// Disease named by a knowledge-base entry, if any
+function entryDisease(meta: VectorMetadata): string {
+    return String(meta.disease || meta.condition || meta.title || "");
+}
+
+// Short quotable text of an entry (chunk text, or the Q&A answer)
+function entrySnippet(meta: VectorMetadata): string {
+    const text = String(meta.text || meta.answer || meta.explanation || meta.description || "")
+        .replace(/\s+/g, " ")
+        .trim();
+    return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text;
+}
+
+function entrySymptoms(meta: VectorMetadata): string[] {
+    if (!meta.symptoms) return [];
+    return Array.isArray(meta.symptoms) ? meta.symptoms : [String(meta.symptoms)];
+}
+
+// Search for specific disease information (only entries about that disease)
 export async function searchDiseaseInfo(
     embedding: number[],
     diseaseName: string,
     topK: number = 3
-): Promise<{ symptoms: string[]; description: string; severity: string }> {
-    const index = getIndex();
-
+): Promise<{ symptoms: string[]; description: string; severity: string; sources: string[] }> {
     try {
-        const results = await index.namespace(NAMESPACES.MEDICAL_KNOWLEDGE).query({
-            vector: embedding,
-            topK,
-            includeMetadata: true,
+        const chunks = await hybridSearch(
+            { text: diseaseName, embedding, namespace: NAMESPACES.MEDICAL_KNOWLEDGE },
+            { ...getRetrievalConfig(), topK }
+        );
+
+        const target = diseaseName.toLowerCase();
+        const relevant = chunks.filter((chunk) => {
+            const name = entryDisease(chunk.metadata).toLowerCase();
+            return name && (name.includes(target) || target.includes(name));
         });
 
         let symptoms: string[] = [];
         let description = "";
         let severity = "moderate";
 
-        results.matches?.forEach((match) => {
-            const meta = match.metadata as any;
+        relevant.forEach((chunk) => {
+            const meta = chunk.metadata as any;
 
             // Extract symptoms
-            if (meta?.symptoms) {
-                if (Array.isArray(meta.symptoms)) {
-                    symptoms.push(...meta.symptoms);
-                } else {
-                    symptoms.push(meta.symptoms);
-                }
-            }
+            symptoms.push(...entrySymptoms(meta));
 
             // Extract description
             if (meta?.description || meta?.text) {
@@ -109,10 +153,11 @@ export async function searchDiseaseInfo(
             symptoms: [...new Set(symptoms)],
             description: description.trim().slice(0, 500),
             severity,
+            sources: [...new Set(relevant.map((chunk) => String(chunk.metadata.source || chunk.id)))],
         };
     } catch (error) {
         console.error("Error searching disease info:", error);
-        return { symptoms: [], description: "", severity: "moderate" };
+        return { symptoms: [], description: "", severity: "moderate", sources: [] };
     }
 }
 
@@ -121,22 +166,18 @@ export async function getDifferentialDiagnosis(
     embedding: number[],
     symptoms: string[],
     topK: number = 10
-): Promise<Array<{ disease: string; matchScore: number; matchedSymptoms: string[] }>> {
-    const index = getIndex();
-
+): Promise<Array<{ disease: string; matchScore: number; matchedSymptoms: string[]; sources: string[] }>> {
     try {
-        const results = await index.namespace(NAMESPACES.MEDICAL_KNOWLEDGE).query({
-            vector: embedding,
-            topK,
-            includeMetadata: true,
-        });
+        const chunks = await hybridSearch(
+            { text: symptoms.join(", "), embedding, namespace: NAMESPACES.MEDICAL_KNOWLEDGE },
+            { ...getRetrievalConfig(), topK }
+        );
 
-        const diseaseMap = new Map<string, { score: number; symptoms: string[] }>();
+        const diseaseMap = new Map<string, { score: number; symptoms: string[]; sources: string[] }>();
 
-        results.matches?.forEach((match) => {
-            const meta = match.metadata as any;
-            const disease = meta?.disease || meta?.condition || meta?.title || "";
-            const diseaseSymptoms = meta?.symptoms || [];
+        chunks.forEach((chunk) => {
+            const disease = entryDisease(chunk.metadata);
+            const diseaseSymptoms = entrySymptoms(chunk.metadata);
 
             if (disease) {
                 // Calculate match score based on symptom overlap
@@ -148,12 +189,14 @@ export async function getDifferentialDiagnosis(
                 );
 
                 const existing = diseaseMap.get(disease);
-                const score = (match.score || 0) + (matchedSymptoms.length * 0.1);
+                const score = chunk.relevance + (matchedSymptoms.length * 0.1);
+                const source = String(chunk.metadata.source || chunk.id);
 
                 if (!existing || existing.score < score) {
                     diseaseMap.set(disease, {
                         score,
-                        symptoms: matchedSymptoms
+                        symptoms: matchedSymptoms,
+                        sources: [...new Set([source, ...(existing?.sources || [])])],
                     });
                 }
             }
@@ -164,6 +207,7 @@ export async function getDifferentialDiagnosis(
                 disease,
                 matchScore: data.score,
                 matchedSymptoms: data.symptoms,
+                sources: data.sources,
             }))
             .sort((a, b) => b.matchScore - a.matchScore)
             .slice(0, 5);
@@ -0,0 +1,87 @@
+// English, Roman Urdu and Urdu function words that carry no retrieval signal
+const STOPWORDS = new Set(
+    [
+        "a an the and or of to in on for with is are was were be been it this",
+        "that my me have has had do does what which from at by as not no yes",
+        "hai hain ha ka ki ke ko se mein main aur ya bhi ho raha rahi rahe tha",
+        "thi mujhe mera meri kya nahi nahin haan ji",
+        "ہے ہیں کا کی کے کو سے میں اور یا بھی مجھے کیا نہیں",
+    ]
+        .join(" ")
+        .split(" ")
+);
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lowercase word tokens. Roman Urdu is spelled loosely ("bukhar",
+ * "bukhaar"), so repeated letters are collapsed on both sides of the match.
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .split(/[^\p{L}\p{M}\p{N}]+/u)
+        .map((token) => token.replace(/(\p{L})\1+/gu, "$1"))
+        .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export interface BM25Index {
+    size: number;
+    search(query: string, topK: number): Array<{ id: string; score: number }>;
+}
+
+/**
+ * Okapi BM25 over an in-memory document set
+ */
+export function createBM25Index(
+    documents: Array<{ id: string; text: string }>
+): BM25Index {
+    const postings = new Map<string, Array<[doc: number, tf: number]>>();
+    const lengths: number[] = [];
+
+    documents.forEach(({ text }, doc) => {
+        const tokens = tokenize(text);
+        lengths.push(tokens.length);
+
+        const counts = new Map<string, number>();
+        tokens.forEach((t) => counts.set(t, (counts.get(t) || 0) + 1));
+        counts.forEach((tf, term) => {
+            if (!postings.has(term)) postings.set(term, []);
+            postings.get(term)!.push([doc, tf]);
+        });
+    });
+
+    const avgLength =
+        lengths.reduce((sum, l) => sum + l, 0) / Math.max(lengths.length, 1);
+
+    return {
+        size: documents.length,
+
+        search(query, topK) {
+            const scores = new Map<number, number>();
+            for (const term of new Set(tokenize(query))) {
+                const list = postings.get(term);
+                if (!list) continue;
+
+                const idf = Math.log(
+                    1 +
+                        (documents.length - list.length + 0.5) /
+                            (list.length + 0.5)
+                );
+                for (const [doc, tf] of list) {
+                    const norm = K1 * (1 - B + (B * lengths[doc]) / avgLength);
+                    const score = (idf * tf * (K1 + 1)) / (tf + norm);
+                    scores.set(doc, (scores.get(doc) || 0) + score);
+                }
+            }
+
+            return [...scores.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, topK)
+                .map(([doc, score]) => ({ id: documents[doc].id, score }));
+        },
+    };
+}
@@ -0,0 +1,55 @@
+import { RetrievalConfigSchema, type RetrievalConfig } from "./types";
+
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+    topK: 5,
+    denseTopK: 20,
+    lexicalTopK: 20,
+    minVectorScore: 0.25,
+    rrfK: 60,
+    rerank: true,
+    rerankModel: "Xenova/ms-marco-MiniLM-L-6-v2",
+    rerankCandidates: 20,
+    minRelevance: 0.05,
+    lexicalRefreshSeconds: 300,
+};
+
+let activeConfig: RetrievalConfig | null = null;
+
+function loadConfigFromEnv(): RetrievalConfig {
+    const raw = process.env.RAG_RETRIEVAL_CONFIG;
+    if (!raw) return DEFAULT_RETRIEVAL_CONFIG;
+
+    let overrides: unknown;
+    try {
+        overrides = JSON.parse(raw);
+    } catch {
+        throw new Error("RAG_RETRIEVAL_CONFIG is not valid JSON");
+    }
+
+    return RetrievalConfigSchema.parse({
+        ...DEFAULT_RETRIEVAL_CONFIG,
+        ...RetrievalConfigSchema.partial().parse(overrides),
+    });
+}
+
+/**
+ * The retrieval settings for this deployment
+ * (RAG_RETRIEVAL_CONFIG JSON overrides, e.g. {"topK": 8, "rerank": false})
+ */
+export function getRetrievalConfig(): RetrievalConfig {
+    if (!activeConfig) activeConfig = loadConfigFromEnv();
+    return activeConfig;
+}
+
+/**
+ * Override parts of the retrieval settings at startup
+ */
+export function setRetrievalConfig(
+    overrides: Partial<RetrievalConfig>
+): RetrievalConfig {
+    activeConfig = RetrievalConfigSchema.parse({
+        ...getRetrievalConfig(),
+        ...overrides,
+    });
+    return activeConfig;
+}
@@ -0,0 +1,155 @@
+import {
+    getVectorStore,
+    isZeroVector,
+    type VectorMetadata,
+    type VectorStore,
+} from "../vector-store";
+import { createBM25Index, type BM25Index } from "./bm25";
+import { getRetrievalConfig } from "./config";
+import { rerankScores } from "./rerank";
+import type { HybridQuery, RetrievalConfig, RetrievedChunk } from "./types";
+
+// Metadata searched lexically, names first so exact disease/drug names match
+const LEXICAL_FIELDS = [
+    "title",
+    "disease",
+    "condition",
+    "subject",
+    "question",
+    "answer",
+    "explanation",
+    "description",
+    "symptoms",
+    "text",
+];
+
+interface LexicalIndex {
+    bm25: BM25Index;
+    metadata: Map<string, VectorMetadata>;
+    builtAt: number;
+}
+
+// Per store + namespace, rebuilt every lexicalRefreshSeconds so chunks
+// ingested by another process show up
+const lexicalIndexes = new Map<string, Promise<LexicalIndex>>();
+
+function documentText(metadata: VectorMetadata): string {
+    return LEXICAL_FIELDS.flatMap((field) => metadata[field] ?? [])
+        .filter((value) => typeof value === "string")
+        .join(" ");
+}
+
+async function getLexicalIndex(
+    store: VectorStore,
+    namespace: string,
+    refreshSeconds: number
+): Promise<LexicalIndex> {
+    const key = `${store.name}:${namespace}`;
+    const cached = lexicalIndexes.get(key);
+    if (cached) {
+        const index = await cached;
+        if (Date.now() - index.builtAt < refreshSeconds * 1000) return index;
+    }
+
+    const building = store.scan(namespace).then((documents) => ({
+        bm25: createBM25Index(
+            documents.map((d) => ({ id: d.id, text: documentText(d.metadata) }))
+        ),
+        metadata: new Map(documents.map((d) => [d.id, d.metadata])),
+        builtAt: Date.now(),
+    }));
+    lexicalIndexes.set(key, building);
+    building.catch(() => lexicalIndexes.delete(key));
+    return building;
+}
+
+/**
+ * Dense + BM25 retrieval fused by reciprocal rank, then re-ranked by a local
+ * cross-encoder. Without the re-ranker (disabled or not loadable) relevance
+ * is the fused score relative to a hit ranked first by both retrievers.
+ */
+export async function hybridSearch(
+    query: HybridQuery,
+    config: RetrievalConfig = getRetrievalConfig(),
+    store: VectorStore = getVectorStore()
+): Promise<RetrievedChunk[]> {
+    const namespace = query.namespace ?? "";
+    const candidates = new Map<string, RetrievedChunk>();
+    const candidate = (id: string, metadata: VectorMetadata) => {
+        if (!candidates.has(id)) {
+            candidates.set(id, {
+                id,
+                metadata,
+                vectorScore: null,
+                lexicalScore: null,
+                fusedScore: 0,
+                relevance: 0,
+            });
+        }
+        return candidates.get(id)!;
+    };
+
+    // Dense (skipped for the zero vector generateEmbedding returns on failure)
+    if (isZeroVector(query.embedding)) {
+        console.warn(
+            `   ⚠️ Query embedding unavailable - lexical retrieval only (${namespace || "default"} namespace)`
+        );
+    } else {
+        const matches = await store.query({
+            vector: query.embedding,
+            topK: config.denseTopK,
+            namespace,
+        });
+        matches
+            .filter((match) => match.score >= config.minVectorScore)
+            .forEach((match, rank) => {
+                const c = candidate(match.id, match.metadata);
+                c.vectorScore = match.score;
+                c.fusedScore += 1 / (config.rrfK + rank + 1);
+            });
+    }
+
+    // Lexical
+    try {
+        const lexical = await getLexicalIndex(
+            store,
+            namespace,
+            config.lexicalRefreshSeconds
+        );
+        lexical.bm25
+            .search(query.keywords || query.text, config.lexicalTopK)
+            .forEach((hit, rank) => {
+                const c = candidate(hit.id, lexical.metadata.get(hit.id) || {});
+                c.lexicalScore = hit.score;
+                c.fusedScore += 1 / (config.rrfK + rank + 1);
+            });
+    } catch (error) {
+        console.error(
+            "Lexical retrieval failed, using vector hits only:",
+            error
+        );
+    }
+
+    const fused = [...candidates.values()]
+        .sort((a, b) => b.fusedScore - a.fusedScore)
+        .slice(0, config.rerankCandidates);
+
+    const scores = config.rerank
+        ? await rerankScores(
+              config.rerankModel,
+              query.text,
+              fused.map((c) =>
+                  String(c.metadata.text || documentText(c.metadata))
+              )
+          )
+        : null;
+    const bestFused = 2 / (config.rrfK + 1);
+    fused.forEach((c, i) => {
+        c.relevance = scores ? scores[i] : c.fusedScore / bestFused;
+    });
+
+    return fused
+        .filter((c) => c.relevance >= config.minRelevance)
+        .sort((a, b) => b.relevance - a.relevance)
+        .slice(0, config.topK);
+}
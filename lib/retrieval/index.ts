@@ -0,0 +1,25 @@
+/**
+ * Retrieval
+ * Hybrid search over the vector store for RAG
+ *
+ * 1. Dense: vector similarity (denseTopK, hits below minVectorScore dropped)
+ * 2. Lexical: BM25 over chunk text and names (lexicalTopK), so exact drug
+ *    and disease names and Roman Urdu terms match even when embeddings miss
+ * 3. Reciprocal-rank fusion of both lists (rrfK)
+ * 4. Local cross-encoder re-ranking of the top rerankCandidates; chunks below
+ *    minRelevance are dropped and topK returned
+ *
+ * Per deployment:
+ * - RAG_RETRIEVAL_CONFIG  JSON overrides, e.g. {"topK": 8, "rerank": false}
+ * - setRetrievalConfig()  programmatic overrides at startup
+ */
+
+export { createBM25Index, tokenize, type BM25Index } from "./bm25";
+export {
+    DEFAULT_RETRIEVAL_CONFIG,
+    getRetrievalConfig,
+    setRetrievalConfig,
+} from "./config";
+export { hybridSearch } from "./hybrid-search";
+export { rerankScores } from "./rerank";
+export * from "./types";
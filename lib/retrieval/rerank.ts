@@ -0,0 +1,62 @@
+// The parts of a transformers.js tokenizer/model pair the re-ranker calls
+interface CrossEncoder {
+    tokenizer: (
+        text: string[],
+        options: { text_pair: string[]; padding: boolean; truncation: boolean }
+    ) => unknown;
+    model: (
+        inputs: unknown
+    ) => Promise<{ logits: { data: ArrayLike<number> } }>;
+}
+
+// One load per model; a failed load stays null so retrieval falls back to
+// fused ranking instead of retrying the download on every query
+const encoders = new Map<string, Promise<CrossEncoder | null>>();
+
+async function loadCrossEncoder(name: string): Promise<CrossEncoder | null> {
+    try {
+        console.log(`📥 Loading re-ranking model (${name})...`);
+        const { AutoModelForSequenceClassification, AutoTokenizer } =
+            await import("@xenova/transformers");
+        const [tokenizer, model] = await Promise.all([
+            AutoTokenizer.from_pretrained(name),
+            AutoModelForSequenceClassification.from_pretrained(name),
+        ]);
+        return {
+            tokenizer: tokenizer as unknown as CrossEncoder["tokenizer"],
+            model: model as unknown as CrossEncoder["model"],
+        };
+    } catch (error) {
+        console.error(`Re-ranking model ${name} unavailable:`, error);
+        return null;
+    }
+}
+
+/**
+ * Relevance (0-1) of each passage to the query from a local cross-encoder,
+ * or null when the model is unavailable
+ */
+export async function rerankScores(
+    modelName: string,
+    query: string,
+    passages: string[]
+): Promise<number[] | null> {
+    if (passages.length === 0) return [];
+    if (!encoders.has(modelName)) {
+        encoders.set(modelName, loadCrossEncoder(modelName));
+    }
+    const encoder = await encoders.get(modelName)!;
+    if (!encoder) return null;
+
+    try {
+        const inputs = encoder.tokenizer(
+            new Array(passages.length).fill(query),
+            { text_pair: passages, padding: true, truncation: true }
+        );
+        const { logits } = await encoder.model(inputs);
+        return Array.from(logits.data, (logit) => 1 / (1 + Math.exp(-logit)));
+    } catch (error) {
+        console.error("Re-ranking failed:", error);
+        return null;
+    }
+}
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import type { VectorMetadata } from "../vector-store";
+
+export const RetrievalConfigSchema = z.object({
+    topK: z.number().int().min(1), // chunks returned
+    denseTopK: z.number().int().min(1), // vector candidates
+    lexicalTopK: z.number().int().min(1), // BM25 candidates
+    minVectorScore: z.number().min(-1).max(1), // weaker dense hits are ignored
+    rrfK: z.number().min(1), // reciprocal-rank fusion constant
+    rerank: z.boolean(),
+    rerankModel: z.string().min(1), // cross-encoder, run locally
+    rerankCandidates: z.number().int().min(1), // fused candidates re-ranked
+    minRelevance: z.number().min(0).max(1), // chunks below this are dropped
+    lexicalRefreshSeconds: z.number().min(0), // BM25 index rebuild interval
+});
+
+export type RetrievalConfig = z.infer<typeof RetrievalConfigSchema>;
+
+export interface HybridQuery {
+    text: string; // what the chunks should answer (re-ranker input)
+    keywords?: string; // lexical query, defaults to text
+    embedding: number[];
+    namespace?: string;
+}
+
+export interface RetrievedChunk {
+    id: string;
+    metadata: VectorMetadata;
+    vectorScore: number | null; // cosine similarity, null if not a dense hit
+    lexicalScore: number | null; // BM25, null if not a lexical hit
+    fusedScore: number; // reciprocal-rank fusion
+    relevance: number; // 0-1: cross-encoder probability, or normalized fusion
+}
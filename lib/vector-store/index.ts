@@ -0,0 +1,66 @@
+/**
+ * Vector Store
+ * Where the RAG knowledge base lives, behind one interface
+ *
+ * Stores:
+ * - pinecone: hosted Pinecone index (PINECONE_API_KEY, PINECONE_INDEX_NAME)
+ * - local:    flat on-disk index (LOCAL_VECTOR_STORE_PATH), no network
+ *
+ * Selection (env):
+ * - VECTOR_STORE  pinecone | local (default: pinecone when PINECONE_API_KEY
+ *                 is set, otherwise local)
+ */
+
+import { createLocalStore } from "./local-store";
+import { createPineconeStore } from "./pinecone-store";
+import type { VectorStore } from "./types";
+
+const factories = new Map<string, () => VectorStore>([
+    ["pinecone", createPineconeStore],
+    ["local", () => createLocalStore()],
+]);
+
+// One store instance, for the registry name it was created from
+let active: { name: string; store: VectorStore } | null = null;
+
+/**
+ * Register (or replace) a store, e.g. pgvector in a self-hosted deployment
+ */
+export function registerVectorStore(
+    name: string,
+    factory: () => VectorStore
+): void {
+    factories.set(name, factory);
+    if (active?.name === name) active = null;
+}
+
+/**
+ * Resolve which store serves this deployment
+ */
+export function getVectorStoreName(): string {
+    return (
+        process.env.VECTOR_STORE ||
+        (process.env.PINECONE_API_KEY ? "pinecone" : "local")
+    ).toLowerCase();
+}
+
+/**
+ * Get the vector store for this deployment
+ */
+export function getVectorStore(): VectorStore {
+    const name = getVectorStoreName();
+    if (active?.name === name) return active.store;
+
+    const factory = factories.get(name);
+    if (!factory) {
+        throw new Error(
+            `Unknown vector store "${name}". Available: ${[...factories.keys()].join(", ")}`
+        );
+    }
+
+    console.log(`🗂️ Vector store: ${name}`);
+    active = { name, store: factory() };
+    return active.store;
+}
+
+export * from "./types";
@@ -0,0 +1,165 @@
+import { mkdir, readFile, rename, stat, writeFile } from "fs/promises";
+import path from "path";
+import {
+    EMBEDDING_DIMENSION,
+    EMBEDDING_MODEL,
+    type VectorMatch,
+    type VectorQuery,
+    type VectorRecord,
+    type VectorStore,
+} from "./types";
+
+// On-disk layout: one JSON file, records grouped by namespace
+interface LocalIndexFile {
+    model: string;
+    dimension: number;
+    namespaces: Record<string, VectorRecord[]>;
+}
+
+function norm(vector: number[]): number {
+    return Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+}
+
+function cosine(a: number[], aNorm: number, b: number[]): number {
+    const bNorm = norm(b);
+    if (aNorm === 0 || bNorm === 0) return 0;
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return dot / (aNorm * bNorm);
+}
+
+function matchesFilter(
+    record: VectorRecord,
+    filter: VectorQuery["filter"]
+): boolean {
+    if (!filter) return true;
+    return Object.entries(filter).every(([key, expected]) => {
+        const value = record.metadata[key];
+        return Array.isArray(value)
+            ? value.includes(String(expected))
+            : value === expected;
+    });
+}
+
+function checkDimension(vector: number[]): void {
+    if (vector.length !== EMBEDDING_DIMENSION) {
+        throw new Error(
+            `Local vector store expects ${EMBEDDING_DIMENSION}-dim ${EMBEDDING_MODEL} embeddings, got ${vector.length}`
+        );
+    }
+}
+
+/**
+ * Flat on-disk index (LOCAL_VECTOR_STORE_PATH) searched by brute-force cosine
+ * similarity - enough for a clinic-sized knowledge base, no external service.
+ * The file is re-read when another process (e.g. ingestion) has changed it.
+ */
+export function createLocalStore(
+    filePath = process.env.LOCAL_VECTOR_STORE_PATH ||
+        path.join(process.cwd(), ".vector-store", "index.json")
+): VectorStore {
+    let cache: LocalIndexFile | null = null;
+    let cacheMtime = 0;
+
+    async function load(): Promise<LocalIndexFile> {
+        const mtime = await stat(filePath).then(
+            (s) => s.mtimeMs,
+            () => 0
+        );
+        if (cache && mtime === cacheMtime) return cache;
+
+        cache = mtime
+            ? (JSON.parse(await readFile(filePath, "utf-8")) as LocalIndexFile)
+            : {
+                  model: EMBEDDING_MODEL,
+                  dimension: EMBEDDING_DIMENSION,
+                  namespaces: {},
+              };
+        cacheMtime = mtime;
+
+        if (cache.model !== EMBEDDING_MODEL) {
+            throw new Error(
+                `${filePath} was built with ${cache.model}, expected ${EMBEDDING_MODEL}`
+            );
+        }
+        return cache;
+    }
+
+    // Write to a temp file and rename, so readers never see half a file
+    async function save(index: LocalIndexFile): Promise<void> {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(index));
+        await rename(tmpPath, filePath);
+        cache = index;
+        cacheMtime = (await stat(filePath)).mtimeMs;
+    }
+
+    return {
+        name: "local",
+
+        async query({ vector, topK, namespace = "", filter }) {
+            checkDimension(vector);
+            const index = await load();
+            const queryNorm = norm(vector);
+
+            const matches: VectorMatch[] = (index.namespaces[namespace] || [])
+                .filter((record) => matchesFilter(record, filter))
+                .map((record) => ({
+                    id: record.id,
+                    score: cosine(vector, queryNorm, record.values),
+                    metadata: record.metadata,
+                }));
+
+            return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+        },
+
+        async upsert(records, namespace = "") {
+            records.forEach((record) => checkDimension(record.values));
+            const index = await load();
+
+            const byId = new Map(
+                (index.namespaces[namespace] || []).map((r) => [r.id, r])
+            );
+            for (const record of records) byId.set(record.id, record);
+
+            await save({
+                ...index,
+                namespaces: {
+                    ...index.namespaces,
+                    [namespace]: [...byId.values()],
+                },
+            });
+        },
+
+        async delete(ids, namespace = "") {
+            if (ids.length === 0) return;
+            const index = await load();
+            const remove = new Set(ids);
+
+            await save({
+                ...index,
+                namespaces: {
+                    ...index.namespaces,
+                    [namespace]: (index.namespaces[namespace] || []).filter(
+                        (r) => !remove.has(r.id)
+                    ),
+                },
+            });
+        },
+
+        async listIds(prefix, namespace = "") {
+            const index = await load();
+            return (index.namespaces[namespace] || [])
+                .map((r) => r.id)
+                .filter((id) => id.startsWith(prefix));
+        },
+
+        async scan(namespace = "") {
+            const index = await load();
+            return (index.namespaces[namespace] || []).map(
+                ({ id, metadata }) => ({ id, metadata })
+            );
+        },
+    };
+}
@@ -0,0 +1,89 @@
+import { Pinecone } from "@pinecone-database/pinecone";
+import type { VectorDocument, VectorMetadata, VectorStore } from "./types";
+
+// Upserts and fetches are sent in batches Pinecone accepts in one request
+const UPSERT_BATCH_SIZE = 100;
+const FETCH_BATCH_SIZE = 100;
+
+/**
+ * Pinecone-backed store (PINECONE_API_KEY, PINECONE_INDEX_NAME)
+ * The client is created on first use so offline deployments can still
+ * import this module.
+ */
+export function createPineconeStore(): VectorStore {
+    let pinecone: Pinecone | null = null;
+    const indexName = process.env.PINECONE_INDEX_NAME || "medical-fast-search";
+
+    const getIndex = (namespace = "") => {
+        if (!pinecone) {
+            pinecone = new Pinecone({
+                apiKey: process.env.PINECONE_API_KEY!,
+            });
+        }
+        return pinecone.index(indexName).namespace(namespace);
+    };
+
+    const listIds = async (prefix: string, namespace?: string) => {
+        const ids: string[] = [];
+        let paginationToken: string | undefined;
+        do {
+            const page = await getIndex(namespace).listPaginated({
+                prefix,
+                paginationToken,
+            });
+            page.vectors?.forEach((v) => v.id && ids.push(v.id));
+            paginationToken = page.pagination?.next;
+        } while (paginationToken);
+        return ids;
+    };
+
+    return {
+        name: "pinecone",
+
+        async query({ vector, topK, namespace, filter }) {
+            const results = await getIndex(namespace).query({
+                vector,
+                topK,
+                includeMetadata: true,
+                ...(filter ? { filter } : {}),
+            });
+            return (results.matches || []).map((match) => ({
+                id: match.id,
+                score: match.score || 0,
+                metadata: (match.metadata || {}) as VectorMetadata,
+            }));
+        },
+
+        async upsert(records, namespace) {
+            for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+                await getIndex(namespace).upsert(
+                    records.slice(i, i + UPSERT_BATCH_SIZE)
+                );
+            }
+        },
+
+        async delete(ids, namespace) {
+            if (ids.length === 0) return;
+            await getIndex(namespace).deleteMany(ids);
+        },
+
+        listIds,
+
+        async scan(namespace) {
+            const ids = await listIds("", namespace);
+            const documents: VectorDocument[] = [];
+            for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+                const { records } = await getIndex(namespace).fetch(
+                    ids.slice(i, i + FETCH_BATCH_SIZE)
+                );
+                Object.values(records).forEach((record) =>
+                    documents.push({
+                        id: record.id,
+                        metadata: (record.metadata || {}) as VectorMetadata,
+                    })
+                );
+            }
+            return documents;
+        },
+    };
+}
@@ -0,0 +1,51 @@
+// Every store holds embeddings from the same local model (generateEmbedding
+// in lib/agents/llm-utils.ts), so indexes built by one work with the other
+export const EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+export const EMBEDDING_DIMENSION = 384;
+
+// What generateEmbedding returns when the model fails: no direction, so it
+// must never be cached, stored or used as a dense query
+export function isZeroVector(values: number[]): boolean {
+    return !values.some((v) => v !== 0);
+}
+
+// Same value types Pinecone accepts as metadata
+export type VectorMetadataValue = string | number | boolean | string[];
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+export interface VectorRecord {
+    id: string;
+    values: number[];
+    metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+    id: string;
+    score: number; // cosine similarity
+    metadata: VectorMetadata;
+}
+
+// A record without its vector
+export interface VectorDocument {
+    id: string;
+    metadata: VectorMetadata;
+}
+
+export interface VectorQuery {
+    vector: number[];
+    topK: number;
+    namespace?: string; // "" = default namespace
+    // Exact-match metadata filter; for list values, the list must contain it
+    filter?: Record<string, string | number | boolean>;
+}
+
+export interface VectorStore {
+    name: string;
+    query(query: VectorQuery): Promise<VectorMatch[]>;
+    upsert(records: VectorRecord[], namespace?: string): Promise<void>;
+    delete(ids: string[], namespace?: string): Promise<void>;
+    // Ids starting with prefix, e.g. every chunk of one ingested source
+    listIds(prefix: string, namespace?: string): Promise<string[]>;
+    // Every record's metadata, e.g. to build a lexical (BM25) index
+    scan(namespace?: string): Promise<VectorDocument[]>;
+}
@@ -0,0 +1,144 @@
+/**
+ * Red flag recall on the labelled corpus
+ *
+ *   npm run eval:red-flags -- [--min-recall <0-1>] [--verbose]
+ *
+ * Runs the red-flag rules (lib/agents/red-flags.ts) on every utterance of
+ * lib/agents/fixtures/red-flag-corpus.json and reports per language:
+ *   critical recall  critical utterances caught by the critical rules
+ *   urgent recall    urgent utterances caught by any rule
+ *   false alarms     non-emergency utterances any rule fired on
+ *
+ * --min-recall  exit with 1 when the overall critical recall is lower
+ *               (npm test runs it with 0.95)
+ * --verbose     list every miss and false alarm
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+  CRITICAL_RED_FLAGS,
+  URGENT_FLAGS,
+  detectRedFlags,
+} from '../lib/agents/red-flags';
+
+type Language = 'en' | 'roman' | 'ur';
+type Level = 'critical' | 'urgent' | 'none';
+
+interface Utterance {
+  text: string;
+  language: Language;
+  level: Level;
+}
+
+const CORPUS = path.join(
+  __dirname,
+  '../lib/agents/fixtures/red-flag-corpus.json'
+);
+const LANGUAGES: Language[] = ['en', 'roman', 'ur'];
+const ALL_RULES = [...CRITICAL_RED_FLAGS, ...URGENT_FLAGS];
+
+function parseArgs(argv: string[]) {
+  const args: { minRecall?: number; verbose: boolean } = { verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--verbose') {
+      args.verbose = true;
+    } else if (arg === '--min-recall') {
+      const value = Number(argv[++i]);
+      if (!(value >= 0 && value <= 1)) {
+        throw new Error('--min-recall needs a value between 0 and 1');
+      }
+      args.minRecall = value;
+    } else {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+  }
+  return args;
+}
+
+// Whether the rules the level calls for fire on the utterance
+function caught(utterance: Utterance): boolean {
+  const rules = utterance.level === 'critical' ? CRITICAL_RED_FLAGS : ALL_RULES;
+  return detectRedFlags(rules, [utterance.text]).length > 0;
+}
+
+function rate(hits: number, total: number): string {
+  return total === 0
+    ? '   -  '
+    : `${((hits / total) * 100).toFixed(1).padStart(5)}%`;
+}
+
+function count(
+  utterances: Utterance[],
+  level: Level
+): { hits: number; total: number } {
+  const matching = utterances.filter(u => u.level === level);
+  return {
+    hits: matching.filter(u => caught(u)).length,
+    total: matching.length,
+  };
+}
+
+async function main() {
+  const { minRecall, verbose } = parseArgs(process.argv.slice(2));
+  const { utterances } = JSON.parse(await readFile(CORPUS, 'utf-8')) as {
+    utterances: Utterance[];
+  };
+
+  console.log(`\n🚨 Red flag corpus: ${utterances.length} utterances\n`);
+  console.log('language  critical          urgent            false alarms');
+
+  const rows = [...LANGUAGES, 'all' as const].map(language => {
+    const subset =
+      language === 'all'
+        ? utterances
+        : utterances.filter(u => u.language === language);
+    const critical = count(subset, 'critical');
+    const urgent = count(subset, 'urgent');
+    const calm = count(subset, 'none');
+
+    console.log(
+      `${language.padEnd(8)}  ` +
+        `${rate(critical.hits, critical.total)}  (n=${critical.total})`.padEnd(
+          18
+        ) +
+        `${rate(urgent.hits, urgent.total)}  (n=${urgent.total})`.padEnd(18) +
+        `${rate(calm.hits, calm.total)}  (n=${calm.total})`
+    );
+    return { language, critical };
+  });
+
+  if (verbose) {
+    const misses = utterances.filter(u => u.level !== 'none' && !caught(u));
+    const alarms = utterances.filter(u => u.level === 'none' && caught(u));
+    console.log(`\n   missed (${misses.length}):`);
+    misses.forEach(u =>
+      console.log(`     - [${u.language}/${u.level}] ${u.text}`)
+    );
+    console.log(`   false alarms (${alarms.length}):`);
+    alarms.forEach(u =>
+      console.log(
+        `     - [${u.language}] ${u.text} → ${detectRedFlags(ALL_RULES, [
+          u.text,
+        ])
+          .map(r => r.flag)
+          .join('; ')}`
+      )
+    );
+  }
+
+  const overall = rows.find(r => r.language === 'all')!.critical;
+  const recall = overall.total ? overall.hits / overall.total : 1;
+  if (minRecall !== undefined && recall < minRecall) {
+    console.error(
+      `\n❌ Critical recall ${(recall * 100).toFixed(1)}% is below ${minRecall * 100}%`
+    );
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
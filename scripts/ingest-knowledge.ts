@@ -0,0 +1,115 @@
+/**
+ * Medical knowledge base ingestion
+ *
+ *   npm run ingest:knowledge -- <file> [--source <name>] [--version <tag>] [--dry-run]
+ *   npm run ingest:knowledge -- --delete <source> [--dry-run]
+ *
+ * --source   defaults to the file name, --version to a hash of the file, so
+ *            re-running on an unchanged file rewrites the same chunks
+ * --dry-run  validate and chunk only; report what would be written/removed
+ *
+ * Writes to the store selected by VECTOR_STORE (see lib/vector-store).
+ */
+
+import 'dotenv/config';
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { generateEmbedding } from '../lib/agents/llm-utils';
+import {
+  deleteKnowledgeSource,
+  ingestKnowledgeFile,
+  type IngestReport,
+} from '../lib/knowledge-base';
+
+const USAGE = `Usage:
+  npm run ingest:knowledge -- <file.csv|.jsonl|.md> [--source <name>] [--version <tag>] [--dry-run]
+  npm run ingest:knowledge -- --delete <source> [--dry-run]`;
+
+function parseArgs(argv: string[]) {
+  const args: { file?: string; flags: Record<string, string | true> } = {
+    flags: {},
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const next = argv[i + 1];
+      const takesValue = ['--source', '--version', '--delete'].includes(arg);
+      if (takesValue && (!next || next.startsWith('--'))) {
+        throw new Error(`${arg} needs a value`);
+      }
+      args.flags[arg.slice(2)] = takesValue ? argv[++i] : true;
+    } else if (!args.file) {
+      args.file = arg;
+    } else {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+  }
+  return args;
+}
+
+function printReport(report: IngestReport) {
+  console.log(`\n📚 ${report.source}@${report.version} → ${report.store}`);
+  console.log(`   entries: ${report.entries}, chunks: ${report.chunks}`);
+  if (report.previousVersions.length) {
+    console.log(`   already stored: ${report.previousVersions.join(', ')}`);
+  }
+  console.log(
+    `   stale chunks ${report.dryRun ? 'to remove' : 'removed'}: ${report.replaced}`
+  );
+  if (report.skipped.length) {
+    console.log(`   ⚠️ skipped ${report.skipped.length}:`);
+    report.skipped.forEach(s =>
+      console.log(`     - ${s.location}: ${s.error}`)
+    );
+  }
+  if (report.dryRun) console.log('   (dry run - nothing was written)');
+}
+
+async function main() {
+  const { file, flags } = parseArgs(process.argv.slice(2));
+  const dryRun = flags['dry-run'] === true;
+
+  if (typeof flags.delete === 'string') {
+    const report = await deleteKnowledgeSource(flags.delete, { dryRun });
+    console.log(
+      `\n🗑️ ${report.source} (${report.versions.join(', ') || 'not found'}): ` +
+        `${report.deleted} chunks ${dryRun ? 'would be deleted' : 'deleted'} from ${report.store}`
+    );
+    return;
+  }
+
+  if (!file) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const source =
+    typeof flags.source === 'string'
+      ? flags.source
+      : path.basename(file, path.extname(file)).replace(/[^\w.-]+/g, '-');
+  const version =
+    typeof flags.version === 'string'
+      ? flags.version
+      : createHash('sha256')
+          .update(await readFile(file))
+          .digest('hex')
+          .slice(0, 8);
+
+  printReport(
+    await ingestKnowledgeFile(file, {
+      source,
+      version,
+      dryRun,
+      embed: generateEmbedding,
+    })
+  );
+}
+
+main()
+  .then(() => process.exit())
+  .catch(e => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+  });